@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import mongoose from "mongoose"
+import { AttemptController } from "@/lib/controllers/AttemptController"
+
+/**
+ * POST /api/attempts/[id]/hints
+ * Révèle l'indice suivant d'une question (évaluations formatives et entraînement).
+ * Chaque indice révélé retire config.hints.penaltyPerHint % des points de la question.
+ * Body: { questionId }
+ * Returns: { hints (indices révélés), hintsUsed, hintsAvailable, penaltyPerHint }
+ */
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid attempt ID" },
+            { status: 400 }
+        )
+    }
+
+    await connectDB()
+    return AttemptController.revealHint(req, id, session.user.id)
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import mongoose from "mongoose"
+import { AttemptController } from "@/lib/controllers/AttemptController"
+
+/**
+ * GET /api/attempts/[id]/next-question
+ * Examen adaptatif : met à jour l'estimation de compétence avec les dernières
+ * réponses (POST /api/attempts/answer) puis sert la question suivante.
+ * Returns: { completed, question?, ability, standardError, scaledScore, itemsAdministered, maxItems, stopReason? }
+ */
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid attempt ID" },
+            { status: 400 }
+        )
+    }
+
+    await connectDB()
+    return AttemptController.getNextQuestion(id, session.user.id)
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import mongoose from "mongoose"
+import { AttemptController } from "@/lib/controllers/AttemptController"
+
+/**
+ * POST /api/attempts/[id]/next-section
+ * Examen en plusieurs parties : termine la partie active et démarre la suivante.
+ * La partie quittée ne peut plus être rouverte ; le temps d'une partie est contrôlé
+ * par le serveur (la partie suivante démarre d'elle-même à l'expiration).
+ * Returns: { currentSection (-1 après la dernière partie), sections }
+ */
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    const { id } = await params
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid attempt ID" },
+            { status: 400 }
+        )
+    }
+
+    await connectDB()
+    return AttemptController.advanceSection(id, session.user.id)
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import mongoose from "mongoose"
+import { AttemptController } from "@/lib/controllers/AttemptController"
+
+/**
+ * GET /api/attempts/[id]/questions/[questionId]
+ * Sert une question de la tentative. Pour une question chronométrée (timeLimit),
+ * le premier appel démarre sa limite de temps : une réponse reçue après la limite
+ * est notée zéro (timeLimitExceeded).
+ * Returns: { question, servedAt?, deadline? }
+ */
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string; questionId: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    const { id, questionId } = await params
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(questionId)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid attempt or question ID" },
+            { status: 400 }
+        )
+    }
+
+    await connectDB()
+    return AttemptController.serveQuestion(id, session.user.id, questionId)
+}
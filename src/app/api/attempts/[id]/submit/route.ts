@@ -11,7 +11,10 @@ import { AttemptController } from "@/lib/controllers/AttemptController"
  *   responses: Array<{
  *     questionId: string
  *     selectedOptionId?: string
+ *     selectedOptionIds?: string[] // QCM à réponses multiples
  *     textAnswer?: string
+ *     matches?: Array<{ optionId: string, matchOptionId: string }> // Association : matchOptionId = id d'un matchChoices
+ *     orderedOptionIds?: string[] // Classement
  *     timeSpent?: number
  *   }>
  * }
@@ -59,6 +59,13 @@ export async function POST(req: Request) {
             )
         }
 
+        if (error.message.includes("Question pool")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 409 }
+            )
+        }
+
         return NextResponse.json(
             { success: false, message: error.message || "Internal server error" },
             { status: 500 }
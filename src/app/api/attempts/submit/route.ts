@@ -1,16 +1,21 @@
 import { NextResponse } from "next/server"
 import connectDB from "@/lib/mongodb"
-import Attempt from "@/models/Attempt"
-import Response from "@/models/Response"
 import Question from "@/models/Question"
 import Exam from "@/models/Exam"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { examSubmissionLimiter, getClientIdentifier, createRateLimitResponse } from "@/lib/security/rateLimiter"
-import { validateExamSubmission, calculateScore, detectCheatingPatterns } from "@/lib/security/examSecurity"
+import { detectCheatingPatterns } from "@/lib/security/examSecurity"
 import { sanitizeObjectId } from "@/lib/security/sanitize"
 import { ImmediateFeedbackService } from "@/lib/services/ImmediateFeedbackService"
-
+import { questionsForAttempt } from "@/lib/shuffle"
+import { AttemptService } from "@/lib/services/AttemptService"
+
+/**
+ * POST /api/attempts/submit
+ * Submit an attempt with the answers saved during it (POST /api/attempts/answer)
+ * Body: { attemptId }
+ */
 export async function POST(req: Request) {
     try {
         // Apply rate limiting to prevent spam submissions
@@ -36,90 +41,40 @@ export async function POST(req: Request) {
             return NextResponse.json({ message: "Invalid attempt ID" }, { status: 400 })
         }
 
-        const attempt = await Attempt.findById(attemptId).lean()
-
-        if (!attempt || attempt.userId.toString() !== session.user.id) {
-            return NextResponse.json({ message: "Invalid attempt" }, { status: 403 })
-        }
-
-        if (attempt.status === "COMPLETED") {
-            return NextResponse.json({ message: "Already completed" }, { status: 400 })
-        }
-
-        // Get all responses for this attempt
-        const responses = await Response.find({ attemptId }).lean()
-
-        // Get exam and questions for validation
-        const exam = await Exam.findById(attempt.examId).lean()
-        const questions = await Question.find({ examId: attempt.examId }).lean()
-
-        if (!exam) {
-            return NextResponse.json({ message: "Exam not found" }, { status: 404 })
-        }
-
-        // Validate submission
-        const validation = validateExamSubmission(attempt, responses, questions)
-        if (!validation.valid) {
-            console.error(`[SECURITY] Invalid submission attempt: ${validation.errors.join(', ')}`)
-            return NextResponse.json(
-                { message: "Invalid submission", errors: validation.errors },
-                { status: 400 }
-            )
-        }
-
-        // Calculate score securely on server side
-        const score = calculateScore(responses, questions)
-        const maxScore = questions.reduce((sum, q: any) => sum + (q.points || 1), 0)
-
-        console.log(`[SUBMIT] Calculating score for attempt ${attemptId}`)
-        console.log(`[SUBMIT] Total responses: ${responses.length}`)
-        console.log(`[SUBMIT] Final score: ${score} / ${maxScore}`)
-
-        // Update attempt with final score
-        const submittedAt = new Date()
-        await Attempt.findByIdAndUpdate(attemptId, {
-            status: "COMPLETED",
-            submittedAt,
-            score,
-        })
+        // Score, checks and events are those of the attempt submission service,
+        // with the answers saved during the attempt
+        const result = await AttemptService.submitSavedAttempt(attemptId, session.user.id)
+        const { attempt, evaluation } = result
+        const score = evaluation.score
+        const maxScore = evaluation.maxScore
 
         // Detect potential cheating patterns
-        const cheatingCheck = detectCheatingPatterns(
-            { ...attempt, submittedAt, score },
-            responses
-        )
+        const cheatingCheck = detectCheatingPatterns(attempt, result.responses)
 
         if (cheatingCheck.suspicious) {
             console.warn(`[SECURITY] Suspicious activity detected for attempt ${attemptId}: ${cheatingCheck.reasons.join(', ')}`)
             // Log for teacher review but don't block submission
         }
 
+        const exam = await Exam.findById(attempt.examId).lean()
+        const questions = questionsForAttempt(
+            await Question.find({ examId: attempt.examId }).lean(),
+            attempt
+        )
+
         // Generate immediate feedback if enabled
         let feedback = null
-        const enableImmediateFeedback = (exam as any).config?.enableImmediateFeedback || false
+        const enableImmediateFeedback = (exam as any)?.config?.enableImmediateFeedback || false
         const isFormativeEval = ['FORMATIVE_EVAL', 'SELF_ASSESSMENT', 'DIAGNOSTIC_EVAL', 'REMEDIATION'].includes(
-            (exam as any).pedagogicalObjective
+            (exam as any)?.pedagogicalObjective
         )
 
-        if (enableImmediateFeedback || isFormativeEval) {
-            // Build responses with isCorrect flag for feedback generation
-            const responsesWithCorrectness = responses.map((r: any) => {
-                const question = questions.find((q: any) => q._id.toString() === r.questionId?.toString())
-
-                let isCorrect = false
-                if (question) {
-                    const correctOptionIds = (question as any).options
-                        ?.filter((o: any) => o.isCorrect)
-                        .map((o: any) => o._id?.toString() || o.id) || []
-
-                    isCorrect = correctOptionIds.includes(r.selectedOptionId?.toString())
-                }
-
-                return {
-                    questionId: r.questionId?.toString(),
-                    isCorrect
-                }
-            })
+        if (exam && (enableImmediateFeedback || isFormativeEval)) {
+            // Correctness as graded at submission
+            const responsesWithCorrectness = result.responses.map((r: any) => ({
+                questionId: r.questionId?.toString(),
+                isCorrect: !!r.isCorrect
+            }))
 
             // Generate comprehensive exam feedback
             feedback = ImmediateFeedbackService.generateExamFeedback(
@@ -146,11 +101,24 @@ export async function POST(req: Request) {
             message: "Submitted",
             score,
             maxScore,
-            percentage: maxScore > 0 ? Math.round((score / maxScore) * 100) : 0,
+            percentage: evaluation.percentage,
             feedback // Will be null if immediate feedback is disabled
         })
     } catch (error: any) {
         console.error(error)
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json({ message: error.message }, { status: 404 })
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json({ message: "Invalid attempt" }, { status: 403 })
+        }
+
+        if (error.message.includes("not in progress")) {
+            return NextResponse.json({ message: "Already completed" }, { status: 400 })
+        }
+
         return NextResponse.json(
             { message: error.message || "Something went wrong" },
             { status: 500 }
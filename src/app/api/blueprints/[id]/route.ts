@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { BlueprintController } from "@/lib/controllers/BlueprintController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter et définir des blueprints
+const BLUEPRINT_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * GET /api/blueprints/[id]
+ * Détail d'un tableau de spécification (Teacher, Inspector)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !BLUEPRINT_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid blueprint ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.getBlueprint(id);
+}
+
+/**
+ * PUT /api/blueprints/[id]
+ * Met à jour un tableau de spécification (auteur uniquement)
+ * Body: champs de POST /api/blueprints, tous facultatifs
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !BLUEPRINT_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid blueprint ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.updateBlueprint(req, id, session.user.id);
+}
+
+/**
+ * DELETE /api/blueprints/[id]
+ * Archive un tableau de spécification (auteur uniquement)
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !BLUEPRINT_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid blueprint ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.archiveBlueprint(id, session.user.id);
+}
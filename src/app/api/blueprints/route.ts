@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { BlueprintController } from "@/lib/controllers/BlueprintController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter et définir des blueprints
+const BLUEPRINT_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * GET /api/blueprints
+ * Liste des tableaux de spécification (Teacher, Inspector)
+ * Query: subject, syllabus, mine (true = mes blueprints), includeArchived
+ */
+export async function GET(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !BLUEPRINT_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.listBlueprints(req, session.user.id);
+}
+
+/**
+ * POST /api/blueprints
+ * Crée un tableau de spécification (Teacher, Inspector)
+ * Body: {
+ *   title, description?, subject, syllabus?, targetLevels?, totalPoints, duration (minutes),
+ *   rows: [{ concept? | learningUnit?, difficulty, count, points? }]
+ * }
+ */
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !BLUEPRINT_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.createBlueprint(req, session.user.id);
+}
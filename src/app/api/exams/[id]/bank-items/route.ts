@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QuestionBankController } from "@/lib/controllers/QuestionBankController";
+
+/**
+ * POST /api/exams/[id]/bank-items
+ * Ajoute des questions de la banque à un examen en brouillon (copie de la version courante)
+ * Body: { itemIds: string[] }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return QuestionBankController.addItemsToExam(req, id, session.user.id);
+}
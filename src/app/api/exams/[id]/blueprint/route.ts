@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { BlueprintController } from "@/lib/controllers/BlueprintController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter et définir des blueprints
+const BLUEPRINT_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * GET /api/exams/[id]/blueprint
+ * Couverture du tableau de spécification par les questions de l'examen (auteur, Inspector)
+ * Query: blueprintId (facultatif, sinon le blueprint rattaché à l'examen)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !BLUEPRINT_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.getExamCoverage(req, id, session.user.id, session.user.role as UserRole);
+}
+
+/**
+ * POST /api/exams/[id]/blueprint
+ * Assemble un examen en brouillon depuis la banque selon un tableau de spécification (Teacher only)
+ * Body: { blueprintId }
+ * Réponse : les questions ajoutées et la couverture obtenue (lacunes restantes)
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return BlueprintController.assembleExam(req, id, session.user.id);
+}
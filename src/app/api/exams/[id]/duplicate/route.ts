@@ -61,6 +61,7 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
             endTime: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // Next week
             duration: originalExam.duration,
             closeMode: originalExam.closeMode,
+            sections: originalExam.sections || [],
 
             // Status - always start as DRAFT
             status: ExamStatus.DRAFT,
@@ -90,6 +91,10 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
                 },
                 lateDuration: originalExam.config?.lateDuration ?? 0,
                 delayResultsUntilLateEnd: originalExam.config?.delayResultsUntilLateEnd ?? true,
+                questionPool: originalExam.config?.questionPool,
+                adaptive: originalExam.config?.adaptive,
+                hints: originalExam.config?.hints,
+                negativeMarking: originalExam.config?.negativeMarking,
             },
 
             // Reset stats for the new exam
@@ -114,19 +119,30 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
 
             const newQuestion = await Question.create({
                 examId: duplicatedExam._id,
+                sourceQuestionId: question.sourceQuestionId,
+                sourceVersion: question.sourceVersion,
                 text: question.text,
                 imageUrl: question.imageUrl,
                 audioUrl: question.audioUrl,
                 type: question.type,
                 points: question.points,
                 difficulty: question.difficulty,
+                irt: question.irt,
                 timeLimit: question.timeLimit,
+                wrongAnswerPenalty: question.wrongAnswerPenalty,
                 correctAnswer: question.correctAnswer,
                 modelAnswer: question.modelAnswer,
                 openQuestionConfig: question.openQuestionConfig,
+                qcmConfig: question.qcmConfig,
+                numericConfig: question.numericConfig,
+                mathConfig: question.mathConfig,
+                clozeConfig: question.clozeConfig,
                 explanation: question.explanation,
                 hints: question.hints,
                 tags: question.tags,
+                concepts: question.concepts,
+                competencyCriteria: question.competencyCriteria,
+                sectionId: question.sectionId,
                 order: question.order,
                 // Reset stats for the new question
                 stats: {
@@ -137,6 +153,24 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
                 },
             })
 
+            // Trace the reuse of the question bank item in the new exam
+            if (question.sourceQuestionId) {
+                await Question.updateOne(
+                    { _id: question.sourceQuestionId, bank: { $exists: true } },
+                    {
+                        $push: {
+                            'bank.usageHistory': {
+                                examId: duplicatedExam._id,
+                                questionId: newQuestion._id,
+                                version: question.sourceVersion,
+                                usedBy: session.user.id,
+                                usedAt: new Date(),
+                            }
+                        }
+                    }
+                )
+            }
+
             // Duplicate options if any
             if (options.length > 0) {
                 await Option.insertMany(
@@ -144,6 +178,8 @@ export async function POST(req: Request, { params }: { params: Promise<{ id: str
                         questionId: newQuestion._id,
                         text: option.text,
                         isCorrect: option.isCorrect,
+                        matchText: option.matchText,
+                        correctPosition: option.correctPosition,
                         imageUrl: option.imageUrl,
                         order: option.order,
                     }))
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ItemAnalysisController } from "@/lib/controllers/ItemAnalysisController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter l'analyse des items
+const ANALYSIS_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * GET /api/exams/[id]/item-analysis
+ * Analyse des items d'un examen à partir des tentatives terminées (auteur, Inspector) :
+ * indice de difficulté, indice de discrimination (groupes 27 %), corrélation
+ * point-bisériale, analyse des distracteurs et questions à revoir
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !ANALYSIS_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ItemAnalysisController.analyzeExam(id, session.user.id, session.user.role as UserRole);
+}
@@ -87,7 +87,7 @@ export async function GET(
             updatedAt: examDoc.updatedAt?.toISOString(),
             questions: questions.map(q => ({
                 id: q._id.toString(),
-                examId: q.examId.toString(),
+                examId: q.examId?.toString(),
                 text: q.text,
                 imageUrl: q.imageUrl,
                 points: q.points,
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QtiController } from "@/lib/controllers/QtiController";
+
+/**
+ * GET /api/exams/[id]/qti
+ * Exporte l'examen au format IMS QTI 2.1 (paquet zip : manifeste, test, un item par question)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return QtiController.exportExam(req, id, session.user.id);
+}
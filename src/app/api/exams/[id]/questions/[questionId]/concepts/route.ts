@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ConceptMasteryController } from "@/lib/controllers/ConceptMasteryController";
+
+/**
+ * PUT /api/exams/[id]/questions/[questionId]/concepts
+ * Rattache une question de l'examen à des concepts pondérés (Teacher only, auteur de l'examen)
+ * Body: { concepts: [{ concept, weight? (défaut 1) }] }
+ */
+export async function PUT(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string; questionId: string }> }
+) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id, questionId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(questionId)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam or question ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ConceptMasteryController.setQuestionConcepts(req, id, questionId, session.user.id);
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import { UserRole } from "@/models/enums"
+import { ExamWorkflowController } from "@/lib/controllers/ExamWorkflowController"
+
+/**
+ * POST /api/exams/[id]/reject
+ * Rejette un examen ou demande des modifications à son auteur (Inspector/Teacher avec permissions)
+ * PENDING_VALIDATION → DRAFT
+ * Body: { reason, questionComments?: [{ questionId, content }] }
+ */
+export async function POST(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || !session.user.role) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    // Vérifier que l'utilisateur a un rôle pédagogique
+    const allowedRoles = [UserRole.TEACHER, UserRole.INSPECTOR]
+    if (!allowedRoles.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Forbidden: Only teachers and inspectors can reject exams" },
+            { status: 403 }
+        )
+    }
+
+    await connectDB()
+    const { id } = await params
+
+    return ExamWorkflowController.rejectExam(
+        req,
+        id,
+        session.user.id,
+        session.user.role as UserRole
+    )
+}
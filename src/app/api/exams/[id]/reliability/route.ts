@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ItemAnalysisController } from "@/lib/controllers/ItemAnalysisController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter la fidélité de l'examen
+const ANALYSIS_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * GET /api/exams/[id]/reliability
+ * Fidélité de l'examen (auteur, Inspector) : KR-20 ou alpha de Cronbach et erreur
+ * type de mesure, calculés après suffisamment de tentatives terminées, pour
+ * décider si l'examen peut être réutilisé avant d'approuver sa version suivante
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !ANALYSIS_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ItemAnalysisController.getReliability(id, session.user.id, session.user.role as UserRole);
+}
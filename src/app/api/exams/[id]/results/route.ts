@@ -5,6 +5,7 @@ import connectDB from "@/lib/mongodb"
 import Attempt, { AttemptStatus } from "@/models/Attempt"
 import Exam from "@/models/Exam"
 import User from "@/models/User"
+import { GradingScaleService } from "@/lib/services/GradingScaleService"
 
 /**
  * GET /api/exams/[id]/results
@@ -53,6 +54,14 @@ export async function GET(
         const completedAttempts = attempts.filter(a => a.status === AttemptStatus.COMPLETED)
         const scores = completedAttempts.map(a => a.percentage || 0)
 
+        // Grades are stored at submission; older attempts are converted with the current scale
+        const gradingScale = await GradingScaleService.resolveScale(exam)
+        const grades = new Map(completedAttempts.map(a => [
+            a._id.toString(),
+            a.grade ?? GradingScaleService.convert(gradingScale, a.percentage || 0)
+        ]))
+        const marks = [...grades.values()].filter(g => typeof g.mark === 'number').map(g => g.mark!)
+
         const stats = {
             totalAttempts: attempts.length,
             completedAttempts: completedAttempts.length,
@@ -65,7 +74,10 @@ export async function GET(
                 : 0,
             averageTimeSpent: completedAttempts.length > 0
                 ? Math.round(completedAttempts.reduce((acc, a) => acc + (a.timeSpent || 0), 0) / completedAttempts.length)
-                : 0
+                : 0,
+            averageMark: marks.length > 0
+                ? Math.round((marks.reduce((a, b) => a + b, 0) / marks.length) * 100) / 100
+                : undefined
         }
 
         // Calculate score distribution
@@ -85,6 +97,17 @@ export async function GET(
             else distribution[4].count++
         })
 
+        // Mentions / letter grades, highest band first
+        const gradeDistribution = [...gradingScale.bands]
+            .sort((a, b) => b.minPercentage - a.minPercentage)
+            .map(band => ({ label: band.label, count: 0 }))
+        grades.forEach(grade => {
+            if (!grade.label) return
+            let entry = gradeDistribution.find(d => d.label === grade.label)
+            if (!entry) gradeDistribution.push(entry = { label: grade.label, count: 0 })
+            entry.count++
+        })
+
         // Format attempts for frontend
         const formattedAttempts = attempts.map(attempt => {
             const user = attempt.userId as any
@@ -102,6 +125,7 @@ export async function GET(
                 maxScore: attempt.maxScore || 0,
                 percentage: attempt.percentage || 0,
                 passed: attempt.passed,
+                grade: grades.get(attempt._id.toString()),
 
                 timeSpent: attempt.timeSpent || 0,
                 timeSpentFormatted: attempt.timeSpent ? `${attempt.timeSpent}m` : '-',
@@ -122,10 +146,16 @@ export async function GET(
                     id: exam._id,
                     title: exam.title,
                     duration: exam.duration,
-                    passingScore: exam.config?.passingScore || 50
+                    passingScore: exam.config?.passingScore || 50,
+                    gradingScale: {
+                        name: gradingScale.name,
+                        markScale: gradingScale.markScale,
+                        bands: gradingScale.bands
+                    }
                 },
                 stats,
                 distribution,
+                gradeDistribution,
                 attempts: formattedAttempts
             }
         })
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ExamReviewController } from "@/lib/controllers/ExamReviewController";
+import { UserRole } from "@/models/enums";
+
+// Rôles pouvant participer à la revue d'un examen (auteur et validateurs)
+const REVIEW_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * POST /api/exams/[id]/review-comments/[commentId]/replies
+ * Répond à un fil de commentaires ; la réponse rouvre un fil résolu (auteur, validateurs)
+ * Body: { content }
+ */
+export async function POST(
+    req: NextRequest,
+    { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !REVIEW_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id, commentId } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(commentId)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam or comment ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ExamReviewController.replyToComment(req, commentId, session.user.id, session.user.role as UserRole);
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ExamReviewController } from "@/lib/controllers/ExamReviewController";
+import { UserRole } from "@/models/enums";
+
+// Rôles pouvant participer à la revue d'un examen (auteur et validateurs)
+const REVIEW_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+/**
+ * GET /api/exams/[id]/review-comments
+ * Fils de commentaires de revue de l'examen (auteur, validateurs)
+ * Query: questionId (facultatif), includeResolved (facultatif)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !REVIEW_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ExamReviewController.listComments(req, id, session.user.id, session.user.role as UserRole);
+}
+
+/**
+ * POST /api/exams/[id]/review-comments
+ * Ouvre un fil de commentaires sur l'examen ou sur une de ses questions (auteur, validateurs)
+ * Body: { content, questionId? }
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !REVIEW_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ExamReviewController.addComment(req, id, session.user.id, session.user.role as UserRole);
+}
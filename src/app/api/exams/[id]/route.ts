@@ -9,6 +9,7 @@ import LateCode from "@/models/LateCode"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import { z } from "zod"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
 
 const examSchema = z.object({
     title: z.string().min(3),
@@ -68,6 +69,7 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
                 },
                 { new: true }
             )
+            await ExamVersionService.snapshot(id, session.user.id, 'update')
             return NextResponse.json({
                 message: "Exam updated. Questions were not modified because students have already taken this exam.",
                 exam: updatedExam,
@@ -115,6 +117,8 @@ export async function PUT(req: Request, { params }: { params: Promise<{ id: stri
             )
         }
 
+        await ExamVersionService.snapshot(id, session.user.id, 'update')
+
         return NextResponse.json({ message: "Exam updated successfully", exam: updatedExam })
     } catch (error: any) {
         console.error(error)
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import { UserRole } from "@/models/enums"
+import { ExamWorkflowController } from "@/lib/controllers/ExamWorkflowController"
+
+// Rôles autorisés à programmer un examen (créateur, validateur ou inspecteur)
+const SCHEDULE_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR]
+
+/**
+ * PUT /api/exams/[id]/schedule
+ * Programme la publication (dès que l'examen est validé), la clôture à endTime + lateDuration
+ * et l'archivage automatique d'un examen
+ * Body: { publishAt?: date ISO | null, autoClose?, autoArchive?, archiveDelay? (heures après la clôture) }
+ */
+export async function PUT(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || !SCHEDULE_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    await connectDB()
+    const { id } = await params
+
+    return ExamWorkflowController.scheduleExam(req, id, session.user.id, session.user.role as UserRole)
+}
+
+/**
+ * DELETE /api/exams/[id]/schedule
+ * Annule la programmation d'un examen
+ */
+export async function DELETE(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id || !SCHEDULE_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    await connectDB()
+    const { id } = await params
+
+    return ExamWorkflowController.cancelSchedule(id, session.user.id, session.user.role as UserRole)
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ExamSectionController } from "@/lib/controllers/ExamSectionController";
+import { UserRole } from "@/models/enums";
+
+/**
+ * PUT /api/exams/[id]/sections
+ * Découpe un examen en brouillon en parties chronométrées (auteur uniquement)
+ * Body: {
+ *   sections: [{ _id?, title, instructions?, duration (minutes), points?, shuffleQuestions?,
+ *                shuffleOptions?, allowBackNavigation? (défaut true), questionIds }]
+ * }
+ * Les parties se déroulent dans l'ordre de la liste ; la durée de l'examen devient la somme
+ * de leurs durées. Une liste vide supprime le découpage.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== UserRole.TEACHER) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ExamSectionController.setSections(req, id, session.user.id);
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QuestionSpreadsheetController } from "@/lib/controllers/QuestionSpreadsheetController";
+
+/**
+ * POST /api/exams/[id]/spreadsheet/preview
+ * Prévisualise un modèle de questions rempli (XLSX/CSV) sans rien enregistrer (Teacher only)
+ * multipart/form-data: { file }
+ * Réponse : les lignes lues (à renvoyer pour validation), l'aperçu des questions et les erreurs par ligne
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return QuestionSpreadsheetController.preview(req, id, session.user.id);
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QuestionSpreadsheetController } from "@/lib/controllers/QuestionSpreadsheetController";
+
+/**
+ * POST /api/exams/[id]/spreadsheet
+ * Ajoute à un examen en brouillon les questions valides des lignes prévisualisées (Teacher only)
+ * Body: { rows: lignes renvoyées par /spreadsheet/preview, éventuellement corrigées }
+ * Réponse : les questions créées et le rapport par ligne
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return QuestionSpreadsheetController.commit(req, id, session.user.id);
+}
@@ -2,18 +2,24 @@ import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import connectDB from "@/lib/mongodb"
-import Exam from "@/models/Exam"
+import Exam, { IExam } from "@/models/Exam"
 import Syllabus from "@/models/Syllabus"
 import Class from "@/models/Class"
 import Notification from "@/models/Notification"
-import { ExamStatus, UserRole } from "@/models/enums"
+import { ExamStatus, ExamWorkflowAction, UserRole } from "@/models/enums"
 import { EventPublisher } from "@/lib/events/EventPublisher"
 import { EventType } from "@/lib/events/types"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
+import { ExamWorkflowService } from "@/lib/services/ExamWorkflowService"
 import mongoose from "mongoose"
 
 /**
  * PATCH /api/exams/[id]/status
  * Update exam status (workflow management)
+ * Workflow transitions go through ExamWorkflowService so that its checks
+ * (validation policy, blueprint, sections, permissions) always apply.
+ * Validation is a reviewer action: use POST /api/exams/[id]/validate.
+ * Moving back to DRAFT withdraws a submission still pending validation.
  * When publishing, notify all students in classes linked to the syllabus
  */
 export async function PATCH(
@@ -22,7 +28,7 @@ export async function PATCH(
 ) {
     try {
         const session = await getServerSession(authOptions)
-        if (!session?.user?.id) {
+        if (!session?.user?.id || !session.user.role) {
             return NextResponse.json(
                 { success: false, message: "Unauthorized" },
                 { status: 401 }
@@ -39,68 +45,63 @@ export async function PATCH(
             )
         }
 
-        await connectDB()
-
-        const exam = await Exam.findById(id)
-            .populate('subject', 'name')
-            .populate('targetLevels', 'name')
-
-        if (!exam) {
-            return NextResponse.json(
-                { success: false, message: "Exam not found" },
-                { status: 404 }
-            )
-        }
-
-        // Check ownership
-        if (exam.createdById.toString() !== session.user.id) {
+        if (status === ExamStatus.VALIDATED) {
             return NextResponse.json(
-                { success: false, message: "Unauthorized to modify this exam" },
-                { status: 403 }
+                { success: false, message: "Exams are validated by a reviewer through POST /api/exams/[id]/validate" },
+                { status: 400 }
             )
         }
 
-        const previousStatus = exam.status
-        exam.status = status
+        await connectDB()
+        const userRole = session.user.role as UserRole
 
-        // Handle specific status transitions
-        if (status === ExamStatus.PUBLISHED) {
-            exam.isPublished = true
-            exam.publishedAt = new Date()
+        let exam: IExam
+        if (status === ExamStatus.PENDING_VALIDATION) {
+            exam = await ExamWorkflowService.submitForValidation(id, session.user.id)
+        } else if (status === ExamStatus.PUBLISHED) {
+            exam = await ExamWorkflowService.publishExam(id, session.user.id, userRole)
 
             // Notify students in classes linked to the syllabus
+            await exam.populate('subject', 'name')
             await notifyStudentsAboutExam(exam, session.user.id)
+        } else if (status === ExamStatus.ARCHIVED) {
+            exam = await ExamWorkflowService.archiveExam(id, session.user.id, userRole)
+        } else {
+            exam = await withdrawSubmission(id, session.user.id)
         }
 
-        if (status === ExamStatus.VALIDATED) {
-            exam.validatedBy = new mongoose.Types.ObjectId(session.user.id)
-            exam.validatedAt = new Date()
-        }
-
-        await exam.save()
-
-        // Publish event
-        const publisher = EventPublisher.getInstance()
-        await publisher.publish({
-            type: EventType.EXAM_STATUS_CHANGED,
-            timestamp: new Date(),
-            userId: new mongoose.Types.ObjectId(session.user.id),
-            data: {
-                examId: exam._id,
-                previousStatus,
-                newStatus: status,
-                title: exam.title
-            }
-        })
-
         return NextResponse.json({
             success: true,
             data: exam,
-            message: `Exam status updated to ${status}`
+            message: `Exam status updated to ${exam.status}`
         })
 
     } catch (error: any) {
         console.error("[Exam Status API] Error:", error)
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            )
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            )
+        }
+
+        if (error.message.includes("Cannot") || error.message.includes("Question pool") ||
+            error.message.includes("blueprint") || error.message.toLowerCase().includes("section") ||
+            error.message.includes("must be before")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            )
+        }
+
         return NextResponse.json(
             { success: false, message: error.message || "Internal server error" },
             { status: 500 }
@@ -108,6 +109,43 @@ export async function PATCH(
     }
 }
 
+/**
+ * Withdraw a submission pending validation: PENDING_VALIDATION → DRAFT (author only)
+ */
+async function withdrawSubmission(examId: string, userId: string) {
+    const exam = await Exam.findById(examId)
+    if (!exam) throw new Error("Exam not found")
+
+    if (exam.createdById.toString() !== userId) {
+        throw new Error("Unauthorized to modify this exam")
+    }
+    if (exam.status !== ExamStatus.PENDING_VALIDATION) {
+        throw new Error(`Cannot move exam with status ${exam.status} back to draft`)
+    }
+
+    exam.status = ExamStatus.DRAFT
+    exam.validationProgress = undefined
+    exam.recordTransition(ExamWorkflowAction.STATUS_CHANGE, ExamStatus.PENDING_VALIDATION, userId)
+    await exam.save()
+    await ExamVersionService.snapshot(examId, userId, 'status')
+
+    // Publish event
+    const publisher = EventPublisher.getInstance()
+    await publisher.publish({
+        type: EventType.EXAM_STATUS_CHANGED,
+        timestamp: new Date(),
+        userId: new mongoose.Types.ObjectId(userId),
+        data: {
+            examId: exam._id,
+            previousStatus: ExamStatus.PENDING_VALIDATION,
+            newStatus: ExamStatus.DRAFT,
+            title: exam.title
+        }
+    })
+
+    return exam
+}
+
 /**
  * Notify all students in classes linked to the exam's syllabus
  */
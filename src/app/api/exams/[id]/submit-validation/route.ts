@@ -52,6 +52,14 @@ export async function POST(
             )
         }
 
+        if (error.message.includes("Question pool") || error.message.includes("blueprint") ||
+            error.message.toLowerCase().includes("section")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            )
+        }
+
         return NextResponse.json(
             { success: false, message: error.message || "Internal server error" },
             { status: 500 }
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QuestionTextImportController } from "@/lib/controllers/QuestionTextImportController";
+
+/**
+ * POST /api/exams/[id]/text-import
+ * Importe des questions Moodle GIFT ou Aiken à la fin d'un examen en brouillon (Teacher only)
+ * multipart/form-data: { file: fichier .gift ou .txt, format?: 'GIFT' | 'AIKEN' }
+ * Réponse : les questions créées et le rapport d'import (erreurs par ligne)
+ */
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return QuestionTextImportController.importIntoExam(req, id, session.user.id);
+}
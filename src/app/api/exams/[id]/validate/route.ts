@@ -3,12 +3,15 @@ import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
 import connectDB from "@/lib/mongodb"
 import { ExamWorkflowService } from "@/lib/services/ExamWorkflowService"
-import { UserRole } from "@/models/enums"
+import { ExamStatus, UserRole } from "@/models/enums"
 
 /**
  * POST /api/exams/[id]/validate
  * Valide un examen (Inspector/Teacher avec permissions)
  * PENDING_VALIDATION → VALIDATED
+ * Avec une politique de validation à plusieurs étapes, approuve l'étape ouverte
+ * du validateur ; l'examen reste en attente jusqu'à la dernière approbation.
+ * Body (facultatif): { comment }
  */
 export async function POST(
     req: Request,
@@ -34,17 +37,22 @@ export async function POST(
 
         await connectDB()
         const { id } = await params
+        const body = await req.json().catch(() => ({}))
+        const comment = typeof body?.comment === "string" && body.comment.trim() ? body.comment.trim() : undefined
 
         const exam = await ExamWorkflowService.validateExam(
             id,
             session.user.id,
-            session.user.role as UserRole
+            session.user.role as UserRole,
+            comment
         )
 
         return NextResponse.json({
             success: true,
             data: exam,
-            message: "Exam validated successfully"
+            message: exam.status === ExamStatus.VALIDATED
+                ? "Exam validated successfully"
+                : "Validation step approved; awaiting remaining reviewers"
         })
     } catch (error: any) {
         console.error("[ValidateExam API] Error:", error)
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ExamVersionController } from "@/lib/controllers/ExamVersionController";
+
+/**
+ * GET /api/exams/[id]/versions/[version]
+ * Contenu complet d'une version : champs de l'examen, questions et options figés (auteur uniquement)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string; version: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id, version } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid exam ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ExamVersionController.getVersion(req, id, version, session.user.id);
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import connectDB from "@/lib/mongodb"
+import { UserRole } from "@/models/enums"
+import { ExamWorkflowController } from "@/lib/controllers/ExamWorkflowController"
+
+/**
+ * GET /api/exams/[id]/workflow
+ * Historique du workflow d'un examen : transitions de statut enregistrées
+ * (soumission, validation, rejet, publication, archivage...) avec leur auteur
+ */
+export async function GET(
+    req: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await getServerSession(authOptions)
+    const allowedRoles = [UserRole.TEACHER, UserRole.INSPECTOR]
+    if (!session?.user?.id || !allowedRoles.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        )
+    }
+
+    await connectDB()
+    const { id } = await params
+
+    return ExamWorkflowController.getWorkflowHistory(id)
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { QtiController } from "@/lib/controllers/QtiController";
+
+/**
+ * POST /api/exams/qti
+ * Importe un paquet IMS QTI 2.1 dans un nouvel examen DRAFT (Teacher only)
+ * multipart/form-data: {
+ *   file: paquet zip,
+ *   exam?: JSON des champs absents du paquet (subject, subSystem, targetLevels, startTime, endTime...)
+ * }
+ * Réponse : l'examen créé et le rapport d'import (items ignorés et avertissements)
+ */
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return QtiController.importExam(req, session.user.id);
+}
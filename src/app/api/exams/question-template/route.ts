@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { QuestionSpreadsheetController } from "@/lib/controllers/QuestionSpreadsheetController";
+
+/**
+ * GET /api/exams/question-template
+ * Télécharge le modèle XLSX de saisie des questions (Teacher only)
+ */
+export async function GET() {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    return QuestionSpreadsheetController.downloadTemplate();
+}
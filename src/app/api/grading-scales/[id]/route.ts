@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { GradingScaleController } from "@/lib/controllers/GradingScaleController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter les échelles de notation
+const VIEWER_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+// Rôles autorisés à définir des échelles de notation
+const MANAGER_ROLES = [UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+
+/**
+ * GET /api/grading-scales/[id]
+ * Détail d'une échelle de notation
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !VIEWER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid grading scale ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return GradingScaleController.getScale(id);
+}
+
+/**
+ * PUT /api/grading-scales/[id]
+ * Met à jour une échelle de notation ; les tentatives déjà corrigées conservent leur note
+ * Body: champs de POST /api/grading-scales, tous facultatifs
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !MANAGER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid grading scale ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return GradingScaleController.updateScale(req, id, session.user.id);
+}
+
+/**
+ * DELETE /api/grading-scales/[id]
+ * Désactive une échelle de notation
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !MANAGER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid grading scale ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return GradingScaleController.deactivateScale(id, session.user.id);
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { GradingScaleController } from "@/lib/controllers/GradingScaleController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter les échelles de notation
+const VIEWER_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+// Rôles autorisés à définir des échelles de notation
+const MANAGER_ROLES = [UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+
+/**
+ * GET /api/grading-scales
+ * Liste des échelles de notation (hors inspecteurs : celles de mes établissements)
+ * Query: school, subSystem, includeInactive
+ */
+export async function GET(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !VIEWER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return GradingScaleController.listScales(req, session.user.id, session.user.role as UserRole);
+}
+
+/**
+ * POST /api/grading-scales
+ * Crée une échelle de notation (Inspector, School admin, Principal pour leurs établissements)
+ * Body: {
+ *   name, description?, school?, subSystem? (au moins l'un des deux), markScale? (ex : 20),
+ *   bands: [{ minPercentage, label, gradePoint? }]
+ * }
+ * Sans échelle, un examen est noté sur 20 avec mention (francophone) ou en lettres et GPA (anglophone).
+ */
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !MANAGER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return GradingScaleController.createScale(req, session.user.id);
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QuestionBankController } from "@/lib/controllers/QuestionBankController";
+
+async function authorize(params: Promise<{ id: string }>) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return {
+            error: NextResponse.json(
+                { success: false, message: "Unauthorized" },
+                { status: 401 }
+            )
+        };
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return {
+            error: NextResponse.json(
+                { success: false, message: "Invalid question bank item ID" },
+                { status: 400 }
+            )
+        };
+    }
+
+    await connectDB();
+    return { id, userId: session.user.id };
+}
+
+/**
+ * GET /api/question-bank/[id]
+ * Récupère un élément de la banque avec ses options
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const auth = await authorize(params);
+    if (auth.error) return auth.error;
+    return QuestionBankController.getItem(req, auth.id, auth.userId);
+}
+
+/**
+ * PUT /api/question-bank/[id]
+ * Modifie un élément (auteur uniquement) et incrémente sa version.
+ * Les examens existants conservent leur copie.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const auth = await authorize(params);
+    if (auth.error) return auth.error;
+    return QuestionBankController.updateItem(req, auth.id, auth.userId);
+}
+
+/**
+ * DELETE /api/question-bank/[id]
+ * Archive un élément de la banque (auteur uniquement)
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const auth = await authorize(params);
+    if (auth.error) return auth.error;
+    return QuestionBankController.archiveItem(req, auth.id, auth.userId);
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { QuestionBankController } from "@/lib/controllers/QuestionBankController";
+
+/**
+ * GET /api/question-bank/[id]/usage
+ * Historique d'utilisation d'un élément de la banque (examens, versions utilisées)
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid question bank item ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return QuestionBankController.getUsageHistory(req, id, session.user.id);
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { QuestionTextImportController } from "@/lib/controllers/QuestionTextImportController";
+
+/**
+ * POST /api/question-bank/import
+ * Importe des questions Moodle GIFT ou Aiken dans la banque (Teacher only)
+ * multipart/form-data: {
+ *   file: fichier .gift ou .txt, format?: 'GIFT' | 'AIKEN',
+ *   subject, syllabus?, concept?, visibility?: 'PRIVATE' | 'SCHOOL', school?
+ * }
+ * Réponse : les éléments créés et le rapport d'import (erreurs par ligne)
+ */
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return QuestionTextImportController.importIntoBank(req, session.user.id);
+}
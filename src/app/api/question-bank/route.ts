@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { QuestionBankController } from "@/lib/controllers/QuestionBankController";
+
+/**
+ * GET /api/question-bank
+ * Recherche dans la banque de questions (Teacher only)
+ * Query: q, subject, syllabus, concept, difficulty, type, tags (csv), scope (mine|school|all), limit, skip
+ */
+export async function GET(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return QuestionBankController.searchItems(req, session.user.id);
+}
+
+/**
+ * POST /api/question-bank
+ * Ajoute une question à la banque (Teacher only)
+ * Body: {
+ *   text, type, subject, syllabus?, concept?, difficulty?, points?,
+ *   visibility?: 'PRIVATE' | 'SCHOOL', school?, options?: [{ text, isCorrect }]
+ * }
+ */
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || session.user.role !== "TEACHER") {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return QuestionBankController.createItem(req, session.user.id);
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { ConceptMasteryController } from "@/lib/controllers/ConceptMasteryController";
+
+/**
+ * GET /api/self-assessment/mastery
+ * Maîtrise des concepts mesurée à partir des réponses corrigées, avec le niveau
+ * auto-déclaré et l'écart entre les deux (Student)
+ * Query: syllabusId (facultatif)
+ */
+export async function GET(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return ConceptMasteryController.getStudentMastery(req, session.user.id);
+}
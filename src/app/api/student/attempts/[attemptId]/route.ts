@@ -8,6 +8,7 @@ import Question from "@/models/Question";
 import Option from "@/models/Option";
 import Response from "@/models/Response";
 import { isPast, addMinutes, isAfter } from "date-fns";
+import { questionsForAttempt } from "@/lib/shuffle";
 
 interface RouteParams {
     params: Promise<{ attemptId: string }>
@@ -87,7 +88,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         }
 
         // Fetch questions and options
-        const questionsDoc = await Question.find({ examId: examDoc._id }).lean();
+        const questionsDoc = questionsForAttempt(
+            await Question.find({ examId: examDoc._id }).lean(),
+            attemptDoc
+        );
         const questionIds = questionsDoc.map(q => q._id);
         const optionsDoc = await Option.find({ questionId: { $in: questionIds } }).lean();
 
@@ -107,7 +111,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             updatedAt: examDoc.updatedAt.toISOString(),
             questions: questionsDoc.map(q => ({
                 id: q._id.toString(),
-                examId: q.examId.toString(),
+                examId: q.examId?.toString(),
                 text: q.text,
                 imageUrl: q.imageUrl,
                 type: q.type || 'QCM',
@@ -115,6 +119,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
                 modelAnswer: q.modelAnswer,
                 explanation: q.explanation,
                 points: q.points,
+                timeLimit: q.timeLimit,
+                multipleAnswers: q.qcmConfig?.multipleAnswers || false,
+                numericConfig: q.numericConfig,
+                mathConfig: q.mathConfig,
+                clozeConfig: q.clozeConfig,
                 options: optionsDoc
                     .filter(o => o.questionId.toString() === q._id.toString())
                     .map(o => ({
@@ -122,6 +131,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
                         questionId: o.questionId.toString(),
                         text: o.text,
                         isCorrect: o.isCorrect,
+                        matchText: o.matchText,
+                        correctPosition: o.correctPosition,
                     }))
             }))
         };
@@ -135,14 +146,27 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             submittedAt: attemptDoc.submittedAt?.toISOString(),
             status: attemptDoc.status,
             score: attemptDoc.score,
+            grade: attemptDoc.grade,
             resumeToken: attemptDoc.resumeToken,
             responses: responsesDoc.map(r => ({
                 id: r._id.toString(),
                 attemptId: r.attemptId.toString(),
                 questionId: r.questionId.toString(),
                 selectedOptionId: r.selectedOptionId?.toString() || "",
+                selectedOptionIds: (r.selectedOptionIds || []).map(id => id.toString()),
+                matches: r.matches?.map(m => ({
+                    optionId: m.optionId.toString(),
+                    matchOptionId: m.matchOptionId.toString(),
+                })),
+                orderedOptionIds: r.orderedOptionIds?.map(id => id.toString()),
+                blankAnswers: r.blankAnswers,
+                partialScore: r.partialScore,
                 textResponse: r.textResponse || "",
                 isCorrect: r.isCorrect,
+                // Réponse reçue après la limite de temps de la question (notée zéro)
+                timeLimitExceeded: r.timeLimitExceeded || false,
+                answeredAt: r.answeredAt?.toISOString(),
+                hintsUsed: r.hintsRevealed?.length || 0,
             }))
         };
 
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { CompetencyEvaluationController } from "@/lib/controllers/CompetencyEvaluationController";
+
+/**
+ * GET /api/student/competencies
+ * Tableau de bord des compétences d'un élève : niveau d'acquisition par compétence
+ * et par critère, dernière évaluation et tendance
+ * Query: studentId (personnel uniquement, défaut : utilisateur courant), subjectId (facultatif)
+ */
+export async function GET(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return CompetencyEvaluationController.getDashboard(req, session.user.id, session.user.role as string);
+}
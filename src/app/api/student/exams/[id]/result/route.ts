@@ -7,6 +7,7 @@ import Question from "@/models/Question";
 import Attempt from "@/models/Attempt";
 import Response from "@/models/Response";
 import { addMinutes, isAfter, isPast } from "date-fns";
+import { questionsForAttempt } from "@/lib/shuffle";
 
 interface RouteParams {
     params: Promise<{ id: string }>
@@ -39,10 +40,6 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             );
         }
 
-        // Fetch questions for max score calculation
-        const questionsDoc = await Question.find({ examId: id }).lean();
-        const maxScore = questionsDoc.reduce((acc: number, q: any) => acc + (q.points || 1), 0);
-
         // Fetch student's attempt
         const attemptDoc = await Attempt.findOne({
             examId: id,
@@ -56,6 +53,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             );
         }
 
+        // Fetch questions for max score calculation (the attempt's draw for pooled exams)
+        const questionsDoc = questionsForAttempt(
+            await Question.find({ examId: id }).lean(),
+            attemptDoc
+        );
+        const maxScore = questionsDoc.reduce((acc: number, q: any) => acc + (q.points || 1), 0);
+
         // Calculate late exam period
         const now = new Date();
         const lateDuration = (examDoc.config as any)?.lateDuration || 0;
@@ -82,6 +86,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             submittedAt: attemptDoc.submittedAt?.toISOString(),
             status: attemptDoc.status,
             score: attemptDoc.score,
+            grade: attemptDoc.grade,
             resumeToken: attemptDoc.resumeToken,
         };
 
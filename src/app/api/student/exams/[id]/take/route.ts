@@ -5,10 +5,14 @@ import connectDB from "@/lib/mongodb";
 import Exam from "@/models/Exam";
 import Question from "@/models/Question";
 import Option from "@/models/Option";
-import Attempt from "@/models/Attempt";
+import Attempt, { AttemptStatus } from "@/models/Attempt";
 import Response from "@/models/Response";
 import Concept from "@/models/Concept";
 import { HuggingFaceService, type ReformulationIntensity } from "@/lib/services/HuggingFaceService";
+import { questionsForAttempt, shuffleWithSeed } from "@/lib/shuffle";
+import { activeSectionIndex, syncAttemptSections } from "@/lib/examSections";
+import { matchChoiceId } from "@/lib/security/examSecurity";
+import { EvaluationType } from "@/models/enums";
 
 interface RouteParams {
     params: Promise<{ id: string }>
@@ -41,32 +45,106 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             );
         }
 
+        // Fetch student's latest attempt (its draw defines the questions for pooled exams)
+        const attemptDoc = await Attempt.findOne({
+            examId: id,
+            userId: session.user.id,
+        }).sort({ startedAt: -1 }).lean();
+
+        // Sectioned exams: section timers run on the server, expired sections are closed here too
+        const sectionStates = attemptDoc?.sections?.map(section => ({ ...section }));
+        if (sectionStates) syncAttemptSections(sectionStates, new Date());
+        const sectionById = new Map((examDoc.sections || []).map(section => [section._id.toString(), section]));
+
         // Fetch questions and options
-        const questionsDoc = await Question.find({ examId: id }).lean();
+        // With a question pool, an adaptive or a sectioned exam, only the attempt's
+        // drawn/served questions are exposed (never the whole pool)
+        const usesPool = examDoc.config?.questionPool?.enabled || examDoc.evaluationType === EvaluationType.ADAPTIVE ||
+            sectionById.size > 0;
+        const allQuestionsDoc = await Question.find({ examId: id }).lean();
+        const attemptQuestionsDoc = usesPool && !attemptDoc?.questionIds
+            ? []
+            : questionsForAttempt(allQuestionsDoc, attemptDoc);
+        // Questions of sections not started yet stay hidden
+        const startedQuestionIds = sectionStates && new Set(sectionStates
+            .filter(section => section.startedAt)
+            .flatMap(section => section.questionIds.map(qid => qid.toString())));
+        const questionsDoc = startedQuestionIds
+            ? attemptQuestionsDoc.filter(q => startedQuestionIds.has(q._id.toString()))
+            : attemptQuestionsDoc;
         const questionIds = questionsDoc.map(q => q._id);
         const optionsDoc = await Option.find({ questionId: { $in: questionIds } })
-            .select('-isCorrect')
+            .select('-isCorrect -correctPosition')
             .lean();
+        const servedAtByQuestion = new Map((attemptDoc?.questionTimings || [])
+            .map(timing => [timing.questionId.toString(), timing.servedAt]));
+        const inProgress = attemptDoc?.status === AttemptStatus.STARTED;
+        const hintsByQuestion = new Map(questionsDoc.map(q => [q._id.toString(), q.hints || []]));
+        // Matching choices get IDs of their own, scoped to the attempt:
+        // they are only exposed once the attempt exists, as submissions are checked against it
+        const choiceScope = attemptDoc?._id.toString();
 
         // Build base questions array
-        let examQuestions = questionsDoc.map(q => ({
-            id: q._id.toString(),
-            examId: q.examId.toString(),
-            text: q.text,
-            type: q.type || 'QCM',
-            imageUrl: q.imageUrl,
-            points: q.points,
-            correctAnswer: q.correctAnswer,
-            modelAnswer: q.modelAnswer,
-            openQuestionConfig: q.openQuestionConfig,
-            options: optionsDoc
-                .filter(o => o.questionId.toString() === q._id.toString())
-                .map(o => ({
-                    id: o._id.toString(),
-                    questionId: o.questionId.toString(),
-                    text: o.text,
-                }))
-        }));
+        let examQuestions = questionsDoc.map(q => {
+            const questionOptions = optionsDoc.filter(o => o.questionId.toString() === q._id.toString());
+            const seed = `${session.user.id}-${q._id.toString()}`;
+            const shuffleOptions = !!(q.sectionId && sectionById.get(q.sectionId.toString())?.shuffleOptions);
+            const servedAt = servedAtByQuestion.get(q._id.toString());
+
+            const question = {
+                id: q._id.toString(),
+                examId: q.examId?.toString(),
+                text: q.text,
+                type: q.type || 'QCM',
+                imageUrl: q.imageUrl,
+                points: q.points,
+                sectionId: q.sectionId?.toString(),
+                // Indices : seul leur nombre est exposé (POST /api/attempts/[id]/hints les révèle)
+                hintCount: q.hints?.length || 0,
+                timeLimit: q.timeLimit,
+                servedAt: servedAt?.toISOString(),
+                deadline: servedAt && q.timeLimit
+                    ? new Date(servedAt.getTime() + q.timeLimit * 1000).toISOString()
+                    : undefined,
+                correctAnswer: q.correctAnswer,
+                modelAnswer: q.modelAnswer,
+                openQuestionConfig: q.openQuestionConfig,
+                multipleAnswers: q.qcmConfig?.multipleAnswers || false,
+                // Réponse numérique : seule l'unité attendue est exposée
+                unit: q.type === 'NUMERIC' ? q.numericConfig?.unit : undefined,
+                // Texte à trous : seuls les identifiants des trous sont exposés
+                blanks: q.type === 'CLOZE' ? q.clozeConfig?.blanks.map(b => ({ id: b.id })) : undefined,
+                // Classement : les étapes sont mélangées (l'ordre enregistré est la réponse)
+                // Partie avec mélange des options : ordre propre à chaque élève
+                options: (q.type === 'ORDERING' || shuffleOptions ? shuffleWithSeed(questionOptions, seed) : questionOptions)
+                    .map(o => ({
+                        id: o._id.toString(),
+                        questionId: o.questionId.toString(),
+                        text: o.text,
+                    })),
+                // Association : colonne B mélangée, identifiants de choix opaques (jamais celui de l'option qui le porte)
+                matchChoices: q.type === 'MATCHING' && choiceScope
+                    ? shuffleWithSeed(questionOptions.filter(o => o.matchText), seed).map(o => ({
+                        id: matchChoiceId(choiceScope, o._id.toString()),
+                        text: o.matchText,
+                    }))
+                    : undefined
+            };
+
+            // Timed question not served yet: its content comes from
+            // GET /api/attempts/[id]/questions/[questionId], which starts its time limit
+            if (inProgress && q.timeLimit && !servedAt) {
+                return {
+                    ...question,
+                    text: '',
+                    imageUrl: undefined,
+                    blanks: undefined,
+                    options: [] as typeof question.options,
+                    matchChoices: undefined
+                };
+            }
+            return question;
+        });
 
         // Check if AI reformulation is enabled
         const aiReformulation = examDoc.config?.antiCheat?.aiReformulation;
@@ -134,6 +212,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             endTime: examDoc.endTime.toISOString(),
             duration: examDoc.duration,
             closeMode: examDoc.closeMode,
+            sections: [...sectionById.values()]
+                .sort((a, b) => a.order - b.order)
+                .map(section => ({
+                    id: section._id.toString(),
+                    title: section.title,
+                    instructions: section.instructions,
+                    order: section.order,
+                    duration: section.duration,
+                    points: section.points,
+                    allowBackNavigation: section.allowBackNavigation,
+                })),
             config: examDoc.config,
             pedagogicalObjective: examDoc.pedagogicalObjective,
             syllabusId: examDoc.syllabus?.toString(),
@@ -144,12 +233,6 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
             questions: examQuestions
         };
 
-        // Fetch student's current attempt
-        const attemptDoc = await Attempt.findOne({
-            examId: id,
-            userId: session.user.id,
-        }).lean();
-
         let attempt = null;
         if (attemptDoc) {
             const responsesDoc = await Response.find({ attemptId: attemptDoc._id }).lean();
@@ -163,11 +246,31 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
                 status: attemptDoc.status,
                 score: attemptDoc.score,
                 resumeToken: attemptDoc.resumeToken,
+                currentSection: sectionStates ? activeSectionIndex(sectionStates) : undefined,
+                sections: sectionStates?.map(section => ({
+                    sectionId: section.sectionId.toString(),
+                    questionIds: section.questionIds.map(qid => qid.toString()),
+                    startedAt: section.startedAt?.toISOString(),
+                    expiresAt: section.expiresAt?.toISOString(),
+                    completedAt: section.completedAt?.toISOString(),
+                    furthestIndex: section.furthestIndex,
+                    allowBackNavigation: section.allowBackNavigation,
+                    score: section.score,
+                    maxScore: section.maxScore,
+                })),
                 responses: responsesDoc.map(r => ({
                     id: r._id.toString(),
                     attemptId: r.attemptId.toString(),
                     questionId: r.questionId.toString(),
                     selectedOptionId: r.selectedOptionId?.toString() || "",
+                    selectedOptionIds: (r.selectedOptionIds || []).map(id => id.toString()),
+                    matches: r.matches?.map(m => ({
+                        optionId: m.optionId.toString(),
+                        matchOptionId: matchChoiceId(attemptDoc._id.toString(), m.matchOptionId.toString()),
+                    })),
+                    orderedOptionIds: r.orderedOptionIds?.map(id => id.toString()),
+                    blankAnswers: r.blankAnswers?.map(b => ({ blankId: b.blankId, answer: b.answer })),
+                    hints: r.hintsRevealed?.map(h => hintsByQuestion.get(r.questionId.toString())?.[h.index]),
                     isCorrect: r.isCorrect,
                 }))
             };
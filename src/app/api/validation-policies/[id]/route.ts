@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+import { ValidationPolicyController } from "@/lib/controllers/ValidationPolicyController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter les politiques de validation
+const VIEWER_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+// Rôles autorisés à définir des politiques de validation
+const MANAGER_ROLES = [UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+
+/**
+ * GET /api/validation-policies/[id]
+ * Détail d'une politique de validation
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !VIEWER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid policy ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ValidationPolicyController.getPolicy(id);
+}
+
+/**
+ * PUT /api/validation-policies/[id]
+ * Met à jour une politique de validation ; les examens déjà soumis conservent leur circuit
+ * Body: champs de POST /api/validation-policies, tous facultatifs
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !MANAGER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid policy ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ValidationPolicyController.updatePolicy(req, id, session.user.id);
+}
+
+/**
+ * DELETE /api/validation-policies/[id]
+ * Désactive une politique de validation
+ */
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !MANAGER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    const { id } = await params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+        return NextResponse.json(
+            { success: false, message: "Invalid policy ID" },
+            { status: 400 }
+        );
+    }
+
+    await connectDB();
+    return ValidationPolicyController.deactivatePolicy(id, session.user.id);
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import connectDB from "@/lib/mongodb";
+import { ValidationPolicyController } from "@/lib/controllers/ValidationPolicyController";
+import { UserRole } from "@/models/enums";
+
+// Rôles autorisés à consulter les politiques de validation
+const VIEWER_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+// Rôles autorisés à définir des politiques de validation
+const MANAGER_ROLES = [UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL];
+
+/**
+ * GET /api/validation-policies
+ * Liste des politiques de validation des examens (hors inspecteurs : celles de mes établissements)
+ * Query: school, subject, includeInactive
+ */
+export async function GET(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !VIEWER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return ValidationPolicyController.listPolicies(req, session.user.id, session.user.role as UserRole);
+}
+
+/**
+ * POST /api/validation-policies
+ * Crée une politique de validation (Inspector, School admin, Principal pour leurs établissements)
+ * Body: {
+ *   name, description?, school?, subject? (au moins l'un des deux), pedagogicalObjectives?,
+ *   steps: [{ name, order, roles, requiredContribution?, reviewers?, quorum? (défaut 1), checkScope? (défaut true) }]
+ * }
+ * Les étapes de même ordre se déroulent en parallèle.
+ */
+export async function POST(req: NextRequest) {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id || !MANAGER_ROLES.includes(session.user.role as UserRole)) {
+        return NextResponse.json(
+            { success: false, message: "Unauthorized" },
+            { status: 401 }
+        );
+    }
+
+    await connectDB();
+    return ValidationPolicyController.createPolicy(req, session.user.id);
+}
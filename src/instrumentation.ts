@@ -0,0 +1,10 @@
+/**
+ * Initialisation du serveur Next.js
+ * Démarre le planificateur des examens sur le runtime Node.js uniquement.
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME === 'nodejs') {
+        const { startExamScheduler } = await import('@/lib/scheduler')
+        startExamScheduler()
+    }
+}
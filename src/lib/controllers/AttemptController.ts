@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
+import mongoose from "mongoose";
 import { AttemptService } from "@/lib/services/AttemptService";
+import { validateArrangementPayload, validateClozePayload } from "@/lib/security/examSecurity";
 
 export class AttemptController {
     static async recordAntiCheatEvent(req: Request, attemptId: string, userId: string) {
@@ -131,6 +133,17 @@ export class AttemptController {
                 );
             }
 
+            const payloadErrors = responses.map((r: any) => [
+                ...validateArrangementPayload(r || {}),
+                ...validateClozePayload(r || {})
+            ]).find((errors: string[]) => errors.length > 0);
+            if (payloadErrors) {
+                return NextResponse.json(
+                    { success: false, message: payloadErrors[0] },
+                    { status: 400 }
+                );
+            }
+
             const result = await AttemptService.submitAttempt(
                 attemptId,
                 userId,
@@ -142,6 +155,7 @@ export class AttemptController {
                 data: {
                     attempt: result.attempt,
                     evaluation: result.evaluation,
+                    grade: result.grade,
                     totalResponses: result.responses.length
                 },
                 message: "Attempt submitted and evaluated successfully"
@@ -203,10 +217,200 @@ export class AttemptController {
         }
     }
 
+    /**
+     * GET /api/attempts/[id]/next-question
+     * Serve the next question of an adaptive attempt
+     */
+    static async getNextQuestion(attemptId: string, userId: string) {
+        try {
+            const result = await AttemptService.getNextAdaptiveQuestion(attemptId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: result
+            });
+        } catch (error: any) {
+            console.error("[Attempt Controller] Next Question Error:", error);
+
+            if (error.message.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message.includes("Unauthorized")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message.includes("not in progress") ||
+                error.message.includes("not adaptive")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 400 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
+    /**
+     * POST /api/attempts/[id]/hints
+     * Reveal the next hint of a question
+     */
+    static async revealHint(req: Request, attemptId: string, userId: string) {
+        try {
+            const body = await req.json();
+            const { questionId } = body;
+
+            if (!questionId || !mongoose.Types.ObjectId.isValid(questionId)) {
+                return NextResponse.json(
+                    { success: false, message: "A valid questionId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const result = await AttemptService.revealHint(attemptId, userId, questionId);
+
+            return NextResponse.json({
+                success: true,
+                data: result
+            });
+        } catch (error: any) {
+            console.error("[Attempt Controller] Reveal Hint Error:", error);
+
+            if (error.message.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message.includes("Unauthorized")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message.includes("not in progress") ||
+                error.message.includes("not available") ||
+                error.message.includes("No more hints") ||
+                error.message.includes("active section") ||
+                error.message.includes("Cannot go back")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 400 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
+    /**
+     * GET /api/attempts/[id]/questions/[questionId]
+     * Serve a question of the attempt (starts its time limit)
+     */
+    static async serveQuestion(attemptId: string, userId: string, questionId: string) {
+        try {
+            const result = await AttemptService.serveQuestion(attemptId, userId, questionId);
+
+            return NextResponse.json({
+                success: true,
+                data: result
+            });
+        } catch (error: any) {
+            console.error("[Attempt Controller] Serve Question Error:", error);
+
+            if (error.message.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message.includes("Unauthorized")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message.includes("not in progress") ||
+                error.message.includes("active section")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 400 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
+    /**
+     * POST /api/attempts/[id]/next-section
+     * Complete the active section and start the next one
+     */
+    static async advanceSection(attemptId: string, userId: string) {
+        try {
+            const result = await AttemptService.advanceSection(attemptId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: result
+            });
+        } catch (error: any) {
+            console.error("[Attempt Controller] Advance Section Error:", error);
+
+            if (error.message.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message.includes("Unauthorized")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message.includes("not in progress") ||
+                error.message.includes("no sections") ||
+                error.message.includes("No section")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 400 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
     static async saveAnswer(req: Request, userId: string) {
         try {
             const body = await req.json();
-            const { attemptId, questionId, selectedOptionId, textResponse } = body;
+            const { attemptId, questionId, selectedOptionId, selectedOptionIds, textResponse, matches, orderedOptionIds, blankAnswers } = body;
 
             // Basic validation
             if (!attemptId || !questionId) {
@@ -216,12 +420,33 @@ export class AttemptController {
                 );
             }
 
+            if (selectedOptionIds !== undefined &&
+                (!Array.isArray(selectedOptionIds) || selectedOptionIds.some((id: unknown) => typeof id !== 'string'))) {
+                return NextResponse.json(
+                    { success: false, message: "selectedOptionIds must be an array of option ids" },
+                    { status: 400 }
+                );
+            }
+
+            const payloadErrors = [
+                ...validateArrangementPayload({ matches, orderedOptionIds }),
+                ...validateClozePayload({ blankAnswers })
+            ];
+            if (payloadErrors.length > 0) {
+                return NextResponse.json(
+                    { success: false, message: payloadErrors[0] },
+                    { status: 400 }
+                );
+            }
+
             const result = await AttemptService.saveAnswer(
                 attemptId,
                 userId,
                 questionId,
                 selectedOptionId,
-                textResponse
+                textResponse,
+                selectedOptionIds,
+                { matches, orderedOptionIds, blankAnswers }
             );
 
             return NextResponse.json(result);
@@ -236,7 +461,12 @@ export class AttemptController {
             }
 
             if (error.message.includes("Invalid attempt") ||
-                error.message.includes("already completed")) {
+                error.message.includes("already completed") ||
+                error.message.includes("already scored") ||
+                error.message.includes("active section") ||
+                error.message.includes("Cannot go back") ||
+                error.message.includes("Time limit exceeded") ||
+                error.message.includes("has not been served")) {
                 // Map specific errors to appropriate status codes if needed, or stick to generic
                 // "Invalid attempt" implies Forbidden (403) or Not Found (404) logic, 
                 // but let's stick to 403 for ownership/validity check or 400 for logic error.
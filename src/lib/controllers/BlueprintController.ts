@@ -0,0 +1,287 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { BlueprintService } from "@/lib/services/BlueprintService";
+import { DifficultyLevel, UserRole } from "@/models/enums";
+
+export class BlueprintController {
+    /**
+     * GET /api/blueprints
+     * List blueprints (filters: subject, syllabus, mine)
+     */
+    static async listBlueprints(req: Request, userId: string) {
+        try {
+            const { searchParams } = new URL(req.url);
+
+            for (const key of ["subject", "syllabus"]) {
+                const value = searchParams.get(key);
+                if (value && !mongoose.Types.ObjectId.isValid(value)) {
+                    return NextResponse.json(
+                        { success: false, message: `Invalid ${key}` },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            const blueprints = await BlueprintService.listBlueprints({
+                subject: searchParams.get("subject") || undefined,
+                syllabus: searchParams.get("syllabus") || undefined,
+                createdBy: searchParams.get("mine") === "true" ? userId : undefined,
+                includeArchived: searchParams.get("includeArchived") === "true"
+            });
+
+            return NextResponse.json({
+                success: true,
+                data: blueprints
+            });
+        } catch (error: any) {
+            return BlueprintController.handleError("List", error);
+        }
+    }
+
+    /**
+     * POST /api/blueprints
+     * Create a blueprint
+     */
+    static async createBlueprint(req: Request, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = BlueprintController.validateInput(body, true);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const blueprint = await BlueprintService.createBlueprint(userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: blueprint,
+                message: "Blueprint created successfully"
+            }, { status: 201 });
+        } catch (error: any) {
+            return BlueprintController.handleError("Create", error);
+        }
+    }
+
+    /**
+     * GET /api/blueprints/[id]
+     */
+    static async getBlueprint(blueprintId: string) {
+        try {
+            const blueprint = await BlueprintService.getBlueprint(blueprintId);
+
+            return NextResponse.json({
+                success: true,
+                data: blueprint
+            });
+        } catch (error: any) {
+            return BlueprintController.handleError("Get", error);
+        }
+    }
+
+    /**
+     * PUT /api/blueprints/[id]
+     * Update a blueprint (author only)
+     */
+    static async updateBlueprint(req: Request, blueprintId: string, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = BlueprintController.validateInput(body, false);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const blueprint = await BlueprintService.updateBlueprint(blueprintId, userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: blueprint,
+                message: "Blueprint updated successfully"
+            });
+        } catch (error: any) {
+            return BlueprintController.handleError("Update", error);
+        }
+    }
+
+    /**
+     * DELETE /api/blueprints/[id]
+     * Archive a blueprint (author only)
+     */
+    static async archiveBlueprint(blueprintId: string, userId: string) {
+        try {
+            await BlueprintService.archiveBlueprint(blueprintId, userId);
+
+            return NextResponse.json({
+                success: true,
+                message: "Blueprint archived successfully"
+            });
+        } catch (error: any) {
+            return BlueprintController.handleError("Archive", error);
+        }
+    }
+
+    /**
+     * GET /api/blueprints/[id]/gaps
+     * Question bank availability for each blueprint row
+     */
+    static async getBankGaps(blueprintId: string, userId: string) {
+        try {
+            const gaps = await BlueprintService.getBankGaps(blueprintId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: gaps
+            });
+        } catch (error: any) {
+            return BlueprintController.handleError("Gaps", error);
+        }
+    }
+
+    /**
+     * GET /api/exams/[id]/blueprint
+     * Coverage of the exam's blueprint (or of ?blueprintId=)
+     */
+    static async getExamCoverage(req: Request, examId: string, userId: string, userRole: UserRole) {
+        try {
+            const { searchParams } = new URL(req.url);
+            const blueprintId = searchParams.get("blueprintId") || undefined;
+
+            if (blueprintId && !mongoose.Types.ObjectId.isValid(blueprintId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid blueprintId" },
+                    { status: 400 }
+                );
+            }
+
+            const coverage = await BlueprintService.getExamCoverage(examId, userId, userRole, blueprintId);
+
+            return NextResponse.json({
+                success: true,
+                data: coverage
+            });
+        } catch (error: any) {
+            return BlueprintController.handleError("Coverage", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/[id]/blueprint
+     * Assemble a draft exam from the question bank following a blueprint
+     * Body: { blueprintId }
+     */
+    static async assembleExam(req: Request, examId: string, userId: string) {
+        try {
+            const body = await req.json();
+            const { blueprintId } = body;
+
+            if (!blueprintId || !mongoose.Types.ObjectId.isValid(blueprintId)) {
+                return NextResponse.json(
+                    { success: false, message: "A valid blueprintId is required" },
+                    { status: 400 }
+                );
+            }
+
+            const result = await BlueprintService.assembleExam(examId, blueprintId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: result,
+                message: result.coverage.isCovered
+                    ? `${result.questions.length} question(s) added, the exam covers its blueprint`
+                    : `${result.questions.length} question(s) added, ${result.coverage.issues.length} gap(s) remaining`
+            }, { status: 201 });
+        } catch (error: any) {
+            return BlueprintController.handleError("Assemble", error);
+        }
+    }
+
+    private static validateInput(body: any, isCreate: boolean): string | null {
+        if (isCreate) {
+            if (!body.title || typeof body.title !== "string") return "title is required";
+            if (!body.subject) return "subject is required";
+            if (!Array.isArray(body.rows) || body.rows.length === 0) return "rows are required";
+            if (body.totalPoints === undefined) return "totalPoints is required";
+            if (body.duration === undefined) return "duration is required";
+        }
+
+        for (const key of ["subject", "syllabus"]) {
+            if (body[key] && !mongoose.Types.ObjectId.isValid(body[key])) {
+                return `Invalid ${key}`;
+            }
+        }
+        if (body.targetLevels !== undefined &&
+            (!Array.isArray(body.targetLevels) || body.targetLevels.some((id: any) => !mongoose.Types.ObjectId.isValid(id)))) {
+            return "targetLevels must be an array of IDs";
+        }
+
+        if (body.totalPoints !== undefined && (typeof body.totalPoints !== "number" || body.totalPoints < 0)) {
+            return "totalPoints must be a positive number";
+        }
+        if (body.duration !== undefined && (!Number.isInteger(body.duration) || body.duration < 1)) {
+            return "duration must be a whole number of minutes";
+        }
+
+        if (body.rows !== undefined) {
+            if (!Array.isArray(body.rows) || body.rows.length === 0) return "rows must be a non-empty array";
+
+            for (const row of body.rows) {
+                if (!row || (!row.concept && !row.learningUnit)) {
+                    return "Each row requires a concept or a learningUnit";
+                }
+                if ((row.concept && !mongoose.Types.ObjectId.isValid(row.concept)) ||
+                    (row.learningUnit && !mongoose.Types.ObjectId.isValid(row.learningUnit))) {
+                    return "Invalid concept or learningUnit in rows";
+                }
+                if (!Object.values(DifficultyLevel).includes(row.difficulty)) {
+                    return "Each row requires a valid difficulty";
+                }
+                if (!Number.isInteger(row.count) || row.count < 1) {
+                    return "Each row requires a count of at least 1";
+                }
+                if (row.points !== undefined && (typeof row.points !== "number" || row.points < 0)) {
+                    return "Row points must be a positive number";
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[Blueprint Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("draft") || error.message.includes("Archived") ||
+            error.message.includes("blueprint") || error.message.includes("Blueprint")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { UserRole } from "@/models/enums";
+import { CompetencyEvaluationService } from "@/lib/services/CompetencyEvaluationService";
+
+const STAFF_ROLES = [UserRole.TEACHER, UserRole.SCHOOL_ADMIN, UserRole.INSPECTOR, UserRole.PRINCIPAL];
+
+export class CompetencyEvaluationController {
+    /**
+     * GET /api/student/competencies
+     * Competency dashboard of a student (students can only view their own)
+     */
+    static async getDashboard(req: Request, userId: string, role: string) {
+        try {
+            const { searchParams } = new URL(req.url);
+            const studentId = searchParams.get("studentId") || userId;
+            const subjectId = searchParams.get("subjectId") || undefined;
+
+            if (!mongoose.Types.ObjectId.isValid(studentId) || (subjectId && !mongoose.Types.ObjectId.isValid(subjectId))) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid studentId or subjectId" },
+                    { status: 400 }
+                );
+            }
+
+            if (studentId !== userId && !STAFF_ROLES.includes(role as UserRole)) {
+                return NextResponse.json(
+                    { success: false, message: "Forbidden: You can only view your own competencies" },
+                    { status: 403 }
+                );
+            }
+
+            const dashboard = await CompetencyEvaluationService.getDashboard(studentId, { subjectId });
+
+            return NextResponse.json({
+                success: true,
+                data: dashboard
+            });
+        } catch (error: any) {
+            return CompetencyEvaluationController.handleError("GetDashboard", error);
+        }
+    }
+
+    /**
+     * PUT /api/exams/[id]/questions/[questionId]/criteria
+     * Map an exam question to competency assessment criteria
+     * Body: { criteria: [{ competency, criterionId, weight? }] }
+     */
+    static async setQuestionCriteria(req: Request, examId: string, questionId: string, userId: string) {
+        try {
+            const body = await req.json();
+            const { criteria } = body;
+
+            if (!Array.isArray(criteria) || !criteria.every((c: any) =>
+                c && mongoose.Types.ObjectId.isValid(c.competency) && mongoose.Types.ObjectId.isValid(c.criterionId) &&
+                (c.weight === undefined || (typeof c.weight === "number" && c.weight > 0)))) {
+                return NextResponse.json(
+                    { success: false, message: "criteria must be an array of { competency, criterionId, weight? } with valid IDs and a positive weight" },
+                    { status: 400 }
+                );
+            }
+
+            const question = await CompetencyEvaluationService.setQuestionCriteria(examId, questionId, criteria, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: question,
+                message: "Question competency criteria updated successfully"
+            });
+        } catch (error: any) {
+            return CompetencyEvaluationController.handleError("SetQuestionCriteria", error);
+        }
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[CompetencyEvaluation Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("only be listed once")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { ConceptMasteryService } from "@/lib/services/ConceptMasteryService";
+
+export class ConceptMasteryController {
+    /**
+     * GET /api/self-assessment/mastery
+     * Measured concept mastery of the current student, alongside their self-assessment
+     */
+    static async getStudentMastery(req: Request, studentId: string) {
+        try {
+            const { searchParams } = new URL(req.url);
+            const syllabusId = searchParams.get("syllabusId") || undefined;
+
+            if (syllabusId && !mongoose.Types.ObjectId.isValid(syllabusId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid syllabusId" },
+                    { status: 400 }
+                );
+            }
+
+            const concepts = await ConceptMasteryService.getStudentMastery(studentId, syllabusId);
+
+            return NextResponse.json({
+                success: true,
+                data: concepts
+            });
+        } catch (error: any) {
+            return ConceptMasteryController.handleError("GetMastery", error);
+        }
+    }
+
+    /**
+     * PUT /api/exams/[id]/questions/[questionId]/concepts
+     * Tag an exam question with weighted concepts
+     * Body: { concepts: [{ concept, weight? }] }
+     */
+    static async setQuestionConcepts(req: Request, examId: string, questionId: string, userId: string) {
+        try {
+            const body = await req.json();
+            const { concepts } = body;
+
+            if (!Array.isArray(concepts) || !concepts.every((c: any) =>
+                c && mongoose.Types.ObjectId.isValid(c.concept) &&
+                (c.weight === undefined || (typeof c.weight === "number" && c.weight > 0)))) {
+                return NextResponse.json(
+                    { success: false, message: "concepts must be an array of { concept, weight? } with a valid concept ID and a positive weight" },
+                    { status: 400 }
+                );
+            }
+
+            const question = await ConceptMasteryService.setQuestionConcepts(examId, questionId, concepts, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: question,
+                message: "Question concepts updated successfully"
+            });
+        } catch (error: any) {
+            return ConceptMasteryController.handleError("SetQuestionConcepts", error);
+        }
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[ConceptMastery Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("only be listed once")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,161 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { UserRole } from "@/models/enums";
+import { ExamReviewService } from "@/lib/services/ExamReviewService";
+
+export class ExamReviewController {
+    /**
+     * GET /api/exams/[id]/review-comments
+     * Review threads of an exam
+     * Query: questionId (optional), includeResolved (optional)
+     */
+    static async listComments(req: Request, examId: string, userId: string, role: UserRole) {
+        try {
+            const { searchParams } = new URL(req.url);
+            const questionId = searchParams.get("questionId") || undefined;
+            const includeResolved = searchParams.get("includeResolved") === "true";
+
+            if (questionId && !mongoose.Types.ObjectId.isValid(questionId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid questionId" },
+                    { status: 400 }
+                );
+            }
+
+            const comments = await ExamReviewService.listComments(examId, userId, role, { questionId, includeResolved });
+
+            return NextResponse.json({
+                success: true,
+                data: comments
+            });
+        } catch (error: any) {
+            return ExamReviewController.handleError("ListComments", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/[id]/review-comments
+     * Open a review thread on the exam or one of its questions
+     * Body: { content, questionId? }
+     */
+    static async addComment(req: Request, examId: string, userId: string, role: UserRole) {
+        try {
+            const body = await req.json();
+            const { content, questionId } = body;
+
+            const validationError = ExamReviewController.validateContent(content);
+            if (validationError) return validationError;
+
+            if (questionId !== undefined && !mongoose.Types.ObjectId.isValid(questionId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid questionId" },
+                    { status: 400 }
+                );
+            }
+
+            const comment = await ExamReviewService.addComment(examId, userId, role, {
+                content: content.trim(),
+                questionId
+            });
+
+            return NextResponse.json(
+                { success: true, data: comment, message: "Comment added successfully" },
+                { status: 201 }
+            );
+        } catch (error: any) {
+            return ExamReviewController.handleError("AddComment", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/[id]/review-comments/[commentId]/replies
+     * Reply to a review thread
+     * Body: { content }
+     */
+    static async replyToComment(req: Request, commentId: string, userId: string, role: UserRole) {
+        try {
+            const body = await req.json();
+            const { content } = body;
+
+            const validationError = ExamReviewController.validateContent(content);
+            if (validationError) return validationError;
+
+            const comment = await ExamReviewService.replyToComment(commentId, userId, role, content.trim());
+
+            return NextResponse.json(
+                { success: true, data: comment, message: "Reply added successfully" },
+                { status: 201 }
+            );
+        } catch (error: any) {
+            return ExamReviewController.handleError("ReplyToComment", error);
+        }
+    }
+
+    /**
+     * PATCH /api/exams/[id]/review-comments/[commentId]
+     * Resolve or reopen a review thread
+     * Body: { resolved }
+     */
+    static async resolveComment(req: Request, commentId: string, userId: string, role: UserRole) {
+        try {
+            const body = await req.json();
+            const { resolved } = body;
+
+            if (typeof resolved !== "boolean") {
+                return NextResponse.json(
+                    { success: false, message: "resolved must be a boolean" },
+                    { status: 400 }
+                );
+            }
+
+            const comment = await ExamReviewService.resolveComment(commentId, userId, role, resolved);
+
+            return NextResponse.json({
+                success: true,
+                data: comment,
+                message: resolved ? "Comment resolved" : "Comment reopened"
+            });
+        } catch (error: any) {
+            return ExamReviewController.handleError("ResolveComment", error);
+        }
+    }
+
+    private static validateContent(content: any) {
+        if (typeof content !== "string" || !content.trim()) {
+            return NextResponse.json(
+                { success: false, message: "content is required" },
+                { status: 400 }
+            );
+        }
+        if (content.length > 5000) {
+            return NextResponse.json(
+                { success: false, message: "content must be at most 5000 characters" },
+                { status: 400 }
+            );
+        }
+        return null;
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[ExamReview Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
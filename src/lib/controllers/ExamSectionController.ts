@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { ExamSectionService } from "@/lib/services/ExamSectionService";
+
+export class ExamSectionController {
+    /**
+     * PUT /api/exams/[id]/sections
+     * Define the sections of a draft exam and assign its questions
+     */
+    static async setSections(req: Request, examId: string, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = ExamSectionController.validateInput(body);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const exam = await ExamSectionService.setSections(examId, userId, body.sections);
+
+            return NextResponse.json({
+                success: true,
+                data: exam,
+                message: "Exam sections updated successfully"
+            });
+        } catch (error: any) {
+            console.error("[ExamSection Controller] SetSections Error:", error);
+
+            if (error.message.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message.includes("Unauthorized")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 403 }
+                );
+            }
+
+            if (error.message.includes("draft exams") ||
+                error.message.includes("more than one section") ||
+                error.message.includes("cannot be split")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 400 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
+    private static validateInput(body: any): string | null {
+        if (!Array.isArray(body?.sections)) return "sections must be an array";
+
+        for (const section of body.sections) {
+            if (!section || typeof section.title !== "string" || !section.title.trim()) {
+                return "Each section requires a title";
+            }
+            if (section._id !== undefined && !mongoose.Types.ObjectId.isValid(section._id)) {
+                return "Invalid section id";
+            }
+            if (typeof section.duration !== "number" || !Number.isInteger(section.duration) || section.duration < 1) {
+                return "Each section requires a duration of at least 1 minute";
+            }
+            if (section.points !== undefined && (typeof section.points !== "number" || section.points < 0)) {
+                return "Section points must be a positive number";
+            }
+            for (const key of ["shuffleQuestions", "shuffleOptions", "allowBackNavigation"]) {
+                if (section[key] !== undefined && typeof section[key] !== "boolean") {
+                    return `${key} must be a boolean`;
+                }
+            }
+            if (!Array.isArray(section.questionIds) ||
+                section.questionIds.some((id: any) => typeof id !== "string" || !mongoose.Types.ObjectId.isValid(id))) {
+                return "Each section requires an array of questionIds";
+            }
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { ExamVersionService } from "@/lib/services/ExamVersionService";
+
+export class ExamVersionController {
+    /**
+     * GET /api/exams/[id]/versions
+     * List the snapshots of an exam
+     */
+    static async listVersions(req: Request, examId: string, userId: string) {
+        try {
+            const versions = await ExamVersionService.listVersions(examId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: versions
+            });
+        } catch (error: any) {
+            return ExamVersionController.handleError("List", error);
+        }
+    }
+
+    /**
+     * GET /api/exams/[id]/versions/[version]
+     * Get the full content of a snapshot
+     */
+    static async getVersion(req: Request, examId: string, version: string, userId: string) {
+        try {
+            const versionNumber = ExamVersionController.parseVersion(version);
+            if (versionNumber === null) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid version number" },
+                    { status: 400 }
+                );
+            }
+
+            const snapshot = await ExamVersionService.getVersion(examId, versionNumber, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: snapshot
+            });
+        } catch (error: any) {
+            return ExamVersionController.handleError("Get", error);
+        }
+    }
+
+    /**
+     * GET /api/exams/[id]/versions/diff?from=1&to=2
+     * Field-by-field differences between two snapshots
+     */
+    static async diffVersions(req: Request, examId: string, userId: string) {
+        try {
+            const { searchParams } = new URL(req.url);
+            const from = ExamVersionController.parseVersion(searchParams.get("from"));
+            const to = ExamVersionController.parseVersion(searchParams.get("to"));
+
+            if (from === null || to === null) {
+                return NextResponse.json(
+                    { success: false, message: "from and to must be version numbers" },
+                    { status: 400 }
+                );
+            }
+
+            const diff = await ExamVersionService.diffVersions(examId, from, to, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: diff
+            });
+        } catch (error: any) {
+            return ExamVersionController.handleError("Diff", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/[id]/versions/[version]/restore
+     * Restore a snapshot into the exam (back to DRAFT)
+     */
+    static async restoreVersion(req: Request, examId: string, version: string, userId: string) {
+        try {
+            const versionNumber = ExamVersionController.parseVersion(version);
+            if (versionNumber === null) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid version number" },
+                    { status: 400 }
+                );
+            }
+
+            const result = await ExamVersionService.restoreVersion(examId, versionNumber, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: result,
+                message: `Version ${versionNumber} restored; the exam is back to draft`
+            });
+        } catch (error: any) {
+            return ExamVersionController.handleError("Restore", error);
+        }
+    }
+
+    private static parseVersion(value: string | null): number | null {
+        const version = Number(value);
+        return value && Number.isInteger(version) && version >= 1 ? version : null;
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[ExamVersion Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("Cannot restore")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
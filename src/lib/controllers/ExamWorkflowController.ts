@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import mongoose from "mongoose";
 import { ExamWorkflowService } from "@/lib/services/ExamWorkflowService";
+import { ExamScheduleInput, ExamScheduleService } from "@/lib/services/ExamScheduleService";
 import { UserRole } from "@/models/enums";
 
 export class ExamWorkflowController {
@@ -55,5 +56,227 @@ export class ExamWorkflowController {
             );
         }
     }
-}
 
+    /**
+     * POST /api/exams/[id]/reject
+     * Reject an exam or request changes from its author
+     * PENDING_VALIDATION → DRAFT
+     * Body: { reason, questionComments?: [{ questionId, content }] }
+     */
+    static async rejectExam(req: Request, examId: string, userId: string, userRole: UserRole) {
+        try {
+            if (!examId || !mongoose.Types.ObjectId.isValid(examId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid exam id" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const { reason, questionComments = [] } = body;
+
+            if (typeof reason !== "string" || !reason.trim()) {
+                return NextResponse.json(
+                    { success: false, message: "A reason is required to reject an exam" },
+                    { status: 400 }
+                );
+            }
+
+            if (!Array.isArray(questionComments) || !questionComments.every((c: any) =>
+                c && mongoose.Types.ObjectId.isValid(c.questionId) && typeof c.content === "string" && c.content.trim())) {
+                return NextResponse.json(
+                    { success: false, message: "questionComments must be an array of { questionId, content }" },
+                    { status: 400 }
+                );
+            }
+
+            const exam = await ExamWorkflowService.rejectExam(
+                examId,
+                userId,
+                userRole,
+                reason.trim(),
+                questionComments.map((c: any) => ({ questionId: c.questionId, content: c.content.trim() }))
+            );
+
+            return NextResponse.json({
+                success: true,
+                data: exam,
+                message: "Exam returned to its author for changes"
+            });
+        } catch (error: any) {
+            console.error("[ExamWorkflow Controller] RejectExam Error:", error);
+
+            if (error.message?.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            if (error.message?.includes("Unauthorized") || error.message?.includes("Cannot reject")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 403 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
+    /**
+     * GET /api/exams/[id]/workflow
+     * Persisted workflow transitions of an exam
+     */
+    static async getWorkflowHistory(examId: string) {
+        try {
+            if (!examId || !mongoose.Types.ObjectId.isValid(examId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid exam id" },
+                    { status: 400 }
+                );
+            }
+
+            const history = await ExamWorkflowService.getWorkflowHistory(examId);
+
+            return NextResponse.json({
+                success: true,
+                data: history
+            });
+        } catch (error: any) {
+            console.error("[ExamWorkflow Controller] GetWorkflowHistory Error:", error);
+
+            if (error.message?.includes("not found")) {
+                return NextResponse.json(
+                    { success: false, message: error.message },
+                    { status: 404 }
+                );
+            }
+
+            return NextResponse.json(
+                { success: false, message: error.message || "Internal server error" },
+                { status: 500 }
+            );
+        }
+    }
+
+    /**
+     * PUT /api/exams/[id]/schedule
+     * Schedule the publication, closing and/or archiving of an exam
+     * Body: { publishAt?: ISO date | null, autoClose?, autoArchive?, archiveDelay? (hours) }
+     */
+    static async scheduleExam(req: Request, examId: string, userId: string, userRole: UserRole) {
+        try {
+            if (!examId || !mongoose.Types.ObjectId.isValid(examId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid exam id" },
+                    { status: 400 }
+                );
+            }
+
+            const body = await req.json();
+            const input: ExamScheduleInput = {};
+
+            if (body.publishAt !== undefined) {
+                const publishAt = body.publishAt === null ? null : new Date(body.publishAt);
+                if (publishAt && isNaN(publishAt.getTime())) {
+                    return NextResponse.json(
+                        { success: false, message: "publishAt must be a valid date" },
+                        { status: 400 }
+                    );
+                }
+                input.publishAt = publishAt;
+            }
+
+            for (const key of ["autoClose", "autoArchive"] as const) {
+                if (body[key] !== undefined) {
+                    if (typeof body[key] !== "boolean") {
+                        return NextResponse.json(
+                            { success: false, message: `${key} must be a boolean` },
+                            { status: 400 }
+                        );
+                    }
+                    input[key] = body[key];
+                }
+            }
+
+            if (body.archiveDelay !== undefined) {
+                if (typeof body.archiveDelay !== "number" || body.archiveDelay < 0) {
+                    return NextResponse.json(
+                        { success: false, message: "archiveDelay must be a positive number of hours" },
+                        { status: 400 }
+                    );
+                }
+                input.archiveDelay = body.archiveDelay;
+            }
+
+            const exam = await ExamScheduleService.scheduleExam(examId, userId, userRole, input);
+
+            return NextResponse.json({
+                success: true,
+                data: exam,
+                message: "Exam schedule updated successfully"
+            });
+        } catch (error: any) {
+            return ExamWorkflowController.handleScheduleError("ScheduleExam", error);
+        }
+    }
+
+    /**
+     * DELETE /api/exams/[id]/schedule
+     * Cancel every scheduled action of an exam
+     */
+    static async cancelSchedule(examId: string, userId: string, userRole: UserRole) {
+        try {
+            if (!examId || !mongoose.Types.ObjectId.isValid(examId)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid exam id" },
+                    { status: 400 }
+                );
+            }
+
+            const exam = await ExamScheduleService.cancelSchedule(examId, userId, userRole);
+
+            return NextResponse.json({
+                success: true,
+                data: exam,
+                message: "Exam schedule cancelled successfully"
+            });
+        } catch (error: any) {
+            return ExamWorkflowController.handleScheduleError("CancelSchedule", error);
+        }
+    }
+
+    private static handleScheduleError(action: string, error: any) {
+        console.error(`[ExamWorkflow Controller] ${action} Error:`, error);
+
+        if (error.message?.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message?.includes("Unauthorized") || error.message?.includes("Cannot schedule")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message?.includes("Publication date")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
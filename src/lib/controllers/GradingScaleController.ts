@@ -0,0 +1,201 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { GradingScaleService } from "@/lib/services/GradingScaleService";
+import { SubSystem, UserRole } from "@/models/enums";
+
+export class GradingScaleController {
+    /**
+     * GET /api/grading-scales
+     * List grading scales (filters: school, subSystem, includeInactive)
+     */
+    static async listScales(req: Request, userId: string, role: UserRole) {
+        try {
+            const { searchParams } = new URL(req.url);
+
+            const school = searchParams.get("school");
+            if (school && !mongoose.Types.ObjectId.isValid(school)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid school" },
+                    { status: 400 }
+                );
+            }
+            const subSystem = searchParams.get("subSystem");
+            if (subSystem && !Object.values(SubSystem).includes(subSystem as SubSystem)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid subSystem" },
+                    { status: 400 }
+                );
+            }
+
+            const scales = await GradingScaleService.listScales(userId, role, {
+                school: school || undefined,
+                subSystem: (subSystem as SubSystem) || undefined,
+                includeInactive: searchParams.get("includeInactive") === "true"
+            });
+
+            return NextResponse.json({
+                success: true,
+                data: scales
+            });
+        } catch (error: any) {
+            return GradingScaleController.handleError("List", error);
+        }
+    }
+
+    /**
+     * POST /api/grading-scales
+     * Create a grading scale
+     */
+    static async createScale(req: Request, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = GradingScaleController.validateInput(body, true);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const scale = await GradingScaleService.createScale(userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: scale,
+                message: "Grading scale created successfully"
+            }, { status: 201 });
+        } catch (error: any) {
+            return GradingScaleController.handleError("Create", error);
+        }
+    }
+
+    /**
+     * GET /api/grading-scales/[id]
+     */
+    static async getScale(scaleId: string) {
+        try {
+            const scale = await GradingScaleService.getScale(scaleId);
+
+            return NextResponse.json({
+                success: true,
+                data: scale
+            });
+        } catch (error: any) {
+            return GradingScaleController.handleError("Get", error);
+        }
+    }
+
+    /**
+     * PUT /api/grading-scales/[id]
+     * Update a grading scale
+     */
+    static async updateScale(req: Request, scaleId: string, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = GradingScaleController.validateInput(body, false);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const scale = await GradingScaleService.updateScale(scaleId, userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: scale,
+                message: "Grading scale updated successfully"
+            });
+        } catch (error: any) {
+            return GradingScaleController.handleError("Update", error);
+        }
+    }
+
+    /**
+     * DELETE /api/grading-scales/[id]
+     * Deactivate a grading scale
+     */
+    static async deactivateScale(scaleId: string, userId: string) {
+        try {
+            await GradingScaleService.deactivateScale(scaleId, userId);
+
+            return NextResponse.json({
+                success: true,
+                message: "Grading scale deactivated successfully"
+            });
+        } catch (error: any) {
+            return GradingScaleController.handleError("Deactivate", error);
+        }
+    }
+
+    private static validateInput(body: any, isCreate: boolean): string | null {
+        if (isCreate) {
+            if (!body.name || typeof body.name !== "string") return "name is required";
+            if (!body.school && !body.subSystem) return "A school or a subSystem is required";
+            if (!Array.isArray(body.bands) || body.bands.length === 0) return "bands are required";
+        }
+
+        if (body.school && !mongoose.Types.ObjectId.isValid(body.school)) {
+            return "Invalid school";
+        }
+        if (body.subSystem !== undefined && !Object.values(SubSystem).includes(body.subSystem)) {
+            return "Invalid subSystem";
+        }
+        if (body.markScale !== undefined &&
+            (typeof body.markScale !== "number" || !Number.isFinite(body.markScale) || body.markScale < 1)) {
+            return "markScale must be a number of at least 1";
+        }
+
+        if (body.bands !== undefined) {
+            if (!Array.isArray(body.bands) || body.bands.length === 0) return "bands must be a non-empty array";
+
+            for (const band of body.bands) {
+                if (!band || !band.label || typeof band.label !== "string") {
+                    return "Each band requires a label";
+                }
+                if (typeof band.minPercentage !== "number" || band.minPercentage < 0 || band.minPercentage > 100) {
+                    return "Each band requires a minPercentage between 0 and 100";
+                }
+                if (band.gradePoint !== undefined && (typeof band.gradePoint !== "number" || band.gradePoint < 0)) {
+                    return "Band gradePoint must be a non-negative number";
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[GradingScale Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("must target") || error.message.includes("distinct thresholds") ||
+            error.name === "ValidationError") {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
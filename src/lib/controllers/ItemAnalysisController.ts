@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { UserRole } from "@/models/enums";
+import { ItemAnalysisService } from "@/lib/services/ItemAnalysisService";
+
+export class ItemAnalysisController {
+    /**
+     * GET /api/exams/[id]/item-analysis
+     * Psychometric analysis of the questions of an exam
+     */
+    static async analyzeExam(examId: string, userId: string, role: UserRole) {
+        try {
+            const report = await ItemAnalysisService.analyzeExam(examId, userId, role);
+
+            return NextResponse.json({
+                success: true,
+                data: report
+            });
+        } catch (error: any) {
+            return ItemAnalysisController.handleError("AnalyzeExam", error);
+        }
+    }
+
+    /**
+     * GET /api/exams/[id]/reliability
+     * Reliability of an exam (KR-20 or Cronbach's alpha, standard error of measurement)
+     */
+    static async getReliability(examId: string, userId: string, role: UserRole) {
+        try {
+            const result = await ItemAnalysisService.getReliability(examId, userId, role);
+
+            return NextResponse.json({
+                success: true,
+                data: result
+            });
+        } catch (error: any) {
+            return ItemAnalysisController.handleError("GetReliability", error);
+        }
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[ItemAnalysis Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,114 @@
+import { NextResponse } from "next/server";
+import { QtiService } from "@/lib/services/QtiService";
+
+const MAX_PACKAGE_SIZE = 20 * 1024 * 1024; // 20 Mo
+
+export class QtiController {
+    /**
+     * GET /api/exams/[id]/qti
+     * Download an exam as an IMS QTI 2.1 package
+     */
+    static async exportExam(req: Request, examId: string, userId: string) {
+        try {
+            const { filename, content } = await QtiService.exportExam(examId, userId);
+
+            return new NextResponse(new Uint8Array(content), {
+                status: 200,
+                headers: {
+                    "Content-Type": "application/zip",
+                    "Content-Disposition": `attachment; filename="${filename}"`
+                }
+            });
+        } catch (error: any) {
+            return QtiController.handleError("Export", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/qti
+     * Import an IMS QTI 2.1 package into a new DRAFT exam
+     * multipart/form-data: `file` (zip) and `exam` (JSON with the exam fields missing from the package)
+     */
+    static async importExam(req: Request, userId: string) {
+        try {
+            const formData = await req.formData();
+            const file = formData.get("file");
+
+            if (!file || typeof file === "string") {
+                return NextResponse.json(
+                    { success: false, message: "A QTI zip file is required" },
+                    { status: 400 }
+                );
+            }
+
+            if (file.size > MAX_PACKAGE_SIZE) {
+                return NextResponse.json(
+                    { success: false, message: "QTI package is too large (20 MB max)" },
+                    { status: 413 }
+                );
+            }
+
+            let examData: any = {};
+            const rawExam = formData.get("exam");
+            if (typeof rawExam === "string" && rawExam.trim()) {
+                try {
+                    examData = JSON.parse(rawExam);
+                } catch {
+                    return NextResponse.json(
+                        { success: false, message: "exam must be a valid JSON object" },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            if (!examData || typeof examData !== "object" || Array.isArray(examData) || examData.questions) {
+                return NextResponse.json(
+                    { success: false, message: "exam must be an object without questions (they come from the package)" },
+                    { status: 400 }
+                );
+            }
+
+            const content = Buffer.from(await file.arrayBuffer());
+            const { exam, report } = await QtiService.importPackage(content, examData, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: { exam, report },
+                message: `${report.imported} question(s) imported, ${report.skipped.length} item(s) skipped`
+            }, { status: 201 });
+        } catch (error: any) {
+            return QtiController.handleError("Import", error);
+        }
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[QTI Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("Invalid QTI package") || error.message.includes("Malformed XML") ||
+            error.message.includes("required") || error.message.includes("require")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
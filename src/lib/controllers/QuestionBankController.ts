@@ -0,0 +1,298 @@
+import { NextResponse } from "next/server";
+import { QuestionBankService } from "@/lib/services/QuestionBankService";
+import { QuestionBankVisibility } from "@/models/Question";
+import { EvaluationType } from "@/models/enums";
+import { ClozeEvaluationStrategy, MathExpressionEvaluationStrategy } from "@/lib/patterns/EvaluationStrategy";
+import mongoose from "mongoose";
+
+export class QuestionBankController {
+    /**
+     * GET /api/question-bank
+     * Search the question bank (own items + items shared with the teacher's schools)
+     */
+    static async searchItems(req: Request, userId: string) {
+        try {
+            const { searchParams } = new URL(req.url);
+
+            const scope = searchParams.get("scope") || "all";
+            if (!["mine", "school", "all"].includes(scope)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid scope (expected mine, school or all)" },
+                    { status: 400 }
+                );
+            }
+
+            for (const key of ["subject", "syllabus", "concept"]) {
+                const value = searchParams.get(key);
+                if (value && !mongoose.Types.ObjectId.isValid(value)) {
+                    return NextResponse.json(
+                        { success: false, message: `Invalid ${key}` },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            const tags = searchParams.get("tags");
+            const limit = Math.min(parseInt(searchParams.get("limit") || "20") || 20, 100);
+            const skip = Math.max(parseInt(searchParams.get("skip") || "0") || 0, 0);
+
+            const result = await QuestionBankService.searchItems(userId, {
+                search: searchParams.get("q") || undefined,
+                subject: searchParams.get("subject") || undefined,
+                syllabus: searchParams.get("syllabus") || undefined,
+                concept: searchParams.get("concept") || undefined,
+                difficulty: searchParams.get("difficulty") || undefined,
+                type: searchParams.get("type") || undefined,
+                tags: tags ? tags.split(",").map(t => t.trim()).filter(Boolean) : undefined,
+                scope: scope as 'mine' | 'school' | 'all',
+                limit,
+                skip
+            });
+
+            return NextResponse.json({
+                success: true,
+                data: result.items,
+                pagination: {
+                    total: result.total,
+                    limit: result.limit,
+                    skip: result.skip
+                }
+            });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Search", error);
+        }
+    }
+
+    /**
+     * POST /api/question-bank
+     * Create a question bank item
+     */
+    static async createItem(req: Request, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = QuestionBankController.validateItemInput(body, true);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const { item, options } = await QuestionBankService.createItem(userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: { ...item.toObject(), options },
+                message: "Question bank item created successfully"
+            }, { status: 201 });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Create", error);
+        }
+    }
+
+    /**
+     * GET /api/question-bank/[id]
+     * Get a question bank item with its options
+     */
+    static async getItem(req: Request, itemId: string, userId: string) {
+        try {
+            const { item, options } = await QuestionBankService.getItem(itemId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: { ...item.toObject(), options }
+            });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Get", error);
+        }
+    }
+
+    /**
+     * PUT /api/question-bank/[id]
+     * Update a question bank item (creates a new version)
+     */
+    static async updateItem(req: Request, itemId: string, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = QuestionBankController.validateItemInput(body, false);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const { item, options } = await QuestionBankService.updateItem(itemId, userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: { ...item.toObject(), options },
+                message: "Question bank item updated successfully"
+            });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Update", error);
+        }
+    }
+
+    /**
+     * DELETE /api/question-bank/[id]
+     * Archive a question bank item
+     */
+    static async archiveItem(req: Request, itemId: string, userId: string) {
+        try {
+            await QuestionBankService.archiveItem(itemId, userId);
+
+            return NextResponse.json({
+                success: true,
+                message: "Question bank item archived successfully"
+            });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Archive", error);
+        }
+    }
+
+    /**
+     * GET /api/question-bank/[id]/usage
+     * Get the usage history of a question bank item
+     */
+    static async getUsageHistory(req: Request, itemId: string, userId: string) {
+        try {
+            const history = await QuestionBankService.getUsageHistory(itemId, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: history
+            });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Usage", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/[id]/bank-items
+     * Add question bank items to a draft exam
+     */
+    static async addItemsToExam(req: Request, examId: string, userId: string) {
+        try {
+            const body = await req.json();
+            const { itemIds } = body;
+
+            if (!Array.isArray(itemIds) || itemIds.length === 0) {
+                return NextResponse.json(
+                    { success: false, message: "itemIds must be a non-empty array" },
+                    { status: 400 }
+                );
+            }
+
+            if (itemIds.some((id: unknown) => typeof id !== "string" || !mongoose.Types.ObjectId.isValid(id))) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid itemIds" },
+                    { status: 400 }
+                );
+            }
+
+            const questions = await QuestionBankService.addItemsToExam(examId, itemIds, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: questions,
+                message: `${questions.length} question(s) added to the exam`
+            }, { status: 201 });
+        } catch (error: any) {
+            return QuestionBankController.handleError("Add to exam", error);
+        }
+    }
+
+    private static validateItemInput(body: any, isCreate: boolean): string | null {
+        if (isCreate) {
+            if (!body.text || typeof body.text !== "string") return "text is required";
+            if (!body.type) return "type is required";
+            if (!body.subject) return "subject is required";
+        }
+
+        if (body.type && !Object.values(EvaluationType).includes(body.type)) {
+            return "Invalid type";
+        }
+        if (body.type === EvaluationType.NUMERIC && typeof body.numericConfig?.answer !== "number") {
+            return "Numeric questions require numericConfig.answer";
+        }
+        if (body.type === EvaluationType.MATH_EXPRESSION &&
+            !MathExpressionEvaluationStrategy.isValidExpression(body.mathConfig?.answer)) {
+            return "Math expression questions require a valid mathConfig.answer";
+        }
+        if (body.type === EvaluationType.CLOZE && !ClozeEvaluationStrategy.isValidConfig(body.text, body.clozeConfig)) {
+            return "Cloze questions require clozeConfig.blanks matching the {{id}} placeholders of the text";
+        }
+        if (body.visibility && !Object.values(QuestionBankVisibility).includes(body.visibility)) {
+            return "Invalid visibility";
+        }
+
+        for (const key of ["subject", "syllabus", "concept", "school"]) {
+            if (body[key] && !mongoose.Types.ObjectId.isValid(body[key])) {
+                return `Invalid ${key}`;
+            }
+        }
+
+        if (body.concepts !== undefined && !QuestionBankController.isValidConcepts(body.concepts)) {
+            return "concepts must be an array of { concept, weight? } with a valid concept ID and a positive weight";
+        }
+
+        if (body.competencyCriteria !== undefined && !QuestionBankController.isValidCompetencyCriteria(body.competencyCriteria)) {
+            return "competencyCriteria must be an array of { competency, criterionId, weight? } with valid IDs and a positive weight";
+        }
+
+        if (body.options !== undefined) {
+            if (!Array.isArray(body.options)) return "options must be an array";
+            if (body.options.some((opt: any) => !opt || typeof opt.text !== "string" ||
+                (opt.isCorrect !== undefined && typeof opt.isCorrect !== "boolean"))) {
+                return "Each option requires text (and a boolean isCorrect when provided)";
+            }
+        }
+
+        return null;
+    }
+
+    private static isValidConcepts(concepts: any): boolean {
+        return Array.isArray(concepts) && concepts.every((c: any) =>
+            c && mongoose.Types.ObjectId.isValid(c.concept) &&
+            (c.weight === undefined || (typeof c.weight === "number" && c.weight > 0)))
+    }
+
+    private static isValidCompetencyCriteria(criteria: any): boolean {
+        return Array.isArray(criteria) && criteria.every((c: any) =>
+            c && mongoose.Types.ObjectId.isValid(c.competency) && mongoose.Types.ObjectId.isValid(c.criterionId) &&
+            (c.weight === undefined || (typeof c.weight === "number" && c.weight > 0)))
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[QuestionBank Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("draft") || error.message.includes("archived") || error.message.includes("Archived") || error.message.includes("required")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,153 @@
+import { NextResponse } from "next/server";
+import { QuestionSpreadsheetService } from "@/lib/services/QuestionSpreadsheetService";
+import { QUESTION_SHEET_COLUMNS, QuestionSheetRow } from "@/lib/questionImport/spreadsheet";
+import { SECURITY_LIMITS, logSecurityEvent } from "@/lib/security/fileUploadSecurity";
+
+export class QuestionSpreadsheetController {
+    /**
+     * GET /api/exams/question-template
+     * Download the XLSX question template
+     */
+    static downloadTemplate() {
+        const { filename, content } = QuestionSpreadsheetService.buildTemplate();
+
+        return new NextResponse(new Uint8Array(content), {
+            status: 200,
+            headers: {
+                "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+                "Content-Disposition": `attachment; filename="${filename}"`
+            }
+        });
+    }
+
+    /**
+     * POST /api/exams/[id]/spreadsheet/preview
+     * Read a filled template without saving anything
+     * multipart/form-data: `file` (.xlsx, .xls or .csv)
+     */
+    static async preview(req: Request, examId: string, userId: string) {
+        try {
+            const formData = await req.formData();
+            const file = formData.get("file");
+
+            if (!file || typeof file === "string") {
+                return NextResponse.json(
+                    { success: false, message: "A spreadsheet file is required" },
+                    { status: 400 }
+                );
+            }
+
+            const extension = "." + file.name.split(".").pop()?.toLowerCase();
+            if (!SECURITY_LIMITS.ALLOWED_EXTENSIONS.includes(extension)) {
+                logSecurityEvent({ type: "INVALID_FILE", details: `Question spreadsheet: ${extension}`, userId });
+                return NextResponse.json(
+                    { success: false, message: `Unsupported file extension (allowed: ${SECURITY_LIMITS.ALLOWED_EXTENSIONS.join(", ")})` },
+                    { status: 400 }
+                );
+            }
+
+            if (file.size > SECURITY_LIMITS.MAX_FILE_SIZE) {
+                logSecurityEvent({ type: "OVERSIZED_FILE", details: `Question spreadsheet: ${file.size} bytes`, userId });
+                return NextResponse.json(
+                    { success: false, message: `File is too large (${SECURITY_LIMITS.MAX_FILE_SIZE / 1024 / 1024} MB max)` },
+                    { status: 413 }
+                );
+            }
+
+            const content = Buffer.from(await file.arrayBuffer());
+            const preview = await QuestionSpreadsheetService.preview(examId, content, file.name, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: preview,
+                message: `${preview.report.successCount} valid row(s), ${preview.report.errorCount} error(s)`
+            });
+        } catch (error: any) {
+            return QuestionSpreadsheetController.handleError("Preview", error);
+        }
+    }
+
+    /**
+     * POST /api/exams/[id]/spreadsheet
+     * Add the valid previewed rows to the exam
+     * Body: { rows: [{ row, text, type, optionA..optionF, correct, points, difficulty, tags, explanation }] }
+     */
+    static async commit(req: Request, examId: string, userId: string) {
+        try {
+            const body = await req.json();
+            const { rows } = body;
+
+            if (!Array.isArray(rows) || rows.length === 0) {
+                return NextResponse.json(
+                    { success: false, message: "rows must be a non-empty array" },
+                    { status: 400 }
+                );
+            }
+
+            if (rows.length > SECURITY_LIMITS.MAX_ROWS) {
+                return NextResponse.json(
+                    { success: false, message: `Too many rows (max ${SECURITY_LIMITS.MAX_ROWS})` },
+                    { status: 400 }
+                );
+            }
+
+            if (rows.some((row: any) => !row || typeof row !== "object" || !Number.isInteger(row.row))) {
+                return NextResponse.json(
+                    { success: false, message: "Each row requires its row number" },
+                    { status: 400 }
+                );
+            }
+
+            // Keep only the template columns, as strings
+            const sanitizedRows: QuestionSheetRow[] = rows.map((row: any) => {
+                const sanitized: QuestionSheetRow = { row: row.row };
+                for (const key of QUESTION_SHEET_COLUMNS) {
+                    if (typeof row[key] === "string" || typeof row[key] === "number") {
+                        sanitized[key] = String(row[key]).trim();
+                    }
+                }
+                return sanitized;
+            });
+
+            const { questions, report } = await QuestionSpreadsheetService.commit(examId, sanitizedRows, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: { questions, report },
+                message: `${report.successCount} question(s) added, ${report.errorCount} error(s)`
+            }, { status: 201 });
+        } catch (error: any) {
+            return QuestionSpreadsheetController.handleError("Commit", error);
+        }
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[QuestionSpreadsheet Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("Invalid spreadsheet") || error.message.includes("draft")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
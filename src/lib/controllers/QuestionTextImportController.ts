@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { QuestionBankVisibility } from "@/models/Question";
+import { QuestionTextImportService, QuestionTextFile } from "@/lib/services/QuestionTextImportService";
+import { SECURITY_LIMITS, logSecurityEvent } from "@/lib/security/fileUploadSecurity";
+
+const ALLOWED_EXTENSIONS = [".gift", ".txt"];
+const FORMATS = ["GIFT", "AIKEN"];
+
+export class QuestionTextImportController {
+    /**
+     * POST /api/exams/[id]/text-import
+     * Import GIFT or Aiken questions into a draft exam
+     * multipart/form-data: `file` and an optional `format` (GIFT | AIKEN, detected otherwise)
+     */
+    static async importIntoExam(req: Request, examId: string, userId: string) {
+        try {
+            const formData = await req.formData();
+            const file = await QuestionTextImportController.readFile(formData, userId);
+            if (file instanceof NextResponse) return file;
+
+            const { questions, report } = await QuestionTextImportService.importIntoExam(examId, file, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: { questions, report },
+                message: `${report.successCount} question(s) imported, ${report.errorCount} error(s)`
+            }, { status: 201 });
+        } catch (error: any) {
+            return QuestionTextImportController.handleError("Exam import", error);
+        }
+    }
+
+    /**
+     * POST /api/question-bank/import
+     * Import GIFT or Aiken questions into the question bank
+     * multipart/form-data: `file`, optional `format`, `subject` and optional syllabus, concept, visibility, school
+     */
+    static async importIntoBank(req: Request, userId: string) {
+        try {
+            const formData = await req.formData();
+            const file = await QuestionTextImportController.readFile(formData, userId);
+            if (file instanceof NextResponse) return file;
+
+            const field = (key: string) => {
+                const value = formData.get(key);
+                return typeof value === "string" && value.trim() ? value.trim() : undefined;
+            };
+
+            const subject = field("subject");
+            if (!subject) {
+                return NextResponse.json(
+                    { success: false, message: "subject is required" },
+                    { status: 400 }
+                );
+            }
+
+            for (const key of ["subject", "syllabus", "concept", "school"]) {
+                const value = field(key);
+                if (value && !mongoose.Types.ObjectId.isValid(value)) {
+                    return NextResponse.json(
+                        { success: false, message: `Invalid ${key}` },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            const visibility = field("visibility") as QuestionBankVisibility | undefined;
+            if (visibility && !Object.values(QuestionBankVisibility).includes(visibility)) {
+                return NextResponse.json(
+                    { success: false, message: "Invalid visibility" },
+                    { status: 400 }
+                );
+            }
+
+            const { items, report } = await QuestionTextImportService.importIntoBank(file, {
+                subject,
+                syllabus: field("syllabus"),
+                concept: field("concept"),
+                visibility,
+                school: field("school")
+            }, userId);
+
+            return NextResponse.json({
+                success: true,
+                data: { items, report },
+                message: `${report.successCount} question(s) imported, ${report.errorCount} error(s)`
+            }, { status: 201 });
+        } catch (error: any) {
+            return QuestionTextImportController.handleError("Bank import", error);
+        }
+    }
+
+    /**
+     * Validate the uploaded file (extension, size, format) and read it as UTF-8
+     */
+    private static async readFile(formData: FormData, userId: string): Promise<QuestionTextFile | NextResponse> {
+        const file = formData.get("file");
+        if (!file || typeof file === "string") {
+            return NextResponse.json(
+                { success: false, message: "A GIFT or Aiken file is required" },
+                { status: 400 }
+            );
+        }
+
+        const extension = "." + file.name.split(".").pop()?.toLowerCase();
+        if (!ALLOWED_EXTENSIONS.includes(extension)) {
+            logSecurityEvent({ type: "INVALID_FILE", details: `Question import: ${extension}`, userId });
+            return NextResponse.json(
+                { success: false, message: `Unsupported file extension (allowed: ${ALLOWED_EXTENSIONS.join(", ")})` },
+                { status: 400 }
+            );
+        }
+
+        if (file.size > SECURITY_LIMITS.MAX_FILE_SIZE) {
+            logSecurityEvent({ type: "OVERSIZED_FILE", details: `Question import: ${file.size} bytes`, userId });
+            return NextResponse.json(
+                { success: false, message: `File is too large (${SECURITY_LIMITS.MAX_FILE_SIZE / 1024 / 1024} MB max)` },
+                { status: 413 }
+            );
+        }
+
+        const format = formData.get("format");
+        if (format !== null && (typeof format !== "string" || !FORMATS.includes(format.toUpperCase()))) {
+            return NextResponse.json(
+                { success: false, message: "format must be GIFT or AIKEN" },
+                { status: 400 }
+            );
+        }
+
+        return {
+            fileName: file.name,
+            content: await file.text(),
+            format: format ? format.toUpperCase() as QuestionTextFile["format"] : undefined
+        };
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[QuestionTextImport Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("Invalid question file") || error.message.includes("draft") ||
+            error.message.includes("required")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
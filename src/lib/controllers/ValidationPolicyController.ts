@@ -0,0 +1,214 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { ValidationPolicyService } from "@/lib/services/ValidationPolicyService";
+import { ContributionType, PedagogicalObjective, UserRole } from "@/models/enums";
+
+// Rôles pouvant valider un examen, donc être désignés dans une étape
+const REVIEWER_ROLES = [UserRole.TEACHER, UserRole.INSPECTOR];
+
+export class ValidationPolicyController {
+    /**
+     * GET /api/validation-policies
+     * List validation policies (filters: school, subject, includeInactive)
+     */
+    static async listPolicies(req: Request, userId: string, role: UserRole) {
+        try {
+            const { searchParams } = new URL(req.url);
+
+            for (const key of ["school", "subject"]) {
+                const value = searchParams.get(key);
+                if (value && !mongoose.Types.ObjectId.isValid(value)) {
+                    return NextResponse.json(
+                        { success: false, message: `Invalid ${key}` },
+                        { status: 400 }
+                    );
+                }
+            }
+
+            const policies = await ValidationPolicyService.listPolicies(userId, role, {
+                school: searchParams.get("school") || undefined,
+                subject: searchParams.get("subject") || undefined,
+                includeInactive: searchParams.get("includeInactive") === "true"
+            });
+
+            return NextResponse.json({
+                success: true,
+                data: policies
+            });
+        } catch (error: any) {
+            return ValidationPolicyController.handleError("List", error);
+        }
+    }
+
+    /**
+     * POST /api/validation-policies
+     * Create a validation policy
+     */
+    static async createPolicy(req: Request, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = ValidationPolicyController.validateInput(body, true);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const policy = await ValidationPolicyService.createPolicy(userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: policy,
+                message: "Validation policy created successfully"
+            }, { status: 201 });
+        } catch (error: any) {
+            return ValidationPolicyController.handleError("Create", error);
+        }
+    }
+
+    /**
+     * GET /api/validation-policies/[id]
+     */
+    static async getPolicy(policyId: string) {
+        try {
+            const policy = await ValidationPolicyService.getPolicy(policyId);
+
+            return NextResponse.json({
+                success: true,
+                data: policy
+            });
+        } catch (error: any) {
+            return ValidationPolicyController.handleError("Get", error);
+        }
+    }
+
+    /**
+     * PUT /api/validation-policies/[id]
+     * Update a validation policy
+     */
+    static async updatePolicy(req: Request, policyId: string, userId: string) {
+        try {
+            const body = await req.json();
+
+            const validationError = ValidationPolicyController.validateInput(body, false);
+            if (validationError) {
+                return NextResponse.json(
+                    { success: false, message: validationError },
+                    { status: 400 }
+                );
+            }
+
+            const policy = await ValidationPolicyService.updatePolicy(policyId, userId, body);
+
+            return NextResponse.json({
+                success: true,
+                data: policy,
+                message: "Validation policy updated successfully"
+            });
+        } catch (error: any) {
+            return ValidationPolicyController.handleError("Update", error);
+        }
+    }
+
+    /**
+     * DELETE /api/validation-policies/[id]
+     * Deactivate a validation policy
+     */
+    static async deactivatePolicy(policyId: string, userId: string) {
+        try {
+            await ValidationPolicyService.deactivatePolicy(policyId, userId);
+
+            return NextResponse.json({
+                success: true,
+                message: "Validation policy deactivated successfully"
+            });
+        } catch (error: any) {
+            return ValidationPolicyController.handleError("Deactivate", error);
+        }
+    }
+
+    private static validateInput(body: any, isCreate: boolean): string | null {
+        if (isCreate) {
+            if (!body.name || typeof body.name !== "string") return "name is required";
+            if (!body.school && !body.subject) return "A school or a subject is required";
+            if (!Array.isArray(body.steps) || body.steps.length === 0) return "steps are required";
+        }
+
+        for (const key of ["school", "subject"]) {
+            if (body[key] && !mongoose.Types.ObjectId.isValid(body[key])) {
+                return `Invalid ${key}`;
+            }
+        }
+        if (body.pedagogicalObjectives !== undefined &&
+            (!Array.isArray(body.pedagogicalObjectives) ||
+                body.pedagogicalObjectives.some((o: any) => !Object.values(PedagogicalObjective).includes(o)))) {
+            return "pedagogicalObjectives must be an array of pedagogical objectives";
+        }
+
+        if (body.steps !== undefined) {
+            if (!Array.isArray(body.steps) || body.steps.length === 0) return "steps must be a non-empty array";
+
+            for (const step of body.steps) {
+                if (!step || !step.name || typeof step.name !== "string") {
+                    return "Each step requires a name";
+                }
+                if (!Number.isInteger(step.order) || step.order < 1) {
+                    return "Each step requires an order of at least 1";
+                }
+                if (!Array.isArray(step.roles) || step.roles.length === 0 ||
+                    step.roles.some((r: any) => !REVIEWER_ROLES.includes(r))) {
+                    return `Each step requires roles among ${REVIEWER_ROLES.join(", ")}`;
+                }
+                if (step.requiredContribution !== undefined &&
+                    !Object.values(ContributionType).includes(step.requiredContribution)) {
+                    return "Invalid requiredContribution";
+                }
+                if (step.reviewers !== undefined &&
+                    (!Array.isArray(step.reviewers) || step.reviewers.some((id: any) => !mongoose.Types.ObjectId.isValid(id)))) {
+                    return "Step reviewers must be an array of user IDs";
+                }
+                if (step.quorum !== undefined && (!Number.isInteger(step.quorum) || step.quorum < 1)) {
+                    return "Step quorum must be a whole number of at least 1";
+                }
+                if (step.checkScope !== undefined && typeof step.checkScope !== "boolean") {
+                    return "Step checkScope must be a boolean";
+                }
+            }
+        }
+
+        return null;
+    }
+
+    private static handleError(action: string, error: any) {
+        console.error(`[ValidationPolicy Controller] ${action} Error:`, error);
+
+        if (error.message.includes("not found")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 404 }
+            );
+        }
+
+        if (error.message.includes("Unauthorized")) {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 403 }
+            );
+        }
+
+        if (error.message.includes("must target") || error.message.includes("designated reviewers") ||
+            error.name === "ValidationError") {
+            return NextResponse.json(
+                { success: false, message: error.message },
+                { status: 400 }
+            );
+        }
+
+        return NextResponse.json(
+            { success: false, message: error.message || "Internal server error" },
+            { status: 500 }
+        );
+    }
+}
@@ -4,6 +4,9 @@ import { StatsUpdateObserver } from './observers/StatsUpdateObserver'
 import { BadgeAwardObserver } from './observers/BadgeAwardObserver'
 import { XPUpdateObserver } from './observers/XPUpdateObserver'
 import { NotificationObserver } from './observers/NotificationObserver'
+import { ConceptMasteryObserver } from './observers/ConceptMasteryObserver'
+import { CompetencyEvaluationObserver } from './observers/CompetencyEvaluationObserver'
+import { ReliabilityObserver } from './observers/ReliabilityObserver'
 
 export * from './types'
 export * from './interfaces/IObserver'
@@ -26,6 +29,9 @@ export const initEventSystem = (): void => {
     publisher.subscribe(new StatsUpdateObserver())
     publisher.subscribe(new BadgeAwardObserver())
     publisher.subscribe(new XPUpdateObserver())
+    publisher.subscribe(new ConceptMasteryObserver())
+    publisher.subscribe(new CompetencyEvaluationObserver())
+    publisher.subscribe(new ReliabilityObserver())
 
     console.log('[EventSystem] Initialization complete.')
 
@@ -0,0 +1,30 @@
+import { IObserver } from '../interfaces/IObserver'
+import { Event, EventType, AttemptGradedEvent } from '../types'
+import { CompetencyEvaluationService } from '@/lib/services/CompetencyEvaluationService'
+
+/**
+ * Observateur pour l'évaluation des compétences (APC) après chaque correction
+ */
+export class CompetencyEvaluationObserver implements IObserver {
+    getName(): string {
+        return 'CompetencyEvaluationObserver'
+    }
+
+    getInterestedEvents(): string[] {
+        return [
+            EventType.ATTEMPT_GRADED
+        ]
+    }
+
+    async update(event: Event): Promise<void> {
+        if (event.type !== EventType.ATTEMPT_GRADED) return
+
+        const { attemptId } = (event as AttemptGradedEvent).data
+        try {
+            const evaluations = await CompetencyEvaluationService.evaluateAttempt(attemptId)
+            console.log(`[CompetencyEvaluation] Evaluated ${evaluations.length} competency(ies) for attempt ${attemptId}`)
+        } catch (error) {
+            console.error('[CompetencyEvaluation] Error evaluating competencies:', error)
+        }
+    }
+}
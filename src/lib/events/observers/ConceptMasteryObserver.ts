@@ -0,0 +1,30 @@
+import { IObserver } from '../interfaces/IObserver'
+import { Event, EventType, AttemptGradedEvent } from '../types'
+import { ConceptMasteryService } from '@/lib/services/ConceptMasteryService'
+
+/**
+ * Observateur pour la maîtrise des concepts mesurée après chaque correction
+ */
+export class ConceptMasteryObserver implements IObserver {
+    getName(): string {
+        return 'ConceptMasteryObserver'
+    }
+
+    getInterestedEvents(): string[] {
+        return [
+            EventType.ATTEMPT_GRADED
+        ]
+    }
+
+    async update(event: Event): Promise<void> {
+        if (event.type !== EventType.ATTEMPT_GRADED) return
+
+        const { attemptId } = (event as AttemptGradedEvent).data
+        try {
+            const records = await ConceptMasteryService.updateFromAttempt(attemptId)
+            console.log(`[ConceptMastery] Updated ${records.length} concept(s) for attempt ${attemptId}`)
+        } catch (error) {
+            console.error('[ConceptMastery] Error updating concept mastery:', error)
+        }
+    }
+}
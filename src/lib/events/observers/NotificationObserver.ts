@@ -22,8 +22,13 @@ export class NotificationObserver implements IObserver {
             EventType.EXAM_CREATED,
             EventType.EXAM_COMPLETED,
             EventType.EXAM_PUBLISHED,
+            EventType.EXAM_CLOSED,
+            EventType.EXAM_ARCHIVED,
             EventType.EXAM_VALIDATED,
             EventType.EXAM_SUBMITTED_FOR_VALIDATION,
+            EventType.EXAM_REJECTED,
+            EventType.EXAM_VALIDATION_STEP_APPROVED,
+            EventType.EXAM_REVIEW_COMMENTED,
             EventType.BADGE_EARNED,
             EventType.LEVEL_UP,
             EventType.XP_GAINED,
@@ -64,12 +69,27 @@ export class NotificationObserver implements IObserver {
                 case EventType.EXAM_PUBLISHED:
                     await this.handleExamPublished(event)
                     break
+                case EventType.EXAM_CLOSED:
+                    await this.handleExamClosed(event)
+                    break
+                case EventType.EXAM_ARCHIVED:
+                    await this.handleExamArchived(event)
+                    break
                 case EventType.EXAM_VALIDATED:
                     await this.handleExamValidated(event)
                     break
                 case EventType.EXAM_SUBMITTED_FOR_VALIDATION:
                     await this.handleExamSubmittedForValidation(event)
                     break
+                case EventType.EXAM_REJECTED:
+                    await this.handleExamRejected(event)
+                    break
+                case EventType.EXAM_VALIDATION_STEP_APPROVED:
+                    await this.handleValidationStepApproved(event)
+                    break
+                case EventType.EXAM_REVIEW_COMMENTED:
+                    await this.handleExamReviewCommented(event)
+                    break
                 case EventType.ATTEMPT_GRADED:
                     await this.handleAttemptGraded(event as AttemptGradedEvent)
                     break
@@ -378,6 +398,58 @@ export class NotificationObserver implements IObserver {
         }
     }
 
+    /**
+     * Notification pour examen clôturé automatiquement (TEACHER)
+     */
+    private async handleExamClosed(event: Event): Promise<void> {
+        try {
+            const { default: Exam } = await import('@/models/Exam')
+            const exam = await (Exam as any).findById(event.data.examId)
+            if (!exam) return
+
+            // Notifier le teacher créateur
+            await Notification.create({
+                userId: exam.createdById,
+                type: 'exam',
+                title: 'Examen clôturé 🔒',
+                message: `Votre examen "${exam.title}" est clôturé : plus aucune tentative ne peut démarrer`,
+                read: false,
+                data: { examId: exam._id, closedAt: event.data.closedAt }
+            })
+
+            console.log(`[NotificationObserver] Exam closed notification created for teacher ${exam.createdById}`)
+        } catch (error) {
+            console.error('[NotificationObserver] Error in handleExamClosed:', error)
+        }
+    }
+
+    /**
+     * Notification pour examen archivé (TEACHER)
+     */
+    private async handleExamArchived(event: Event): Promise<void> {
+        try {
+            const { default: Exam } = await import('@/models/Exam')
+            const exam = await (Exam as any).findById(event.data.examId)
+            if (!exam) return
+
+            // Notifier le teacher créateur
+            await Notification.create({
+                userId: exam.createdById,
+                type: 'info',
+                title: 'Examen archivé 🗄️',
+                message: event.data.scheduled
+                    ? `Votre examen "${exam.title}" a été archivé automatiquement`
+                    : `Votre examen "${exam.title}" a été archivé`,
+                read: false,
+                data: { examId: exam._id, archivedBy: event.data.archivedBy }
+            })
+
+            console.log(`[NotificationObserver] Exam archived notification created for teacher ${exam.createdById}`)
+        } catch (error) {
+            console.error('[NotificationObserver] Error in handleExamArchived:', error)
+        }
+    }
+
     /**
      * Notification pour examen validé (TEACHER)
      */
@@ -437,6 +509,91 @@ export class NotificationObserver implements IObserver {
         }
     }
 
+    /**
+     * Notification pour examen rejeté / modifications demandées (TEACHER)
+     */
+    private async handleExamRejected(event: Event): Promise<void> {
+        try {
+            const { default: Exam } = await import('@/models/Exam')
+            const exam = await (Exam as any).findById(event.data.examId)
+            if (!exam) return
+
+            // Notifier le teacher créateur
+            await Notification.create({
+                userId: exam.createdById,
+                type: 'alert',
+                title: 'Modifications demandées ✏️',
+                message: `Votre examen "${exam.title}" a été renvoyé en brouillon : ${event.data.reason}`,
+                read: false,
+                data: {
+                    examId: exam._id,
+                    rejectedBy: event.data.rejectedBy,
+                    commentCount: event.data.commentCount
+                }
+            })
+
+            console.log(`[NotificationObserver] Exam rejected notification created for teacher ${exam.createdById}`)
+        } catch (error) {
+            console.error('[NotificationObserver] Error in handleExamRejected:', error)
+        }
+    }
+
+    /**
+     * Notification pour étape de validation approuvée (TEACHER)
+     */
+    private async handleValidationStepApproved(event: Event): Promise<void> {
+        try {
+            const { default: Exam } = await import('@/models/Exam')
+            const exam = await (Exam as any).findById(event.data.examId)
+            if (!exam) return
+
+            // Notifier le teacher créateur
+            await Notification.create({
+                userId: exam.createdById,
+                type: 'info',
+                title: 'Étape de validation approuvée 🧾',
+                message: `L'étape "${event.data.step}" de votre examen "${exam.title}" a été approuvée. Étapes restantes : ${event.data.remainingSteps.join(', ')}`,
+                read: false,
+                data: {
+                    examId: exam._id,
+                    approvedBy: event.data.approvedBy,
+                    step: event.data.step
+                }
+            })
+
+            console.log(`[NotificationObserver] Validation step notification created for teacher ${exam.createdById}`)
+        } catch (error) {
+            console.error('[NotificationObserver] Error in handleValidationStepApproved:', error)
+        }
+    }
+
+    /**
+     * Notification pour commentaire de revue (auteur de l'examen et participants du fil)
+     */
+    private async handleExamReviewCommented(event: Event): Promise<void> {
+        try {
+            const notifications = (event.data.recipientIds as string[]).map(recipientId => ({
+                userId: new mongoose.Types.ObjectId(recipientId),
+                type: 'info',
+                title: event.data.isReply ? 'Nouvelle réponse de revue 💬' : 'Nouveau commentaire de revue 💬',
+                message: `${event.data.questionId ? "Une question de l'examen" : "L'examen"} "${event.data.title}" a reçu un ${event.data.isReply ? 'nouveau message' : 'commentaire'}`,
+                read: false,
+                data: {
+                    examId: event.data.examId,
+                    commentId: event.data.commentId,
+                    questionId: event.data.questionId
+                }
+            }))
+
+            if (notifications.length > 0) {
+                await Notification.insertMany(notifications)
+                console.log(`[NotificationObserver] ${notifications.length} review comment notifications created`)
+            }
+        } catch (error) {
+            console.error('[NotificationObserver] Error in handleExamReviewCommented:', error)
+        }
+    }
+
     /**
      * Notification pour tentative corrigée (STUDENT)
      */
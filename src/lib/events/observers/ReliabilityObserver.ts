@@ -0,0 +1,32 @@
+import { IObserver } from '../interfaces/IObserver'
+import { Event, EventType, AttemptGradedEvent } from '../types'
+import { ItemAnalysisService } from '@/lib/services/ItemAnalysisService'
+
+/**
+ * Observateur pour la fidélité des examens (KR-20 / alpha, erreur type de mesure)
+ */
+export class ReliabilityObserver implements IObserver {
+    getName(): string {
+        return 'ReliabilityObserver'
+    }
+
+    getInterestedEvents(): string[] {
+        return [
+            EventType.ATTEMPT_GRADED
+        ]
+    }
+
+    async update(event: Event): Promise<void> {
+        if (event.type !== EventType.ATTEMPT_GRADED) return
+
+        const { examId } = (event as AttemptGradedEvent).data
+        try {
+            const reliability = await ItemAnalysisService.updateReliability(examId)
+            if (reliability) {
+                console.log(`[Reliability] Exam ${examId}: ${reliability.method} = ${reliability.coefficient}`)
+            }
+        } catch (error) {
+            console.error('[Reliability] Error updating exam reliability:', error)
+        }
+    }
+}
@@ -12,7 +12,11 @@ export enum EventType {
     EXAM_VALIDATED = 'EXAM_VALIDATED',
     EXAM_SUBMITTED_FOR_VALIDATION = 'EXAM_SUBMITTED_FOR_VALIDATION',
     EXAM_ARCHIVED = 'EXAM_ARCHIVED',
+    EXAM_CLOSED = 'EXAM_CLOSED',
     EXAM_STATUS_CHANGED = 'EXAM_STATUS_CHANGED',
+    EXAM_REJECTED = 'EXAM_REJECTED',
+    EXAM_VALIDATION_STEP_APPROVED = 'EXAM_VALIDATION_STEP_APPROVED',
+    EXAM_REVIEW_COMMENTED = 'EXAM_REVIEW_COMMENTED',
 
     // Événements de tentative
     ATTEMPT_STARTED = 'ATTEMPT_STARTED',
@@ -0,0 +1,118 @@
+import { shuffleWithSeed } from './shuffle'
+
+/**
+ * Section state of an attempt (see AttemptSection); dates are optional until
+ * the section starts.
+ */
+interface SectionState {
+    sectionId: any
+    questionIds: any[]
+    duration: number
+    allowBackNavigation: boolean
+    startedAt?: Date
+    expiresAt?: Date
+    completedAt?: Date
+    furthestIndex: number
+}
+
+/**
+ * Build the section states of a new attempt
+ * Sections are taken in order; each keeps its questions in exam order, or in a
+ * per-attempt shuffled order when the section shuffles its questions.
+ * Only the first section is started.
+ */
+export function buildAttemptSections<Q extends { _id: any; sectionId?: any; order?: number }>(
+    sections: { _id: any; order: number; duration: number; shuffleQuestions?: boolean; allowBackNavigation?: boolean }[],
+    questions: Q[],
+    seed: string,
+    now: Date
+) {
+    const states = [...sections]
+        .sort((a, b) => a.order - b.order)
+        .map(section => {
+            const sectionQuestions = questions
+                .filter(q => q.sectionId?.toString() === section._id.toString())
+                .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+            const ordered = section.shuffleQuestions
+                ? shuffleWithSeed(sectionQuestions, `${seed}-${section._id.toString()}`)
+                : sectionQuestions
+
+            return {
+                sectionId: section._id,
+                questionIds: ordered.map(q => q._id),
+                duration: section.duration,
+                allowBackNavigation: section.allowBackNavigation ?? true,
+                startedAt: undefined as Date | undefined,
+                expiresAt: undefined as Date | undefined,
+                completedAt: undefined as Date | undefined,
+                furthestIndex: -1
+            }
+        })
+
+    if (states.length > 0) startSection(states[0], now)
+    return states
+}
+
+/**
+ * Index of the active section (started, not completed), or -1
+ */
+export function activeSectionIndex(sections: SectionState[]): number {
+    return sections.findIndex(s => s.startedAt && !s.completedAt)
+}
+
+/**
+ * Close the sections whose time is over
+ * The next section starts when the previous one expired: its timer keeps running
+ * even if the student does not move on. Returns true if a section changed.
+ */
+export function syncAttemptSections(sections: SectionState[], now: Date): boolean {
+    let changed = false
+
+    for (let i = 0; i < sections.length; i++) {
+        const section = sections[i]
+        if (section.completedAt) continue
+        if (!section.startedAt || !section.expiresAt || section.expiresAt > now) break
+
+        section.completedAt = section.expiresAt
+        changed = true
+
+        const next = sections[i + 1]
+        if (next && !next.startedAt) startSection(next, section.expiresAt)
+    }
+
+    return changed
+}
+
+/**
+ * Complete the active section and start the next one now
+ * Returns the index of the new active section, or -1 after the last one.
+ */
+export function advanceSection(sections: SectionState[], now: Date): number {
+    const index = activeSectionIndex(sections)
+    if (index === -1) return -1
+
+    sections[index].completedAt = now
+    const next = sections[index + 1]
+    if (!next) return -1
+
+    startSection(next, now)
+    return index + 1
+}
+
+/**
+ * Questions the student can still answer: those of the active section, except
+ * the ones left behind in a section without back navigation
+ */
+export function answerableQuestionIds(sections: SectionState[]): Set<string> {
+    const index = activeSectionIndex(sections)
+    if (index === -1) return new Set()
+
+    const section = sections[index]
+    const firstOpen = section.allowBackNavigation ? 0 : Math.max(section.furthestIndex, 0)
+    return new Set(section.questionIds.slice(firstOpen).map(id => id.toString()))
+}
+
+function startSection(section: SectionState, at: Date) {
+    section.startedAt = at
+    section.expiresAt = new Date(at.getTime() + section.duration * 60 * 1000)
+}
@@ -0,0 +1,334 @@
+/**
+ * Minimal math expression parser used to grade algebra answers
+ * Supports + - * / ^, implicit multiplication (2x, 2(x+1), (x+1)(x-1)),
+ * single-letter variables, the constants pi and e and common functions.
+ */
+
+export type MathNode =
+    | { type: 'num'; value: number }
+    | { type: 'var'; name: string }
+    | { type: 'neg'; arg: MathNode }
+    | { type: 'op'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+    | { type: 'fn'; name: string; arg: MathNode }
+
+type Token =
+    | { kind: 'num'; value: number }
+    | { kind: 'id'; name: string }
+    | { kind: 'op'; value: string }
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sqrt: Math.sqrt,
+    abs: Math.abs,
+    exp: Math.exp,
+    ln: Math.log,
+    log: Math.log10,
+    sin: Math.sin,
+    cos: Math.cos,
+    tan: Math.tan
+}
+
+const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    e: Math.E
+}
+
+// Longest names first so that "exp" is not read as the constant e
+const KNOWN_NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length)
+
+const MAX_EXPRESSION_LENGTH = 200
+
+/**
+ * Normalize typographic symbols (×, ÷, −, ², √...) to plain ASCII operators
+ */
+function normalizeInput(input: string): string {
+    return input
+        .replace(/[×·∙]/g, '*')
+        .replace(/÷/g, '/')
+        .replace(/[−–]/g, '-')
+        .replace(/²/g, '^2')
+        .replace(/³/g, '^3')
+        .replace(/√/g, 'sqrt')
+        .replace(/π/g, 'pi')
+        .replace(/\*\*/g, '^')
+        .replace(/(\d),(\d)/g, '$1.$2')
+}
+
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = []
+    let i = 0
+
+    while (i < input.length) {
+        const char = input[i]
+
+        if (/\s/.test(char)) {
+            i++
+        } else if (/[\d.]/.test(char)) {
+            const match = input.slice(i).match(/^(\d+\.?\d*|\.\d+)/)
+            if (!match) throw new Error(`Invalid number at position ${i}`)
+            tokens.push({ kind: 'num', value: parseFloat(match[1]) })
+            i += match[1].length
+        } else if (/[a-zA-Z]/.test(char)) {
+            let word = input.slice(i).match(/^[a-zA-Z]+/)![0]
+            i += word.length
+
+            // Known names are kept whole, any other letter is a variable (sinx = sin x, xy = x*y)
+            while (word) {
+                const name = KNOWN_NAMES.find(known => word.startsWith(known)) || word[0]
+                tokens.push({ kind: 'id', name })
+                word = word.slice(name.length)
+            }
+        } else if ('+-*/^()'.includes(char)) {
+            tokens.push({ kind: 'op', value: char })
+            i++
+        } else {
+            throw new Error(`Unexpected character "${char}"`)
+        }
+    }
+
+    return tokens
+}
+
+class Parser {
+    private position = 0
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): MathNode {
+        const node = this.expression()
+        if (this.position < this.tokens.length) throw new Error('Unexpected trailing input')
+        return node
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position]
+    }
+
+    private isOp(value: string): boolean {
+        const token = this.peek()
+        return token?.kind === 'op' && token.value === value
+    }
+
+    private expect(value: string) {
+        if (!this.isOp(value)) throw new Error(`Expected "${value}"`)
+        this.position++
+    }
+
+    // expression := term (('+' | '-') term)*
+    private expression(): MathNode {
+        let node = this.term()
+        while (this.isOp('+') || this.isOp('-')) {
+            const op = (this.tokens[this.position++] as { value: '+' | '-' }).value
+            node = { type: 'op', op, left: node, right: this.term() }
+        }
+        return node
+    }
+
+    // term := factor (('*' | '/') factor | implicit factor)*
+    private term(): MathNode {
+        let node = this.factor()
+        for (;;) {
+            if (this.isOp('*') || this.isOp('/')) {
+                const op = (this.tokens[this.position++] as { value: '*' | '/' }).value
+                node = { type: 'op', op, left: node, right: this.factor() }
+            } else if (this.startsImplicitFactor()) {
+                node = { type: 'op', op: '*', left: node, right: this.power() }
+            } else {
+                return node
+            }
+        }
+    }
+
+    private startsImplicitFactor(): boolean {
+        const token = this.peek()
+        return !!token && (token.kind === 'num' || token.kind === 'id' || (token.kind === 'op' && token.value === '('))
+    }
+
+    // factor := ('-' | '+') factor | power
+    private factor(): MathNode {
+        if (this.isOp('-')) {
+            this.position++
+            return { type: 'neg', arg: this.factor() }
+        }
+        if (this.isOp('+')) {
+            this.position++
+            return this.factor()
+        }
+        return this.power()
+    }
+
+    // power := primary ('^' factor)?   (right-associative, -x^2 = -(x^2))
+    private power(): MathNode {
+        const base = this.primary()
+        if (this.isOp('^')) {
+            this.position++
+            return { type: 'op', op: '^', left: base, right: this.factor() }
+        }
+        return base
+    }
+
+    // primary := number | constant | variable | function '(' expression ')' | '(' expression ')'
+    private primary(): MathNode {
+        const token = this.tokens[this.position++]
+        if (!token) throw new Error('Unexpected end of expression')
+
+        if (token.kind === 'num') return { type: 'num', value: token.value }
+
+        if (token.kind === 'id') {
+            if (FUNCTIONS[token.name]) {
+                // Parentheses are optional around a simple argument (sqrt2, sin x)
+                if (this.isOp('(')) {
+                    this.position++
+                    const arg = this.expression()
+                    this.expect(')')
+                    return { type: 'fn', name: token.name, arg }
+                }
+                return { type: 'fn', name: token.name, arg: this.power() }
+            }
+            return { type: 'var', name: token.name }
+        }
+
+        if (token.value === '(') {
+            const node = this.expression()
+            this.expect(')')
+            return node
+        }
+
+        throw new Error(`Unexpected "${token.value}"`)
+    }
+}
+
+/**
+ * Parse a math expression, throwing on invalid input
+ */
+export function parseMathExpression(input: string): MathNode {
+    if (!input || !input.trim()) throw new Error('Empty expression')
+    if (input.length > MAX_EXPRESSION_LENGTH) throw new Error('Expression is too long')
+
+    const tokens = tokenize(normalizeInput(input))
+    return new Parser(tokens).parse()
+}
+
+/**
+ * Evaluate an expression for the given variable values (NaN when undefined)
+ */
+export function evaluateMathExpression(node: MathNode, scope: Record<string, number>): number {
+    switch (node.type) {
+        case 'num':
+            return node.value
+        case 'var':
+            return node.name in scope ? scope[node.name] : (CONSTANTS[node.name] ?? NaN)
+        case 'neg':
+            return -evaluateMathExpression(node.arg, scope)
+        case 'fn':
+            return FUNCTIONS[node.name](evaluateMathExpression(node.arg, scope))
+        case 'op': {
+            const left = evaluateMathExpression(node.left, scope)
+            const right = evaluateMathExpression(node.right, scope)
+            switch (node.op) {
+                case '+': return left + right
+                case '-': return left - right
+                case '*': return left * right
+                case '/': return left / right
+                case '^': return Math.pow(left, right)
+            }
+        }
+    }
+}
+
+/**
+ * Variables used by an expression (constants excluded)
+ */
+export function mathVariables(node: MathNode, result = new Set<string>()): Set<string> {
+    if (node.type === 'var' && CONSTANTS[node.name] === undefined) result.add(node.name)
+    if (node.type === 'neg' || node.type === 'fn') mathVariables(node.arg, result)
+    if (node.type === 'op') {
+        mathVariables(node.left, result)
+        mathVariables(node.right, result)
+    }
+    return result
+}
+
+/**
+ * Number of nodes of an expression (used to compare the length of two forms)
+ */
+export function mathExpressionSize(node: MathNode): number {
+    if (node.type === 'neg' || node.type === 'fn') return 1 + mathExpressionSize(node.arg)
+    if (node.type === 'op') return 1 + mathExpressionSize(node.left) + mathExpressionSize(node.right)
+    return 1
+}
+
+/**
+ * Whether an expression still contains an obvious simplification:
+ * an operation between two numbers (3+1, 2*3, 2^3, but not a fraction like 1/2),
+ * or a neutral element (x+0, x*1, x^1, x/1)
+ */
+export function hasTrivialSimplification(node: MathNode): boolean {
+    if (node.type === 'neg') {
+        return node.arg.type === 'neg' || hasTrivialSimplification(node.arg)
+    }
+    if (node.type === 'fn') return hasTrivialSimplification(node.arg)
+    if (node.type !== 'op') return false
+
+    const { op, left, right } = node
+    const isNumber = (n: MathNode, value?: number) => n.type === 'num' && (value === undefined || n.value === value)
+
+    if (isNumber(left) && isNumber(right)) {
+        if (op !== '/') return true
+        const quotient = (left as { value: number }).value / (right as { value: number }).value
+        if (Number.isInteger(quotient)) return true
+    }
+    if ((op === '+' || op === '-') && (isNumber(right, 0) || (op === '+' && isNumber(left, 0)))) return true
+    if (op === '*' && (isNumber(left, 1) || isNumber(right, 1) || isNumber(left, 0) || isNumber(right, 0))) return true
+    if ((op === '/' || op === '^') && isNumber(right, 1)) return true
+
+    return hasTrivialSimplification(left) || hasTrivialSimplification(right)
+}
+
+/**
+ * Check that two expressions are equal on random variable values
+ * The sample points are seeded by the expressions so grading is reproducible.
+ */
+export function areMathExpressionsEquivalent(
+    a: MathNode,
+    b: MathNode,
+    options: { samples?: number; tolerance?: number; seed?: string } = {}
+): boolean {
+    const samples = options.samples ?? 24
+    const tolerance = options.tolerance ?? 1e-6
+    const variables = Array.from(new Set([...mathVariables(a), ...mathVariables(b)]))
+
+    let hash = 0
+    for (const char of options.seed ?? JSON.stringify([a, b])) {
+        hash = ((hash << 5) - hash + char.charCodeAt(0)) | 0
+    }
+    let state = Math.abs(hash) || 1
+    const random = () => {
+        state = (state * 9301 + 49297) % 233280
+        return state / 233280
+    }
+
+    let compared = 0
+    for (let i = 0; i < samples * 4 && compared < samples; i++) {
+        // Values in [-3, 3] also cover negative inputs (sqrt(x^2) is not x)
+        const scope: Record<string, number> = {}
+        for (const name of variables) scope[name] = random() * 6 - 3
+
+        const valueA = evaluateMathExpression(a, scope)
+        const valueB = evaluateMathExpression(b, scope)
+        const finiteA = Number.isFinite(valueA)
+        const finiteB = Number.isFinite(valueB)
+
+        // Outside the domain of both expressions: draw another point
+        if (!finiteA && !finiteB) continue
+        if (finiteA !== finiteB) return false
+
+        if (Math.abs(valueA - valueB) > tolerance * Math.max(1, Math.abs(valueA), Math.abs(valueB))) {
+            return false
+        }
+        compared++
+
+        if (variables.length === 0) break
+    }
+
+    return compared > 0
+}
@@ -0,0 +1,360 @@
+import { describe, it, expect } from 'vitest'
+import {
+    AdaptiveEvaluationStrategy,
+    ClozeEvaluationStrategy,
+    MatchingEvaluationStrategy,
+    MathExpressionEvaluationStrategy,
+    NumericEvaluationStrategy,
+    OrderingEvaluationStrategy,
+    QCMEvaluationStrategy,
+    applyHintPenalty,
+    negativeMarkingPolicy,
+    wrongAnswerPenalty
+} from './EvaluationStrategy'
+import { IExam } from '@/models/Exam'
+import { EvaluationType, NegativeMarkingFloor } from '@/models/enums'
+import { ClozeConfig, MathExpressionConfig, NumericConfig } from '@/models/Question'
+
+const options = [
+    { _id: 'a', isCorrect: true },
+    { _id: 'b', isCorrect: true },
+    { _id: 'c', isCorrect: false },
+    { _id: 'd', isCorrect: false }
+]
+
+describe('QCMEvaluationStrategy.scoreSelection', () => {
+    it('gives all or nothing by default', () => {
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a', 'b'])).toBe(1)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a'])).toBe(0)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a', 'b', 'c'])).toBe(0)
+    })
+
+    it('credits each well classified option in proportional mode', () => {
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a', 'c'], 'proportional')).toBe(0.5)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a'], 'proportional')).toBe(0.75)
+    })
+
+    it('subtracts wrong selections in right_minus_wrong mode, without going below zero', () => {
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a'], 'right_minus_wrong')).toBe(0.5)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a', 'c'], 'right_minus_wrong')).toBe(0)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['c', 'd'], 'right_minus_wrong')).toBe(0)
+    })
+
+    it('gives no credit to an empty selection', () => {
+        expect(QCMEvaluationStrategy.scoreSelection(options, [], 'proportional')).toBe(0)
+    })
+
+    it('counts a repeated option id once', () => {
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a', 'a'])).toBe(0)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['a', 'a'], 'right_minus_wrong')).toBe(0.5)
+        expect(QCMEvaluationStrategy.scoreSelection(options, ['c', 'c', 'a'], 'proportional')).toBe(0.5)
+    })
+})
+
+describe('AdaptiveEvaluationStrategy', () => {
+    const item = { discrimination: 1.2, difficulty: 0.5 }
+
+    it('gives an even chance when the ability matches the difficulty', () => {
+        expect(AdaptiveEvaluationStrategy.probability(0.5, item)).toBe(0.5)
+        expect(AdaptiveEvaluationStrategy.probability(2, item)).toBeGreaterThan(0.5)
+        expect(AdaptiveEvaluationStrategy.information(0.5, item)).toBeCloseTo(1.2 * 1.2 * 0.25)
+    })
+
+    it('falls back to difficulty levels for uncalibrated questions', () => {
+        expect(AdaptiveEvaluationStrategy.itemParameters({ difficulty: 'EXPERT' }))
+            .toEqual({ discrimination: 1, difficulty: 1.5 })
+        expect(AdaptiveEvaluationStrategy.itemParameters({ irt: { discrimination: 0.8, difficulty: -1 } }))
+            .toEqual({ discrimination: 0.8, difficulty: -1 })
+    })
+
+    it('returns the prior without answers', () => {
+        const { ability, standardError } = AdaptiveEvaluationStrategy.estimateAbility([])
+        expect(ability).toBeCloseTo(0)
+        expect(standardError).toBeCloseTo(1, 2)
+    })
+
+    it('moves the ability with the answers and narrows the error', () => {
+        const right = AdaptiveEvaluationStrategy.estimateAbility([
+            { params: item, isCorrect: true },
+            { params: item, isCorrect: true }
+        ])
+        const wrong = AdaptiveEvaluationStrategy.estimateAbility([
+            { params: item, isCorrect: false },
+            { params: item, isCorrect: false }
+        ])
+
+        expect(right.ability).toBeGreaterThan(0)
+        expect(wrong.ability).toBeLessThan(0)
+        expect(right.standardError).toBeLessThan(1)
+    })
+
+    it('maps the ability to a 0-100 scale centred on 50', () => {
+        expect(AdaptiveEvaluationStrategy.toScaledScore(0)).toBe(50)
+        expect(AdaptiveEvaluationStrategy.toScaledScore(1.5)).toBe(65)
+        expect(AdaptiveEvaluationStrategy.toScaledScore(8)).toBe(100)
+        expect(AdaptiveEvaluationStrategy.toScaledScore(-8)).toBe(0)
+    })
+})
+
+describe('NumericEvaluationStrategy.checkAnswer', () => {
+    const gravity: NumericConfig = { answer: 9.81, toleranceType: 'absolute', tolerance: 0.01, unit: 'm/s2', unitRequired: true }
+    const population: NumericConfig = { answer: 12000, toleranceType: 'relative', tolerance: 0.01, unitRequired: false }
+
+    it('accepts a decimal comma and an answer within tolerance', () => {
+        expect(NumericEvaluationStrategy.checkAnswer('9,81 m/s2', gravity).isCorrect).toBe(true)
+        expect(NumericEvaluationStrategy.checkAnswer('9.815 m/s2', gravity).isCorrect).toBe(true)
+        expect(NumericEvaluationStrategy.checkAnswer('9.9 m/s2', gravity)).toMatchObject({
+            isCorrect: false,
+            withinTolerance: false,
+            unitCorrect: true
+        })
+    })
+
+    it('rejects a missing required unit and unreadable answers', () => {
+        expect(NumericEvaluationStrategy.checkAnswer('9.81', gravity)).toMatchObject({
+            isCorrect: false,
+            withinTolerance: true,
+            unitCorrect: false
+        })
+        expect(NumericEvaluationStrategy.checkAnswer('environ dix', gravity).parsed).toBe(false)
+        expect(NumericEvaluationStrategy.checkAnswer(undefined, gravity).parsed).toBe(false)
+    })
+
+    it('reads thousands separated by spaces', () => {
+        expect(NumericEvaluationStrategy.checkAnswer('12 000', population)).toMatchObject({ isCorrect: true, value: 12000 })
+        expect(NumericEvaluationStrategy.checkAnswer('12\u00a0050', population).isCorrect).toBe(true)
+        expect(NumericEvaluationStrategy.checkAnswer('12 345,5', population).value).toBe(12345.5)
+        expect(NumericEvaluationStrategy.checkAnswer('12 500', population).isCorrect).toBe(false)
+    })
+
+    it('reads scientific notation and applies a relative tolerance', () => {
+        expect(NumericEvaluationStrategy.checkAnswer('1,2e4', population).isCorrect).toBe(true)
+        expect(NumericEvaluationStrategy.checkAnswer('1.19×10^4', population).isCorrect).toBe(true)
+        expect(NumericEvaluationStrategy.checkAnswer('1.1e4', population).isCorrect).toBe(false)
+    })
+
+    it('converts accepted units to the expected one', () => {
+        const distance: NumericConfig = {
+            answer: 1.5,
+            toleranceType: 'absolute',
+            tolerance: 0,
+            unit: 'km',
+            unitRequired: true,
+            acceptedUnits: [{ unit: 'm', factor: 0.001 }]
+        }
+
+        const check = NumericEvaluationStrategy.checkAnswer('1500 m', distance)
+        expect(check.isCorrect).toBe(true)
+        expect(check.value).toBeCloseTo(1.5)
+        expect(NumericEvaluationStrategy.checkAnswer('1.5 cm', distance).unitCorrect).toBe(false)
+    })
+
+    it('checks the number of significant figures', () => {
+        const pi: NumericConfig = { answer: 3.14, toleranceType: 'absolute', tolerance: 0.01, unitRequired: false, significantFigures: 3 }
+
+        expect(NumericEvaluationStrategy.checkAnswer('3,14', pi).isCorrect).toBe(true)
+        expect(NumericEvaluationStrategy.checkAnswer('3.140', pi)).toMatchObject({
+            isCorrect: false,
+            withinTolerance: true,
+            significantFiguresCorrect: false
+        })
+        expect(NumericEvaluationStrategy.matchesSignificantFigures('0.0120', 3)).toBe(true)
+        expect(NumericEvaluationStrategy.matchesSignificantFigures('1200', 2)).toBe(true)
+        expect(NumericEvaluationStrategy.matchesSignificantFigures('1200', 4)).toBe(true)
+        expect(NumericEvaluationStrategy.matchesSignificantFigures('1200', 1)).toBe(false)
+    })
+})
+
+describe('MatchingEvaluationStrategy.scoreMatches', () => {
+    const capitals = [
+        { _id: 'fr', text: 'France', matchText: 'Paris' },
+        { _id: 'cm', text: 'Cameroun', matchText: 'Yaoundé' },
+        { _id: 'cmr', text: 'Cameroon', matchText: 'Yaoundé' },
+        { _id: 'ng', text: 'Nigeria', matchText: 'Abuja' }
+    ]
+
+    it('credits each correct pair', () => {
+        expect(MatchingEvaluationStrategy.scoreMatches(capitals, [
+            { optionId: 'fr', matchOptionId: 'fr' },
+            { optionId: 'cm', matchOptionId: 'cm' },
+            { optionId: 'cmr', matchOptionId: 'cmr' },
+            { optionId: 'ng', matchOptionId: 'fr' }
+        ])).toBe(0.75)
+    })
+
+    it('treats options with the same match text as interchangeable', () => {
+        expect(MatchingEvaluationStrategy.scoreMatches(capitals, [
+            { optionId: 'cm', matchOptionId: 'cmr' },
+            { optionId: 'cmr', matchOptionId: 'cm' }
+        ])).toBe(0.5)
+    })
+
+    it('counts a repeated option once', () => {
+        expect(MatchingEvaluationStrategy.scoreMatches(capitals, [
+            { optionId: 'fr', matchOptionId: 'fr' },
+            { optionId: 'fr', matchOptionId: 'fr' },
+            { optionId: 'fr', matchOptionId: 'fr' }
+        ])).toBe(0.25)
+    })
+})
+
+describe('OrderingEvaluationStrategy.scoreOrdering', () => {
+    const steps = [
+        { _id: 'boil', correctPosition: 1 },
+        { _id: 'fill', correctPosition: 0 },
+        { _id: 'serve', correctPosition: 2 }
+    ]
+
+    it('orders options by their correct position', () => {
+        expect(OrderingEvaluationStrategy.expectedOrder(steps)).toEqual(['fill', 'boil', 'serve'])
+        expect(OrderingEvaluationStrategy.expectedOrder([{ _id: 'b', order: 1 }, { _id: 'a', order: 0 }])).toEqual(['a', 'b'])
+    })
+
+    it('credits each element at its position', () => {
+        expect(OrderingEvaluationStrategy.scoreOrdering(steps, ['fill', 'boil', 'serve'])).toBe(1)
+        expect(OrderingEvaluationStrategy.scoreOrdering(steps, ['fill', 'serve', 'boil'])).toBeCloseTo(1 / 3)
+        expect(OrderingEvaluationStrategy.scoreOrdering(steps, [])).toBe(0)
+    })
+})
+
+describe('ClozeEvaluationStrategy', () => {
+    const config: ClozeConfig = {
+        blanks: [
+            { id: '1', word: 'Yaoundé', synonyms: ['Ongola'], weight: 2, caseSensitive: false, ignoreAccents: true },
+            { id: '2', word: 'Douala', weight: 1, caseSensitive: true, ignoreAccents: false }
+        ]
+    }
+
+    it('checks the placeholders against the blanks', () => {
+        const text = 'La capitale est {{1}}, le port est {{ 2 }}.'
+        expect(ClozeEvaluationStrategy.placeholders(text)).toEqual(['1', '2'])
+        expect(ClozeEvaluationStrategy.isValidConfig(text, config)).toBe(true)
+        expect(ClozeEvaluationStrategy.isValidConfig('La capitale est {{1}}.', config)).toBe(false)
+        expect(ClozeEvaluationStrategy.isValidConfig('{{1}} et {{1}}', { blanks: [config.blanks[0]] })).toBe(false)
+    })
+
+    it('applies the case and accent rules of each blank', () => {
+        expect(ClozeEvaluationStrategy.checkBlank(config.blanks[0], '  yaounde ')).toBe(true)
+        expect(ClozeEvaluationStrategy.checkBlank(config.blanks[0], 'ONGOLA')).toBe(true)
+        expect(ClozeEvaluationStrategy.checkBlank(config.blanks[1], 'douala')).toBe(false)
+        expect(ClozeEvaluationStrategy.checkBlank(config.blanks[1], '')).toBe(false)
+    })
+
+    it('weights the correct blanks', () => {
+        const { ratio, blanks } = ClozeEvaluationStrategy.gradeBlanks(config, [
+            { blankId: '1', answer: 'Yaounde' },
+            { blankId: '2', answer: 'douala' }
+        ])
+
+        expect(ratio).toBeCloseTo(2 / 3)
+        expect(blanks).toEqual([
+            { blankId: '1', answer: 'Yaounde', isCorrect: true },
+            { blankId: '2', answer: 'douala', isCorrect: false }
+        ])
+        expect(ClozeEvaluationStrategy.gradeBlanks(config, [{ blankId: '2', answer: 'Douala' }]).ratio).toBeCloseTo(1 / 3)
+    })
+})
+
+describe('MathExpressionEvaluationStrategy.checkAnswer', () => {
+    const config: MathExpressionConfig = { answer: '2x+2', requireSimplified: false }
+
+    it('accepts equivalent expressions', () => {
+        expect(MathExpressionEvaluationStrategy.checkAnswer('2(x+1)', config).isCorrect).toBe(true)
+        expect(MathExpressionEvaluationStrategy.checkAnswer('x + x + 2', config).isCorrect).toBe(true)
+        expect(MathExpressionEvaluationStrategy.checkAnswer('x+2', config)).toMatchObject({
+            isCorrect: false,
+            parsed: true,
+            equivalent: false
+        })
+    })
+
+    it('rejects unreadable expressions', () => {
+        expect(MathExpressionEvaluationStrategy.checkAnswer('2*(x+', config).parsed).toBe(false)
+        expect(MathExpressionEvaluationStrategy.isValidExpression('sqrt(x)/2')).toBe(true)
+        expect(MathExpressionEvaluationStrategy.isValidExpression('')).toBe(false)
+    })
+
+    it('requires a simplified form when configured', () => {
+        const simplified = { ...config, requireSimplified: true }
+
+        expect(MathExpressionEvaluationStrategy.checkAnswer('2x+2', simplified).isCorrect).toBe(true)
+        expect(MathExpressionEvaluationStrategy.checkAnswer('1*(2x+2)', simplified)).toMatchObject({
+            isCorrect: false,
+            equivalent: true,
+            simplified: false
+        })
+        expect(MathExpressionEvaluationStrategy.checkAnswer('2x+1+1', simplified).isCorrect).toBe(false)
+    })
+})
+
+describe('applyHintPenalty', () => {
+    const exam = (penaltyPerHint?: number) =>
+        ({ config: penaltyPerHint === undefined ? {} : { hints: { enabled: true, penaltyPerHint } } }) as unknown as IExam
+
+    it('removes a share of the question points per revealed hint', () => {
+        expect(applyHintPenalty(exam(), { hintsRevealed: [{}] }, 2, 2)).toBeCloseTo(1.8)
+        expect(applyHintPenalty(exam(25), { hintsRevealed: [{}, {}] }, 4, 4)).toBe(2)
+        expect(applyHintPenalty(exam(25), { hintsRevealed: [] }, 4, 4)).toBe(4)
+    })
+
+    it('never goes below zero nor penalizes a question without credit', () => {
+        expect(applyHintPenalty(exam(50), { hintsRevealed: [{}, {}, {}] }, 1, 2)).toBe(0)
+        expect(applyHintPenalty(exam(50), { hintsRevealed: [{}] }, 0, 2)).toBe(0)
+    })
+})
+
+describe('negative marking', () => {
+    const markedExam = (floor: NegativeMarkingFloor, enabled = true) =>
+        ({ config: { passingScore: 50, negativeMarking: { enabled, penalty: 25, floor } } }) as unknown as IExam
+
+    const questions = [
+        { _id: 'q1', points: 2, sectionId: 's1' },
+        { _id: 'q2', points: 2, sectionId: 's2' },
+        { _id: 'q3', points: 2, sectionId: 's2' }
+    ]
+    const right = { questionId: 'q1', isCorrect: true, selectedOptionId: 'a' }
+    const wrong = { questionId: 'q2', isCorrect: false, selectedOptionId: 'c' }
+    const blank = { questionId: 'q3', isCorrect: false }
+
+    it('applies the exam setting, or 25 % by default to exam simulations', () => {
+        expect(negativeMarkingPolicy(markedExam(NegativeMarkingFloor.EXAM, false))).toBeNull()
+        expect(negativeMarkingPolicy({ config: {}, evaluationType: EvaluationType.QCM } as unknown as IExam)).toBeNull()
+        expect(negativeMarkingPolicy({ config: {}, evaluationType: EvaluationType.EXAM_SIMULATION } as unknown as IExam))
+            .toEqual({ enabled: true, penalty: 25, floor: NegativeMarkingFloor.EXAM })
+    })
+
+    it('only penalizes answers given without any credit', () => {
+        const exam = markedExam(NegativeMarkingFloor.EXAM)
+
+        expect(wrongAnswerPenalty(exam, questions[1], wrong, 0)).toBe(0.5)
+        expect(wrongAnswerPenalty(exam, { ...questions[1], wrongAnswerPenalty: 50 }, wrong, 0)).toBe(1)
+        expect(wrongAnswerPenalty(exam, questions[1], wrong, 0.5)).toBe(0)
+        expect(wrongAnswerPenalty(exam, questions[2], blank, 0)).toBe(0)
+        expect(wrongAnswerPenalty(exam, questions[1], { ...wrong, timeLimitExceeded: true }, 0)).toBe(0)
+        expect(wrongAnswerPenalty(
+            exam,
+            { points: 2, type: EvaluationType.OPEN_QUESTION, openQuestionConfig: { gradingMode: 'manual' } },
+            { textResponse: 'Réponse à corriger' },
+            0
+        )).toBe(0)
+    })
+
+    it('subtracts penalties from the exam score', async () => {
+        const result = await new QCMEvaluationStrategy().evaluate(
+            markedExam(NegativeMarkingFloor.EXAM),
+            [right, wrong, blank],
+            questions
+        )
+
+        expect(result).toMatchObject({ score: 1.5, maxScore: 6, percentage: 25, passed: false })
+        expect(result.details?.penalties).toBe(0.5)
+    })
+
+    it('floors the total at zero on the exam or on each section', async () => {
+        const strategy = new QCMEvaluationStrategy()
+        const allWrong = [{ ...right, isCorrect: false }, wrong, blank]
+
+        expect((await strategy.evaluate(markedExam(NegativeMarkingFloor.EXAM), allWrong, questions)).score).toBe(0)
+        expect((await strategy.evaluate(markedExam(NegativeMarkingFloor.SECTION), [right, wrong, blank], questions)).score).toBe(2)
+    })
+})
@@ -1,5 +1,12 @@
-import { IExam } from '@/models/Exam'
-import { EvaluationType } from '@/models/enums'
+import { IExam, NegativeMarkingConfig } from '@/models/Exam'
+import { ClozeBlank, ClozeConfig, IRTParameters, MathExpressionConfig, NumericConfig, QCMScoringMode } from '@/models/Question'
+import {
+    areMathExpressionsEquivalent,
+    hasTrivialSimplification,
+    mathExpressionSize,
+    parseMathExpression
+} from '@/lib/mathExpression'
+import { EvaluationType, NegativeMarkingFloor } from '@/models/enums'
 import mongoose from 'mongoose'
 
 /**
@@ -81,34 +88,184 @@ export interface ConceptEvaluationResult {
     evaluatedAt: Date
 }
 
+// ==========================================
+// HINT PENALTY
+// ==========================================
+
+// Pénalité d'un indice révélé lorsque l'examen n'en précise pas (% des points de la question)
+export const DEFAULT_HINT_PENALTY = 10
+
+/**
+ * Retire au crédit d'une question la pénalité de ses indices révélés (Response.hintsRevealed)
+ * Chaque indice coûte IExam.config.hints.penaltyPerHint % des points de la question ;
+ * le crédit ne descend pas sous zéro.
+ */
+export function applyHintPenalty(exam: IExam, response: { hintsRevealed?: unknown[] } | undefined, earned: number, points: number): number {
+    const hintsUsed = response?.hintsRevealed?.length || 0
+    if (hintsUsed === 0 || earned <= 0) return earned
+
+    const rate = exam.config?.hints?.penaltyPerHint ?? DEFAULT_HINT_PENALTY
+    return Math.max(0, earned - hintsUsed * (rate / 100) * points)
+}
+
+/**
+ * Crédit d'une réponse avant indices et pénalités
+ * Les réponses à points partiels (QCM multiples, association, classement, texte à trous)
+ * portent leur score ; les autres valent tout ou rien (isCorrect, recalculé par certaines stratégies).
+ */
+export function earnedPoints(
+    response: { isCorrect?: boolean; partialScore?: number },
+    points: number,
+    isCorrect: boolean = !!response.isCorrect
+): number {
+    if (typeof response.partialScore === 'number') return Math.min(response.partialScore, points)
+    return isCorrect ? points : 0
+}
+
+// ==========================================
+// NEGATIVE MARKING
+// ==========================================
+
+// Barème des simulations d'examen lorsque la notation négative n'est pas configurée
+const EXAM_SIMULATION_NEGATIVE_MARKING: NegativeMarkingConfig = {
+    enabled: true,
+    penalty: 25,
+    floor: NegativeMarkingFloor.EXAM
+}
+
+/**
+ * Notation négative d'un examen : IExam.config.negativeMarking, ou à défaut le barème
+ * des simulations d'examen (25 % des points, plancher sur l'examen)
+ */
+export function negativeMarkingPolicy(exam: IExam): NegativeMarkingConfig | null {
+    const config = exam.config?.negativeMarking
+    if (config) return config.enabled ? config : null
+    return exam.evaluationType === EvaluationType.EXAM_SIMULATION ? EXAM_SIMULATION_NEGATIVE_MARKING : null
+}
+
+/**
+ * Vrai si la question a été laissée blanche (réponse enregistrée sans contenu)
+ */
+export function isBlankResponse(response: any): boolean {
+    if (!response) return true
+    return !response.selectedOptionId &&
+        !response.selectedOptionIds?.length &&
+        !response.textResponse?.trim() &&
+        !response.matches?.length &&
+        !response.orderedOptionIds?.length &&
+        !response.blankAnswers?.some((blank: { answer?: string }) => blank.answer?.trim())
+}
+
+/**
+ * Points retirés pour une réponse fausse
+ * Seules les réponses données et sans aucun crédit sont pénalisées : ni les questions
+ * blanches, ni les réponses hors délai, ni les questions ouvertes à corriger à la main.
+ * IQuestion.wrongAnswerPenalty remplace le pourcentage de l'examen.
+ */
+export function wrongAnswerPenalty(
+    exam: IExam,
+    question: any,
+    response: any,
+    earned: number,
+    points: number = question.points || 1
+): number {
+    const policy = negativeMarkingPolicy(exam)
+    if (!policy || earned > 0 || isBlankResponse(response) || response.timeLimitExceeded) return 0
+    if (question.type === EvaluationType.OPEN_QUESTION && question.openQuestionConfig?.gradingMode === 'manual') return 0
+
+    const rate = question.wrongAnswerPenalty ?? policy.penalty
+    return (rate / 100) * points
+}
+
+/**
+ * Total des points nets (crédit moins pénalités) des questions, ramené à zéro sur
+ * l'examen ou sur chaque partie (IQuestion.sectionId) selon la notation négative
+ */
+export function flooredTotal(exam: IExam, questions: any[], netByQuestion: Map<string, number>): number {
+    const bySection = negativeMarkingPolicy(exam)?.floor === NegativeMarkingFloor.SECTION
+    const totals = new Map<string, number>()
+    for (const question of questions) {
+        const key = bySection ? question.sectionId?.toString() ?? '' : ''
+        totals.set(key, (totals.get(key) ?? 0) + (netByQuestion.get(question._id.toString()) ?? 0))
+    }
+
+    const total = [...totals.values()].reduce((sum, value) => sum + Math.max(0, value), 0)
+    return Math.round(total * 100) / 100
+}
+
 // ==========================================
 // EXAM EVALUATION STRATEGIES
 // ==========================================
 
 /**
  * Stratégie pour les QCM (Questions à Choix Multiples)
+ * Supporte les QCM à réponses multiples avec notation partielle (voir QCMConfig)
  */
 export class QCMEvaluationStrategy implements EvaluationStrategy {
+    /**
+     * Calcule la fraction des points (0-1) obtenue pour une sélection d'options
+     * selon le mode de notation de la question
+     */
+    static scoreSelection(
+        options: { _id: any; isCorrect: boolean }[],
+        selectedOptionIds: string[],
+        scoringMode: QCMScoringMode = 'all_or_nothing'
+    ): number {
+        const selected = new Set(selectedOptionIds.map(id => id.toString()))
+        if (selected.size === 0 || options.length === 0) return 0
+
+        const correctCount = options.filter(o => o.isCorrect).length
+        const rightSelected = options.filter(o => o.isCorrect && selected.has(o._id.toString())).length
+        const wrongSelected = options.filter(o => !o.isCorrect && selected.has(o._id.toString())).length
+
+        switch (scoringMode) {
+            case 'proportional': {
+                // Options bien classées : bonnes cochées + mauvaises laissées vides
+                const wrongLeftOut = options.length - correctCount - wrongSelected
+                return (rightSelected + wrongLeftOut) / options.length
+            }
+
+            case 'right_minus_wrong':
+                if (correctCount === 0) return 0
+                return Math.max(0, (rightSelected - wrongSelected) / correctCount)
+
+            default:
+                return rightSelected === correctCount && wrongSelected === 0 ? 1 : 0
+        }
+    }
+
     async evaluate(
         exam: IExam,
         responses: any[],
         questions: any[]
     ): Promise<EvaluationResult> {
-        let score = 0
+        const netByQuestion = new Map<string, number>()
         let maxScore = 0
+        let partiallyCorrect = 0
+        let hintPenalty = 0
+        let penalties = 0
 
         for (const question of questions) {
-            maxScore += question.points || 1
+            const questionPoints = question.points || 1
+            maxScore += questionPoints
 
             const response = responses.find(
                 r => r.questionId.toString() === question._id.toString()
             )
 
-            if (response && response.isCorrect) {
-                score += question.points || 1
-            }
+            if (!response) continue
+
+            const earned = earnedPoints(response, questionPoints)
+            if (earned > 0 && !response.isCorrect) partiallyCorrect++
+
+            const credited = applyHintPenalty(exam, response, earned, questionPoints)
+            const penalty = wrongAnswerPenalty(exam, question, response, earned)
+            hintPenalty += earned - credited
+            penalties += penalty
+            netByQuestion.set(question._id.toString(), credited - penalty)
         }
 
+        const score = flooredTotal(exam, questions, netByQuestion)
         const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
         const passed = percentage >= exam.config.passingScore
 
@@ -120,7 +277,10 @@ export class QCMEvaluationStrategy implements EvaluationStrategy {
             feedback: passed ? 'Félicitations ! Vous avez réussi.' : 'Continuez vos efforts.',
             details: {
                 correctAnswers: responses.filter(r => r.isCorrect).length,
-                totalQuestions: questions.length
+                partiallyCorrectAnswers: partiallyCorrect,
+                totalQuestions: questions.length,
+                hintPenalty: Math.round(hintPenalty * 100) / 100,
+                penalties: Math.round(penalties * 100) / 100
             }
         }
     }
@@ -135,18 +295,23 @@ export class TrueFalseEvaluationStrategy implements EvaluationStrategy {
         responses: any[],
         questions: any[]
     ): Promise<EvaluationResult> {
-        let score = 0
+        const netByQuestion = new Map<string, number>()
         let maxScore = questions.length
+        let penalties = 0
 
+        // Un point par question
         for (const question of questions) {
             const response = responses.find(
                 r => r.questionId.toString() === question._id.toString()
             )
+            if (!response) continue
 
-            if (response && response.isCorrect) {
-                score += 1
-            }
+            const earned = response.isCorrect ? 1 : 0
+            const penalty = wrongAnswerPenalty(exam, question, response, earned, 1)
+            penalties += penalty
+            netByQuestion.set(question._id.toString(), applyHintPenalty(exam, response, earned, 1) - penalty)
         }
+        const score = flooredTotal(exam, questions, netByQuestion)
 
         const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
         const passed = percentage >= exam.config.passingScore
@@ -158,48 +323,416 @@ export class TrueFalseEvaluationStrategy implements EvaluationStrategy {
             passed,
             feedback: passed ? 'Excellent travail !' : 'Revoyez les concepts de base.',
             details: {
-                correctAnswers: score,
-                totalQuestions: maxScore
+                correctAnswers: responses.filter(r => r.isCorrect).length,
+                totalQuestions: maxScore,
+                penalties: Math.round(penalties * 100) / 100
             }
         }
     }
 }
 
 /**
- * Stratégie pour les évaluations adaptatives
+ * Stratégie pour les questions d'association (colonne A ↔ colonne B)
+ * Chaque option porte une paire (text, matchText) ; un point partiel par paire correcte.
  */
-export class AdaptiveEvaluationStrategy implements EvaluationStrategy {
+export class MatchingEvaluationStrategy extends QCMEvaluationStrategy {
+    /**
+     * Fraction des paires correctement associées (0-1)
+     * Deux options de même matchText sont interchangeables.
+     */
+    static scoreMatches(
+        options: { _id: any; matchText?: string }[],
+        matches: { optionId: any; matchOptionId: any }[]
+    ): number {
+        const pairs = options.filter(o => o.matchText)
+        if (pairs.length === 0) return 0
+
+        const byId = new Map(pairs.map(o => [o._id.toString(), o]))
+        const seen = new Set<string>()
+        let correct = 0
+
+        for (const match of matches) {
+            const optionId = match.optionId.toString()
+            if (seen.has(optionId)) continue
+            seen.add(optionId)
+
+            const option = byId.get(optionId)
+            const chosen = byId.get(match.matchOptionId.toString())
+            if (option && chosen && option.matchText === chosen.matchText) correct++
+        }
+
+        return correct / pairs.length
+    }
+}
+
+/**
+ * Stratégie pour les questions de classement (remettre des étapes dans l'ordre)
+ * Un point partiel par élément placé à la bonne position.
+ */
+export class OrderingEvaluationStrategy extends QCMEvaluationStrategy {
+    /**
+     * Ordre attendu des options (correctPosition, à défaut l'ordre de saisie)
+     */
+    static expectedOrder(options: { _id: any; correctPosition?: number; order?: number }[]): string[] {
+        return [...options]
+            .sort((a, b) => (a.correctPosition ?? a.order ?? 0) - (b.correctPosition ?? b.order ?? 0))
+            .map(o => o._id.toString())
+    }
+
+    /**
+     * Fraction des éléments placés à la bonne position (0-1)
+     */
+    static scoreOrdering(
+        options: { _id: any; correctPosition?: number; order?: number }[],
+        orderedOptionIds: any[]
+    ): number {
+        const expected = OrderingEvaluationStrategy.expectedOrder(options)
+        if (expected.length === 0) return 0
+
+        const correct = expected.filter((id, index) => orderedOptionIds[index]?.toString() === id).length
+        return correct / expected.length
+    }
+}
+
+/**
+ * Correction d'un trou de texte à trous
+ */
+export interface ClozeBlankResult {
+    blankId: string
+    answer: string
+    isCorrect: boolean
+}
+
+/**
+ * Stratégie pour les textes à trous (CLOZE)
+ * Chaque trou {{id}} est corrigé indépendamment (réponse attendue ou synonyme) ;
+ * la note de la question est la somme pondérée des trous corrects.
+ */
+export class ClozeEvaluationStrategy extends QCMEvaluationStrategy {
+    private static readonly PLACEHOLDER_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g
+
+    /**
+     * Identifiants des trous présents dans le texte de la question
+     */
+    static placeholders(text: string): string[] {
+        return Array.from(text.matchAll(ClozeEvaluationStrategy.PLACEHOLDER_PATTERN), m => m[1])
+    }
+
+    /**
+     * Vérifie que chaque trou du texte est défini (et inversement), sans doublon
+     */
+    static isValidConfig(text: string, config?: Partial<ClozeConfig>): boolean {
+        const blanks = config?.blanks || []
+        if (blanks.length === 0 || blanks.some(b => !b?.id || !b.word)) return false
+
+        const ids = blanks.map(b => b.id)
+        const placeholders = ClozeEvaluationStrategy.placeholders(text || '')
+        return new Set(ids).size === ids.length &&
+            new Set(placeholders).size === placeholders.length &&
+            placeholders.length === ids.length &&
+            placeholders.every(id => ids.includes(id))
+    }
+
+    /**
+     * Vérifie une réponse à un trou selon ses règles de casse et d'accents
+     */
+    static checkBlank(blank: ClozeBlank, answer: string | undefined): boolean {
+        const normalize = (value: string) => {
+            let result = value.trim().replace(/\s+/g, ' ')
+            if (!blank.caseSensitive) result = result.toLowerCase()
+            if (blank.ignoreAccents) result = result.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+            return result
+        }
+
+        const given = normalize(answer || '')
+        if (!given) return false
+
+        return [blank.word, ...(blank.synonyms || [])].some(accepted => normalize(accepted) === given)
+    }
+
+    /**
+     * Corrige chaque trou et renvoie la fraction pondérée des trous corrects (0-1)
+     */
+    static gradeBlanks(
+        config: ClozeConfig,
+        answers: { blankId: string; answer: string }[]
+    ): { ratio: number; blanks: ClozeBlankResult[] } {
+        const answersById = new Map(answers.map(a => [a.blankId, a.answer]))
+
+        const blanks = config.blanks.map(blank => {
+            const answer = answersById.get(blank.id) || ''
+            return { blankId: blank.id, answer, isCorrect: ClozeEvaluationStrategy.checkBlank(blank, answer) }
+        })
+
+        const totalWeight = config.blanks.reduce((sum, blank) => sum + (blank.weight ?? 1), 0)
+        if (totalWeight <= 0) return { ratio: 0, blanks }
+
+        const earned = config.blanks.reduce(
+            (sum, blank, index) => sum + (blanks[index].isCorrect ? blank.weight ?? 1 : 0),
+            0
+        )
+
+        return { ratio: earned / totalWeight, blanks }
+    }
+}
+
+/**
+ * Résultat de la vérification d'une réponse numérique
+ */
+export interface NumericAnswerCheck {
+    isCorrect: boolean
+    parsed: boolean // La réponse a pu être lue comme un nombre
+    value?: number // Valeur saisie convertie dans l'unité attendue
+    withinTolerance: boolean
+    unitCorrect: boolean
+    significantFiguresCorrect: boolean
+}
+
+/**
+ * Stratégie pour les questions à réponse numérique
+ * Accepte la virgule décimale, la notation scientifique (1,2e3 ou 1,2×10^3)
+ * et une unité en suffixe (ex: "9,81 m/s2").
+ */
+export class NumericEvaluationStrategy implements EvaluationStrategy {
+    private static readonly NUMBER_PATTERN =
+        /^\s*([+-]?(?:\d+(?:[.,]\d*)?|[.,]\d+))(?:\s*(?:[eE]|[x×*]\s*10\^)\s*([+-]?\d+))?\s*(.*?)\s*$/
+
+    /**
+     * Vérifie une réponse saisie par l'étudiant
+     */
+    static checkAnswer(rawAnswer: string | undefined, config: NumericConfig): NumericAnswerCheck {
+        const failed = {
+            isCorrect: false,
+            parsed: false,
+            withinTolerance: false,
+            unitCorrect: false,
+            significantFiguresCorrect: false
+        }
+
+        // Milliers séparés par des espaces (insécables comprises) : 1 000 = 1000
+        const answer = (rawAnswer || '').replace(/(\d)\s+(?=\d{3}(?!\d))/g, '$1')
+        const match = answer.match(NumericEvaluationStrategy.NUMBER_PATTERN)
+        if (!match) return failed
+
+        const [, mantissa, exponent, unitText] = match
+        const typedValue = parseFloat(mantissa.replace(',', '.')) * Math.pow(10, exponent ? parseInt(exponent) : 0)
+        if (!isFinite(typedValue)) return failed
+
+        // Unité : attendue, convertible, ou absente (si non obligatoire)
+        const unit = NumericEvaluationStrategy.normalizeUnit(unitText)
+        let factor: number | undefined
+        if (!unit) {
+            factor = config.unit && config.unitRequired ? undefined : 1
+        } else if (config.unit && unit === NumericEvaluationStrategy.normalizeUnit(config.unit)) {
+            factor = 1
+        } else {
+            factor = config.acceptedUnits?.find(
+                u => NumericEvaluationStrategy.normalizeUnit(u.unit) === unit
+            )?.factor
+        }
+        const unitCorrect = factor !== undefined
+        const value = typedValue * (factor ?? 1)
+
+        // Tolérance absolue ou relative (epsilon pour les erreurs d'arrondi flottant)
+        const allowed = config.toleranceType === 'relative'
+            ? Math.abs(config.answer) * (config.tolerance || 0)
+            : config.tolerance || 0
+        const withinTolerance = Math.abs(value - config.answer) <= allowed + 1e-9 * Math.max(1, Math.abs(config.answer))
+
+        const significantFiguresCorrect = !config.significantFigures
+            || NumericEvaluationStrategy.matchesSignificantFigures(mantissa, config.significantFigures)
+
+        return {
+            isCorrect: withinTolerance && unitCorrect && significantFiguresCorrect,
+            parsed: true,
+            value,
+            withinTolerance,
+            unitCorrect,
+            significantFiguresCorrect
+        }
+    }
+
+    /**
+     * Vérifie le nombre de chiffres significatifs d'une mantisse saisie
+     * Les zéros finaux d'un entier sans virgule sont ambigus (100 = 1 à 3 chiffres)
+     */
+    static matchesSignificantFigures(mantissa: string, expected: number): boolean {
+        const unsigned = mantissa.replace(/^[+-]/, '').replace(',', '.')
+        const hasDecimalPoint = unsigned.includes('.')
+        const digits = unsigned.replace('.', '').replace(/^0+/, '')
+
+        if (digits.length === 0) return expected === 1 // "0" ou "0.0"
+
+        if (hasDecimalPoint) return digits.length === expected
+
+        const withoutTrailingZeros = digits.replace(/0+$/, '').length
+        return expected >= withoutTrailingZeros && expected <= digits.length
+    }
+
+    private static normalizeUnit(unit?: string): string {
+        return (unit || '').replace(/\s+/g, '').replace(/[·.]/g, '*')
+    }
+
     async evaluate(
         exam: IExam,
         responses: any[],
         questions: any[]
     ): Promise<EvaluationResult> {
-        let score = 0
+        const netByQuestion = new Map<string, number>()
         let maxScore = 0
-        let difficultyBonus = 0
+        let correctAnswers = 0
+        let penalties = 0
+        let unitErrors = 0
+        let significantFigureErrors = 0
 
-        const orderedResponses = responses.sort((a, b) =>
-            new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime()
-        )
+        for (const question of questions) {
+            const points = question.points || 1
+            maxScore += points
 
-        for (let i = 0; i < orderedResponses.length; i++) {
-            const response = orderedResponses[i]
-            const question = questions.find(
-                q => q._id.toString() === response.questionId.toString()
+            const response = responses.find(
+                r => r.questionId.toString() === question._id.toString()
             )
+            if (!response) continue
+
+            let isCorrect = !!response.isCorrect
+            if (question.numericConfig) {
+                const check = NumericEvaluationStrategy.checkAnswer(response.textResponse, question.numericConfig)
+                isCorrect = check.isCorrect
+                if (check.withinTolerance && !check.unitCorrect) unitErrors++
+                if (check.withinTolerance && check.unitCorrect && !check.significantFiguresCorrect) significantFigureErrors++
+            }
 
-            if (!question) continue
+            if (isCorrect) correctAnswers++
+            const earned = earnedPoints(response, points, isCorrect)
+            const penalty = wrongAnswerPenalty(exam, question, response, earned)
+            penalties += penalty
+            netByQuestion.set(question._id.toString(), applyHintPenalty(exam, response, earned, points) - penalty)
+        }
+        const score = flooredTotal(exam, questions, netByQuestion)
 
-            const basePoints = question.points || 1
-            maxScore += basePoints
+        const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
+        const passed = percentage >= exam.config.passingScore
 
-            if (response.isCorrect) {
-                const difficultyMultiplier = this.getDifficultyMultiplier(question.difficulty)
-                const earnedPoints = basePoints * difficultyMultiplier
-                score += earnedPoints
-                difficultyBonus += earnedPoints - basePoints
+        return {
+            score,
+            maxScore,
+            percentage: Math.round(percentage * 100) / 100,
+            passed,
+            feedback: passed
+                ? 'Excellent travail !'
+                : unitErrors + significantFigureErrors > 0
+                    ? 'Attention aux unités et aux chiffres significatifs.'
+                    : 'Revoyez vos calculs.',
+            details: {
+                correctAnswers,
+                totalQuestions: questions.length,
+                unitErrors,
+                significantFigureErrors,
+                penalties: Math.round(penalties * 100) / 100
             }
         }
+    }
+}
+
+/**
+ * Résultat de la vérification d'une expression mathématique
+ */
+export interface MathAnswerCheck {
+    isCorrect: boolean
+    parsed: boolean // La réponse a pu être lue comme une expression
+    equivalent: boolean // Même valeur que l'expression attendue
+    simplified: boolean // Forme aussi réduite que l'expression attendue
+}
+
+/**
+ * Stratégie pour les questions à expression mathématique
+ * L'équivalence est vérifiée par évaluation numérique en des points aléatoires
+ * (reproductibles) ; aucun service externe n'est utilisé.
+ */
+export class MathExpressionEvaluationStrategy implements EvaluationStrategy {
+    /**
+     * Vérifie une expression saisie par l'étudiant
+     */
+    static checkAnswer(rawAnswer: string | undefined, config: MathExpressionConfig): MathAnswerCheck {
+        const failed = { isCorrect: false, parsed: false, equivalent: false, simplified: false }
+
+        let expected, given
+        try {
+            expected = parseMathExpression(config.answer)
+        } catch {
+            return failed
+        }
+        try {
+            given = parseMathExpression(rawAnswer || '')
+        } catch {
+            return failed
+        }
+
+        const equivalent = areMathExpressionsEquivalent(expected, given, {
+            tolerance: config.tolerance,
+            seed: config.answer
+        })
+        // Simplifiée : pas de calcul trivial restant et pas plus longue que la réponse attendue
+        const simplified = equivalent
+            && !hasTrivialSimplification(given)
+            && mathExpressionSize(given) <= mathExpressionSize(expected)
+
+        return {
+            isCorrect: equivalent && (simplified || !config.requireSimplified),
+            parsed: true,
+            equivalent,
+            simplified
+        }
+    }
+
+    /**
+     * Vérifie qu'une expression attendue est lisible par le correcteur
+     */
+    static isValidExpression(expression: string | undefined): boolean {
+        try {
+            parseMathExpression(expression || '')
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    async evaluate(
+        exam: IExam,
+        responses: any[],
+        questions: any[]
+    ): Promise<EvaluationResult> {
+        const netByQuestion = new Map<string, number>()
+        let maxScore = 0
+        let correctAnswers = 0
+        let penalties = 0
+        let unsimplifiedAnswers = 0
+        let unreadableAnswers = 0
+
+        for (const question of questions) {
+            const points = question.points || 1
+            maxScore += points
+
+            const response = responses.find(
+                r => r.questionId.toString() === question._id.toString()
+            )
+            if (!response) continue
+
+            let isCorrect = !!response.isCorrect
+            if (question.mathConfig) {
+                const check = MathExpressionEvaluationStrategy.checkAnswer(response.textResponse, question.mathConfig)
+                isCorrect = check.isCorrect
+                if (!check.parsed) unreadableAnswers++
+                if (check.equivalent && !check.simplified) unsimplifiedAnswers++
+            }
+
+            if (isCorrect) correctAnswers++
+            const earned = earnedPoints(response, points, isCorrect)
+            const penalty = wrongAnswerPenalty(exam, question, response, earned)
+            penalties += penalty
+            netByQuestion.set(question._id.toString(), applyHintPenalty(exam, response, earned, points) - penalty)
+        }
+        const score = flooredTotal(exam, questions, netByQuestion)
 
         const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
         const passed = percentage >= exam.config.passingScore
@@ -210,29 +743,148 @@ export class AdaptiveEvaluationStrategy implements EvaluationStrategy {
             percentage: Math.round(percentage * 100) / 100,
             passed,
             feedback: passed
-                ? `Excellent ! Bonus de difficulté: +${Math.round(difficultyBonus)} points`
-                : 'Continuez à vous entraîner sur les questions difficiles.',
+                ? 'Excellent travail !'
+                : unsimplifiedAnswers > 0
+                    ? 'Pensez à simplifier vos expressions.'
+                    : 'Revoyez vos calculs.',
             details: {
-                correctAnswers: responses.filter(r => r.isCorrect).length,
+                correctAnswers,
                 totalQuestions: questions.length,
-                difficultyBonus: Math.round(difficultyBonus)
+                unsimplifiedAnswers,
+                unreadableAnswers,
+                penalties: Math.round(penalties * 100) / 100
+            }
+        }
+    }
+}
+
+/**
+ * Stratégie pour les évaluations adaptatives (IRT, modèle logistique à 2 paramètres)
+ * La compétence θ est estimée par EAP (espérance a posteriori, prior normal standard)
+ * et rapportée sur une échelle 0-100 (50 + 10θ). La notation négative ne s'applique pas :
+ * le score est une estimation de compétence, pas une somme de points.
+ */
+export class AdaptiveEvaluationStrategy implements EvaluationStrategy {
+    // Difficulté IRT par défaut selon le niveau de la question
+    private static readonly DEFAULT_ITEM_DIFFICULTY: Record<string, number> = {
+        BEGINNER: -1.5,
+        INTERMEDIATE: -0.5,
+        ADVANCED: 0.5,
+        EXPERT: 1.5
+    }
+
+    // Grille d'intégration pour l'estimation EAP
+    private static readonly THETA_GRID = Array.from({ length: 81 }, (_, i) => -4 + i * 0.1)
+
+    /**
+     * Paramètres IRT d'une question (calibrés ou déduits du niveau de difficulté)
+     */
+    static itemParameters(question: any): IRTParameters {
+        return {
+            discrimination: question.irt?.discrimination ?? 1,
+            difficulty: question.irt?.difficulty
+                ?? AdaptiveEvaluationStrategy.DEFAULT_ITEM_DIFFICULTY[question.difficulty]
+                ?? 0
+        }
+    }
+
+    /**
+     * Probabilité de bonne réponse pour une compétence θ
+     */
+    static probability(theta: number, params: IRTParameters): number {
+        return 1 / (1 + Math.exp(-params.discrimination * (theta - params.difficulty)))
+    }
+
+    /**
+     * Information de Fisher apportée par une question pour une compétence θ
+     */
+    static information(theta: number, params: IRTParameters): number {
+        const p = AdaptiveEvaluationStrategy.probability(theta, params)
+        return params.discrimination * params.discrimination * p * (1 - p)
+    }
+
+    /**
+     * Estime la compétence (EAP) à partir des réponses notées
+     * Sans réponse, renvoie le prior (θ = 0, erreur standard = 1)
+     */
+    static estimateAbility(items: { params: IRTParameters; isCorrect: boolean }[]): { ability: number; standardError: number } {
+        const weights = AdaptiveEvaluationStrategy.THETA_GRID.map(theta => {
+            let likelihood = Math.exp(-theta * theta / 2)
+            for (const item of items) {
+                const p = AdaptiveEvaluationStrategy.probability(theta, item.params)
+                likelihood *= item.isCorrect ? p : 1 - p
             }
+            return likelihood
+        })
+
+        const total = weights.reduce((sum, w) => sum + w, 0)
+        const ability = AdaptiveEvaluationStrategy.THETA_GRID
+            .reduce((sum, theta, i) => sum + theta * weights[i], 0) / total
+        const variance = AdaptiveEvaluationStrategy.THETA_GRID
+            .reduce((sum, theta, i) => sum + (theta - ability) ** 2 * weights[i], 0) / total
+
+        return {
+            ability: Math.round(ability * 1000) / 1000,
+            standardError: Math.round(Math.sqrt(variance) * 1000) / 1000
         }
     }
 
-    private getDifficultyMultiplier(difficulty?: string): number {
-        switch (difficulty) {
-            case 'BEGINNER': return 1.0
-            case 'INTERMEDIATE': return 1.2
-            case 'ADVANCED': return 1.5
-            case 'EXPERT': return 2.0
-            default: return 1.0
+    /**
+     * Convertit θ en score sur l'échelle de compétence (0-100, moyenne 50)
+     */
+    static toScaledScore(theta: number): number {
+        return Math.round(Math.min(100, Math.max(0, 50 + 10 * theta)) * 100) / 100
+    }
+
+    async evaluate(
+        exam: IExam,
+        responses: any[],
+        questions: any[]
+    ): Promise<EvaluationResult> {
+        const orderedResponses = responses.sort((a, b) =>
+            new Date(a.answeredAt).getTime() - new Date(b.answeredAt).getTime()
+        )
+
+        const items: { params: IRTParameters; isCorrect: boolean }[] = []
+        for (const response of orderedResponses) {
+            const question = questions.find(
+                q => q._id.toString() === response.questionId.toString()
+            )
+            if (!question) continue
+
+            items.push({
+                params: AdaptiveEvaluationStrategy.itemParameters(question),
+                isCorrect: !!response.isCorrect
+            })
+        }
+
+        const { ability, standardError } = AdaptiveEvaluationStrategy.estimateAbility(items)
+        const score = AdaptiveEvaluationStrategy.toScaledScore(ability)
+        const passed = score >= exam.config.passingScore
+
+        return {
+            score,
+            maxScore: 100,
+            percentage: score,
+            passed,
+            feedback: passed
+                ? `Excellent ! Niveau de compétence estimé : ${score}/100`
+                : 'Continuez à vous entraîner sur les questions difficiles.',
+            details: {
+                ability,
+                standardError,
+                abilityScale: '50 + 10θ',
+                itemsAdministered: items.length,
+                correctAnswers: items.filter(item => item.isCorrect).length,
+                totalQuestions: questions.length
+            }
         }
     }
 }
 
 /**
  * Stratégie pour les simulations d'examen
+ * Sans notation négative configurée, une réponse fausse coûte 25 % des points de la question.
  */
 export class ExamSimulationStrategy implements EvaluationStrategy {
     async evaluate(
@@ -240,33 +892,31 @@ export class ExamSimulationStrategy implements EvaluationStrategy {
         responses: any[],
         questions: any[]
     ): Promise<EvaluationResult> {
-        let score = 0
+        const netByQuestion = new Map<string, number>()
         let maxScore = 0
         let penalties = 0
 
         for (const question of questions) {
-            maxScore += question.points || 1
+            const points = question.points || 1
+            maxScore += points
 
             const response = responses.find(
                 r => r.questionId.toString() === question._id.toString()
             )
+            if (!response) continue
 
-            if (response) {
-                if (response.isCorrect) {
-                    score += question.points || 1
-                } else {
-                    const penalty = (question.points || 1) * 0.25
-                    penalties += penalty
-                    score = Math.max(0, score - penalty)
-                }
-            }
+            const earned = earnedPoints(response, points)
+            const penalty = wrongAnswerPenalty(exam, question, response, earned)
+            penalties += penalty
+            netByQuestion.set(question._id.toString(), applyHintPenalty(exam, response, earned, points) - penalty)
         }
 
+        const score = flooredTotal(exam, questions, netByQuestion)
         const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
         const passed = percentage >= exam.config.passingScore
 
         return {
-            score: Math.round(score * 100) / 100,
+            score,
             maxScore,
             percentage: Math.round(percentage * 100) / 100,
             passed,
@@ -293,8 +943,9 @@ export class OpenQuestionEvaluationStrategy implements EvaluationStrategy {
         responses: any[],
         questions: any[]
     ): Promise<EvaluationResult> {
-        let score = 0
+        const netByQuestion = new Map<string, number>()
         let maxScore = 0
+        let penalties = 0
         const questionResults: any[] = []
 
         for (const question of questions) {
@@ -369,7 +1020,9 @@ export class OpenQuestionEvaluationStrategy implements EvaluationStrategy {
                 }
             }
 
-            score += earnedPoints
+            const penalty = wrongAnswerPenalty(exam, question, response, earnedPoints)
+            penalties += penalty
+            netByQuestion.set(question._id.toString(), applyHintPenalty(exam, response, earnedPoints, questionPoints) - penalty)
 
             // Update response with grading info (useful for review)
             response.isCorrect = earnedPoints >= questionPoints * 0.5
@@ -385,12 +1038,13 @@ export class OpenQuestionEvaluationStrategy implements EvaluationStrategy {
             })
         }
 
+        const score = flooredTotal(exam, questions, netByQuestion)
         const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
         const passed = percentage >= exam.config.passingScore
         const pendingManual = questionResults.some(r => r.status === 'pending_review')
 
         return {
-            score: Math.round(score * 100) / 100,
+            score,
             maxScore,
             percentage: Math.round(percentage * 100) / 100,
             passed: pendingManual ? false : passed, // Can't pass if manual review pending
@@ -401,7 +1055,8 @@ export class OpenQuestionEvaluationStrategy implements EvaluationStrategy {
                 questionResults,
                 pendingManualReview: pendingManual,
                 autoGradedCount: questionResults.filter(r => r.status === 'graded').length,
-                pendingReviewCount: questionResults.filter(r => r.status === 'pending_review').length
+                pendingReviewCount: questionResults.filter(r => r.status === 'pending_review').length,
+                penalties: Math.round(penalties * 100) / 100
             }
         }
     }
@@ -576,6 +1231,21 @@ export class EvaluationStrategyFactory {
             case EvaluationType.OPEN_QUESTION:
                 return new OpenQuestionEvaluationStrategy()
 
+            case EvaluationType.NUMERIC:
+                return new NumericEvaluationStrategy()
+
+            case EvaluationType.MATH_EXPRESSION:
+                return new MathExpressionEvaluationStrategy()
+
+            case EvaluationType.MATCHING:
+                return new MatchingEvaluationStrategy()
+
+            case EvaluationType.ORDERING:
+                return new OrderingEvaluationStrategy()
+
+            case EvaluationType.CLOZE:
+                return new ClozeEvaluationStrategy()
+
             case EvaluationType.ADAPTIVE:
                 return new AdaptiveEvaluationStrategy()
 
@@ -0,0 +1,371 @@
+import { EvaluationType } from '@/models/enums'
+import { ClozeEvaluationStrategy, OrderingEvaluationStrategy } from '@/lib/patterns/EvaluationStrategy'
+import { escapeXml, xmlElement } from './xml'
+
+/**
+ * IMS QTI 2.1 export: one assessmentItem per question, an assessmentTest
+ * listing them in exam order and the IMS content packaging manifest.
+ */
+
+export const QTI_ITEM_RESOURCE = 'imsqti_item_xmlv2p1'
+export const QTI_TEST_RESOURCE = 'imsqti_test_xmlv2p1'
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1'
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`
+const CP_NAMESPACE = 'http://www.imsglobal.org/xsd/imscp_v1p1'
+const RP_TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates'
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>\n'
+
+/** Marks text entries graded as math expressions (kept on re-import) */
+export const MATH_EXPRESSION_CLASS = 'math-expression'
+
+export interface QtiExportOption {
+    _id: any
+    text: string
+    isCorrect?: boolean
+    imageUrl?: string
+    explanation?: string
+    matchText?: string
+    correctPosition?: number
+    order?: number
+}
+
+export interface QtiExportQuestion {
+    _id: any
+    text: string
+    type?: string
+    points?: number
+    imageUrl?: string
+    audioUrl?: string
+    correctAnswer?: boolean
+    modelAnswer?: string
+    explanation?: string
+    qcmConfig?: { multipleAnswers: boolean; scoringMode: string }
+    numericConfig?: { answer: number; toleranceType: string; tolerance: number; unit?: string }
+    mathConfig?: { answer: string }
+    clozeConfig?: { blanks: { id: string; word: string; synonyms?: string[]; weight: number; caseSensitive: boolean }[] }
+    options?: QtiExportOption[]
+}
+
+export interface QtiExportedItem {
+    identifier: string
+    href: string
+    title: string
+    xml: string
+}
+
+const itemIdentifier = (question: QtiExportQuestion) => `ITEM-${question._id.toString()}`
+const choiceIdentifier = (option: QtiExportOption) => `C${option._id.toString()}`
+
+/**
+ * Question text as XHTML paragraphs (one per line)
+ */
+function paragraphs(text: string, transform: (escaped: string) => string = t => t): string[] {
+    return text
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(line => `<p>${transform(escapeXml(line))}</p>`)
+}
+
+function mediaElements(question: { imageUrl?: string; audioUrl?: string }): string[] {
+    const media: string[] = []
+    if (question.imageUrl) {
+        media.push(`<p>${xmlElement('img', { src: question.imageUrl, alt: '' })}</p>`)
+    }
+    if (question.audioUrl) {
+        const extension = question.audioUrl.split('?')[0].split('.').pop()?.toLowerCase()
+        const type = extension === 'ogg' ? 'audio/ogg' : extension === 'wav' ? 'audio/wav' : 'audio/mpeg'
+        media.push(`<p>${xmlElement('object', { data: question.audioUrl, type })}</p>`)
+    }
+    return media
+}
+
+function valueList(values: string[]): string[] {
+    return values.map(value => `<value>${escapeXml(value)}</value>`)
+}
+
+function responseDeclaration(
+    identifier: string,
+    cardinality: 'single' | 'multiple' | 'ordered',
+    baseType: string,
+    correct: string[],
+    mapping?: string
+): string {
+    const children: string[] = []
+    if (correct.length > 0) children.push(xmlElement('correctResponse', {}, valueList(correct)))
+    if (mapping) children.push(mapping)
+    return xmlElement('responseDeclaration', { identifier, cardinality, baseType }, children)
+}
+
+function outcomeDeclarations(points: number, withFeedback: boolean): string[] {
+    const outcomes = [
+        xmlElement('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' }, [
+            '<defaultValue><value>0</value></defaultValue>'
+        ]),
+        xmlElement('outcomeDeclaration', { identifier: 'MAXSCORE', cardinality: 'single', baseType: 'float' }, [
+            `<defaultValue><value>${points}</value></defaultValue>`
+        ])
+    ]
+    if (withFeedback) {
+        outcomes.push(xmlElement('outcomeDeclaration', { identifier: 'FEEDBACK', cardinality: 'single', baseType: 'identifier' }))
+    }
+    return outcomes
+}
+
+const template = (name: string) => xmlElement('responseProcessing', { template: `${RP_TEMPLATES}/${name}` })
+
+/**
+ * Choice content: text, optional image and per-option feedback
+ */
+function choiceContent(option: QtiExportOption): string[] {
+    const content = [escapeXml(option.text)]
+    if (option.imageUrl) content.push(xmlElement('img', { src: option.imageUrl, alt: '' }))
+    if (option.explanation) {
+        content.push(xmlElement('feedbackInline', {
+            outcomeIdentifier: 'FEEDBACK',
+            identifier: choiceIdentifier(option),
+            showHide: 'show'
+        }, [escapeXml(option.explanation)]))
+    }
+    return content
+}
+
+/**
+ * Build the QTI 2.1 assessmentItem of a question
+ */
+export function buildQtiItem(question: QtiExportQuestion): QtiExportedItem {
+    const identifier = itemIdentifier(question)
+    const points = question.points || 1
+    const options = [...(question.options || [])].sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    const type = question.type || EvaluationType.QCM
+
+    const declarations: string[] = []
+    const body: string[] = [...mediaElements(question)]
+    let processing: string | undefined
+    let hasChoiceFeedback = false
+
+    switch (type) {
+        case EvaluationType.TRUE_FALSE: {
+            const isTrue = question.correctAnswer
+                ?? options.find(o => o.isCorrect)?.text.trim().toLowerCase() === 'vrai'
+            declarations.push(responseDeclaration('RESPONSE', 'single', 'identifier', [isTrue ? 'true' : 'false']))
+            body.push(...paragraphs(question.text))
+            body.push(xmlElement('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'false', maxChoices: 1 }, [
+                xmlElement('simpleChoice', { identifier: 'true' }, ['Vrai']),
+                xmlElement('simpleChoice', { identifier: 'false' }, ['Faux'])
+            ]))
+            processing = template('match_correct')
+            break
+        }
+
+        case EvaluationType.OPEN_QUESTION:
+            declarations.push(responseDeclaration('RESPONSE', 'single', 'string', question.modelAnswer ? [question.modelAnswer] : []))
+            body.push(...paragraphs(question.text))
+            body.push(xmlElement('extendedTextInteraction', { responseIdentifier: 'RESPONSE' }))
+            // Graded manually (or by keywords): no response processing
+            break
+
+        case EvaluationType.NUMERIC: {
+            const config = question.numericConfig
+            declarations.push(responseDeclaration('RESPONSE', 'single', 'float', config ? [String(config.answer)] : []))
+            body.push(...paragraphs(question.text))
+            body.push(`<p>${xmlElement('textEntryInteraction', { responseIdentifier: 'RESPONSE', expectedLength: 15 })}${config?.unit ? ' ' + escapeXml(config.unit) : ''}</p>`)
+
+            // QTI expresses relative tolerance as a percentage
+            const tolerance = config?.toleranceType === 'relative' ? (config.tolerance || 0) * 100 : config?.tolerance || 0
+            const equal = tolerance > 0
+                ? xmlElement('equal', {
+                    toleranceMode: config?.toleranceType === 'relative' ? 'relative' : 'absolute',
+                    tolerance: `${tolerance} ${tolerance}`
+                }, ['<variable identifier="RESPONSE"/>', '<correct identifier="RESPONSE"/>'])
+                : xmlElement('equal', { toleranceMode: 'exact' }, ['<variable identifier="RESPONSE"/>', '<correct identifier="RESPONSE"/>'])
+            processing = xmlElement('responseProcessing', {}, [
+                xmlElement('responseCondition', {}, [
+                    xmlElement('responseIf', {}, [
+                        equal,
+                        xmlElement('setOutcomeValue', { identifier: 'SCORE' }, ['<variable identifier="MAXSCORE"/>'])
+                    ])
+                ])
+            ])
+            break
+        }
+
+        case EvaluationType.MATH_EXPRESSION:
+            declarations.push(responseDeclaration('RESPONSE', 'single', 'string', question.mathConfig ? [question.mathConfig.answer] : []))
+            body.push(...paragraphs(question.text))
+            body.push(`<p>${xmlElement('textEntryInteraction', { responseIdentifier: 'RESPONSE', expectedLength: 30, class: MATH_EXPRESSION_CLASS })}</p>`)
+            processing = template('match_correct')
+            break
+
+        case EvaluationType.CLOZE: {
+            const blanks = question.clozeConfig?.blanks || []
+            const totalWeight = blanks.reduce((sum, blank) => sum + (blank.weight ?? 1), 0) || 1
+
+            for (const blank of blanks) {
+                const value = Math.round(points * (blank.weight ?? 1) / totalWeight * 10000) / 10000
+                const mapping = xmlElement('mapping', { defaultValue: 0 }, [blank.word, ...(blank.synonyms || [])].map(answer =>
+                    xmlElement('mapEntry', { mapKey: answer, mappedValue: value, caseSensitive: blank.caseSensitive ? 'true' : 'false' })
+                ))
+                declarations.push(responseDeclaration(`RESPONSE_${blank.id}`, 'single', 'string', [blank.word], mapping))
+            }
+
+            const placeholders = new Set(ClozeEvaluationStrategy.placeholders(question.text))
+            body.push(...paragraphs(question.text, line => line.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (match, id: string) =>
+                placeholders.has(id)
+                    ? xmlElement('textEntryInteraction', { responseIdentifier: `RESPONSE_${id}`, expectedLength: 15 })
+                    : match
+            )))
+            processing = xmlElement('responseProcessing', {}, [
+                xmlElement('setOutcomeValue', { identifier: 'SCORE' }, [
+                    xmlElement('sum', {}, blanks.map(blank => xmlElement('mapResponse', { identifier: `RESPONSE_${blank.id}` })))
+                ])
+            ])
+            break
+        }
+
+        case EvaluationType.MATCHING: {
+            const pairs = options.filter(o => o.matchText)
+            const targets = Array.from(new Set(pairs.map(o => o.matchText as string)))
+            const targetId = (text: string) => `T${targets.indexOf(text) + 1}`
+            const correct = pairs.map(o => `${choiceIdentifier(o)} ${targetId(o.matchText as string)}`)
+            const value = Math.round(points / Math.max(pairs.length, 1) * 10000) / 10000
+
+            declarations.push(responseDeclaration('RESPONSE', 'multiple', 'directedPair', correct,
+                xmlElement('mapping', { defaultValue: 0 }, correct.map(pair => xmlElement('mapEntry', { mapKey: pair, mappedValue: value })))
+            ))
+            body.push(xmlElement('matchInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'true', maxAssociations: pairs.length }, [
+                `<prompt>${escapeXml(question.text)}</prompt>`,
+                xmlElement('simpleMatchSet', {}, pairs.map(o =>
+                    xmlElement('simpleAssociableChoice', { identifier: choiceIdentifier(o), matchMax: 1 }, choiceContent(o))
+                )),
+                xmlElement('simpleMatchSet', {}, targets.map(text =>
+                    xmlElement('simpleAssociableChoice', { identifier: targetId(text), matchMax: pairs.filter(o => o.matchText === text).length }, [escapeXml(text)])
+                ))
+            ]))
+            hasChoiceFeedback = pairs.some(o => o.explanation)
+            processing = template('map_response')
+            break
+        }
+
+        case EvaluationType.ORDERING: {
+            const expected = OrderingEvaluationStrategy.expectedOrder(options)
+            declarations.push(responseDeclaration('RESPONSE', 'ordered', 'identifier', expected.map(id => `C${id}`)))
+            body.push(xmlElement('orderInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'true' }, [
+                `<prompt>${escapeXml(question.text)}</prompt>`,
+                ...options.map(o => xmlElement('simpleChoice', { identifier: choiceIdentifier(o) }, choiceContent(o)))
+            ]))
+            hasChoiceFeedback = options.some(o => o.explanation)
+            processing = template('match_correct')
+            break
+        }
+
+        default: {
+            // QCM (single or multiple answers)
+            const multiple = !!question.qcmConfig?.multipleAnswers
+            const correct = options.filter(o => o.isCorrect)
+
+            // Partial credit: +points/n per correct choice, -points/n per wrong one (floored at 0)
+            let mapping: string | undefined
+            if (multiple && question.qcmConfig?.scoringMode !== 'all_or_nothing' && correct.length > 0) {
+                const value = Math.round(points / correct.length * 10000) / 10000
+                mapping = xmlElement('mapping', { lowerBound: 0, upperBound: points, defaultValue: 0 }, options.map(o =>
+                    xmlElement('mapEntry', { mapKey: choiceIdentifier(o), mappedValue: o.isCorrect ? value : -value })
+                ))
+            }
+
+            declarations.push(responseDeclaration('RESPONSE', multiple ? 'multiple' : 'single', 'identifier',
+                correct.map(choiceIdentifier), mapping))
+            body.push(...paragraphs(question.text))
+            body.push(xmlElement('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: 'true', maxChoices: multiple ? 0 : 1 },
+                options.map(o => xmlElement('simpleChoice', { identifier: choiceIdentifier(o) }, choiceContent(o)))
+            ))
+            hasChoiceFeedback = options.some(o => o.explanation)
+            processing = template(mapping ? 'map_response' : 'match_correct')
+        }
+    }
+
+    const children = [
+        ...declarations,
+        ...outcomeDeclarations(points, hasChoiceFeedback),
+        xmlElement('itemBody', {}, body)
+    ]
+    if (processing) children.push(processing)
+    if (question.explanation) {
+        // Always shown after answering (FEEDBACK never takes this value)
+        children.push(xmlElement('modalFeedback', {
+            outcomeIdentifier: 'FEEDBACK',
+            identifier: 'EXPLANATION',
+            showHide: 'hide'
+        }, paragraphs(question.explanation)))
+    }
+
+    const title = question.text.split(/\r?\n/)[0].slice(0, 80)
+    const xml = XML_DECLARATION + xmlElement('assessmentItem', {
+        xmlns: QTI_NAMESPACE,
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        'xsi:schemaLocation': QTI_SCHEMA,
+        identifier,
+        title,
+        adaptive: 'false',
+        timeDependent: 'false'
+    }, children)
+
+    return { identifier, href: `items/${identifier}.xml`, title, xml }
+}
+
+/**
+ * Build the assessmentTest referencing the items in exam order
+ */
+export function buildQtiTest(
+    exam: { _id: any; title: string; duration?: number },
+    items: QtiExportedItem[]
+): string {
+    return XML_DECLARATION + xmlElement('assessmentTest', {
+        xmlns: QTI_NAMESPACE,
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        'xsi:schemaLocation': QTI_SCHEMA,
+        identifier: `TEST-${exam._id.toString()}`,
+        title: exam.title
+    }, [
+        ...(exam.duration ? [xmlElement('timeLimits', { maxTime: exam.duration * 60 })] : []),
+        xmlElement('testPart', { identifier: 'PART-1', navigationMode: 'nonlinear', submissionMode: 'simultaneous' }, [
+            xmlElement('assessmentSection', { identifier: 'SECTION-1', title: exam.title, visible: 'true' },
+                items.map(item => xmlElement('assessmentItemRef', { identifier: item.identifier, href: item.href }))
+            )
+        ])
+    ])
+}
+
+/**
+ * Build the IMS content packaging manifest (imsmanifest.xml)
+ */
+export function buildQtiManifest(
+    exam: { _id: any; title: string; description?: string },
+    testHref: string,
+    items: QtiExportedItem[]
+): string {
+    const testIdentifier = `TEST-${exam._id.toString()}`
+
+    return XML_DECLARATION + xmlElement('manifest', {
+        xmlns: CP_NAMESPACE,
+        'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+        identifier: `MANIFEST-${exam._id.toString()}`
+    }, [
+        xmlElement('metadata', {}, [
+            '<schema>QTIv2.1 Package</schema>',
+            '<schemaversion>1.0.0</schemaversion>'
+        ]),
+        '<organizations/>',
+        xmlElement('resources', {}, [
+            xmlElement('resource', { identifier: testIdentifier, type: QTI_TEST_RESOURCE, href: testHref }, [
+                xmlElement('file', { href: testHref }),
+                ...items.map(item => xmlElement('dependency', { identifierref: item.identifier }))
+            ]),
+            ...items.map(item =>
+                xmlElement('resource', { identifier: item.identifier, type: QTI_ITEM_RESOURCE, href: item.href }, [
+                    xmlElement('file', { href: item.href })
+                ])
+            )
+        ])
+    ])
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest'
+import { EvaluationType } from '@/models/enums'
+import { QtiExportQuestion, buildQtiItem, buildQtiManifest, buildQtiTest } from './export'
+import { readQtiPackage } from './import'
+
+const exam = { _id: 'exam1', title: 'Géographie & histoire', duration: 45 }
+
+const questions: QtiExportQuestion[] = [
+    {
+        _id: 'q1',
+        text: 'Capitale du Cameroun ?',
+        type: EvaluationType.QCM,
+        points: 2,
+        explanation: 'Yaoundé <centre>',
+        options: [
+            { _id: 'o1', text: 'Douala', isCorrect: false, order: 0 },
+            { _id: 'o2', text: 'Yaoundé & Ongola', isCorrect: true, order: 1, explanation: 'Exact' }
+        ]
+    },
+    {
+        _id: 'q2',
+        text: 'Nombres premiers',
+        type: EvaluationType.QCM,
+        qcmConfig: { multipleAnswers: true, scoringMode: 'right_minus_wrong' },
+        options: [
+            { _id: 'a', text: '2', isCorrect: true, order: 0 },
+            { _id: 'b', text: '4', isCorrect: false, order: 1 },
+            { _id: 'c', text: '5', isCorrect: true, order: 2 }
+        ]
+    },
+    { _id: 'q3', text: 'La Terre est ronde', type: EvaluationType.TRUE_FALSE, correctAnswer: true },
+    {
+        _id: 'q4',
+        text: 'Accélération de la pesanteur',
+        type: EvaluationType.NUMERIC,
+        numericConfig: { answer: 9.81, toleranceType: 'absolute', tolerance: 0.01 }
+    },
+    { _id: 'q5', text: 'Dérivée de x^2+2x', type: EvaluationType.MATH_EXPRESSION, mathConfig: { answer: '2x+2' } },
+    {
+        _id: 'q6',
+        text: 'La capitale est {{1}}.',
+        type: EvaluationType.CLOZE,
+        clozeConfig: { blanks: [{ id: '1', word: 'Yaoundé', synonyms: ['Ongola'], weight: 1, caseSensitive: false }] }
+    },
+    {
+        _id: 'q7',
+        text: 'Associer chaque pays à sa capitale',
+        type: EvaluationType.MATCHING,
+        options: [
+            { _id: 'm1', text: 'France', matchText: 'Paris', order: 0 },
+            { _id: 'm2', text: 'Nigeria', matchText: 'Abuja', order: 1 }
+        ]
+    },
+    {
+        _id: 'q8',
+        text: 'Remettre dans l\'ordre',
+        type: EvaluationType.ORDERING,
+        options: [
+            { _id: 's1', text: 'Bouillir', correctPosition: 1, order: 0 },
+            { _id: 's2', text: 'Remplir', correctPosition: 0, order: 1 }
+        ]
+    },
+    { _id: 'q9', text: 'Expliquer', type: EvaluationType.OPEN_QUESTION, modelAnswer: 'Parce que' }
+]
+
+function qtiPackage(items = questions.map(buildQtiItem)) {
+    return new Map<string, string>([
+        ['imsmanifest.xml', buildQtiManifest(exam, 'assessmentTest.xml', items)],
+        ['assessmentTest.xml', buildQtiTest(exam, items)],
+        ...items.map(item => [item.href, item.xml] as [string, string])
+    ])
+}
+
+describe('readQtiPackage', () => {
+    it('reads back an exported exam', () => {
+        const { title, duration, questions: imported, report } = readQtiPackage(qtiPackage())
+
+        expect(title).toBe('Géographie & histoire')
+        expect(duration).toBe(45)
+        expect(report).toEqual({ totalItems: 9, imported: 9, skipped: [], warnings: [] })
+        expect(imported.map(q => q.type)).toEqual(questions.map(q => q.type))
+
+        expect(imported[0]).toEqual({
+            text: 'Capitale du Cameroun ?',
+            type: EvaluationType.QCM,
+            points: 2,
+            explanation: 'Yaoundé <centre>',
+            options: [
+                { text: 'Douala', isCorrect: false },
+                { text: 'Yaoundé & Ongola', isCorrect: true, explanation: 'Exact' }
+            ]
+        })
+        expect(imported[1].qcmConfig).toEqual({ multipleAnswers: true, scoringMode: 'right_minus_wrong' })
+        expect(imported[1].options?.filter(o => o.isCorrect).map(o => o.text)).toEqual(['2', '5'])
+        expect(imported[2].correctAnswer).toBe(true)
+        expect(imported[3].numericConfig).toEqual({ answer: 9.81, toleranceType: 'absolute', tolerance: 0.01, unitRequired: false })
+        expect(imported[4].mathConfig).toEqual({ answer: '2x+2', requireSimplified: false })
+        expect(imported[5].clozeConfig?.blanks).toEqual([
+            { id: '1', word: 'Yaoundé', synonyms: ['Ongola'], weight: 1, caseSensitive: false, ignoreAccents: false }
+        ])
+        expect(imported[6].options?.map(o => [o.text, o.matchText])).toEqual([['France', 'Paris'], ['Nigeria', 'Abuja']])
+        expect(imported[7].options?.map(o => o.text)).toEqual(['Remplir', 'Bouillir'])
+        expect(imported[8].modelAnswer).toBe('Parce que')
+    })
+
+    it('follows the assessmentTest order', () => {
+        const items = questions.slice(0, 3).map(buildQtiItem)
+        const files = qtiPackage(items)
+        files.set('assessmentTest.xml', buildQtiTest(exam, [...items].reverse()))
+
+        expect(readQtiPackage(files).questions.map(q => q.text))
+            .toEqual(['La Terre est ronde', 'Nombres premiers', 'Capitale du Cameroun ?'])
+    })
+
+    it('reports missing and unsupported items without failing the import', () => {
+        const items = questions.slice(0, 2).map(buildQtiItem)
+        const files = qtiPackage(items)
+        files.delete(items[1].href)
+        files.set(items[0].href, items[0].xml.replace(/choiceInteraction/g, 'hotspotInteraction'))
+
+        const { questions: imported, report } = readQtiPackage(files)
+
+        expect(imported).toEqual([])
+        expect(report.imported).toBe(0)
+        expect(report.skipped).toEqual([
+            { identifier: items[0].identifier, title: items[0].title, reason: 'Unsupported interaction: hotspotInteraction' },
+            { identifier: items[1].href, reason: 'Item file missing from the package' }
+        ])
+    })
+
+    it('rejects a package without manifest', () => {
+        expect(() => readQtiPackage(new Map())).toThrow('imsmanifest.xml not found')
+    })
+})
@@ -0,0 +1,438 @@
+import { EvaluationType } from '@/models/enums'
+import { ClozeEvaluationStrategy, MathExpressionEvaluationStrategy } from '@/lib/patterns/EvaluationStrategy'
+import { MATH_EXPRESSION_CLASS, QTI_TEST_RESOURCE } from './export'
+import { XmlElement, XmlNode, childElements, findAll, findFirst, isElement, parseXml, textContent } from './xml'
+
+/**
+ * IMS QTI 2.1 import: maps assessmentItems to the question payload accepted by
+ * ExamServiceV2.createExam. Items that cannot be represented are reported, not imported.
+ */
+
+export interface QtiImportedOption {
+    text: string
+    isCorrect: boolean
+    imageUrl?: string
+    explanation?: string
+    matchText?: string
+}
+
+export interface QtiImportedQuestion {
+    text: string
+    type: EvaluationType
+    points: number
+    imageUrl?: string
+    audioUrl?: string
+    correctAnswer?: boolean
+    modelAnswer?: string
+    explanation?: string
+    qcmConfig?: { multipleAnswers: boolean; scoringMode: 'all_or_nothing' | 'right_minus_wrong' }
+    numericConfig?: { answer: number; toleranceType: 'absolute' | 'relative'; tolerance: number; unitRequired: boolean }
+    mathConfig?: { answer: string; requireSimplified: boolean }
+    clozeConfig?: {
+        blanks: { id: string; word: string; synonyms: string[]; weight: number; caseSensitive: boolean; ignoreAccents: boolean }[]
+    }
+    options?: QtiImportedOption[]
+}
+
+export interface QtiImportReport {
+    totalItems: number
+    imported: number
+    skipped: { identifier: string; title?: string; reason: string }[]
+    warnings: { identifier: string; message: string }[]
+}
+
+export interface QtiPackageContent {
+    title?: string
+    duration?: number // Minutes, from the assessmentTest time limit
+    questions: QtiImportedQuestion[]
+    report: QtiImportReport
+}
+
+const SUPPORTED_INTERACTIONS = [
+    'choiceInteraction',
+    'extendedTextInteraction',
+    'textEntryInteraction',
+    'matchInteraction',
+    'orderInteraction'
+]
+
+const OTHER_INTERACTIONS = [
+    'associateInteraction', 'gapMatchInteraction', 'inlineChoiceInteraction', 'hottextInteraction',
+    'hotspotInteraction', 'graphicOrderInteraction', 'graphicAssociateInteraction', 'graphicGapMatchInteraction',
+    'selectPointInteraction', 'positionObjectInteraction', 'sliderInteraction', 'drawingInteraction',
+    'uploadInteraction', 'mediaInteraction', 'customInteraction', 'endAttemptInteraction'
+]
+
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'br', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'tr', 'table'])
+const HIDDEN_ELEMENTS = new Set(['feedbackInline', 'feedbackBlock', 'modalFeedback', 'rubricBlock', 'prompt', 'templateBlock', 'templateInline'])
+
+class UnsupportedItemError extends Error {}
+
+/**
+ * Readable text of XHTML content; block elements become line breaks
+ * `replace` lets the caller substitute interactions (e.g. cloze placeholders).
+ */
+function readableText(node: XmlNode, replace?: (element: XmlElement) => string | undefined): string {
+    const render = (current: XmlNode): string => {
+        if (typeof current === 'string') return current
+        const replaced = replace?.(current)
+        if (replaced !== undefined) return replaced
+        if (HIDDEN_ELEMENTS.has(current.name) || current.name.endsWith('Interaction')) return ''
+        const inner = current.children.map(render).join('')
+        return BLOCK_ELEMENTS.has(current.name) ? `\n${inner}\n` : inner
+    }
+
+    return render(node)
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(Boolean)
+        .join('\n')
+}
+
+function feedbackText(element: XmlElement): string | undefined {
+    const feedback = [...findAll(element, 'feedbackInline'), ...findAll(element, 'feedbackBlock')]
+        .map(f => readableText({ ...f, name: 'div' }))
+        .filter(Boolean)
+    return feedback.length > 0 ? feedback.join('\n') : undefined
+}
+
+function firstImage(element: XmlElement): string | undefined {
+    return findFirst(element, 'img')?.attributes.src
+}
+
+function values(element: XmlElement | undefined): string[] {
+    return element ? childElements(element, 'value').map(v => textContent(v).trim()) : []
+}
+
+/**
+ * Correct values and mapping of a response declaration
+ */
+function readResponse(item: XmlElement, identifier: string) {
+    const declaration = childElements(item, 'responseDeclaration').find(d => d.attributes.identifier === identifier)
+    const mapping = declaration ? findFirst(declaration, 'mapping') : undefined
+
+    return {
+        declaration,
+        baseType: declaration?.attributes.baseType,
+        cardinality: declaration?.attributes.cardinality,
+        correct: values(declaration ? findFirst(declaration, 'correctResponse') : undefined),
+        mapEntries: mapping
+            ? childElements(mapping, 'mapEntry').map(entry => ({
+                key: entry.attributes.mapKey,
+                value: parseFloat(entry.attributes.mappedValue) || 0,
+                caseSensitive: entry.attributes.caseSensitive === 'true'
+            }))
+            : []
+    }
+}
+
+function readPoints(item: XmlElement): number {
+    const maxScore = childElements(item, 'outcomeDeclaration').find(o => o.attributes.identifier === 'MAXSCORE')
+    const value = parseFloat(values(maxScore ? findFirst(maxScore, 'defaultValue') : undefined)[0])
+    return value > 0 ? value : 1
+}
+
+function readChoice(choice: XmlElement, isCorrect: boolean): QtiImportedOption {
+    return {
+        text: readableText(choice).replace(/\n/g, ' '),
+        isCorrect,
+        imageUrl: firstImage(choice),
+        explanation: feedbackText(choice)
+    }
+}
+
+function readChoiceItem(item: XmlElement, interaction: XmlElement, question: QtiImportedQuestion, warnings: string[]) {
+    const response = readResponse(item, interaction.attributes.responseIdentifier)
+    const choices = childElements(interaction, 'simpleChoice')
+    const identifiers = choices.map(c => c.attributes.identifier)
+    const multiple = response.cardinality === 'multiple' || (interaction.attributes.maxChoices ?? '1') !== '1'
+
+    // Without a declared correct response, choices with a positive mapped value are correct
+    const correct = new Set(response.correct.length > 0
+        ? response.correct
+        : response.mapEntries.filter(e => e.value > 0).map(e => e.key))
+    if (correct.size === 0) warnings.push('No correct response declared')
+
+    const isTrueFalse = !multiple && identifiers.length === 2 &&
+        identifiers.map(id => id.toLowerCase()).sort().join() === 'false,true'
+    if (isTrueFalse) {
+        question.type = EvaluationType.TRUE_FALSE
+        question.correctAnswer = [...correct][0]?.toLowerCase() === 'true'
+        return
+    }
+
+    question.type = EvaluationType.QCM
+    question.options = choices.map(c => readChoice(c, correct.has(c.attributes.identifier)))
+    if (multiple) {
+        question.qcmConfig = {
+            multipleAnswers: true,
+            scoringMode: response.mapEntries.length > 0 ? 'right_minus_wrong' : 'all_or_nothing'
+        }
+    }
+    if (question.options.length < 2) throw new UnsupportedItemError('Choice interaction with fewer than two choices')
+}
+
+function readMatchItem(item: XmlElement, interaction: XmlElement, question: QtiImportedQuestion, warnings: string[]) {
+    const response = readResponse(item, interaction.attributes.responseIdentifier)
+    const [sources, targets] = childElements(interaction, 'simpleMatchSet').map(set => childElements(set, 'simpleAssociableChoice'))
+    if (!sources || !targets) throw new UnsupportedItemError('Match interaction without two match sets')
+
+    const targetText = new Map(targets.map(t => [t.attributes.identifier, readableText(t).replace(/\n/g, ' ')]))
+    const pairs = response.correct.length > 0
+        ? response.correct
+        : response.mapEntries.filter(e => e.value > 0).map(e => e.key)
+    const matchOf = new Map(pairs.map(pair => pair.split(/\s+/) as [string, string]))
+
+    question.type = EvaluationType.MATCHING
+    question.options = sources.map(source => ({
+        ...readChoice(source, false),
+        matchText: targetText.get(matchOf.get(source.attributes.identifier) || '')
+    }))
+
+    const usedTargets = new Set(matchOf.values())
+    if (targets.some(t => !usedTargets.has(t.attributes.identifier))) {
+        warnings.push('Unmatched choices of the second set (distractors) are not supported and were dropped')
+    }
+    if (question.options.filter(o => o.text && o.matchText).length < 2) {
+        throw new UnsupportedItemError('Match interaction with fewer than two correct pairs')
+    }
+}
+
+function readOrderItem(item: XmlElement, interaction: XmlElement, question: QtiImportedQuestion, warnings: string[]) {
+    const response = readResponse(item, interaction.attributes.responseIdentifier)
+    const choices = childElements(interaction, 'simpleChoice')
+    const position = (choice: XmlElement) => {
+        const index = response.correct.indexOf(choice.attributes.identifier)
+        return index < 0 ? Number.MAX_SAFE_INTEGER : index
+    }
+
+    if (choices.some(c => !response.correct.includes(c.attributes.identifier))) {
+        warnings.push('Choices missing from the correct order were placed last')
+    }
+
+    // createExam stores ordering options in the expected order
+    question.type = EvaluationType.ORDERING
+    question.options = [...choices]
+        .sort((a, b) => position(a) - position(b))
+        .map(c => readChoice(c, false))
+}
+
+function readTextEntryItem(item: XmlElement, body: XmlElement, entries: XmlElement[], question: QtiImportedQuestion, warnings: string[]) {
+    const first = readResponse(item, entries[0].attributes.responseIdentifier)
+
+    if (entries.length === 1 && (first.baseType === 'float' || first.baseType === 'integer')) {
+        const answer = parseFloat(first.correct[0])
+        if (!Number.isFinite(answer)) throw new UnsupportedItemError('Numeric entry without a correct value')
+
+        // Tolerance comes from the response processing (<equal toleranceMode tolerance>)
+        const equal = findAll(item, 'equal').find(e => e.attributes.toleranceMode && e.attributes.toleranceMode !== 'exact')
+        const tolerance = parseFloat((equal?.attributes.tolerance || '0').split(/\s+/)[0]) || 0
+        const relative = equal?.attributes.toleranceMode === 'relative'
+
+        question.type = EvaluationType.NUMERIC
+        question.numericConfig = {
+            answer,
+            toleranceType: relative ? 'relative' : 'absolute',
+            tolerance: relative ? tolerance / 100 : tolerance,
+            unitRequired: false
+        }
+        return
+    }
+
+    if (entries.length === 1 && (entries[0].attributes.class || '').split(/\s+/).includes(MATH_EXPRESSION_CLASS)) {
+        if (!MathExpressionEvaluationStrategy.isValidExpression(first.correct[0])) {
+            throw new UnsupportedItemError('Math expression entry without a readable correct expression')
+        }
+        question.type = EvaluationType.MATH_EXPRESSION
+        question.mathConfig = { answer: first.correct[0], requireSimplified: false }
+        return
+    }
+
+    // Fill-in-the-blank: each text entry becomes a {{id}} gap
+    const blankIds = new Map<string, string>()
+    const usedIds = new Set<string>()
+    for (const entry of entries) {
+        const identifier = entry.attributes.responseIdentifier
+        let id = identifier.replace(/^RESPONSE_?/, '').replace(/[^\w-]/g, '') || String(usedIds.size + 1)
+        if (usedIds.has(id)) id = `${id}_${usedIds.size + 1}`
+        usedIds.add(id)
+        blankIds.set(identifier, id)
+    }
+
+    const blanks = entries.map(entry => {
+        const identifier = entry.attributes.responseIdentifier
+        const response = readResponse(item, identifier)
+        const accepted = response.mapEntries.filter(e => e.value > 0).sort((a, b) => b.value - a.value)
+        const word = response.correct[0] || accepted[0]?.key
+        if (!word) throw new UnsupportedItemError(`Text entry ${identifier} without a correct response`)
+        if (response.baseType && response.baseType !== 'string') {
+            warnings.push(`Text entry ${identifier} (${response.baseType}) is graded as text`)
+        }
+
+        return {
+            id: blankIds.get(identifier) as string,
+            word,
+            synonyms: Array.from(new Set([...response.correct.slice(1), ...accepted.map(e => e.key)])).filter(s => s !== word),
+            weight: accepted.find(e => e.key === word)?.value || 1,
+            caseSensitive: response.mapEntries.some(e => e.caseSensitive),
+            ignoreAccents: false
+        }
+    })
+
+    question.type = EvaluationType.CLOZE
+    question.text = readableText(body, element =>
+        element.name === 'textEntryInteraction' ? `{{${blankIds.get(element.attributes.responseIdentifier)}}}` : undefined
+    )
+    question.clozeConfig = { blanks }
+
+    if (!ClozeEvaluationStrategy.isValidConfig(question.text, question.clozeConfig)) {
+        throw new UnsupportedItemError('Text entries could not be mapped to fill-in-the-blank gaps')
+    }
+}
+
+/**
+ * Map one assessmentItem to a question (throws UnsupportedItemError when it cannot be represented)
+ */
+function readItem(item: XmlElement, warnings: string[]): QtiImportedQuestion {
+    const body = findFirst(item, 'itemBody')
+    if (!body) throw new UnsupportedItemError('Item without itemBody')
+
+    const unsupported = OTHER_INTERACTIONS.filter(name => findAll(body, name).length > 0)
+    if (unsupported.length > 0) throw new UnsupportedItemError(`Unsupported interaction: ${unsupported.join(', ')}`)
+
+    const interactions = SUPPORTED_INTERACTIONS.flatMap(name => findAll(body, name))
+    if (interactions.length === 0) throw new UnsupportedItemError('Item without interaction')
+
+    const entries = interactions.filter(i => i.name === 'textEntryInteraction')
+    if (entries.length !== interactions.length && interactions.length > 1) {
+        throw new UnsupportedItemError('Composite items with several interactions are not supported')
+    }
+
+    const interaction = interactions[0]
+    const prompt = findFirst(interaction, 'prompt')
+    const text = [readableText(body), prompt ? readableText({ ...prompt, name: 'div' }) : '']
+        .filter(Boolean)
+        .join('\n')
+
+    // Media: the first image and audio file outside the interactions
+    const mediaScope: XmlElement = { ...body, children: body.children.filter(c => !isElement(c) || !c.name.endsWith('Interaction')) }
+    const images = findAll(mediaScope, 'img').map(img => img.attributes.src).filter(Boolean)
+    const audio = findAll(mediaScope, 'object').find(o => (o.attributes.type || '').startsWith('audio/'))?.attributes.data
+    if (images.length > 1) warnings.push('Only the first image of the item was kept')
+    for (const src of [...images.slice(0, 1), audio].filter((s): s is string => !!s)) {
+        if (!/^(https?:)?\/\//.test(src) && !src.startsWith('/') && !src.startsWith('data:')) {
+            warnings.push(`Media file "${src}" is packaged with the item and was not uploaded; update its reference`)
+        }
+    }
+
+    const explanation = childElements(item, 'modalFeedback').map(f => readableText({ ...f, name: 'div' })).filter(Boolean)
+
+    const question: QtiImportedQuestion = {
+        text,
+        type: EvaluationType.QCM,
+        points: readPoints(item),
+        imageUrl: images[0],
+        audioUrl: audio,
+        explanation: explanation.length > 0 ? explanation.join('\n') : undefined
+    }
+
+    switch (interaction.name) {
+        case 'choiceInteraction':
+            readChoiceItem(item, interaction, question, warnings)
+            break
+        case 'matchInteraction':
+            readMatchItem(item, interaction, question, warnings)
+            break
+        case 'orderInteraction':
+            readOrderItem(item, interaction, question, warnings)
+            break
+        case 'extendedTextInteraction':
+            question.type = EvaluationType.OPEN_QUESTION
+            question.modelAnswer = readResponse(item, interaction.attributes.responseIdentifier).correct[0]
+            break
+        default:
+            readTextEntryItem(item, body, entries, question, warnings)
+    }
+
+    if (!question.text) throw new UnsupportedItemError('Item without question text')
+    return question
+}
+
+/**
+ * Read the items of an extracted QTI package (file path -> content)
+ * Items are taken in assessmentTest order when a test is present, otherwise in manifest order.
+ */
+export function readQtiPackage(files: Map<string, string>): QtiPackageContent {
+    const manifestXml = files.get('imsmanifest.xml')
+    if (!manifestXml) throw new Error('Invalid QTI package: imsmanifest.xml not found')
+
+    const manifest = parseXml(manifestXml)
+    const resources = findAll(manifest, 'resource')
+    const itemHrefs = resources
+        .filter(r => (r.attributes.type || '').startsWith('imsqti_item_xmlv2p'))
+        .map(r => r.attributes.href)
+        .filter(Boolean)
+    const testResource = resources.find(r => r.attributes.type === QTI_TEST_RESOURCE)
+
+    const resolve = (base: string, href: string) => {
+        const parts = [...base.split('/').slice(0, -1), ...href.split('/')]
+        const resolved: string[] = []
+        for (const part of parts) {
+            if (part === '..') resolved.pop()
+            else if (part && part !== '.') resolved.push(part)
+        }
+        return resolved.join('/')
+    }
+
+    let title: string | undefined
+    let duration: number | undefined
+    let orderedHrefs = itemHrefs
+
+    const testXml = testResource ? files.get(testResource.attributes.href) : undefined
+    if (testResource && testXml) {
+        const test = parseXml(testXml)
+        title = test.attributes.title
+        const maxTime = parseFloat(findFirst(test, 'timeLimits')?.attributes.maxTime || '')
+        if (maxTime > 0) duration = Math.ceil(maxTime / 60)
+
+        const refs = findAll(test, 'assessmentItemRef').map(ref => resolve(testResource.attributes.href, ref.attributes.href))
+        orderedHrefs = [...refs, ...itemHrefs.filter(href => !refs.includes(href))]
+    }
+
+    const report: QtiImportReport = { totalItems: orderedHrefs.length, imported: 0, skipped: [], warnings: [] }
+    const questions: QtiImportedQuestion[] = []
+
+    for (const href of orderedHrefs) {
+        const itemXml = files.get(href)
+        if (!itemXml) {
+            report.skipped.push({ identifier: href, reason: 'Item file missing from the package' })
+            continue
+        }
+
+        let item: XmlElement
+        try {
+            item = parseXml(itemXml)
+        } catch (error: any) {
+            report.skipped.push({ identifier: href, reason: error.message })
+            continue
+        }
+
+        const identifier = item.attributes.identifier || href
+        if (item.name !== 'assessmentItem') {
+            report.skipped.push({ identifier, reason: `Unexpected root element <${item.name}>` })
+            continue
+        }
+
+        const warnings: string[] = []
+        try {
+            questions.push(readItem(item, warnings))
+            report.imported++
+            report.warnings.push(...warnings.map(message => ({ identifier, message })))
+        } catch (error) {
+            if (!(error instanceof UnsupportedItemError)) throw error
+            report.skipped.push({ identifier, title: item.attributes.title, reason: error.message })
+        }
+    }
+
+    return { title, duration, questions, report }
+}
@@ -0,0 +1,168 @@
+/**
+ * Minimal XML reader/writer for QTI packages
+ * Handles elements, attributes, text, CDATA and entities; comments, processing
+ * instructions and DOCTYPE are skipped. Namespace prefixes are dropped from names.
+ */
+
+export interface XmlElement {
+    name: string
+    attributes: Record<string, string>
+    children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: "'",
+    nbsp: ' '
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+        if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+        if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+        return ENTITIES[code] ?? entity
+    })
+}
+
+function localName(name: string): string {
+    const index = name.indexOf(':')
+    return index >= 0 ? name.slice(index + 1) : name
+}
+
+/**
+ * Parse an XML document and return its root element
+ */
+export function parseXml(xml: string): XmlElement {
+    const root: XmlElement = { name: '#document', attributes: {}, children: [] }
+    const stack: XmlElement[] = [root]
+    let i = 0
+
+    const skipPast = (marker: string) => {
+        const end = xml.indexOf(marker, i)
+        if (end < 0) throw new Error(`Malformed XML: missing "${marker}"`)
+        i = end + marker.length
+    }
+
+    while (i < xml.length) {
+        const current = stack[stack.length - 1]
+
+        if (xml[i] !== '<') {
+            const end = xml.indexOf('<', i)
+            const text = xml.slice(i, end < 0 ? xml.length : end)
+            if (text) current.children.push(decodeEntities(text))
+            i = end < 0 ? xml.length : end
+        } else if (xml.startsWith('<!--', i)) {
+            skipPast('-->')
+        } else if (xml.startsWith('<![CDATA[', i)) {
+            const start = i + 9
+            skipPast(']]>')
+            current.children.push(xml.slice(start, i - 3))
+        } else if (xml.startsWith('<?', i)) {
+            skipPast('?>')
+        } else if (xml.startsWith('<!', i)) {
+            // DOCTYPE, possibly with an internal subset
+            const bracket = xml.indexOf('[', i)
+            const close = xml.indexOf('>', i)
+            if (bracket >= 0 && bracket < close) skipPast(']>')
+            else skipPast('>')
+        } else if (xml[i + 1] === '/') {
+            const end = xml.indexOf('>', i)
+            if (end < 0) throw new Error('Malformed XML: unterminated closing tag')
+            const name = localName(xml.slice(i + 2, end).trim())
+            if (stack.length === 1 || current.name !== name) {
+                throw new Error(`Malformed XML: unexpected closing tag </${name}>`)
+            }
+            stack.pop()
+            i = end + 1
+        } else {
+            const match = xml.slice(i).match(/^<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/)
+            if (!match) throw new Error(`Malformed XML near position ${i}`)
+
+            const attributes: Record<string, string> = {}
+            for (const attr of match[2].matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+                attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3])
+            }
+
+            const element: XmlElement = { name: localName(match[1]), attributes, children: [] }
+            current.children.push(element)
+            if (!match[3]) stack.push(element)
+            i += match[0].length
+        }
+    }
+
+    if (stack.length !== 1) throw new Error(`Malformed XML: unclosed element <${stack[stack.length - 1].name}>`)
+
+    const documentElement = root.children.find((c): c is XmlElement => typeof c !== 'string')
+    if (!documentElement) throw new Error('Malformed XML: no root element')
+    return documentElement
+}
+
+export function isElement(node: XmlNode | undefined): node is XmlElement {
+    return !!node && typeof node !== 'string'
+}
+
+/**
+ * Direct child elements, optionally filtered by name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+    return element.children.filter(
+        (c): c is XmlElement => isElement(c) && (!name || c.name === name)
+    )
+}
+
+/**
+ * All descendant elements with the given name (document order)
+ */
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+    const result: XmlElement[] = []
+    for (const child of childElements(element)) {
+        if (child.name === name) result.push(child)
+        result.push(...findAll(child, name))
+    }
+    return result
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | undefined {
+    return findAll(element, name)[0]
+}
+
+/**
+ * Concatenated text of an element and its descendants
+ */
+export function textContent(node: XmlNode): string {
+    if (typeof node === 'string') return node
+    return node.children.map(textContent).join('')
+}
+
+export function escapeXml(value: string | number): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
+
+/**
+ * Build an element string; children are inserted as-is (already serialized)
+ * Attributes with an undefined value are omitted.
+ */
+export function xmlElement(
+    name: string,
+    attributes: Record<string, string | number | boolean | undefined> = {},
+    children: string[] = []
+): string {
+    const attrs = Object.entries(attributes)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+        .join('')
+
+    return children.length > 0
+        ? `<${name}${attrs}>${children.join('')}</${name}>`
+        : `<${name}${attrs}/>`
+}
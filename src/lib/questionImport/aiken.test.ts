@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import { EvaluationType } from '@/models/enums'
+import { parseAiken } from './aiken'
+
+describe('parseAiken', () => {
+    it('reads single answer questions', () => {
+        const { totalQuestions, questions, errors } = parseAiken(`Quelle est la capitale du Cameroun ?
+A. Douala
+B) Yaoundé
+C. Bafoussam
+ANSWER: B
+
+Combien font 2 - 5 ?
+A. -3
+B. 3
+ANSWER: A
+`)
+
+        expect(totalQuestions).toBe(2)
+        expect(errors).toEqual([])
+        expect(questions[0]).toEqual({
+            line: 1,
+            text: 'Quelle est la capitale du Cameroun ?',
+            type: EvaluationType.QCM,
+            points: 1,
+            options: [
+                { text: 'Douala', isCorrect: false },
+                { text: 'Yaoundé', isCorrect: true },
+                { text: 'Bafoussam', isCorrect: false }
+            ]
+        })
+        expect(questions[1].options?.[0]).toEqual({ text: '-3', isCorrect: true })
+    })
+
+    it('reports questions without a valid answer line', () => {
+        const { questions, errors } = parseAiken(`Question sans réponse
+A. Oui
+B. Non
+
+Réponse inconnue
+A. Oui
+B. Non
+ANSWER: D
+
+Réponse valide
+A. Oui
+B. Non
+ANSWER: a
+`)
+
+        expect(questions.map(q => q.text)).toEqual(['Réponse valide'])
+        expect(errors.map(e => e.message)).toEqual(['Missing ANSWER line', 'Answer D does not match any option'])
+    })
+})
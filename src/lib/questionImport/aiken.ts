@@ -0,0 +1,128 @@
+import { EvaluationType } from '@/models/enums'
+import {
+    QuestionFormatError,
+    TextImportedQuestion,
+    TextParseResult,
+    assertImportable,
+    cleanText,
+    splitLines
+} from './common'
+
+/**
+ * Moodle Aiken reader: single-answer multiple choice questions
+ *
+ *   Question text
+ *   A. First answer
+ *   B) Second answer
+ *   ANSWER: B
+ */
+
+const OPTION_LINE = /^([A-Z])\s*[.)]\s+(.*)$/
+const ANSWER_LINE = /^ANSWER\s*:\s*(.*)$/i
+
+interface PendingQuestion {
+    line: number
+    text: string[]
+    options: { letter: string; text: string; line: number }[]
+}
+
+function buildQuestion(pending: PendingQuestion, answer: string, answerLine: number): TextImportedQuestion {
+    const letter = answer.trim().toUpperCase()
+    if (!/^[A-Z]$/.test(letter)) throw new QuestionFormatError(`Invalid answer "${answer.trim()}": expected a single letter`, answerLine)
+    if (!pending.options.some(opt => opt.letter === letter)) {
+        throw new QuestionFormatError(`Answer ${letter} does not match any option`, answerLine)
+    }
+
+    const letters = pending.options.map(opt => opt.letter)
+    const duplicate = pending.options.find((opt, index) => letters.indexOf(opt.letter) !== index)
+    if (duplicate) throw new QuestionFormatError(`Option ${duplicate.letter} is defined twice`, duplicate.line)
+
+    const question: TextImportedQuestion = {
+        line: pending.line,
+        text: cleanText(pending.text.join('\n'), 'Question text'),
+        type: EvaluationType.QCM,
+        points: 1,
+        options: pending.options.map(opt => ({
+            text: cleanText(opt.text, 'Answer'),
+            isCorrect: opt.letter === letter
+        }))
+    }
+
+    assertImportable(question)
+    return question
+}
+
+/**
+ * Parse an Aiken file; errors point to the offending line
+ */
+export function parseAiken(content: string): TextParseResult {
+    const result: TextParseResult = { totalQuestions: 0, questions: [], errors: [] }
+    let pending: PendingQuestion | null = null
+    let skipping = false // After an error, ignore lines until the next blank line or ANSWER
+
+    const fail = (error: any, line: number) => {
+        if (!(error instanceof QuestionFormatError)) throw error
+        result.errors.push({ line: error.line ?? line, message: error.message })
+    }
+
+    const abandon = () => {
+        if (pending) fail(new QuestionFormatError('Missing ANSWER line'), pending.line)
+        pending = null
+    }
+
+    splitLines(content).forEach((rawLine, index) => {
+        const lineNumber = index + 1
+        const line = rawLine.trim()
+
+        if (!line) {
+            skipping = false
+            // A question may span lines until its first option; afterwards a blank line ends it
+            if (pending && pending.options.length > 0) abandon()
+            return
+        }
+
+        const answer = line.match(ANSWER_LINE)
+        if (answer) {
+            if (skipping) {
+                skipping = false
+                return
+            }
+            if (!pending) {
+                result.totalQuestions++
+                fail(new QuestionFormatError('ANSWER line without a question'), lineNumber)
+                return
+            }
+            try {
+                result.questions.push(buildQuestion(pending, answer[1], lineNumber))
+            } catch (error) {
+                fail(error, pending.line)
+            }
+            pending = null
+            return
+        }
+
+        if (skipping) return
+
+        const option = line.match(OPTION_LINE)
+        if (option && pending) {
+            pending.options.push({ letter: option[1], text: option[2], line: lineNumber })
+            return
+        }
+
+        if (pending && pending.options.length > 0) {
+            fail(new QuestionFormatError('Expected an option (A. ...) or an ANSWER line'), lineNumber)
+            pending = null
+            skipping = true
+            return
+        }
+
+        if (!pending) {
+            result.totalQuestions++
+            pending = { line: lineNumber, text: [], options: [] }
+        }
+        pending.text.push(line)
+    })
+
+    abandon()
+    return result
+}
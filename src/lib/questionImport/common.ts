@@ -0,0 +1,120 @@
+import { DifficultyLevel, EvaluationType } from '@/models/enums'
+import { SECURITY_LIMITS, sanitizeForDatabase } from '@/lib/security/fileUploadSecurity'
+
+/**
+ * Shared types and helpers for question file formats (GIFT, Aiken, spreadsheets)
+ * Parsers produce the question payload accepted by the exam and question bank
+ * services, plus line-level errors for the blocks that could not be read.
+ */
+
+export type QuestionTextFormat = 'GIFT' | 'AIKEN'
+
+export interface TextImportedOption {
+    text: string
+    isCorrect: boolean
+    explanation?: string
+    matchText?: string
+}
+
+export interface TextImportedQuestion {
+    line: number // First line (or spreadsheet row) of the question in the source file
+    title?: string
+    text: string
+    type: EvaluationType
+    points: number
+    difficulty?: DifficultyLevel
+    correctAnswer?: boolean
+    modelAnswer?: string
+    explanation?: string
+    tags?: string[]
+    qcmConfig?: { multipleAnswers: boolean; scoringMode: 'all_or_nothing' | 'proportional' | 'right_minus_wrong' }
+    numericConfig?: { answer: number; toleranceType: 'absolute'; tolerance: number; unitRequired: boolean }
+    mathConfig?: { answer: string; requireSimplified: boolean }
+    clozeConfig?: {
+        blanks: { id: string; word: string; synonyms: string[]; weight: number; caseSensitive: boolean; ignoreAccents: boolean }[]
+    }
+    options?: TextImportedOption[]
+}
+
+export interface TextImportError {
+    line: number
+    title?: string
+    message: string
+}
+
+export interface TextParseResult {
+    totalQuestions: number
+    questions: TextImportedQuestion[]
+    errors: TextImportError[]
+}
+
+/**
+ * Raised by a parser for a question block that cannot be imported
+ */
+export class QuestionFormatError extends Error {
+    constructor(message: string, public line?: number) {
+        super(message)
+    }
+}
+
+/**
+ * Guess the format from the file extension, then from the content
+ */
+export function detectQuestionTextFormat(fileName: string, content: string): QuestionTextFormat | null {
+    const name = fileName.toLowerCase()
+    if (name.endsWith('.gift')) return 'GIFT'
+    if (/^\s*ANSWER\s*:\s*[A-Z]\s*$/m.test(content)) return 'AIKEN'
+    if (/\{[^}]*\}/.test(content)) return 'GIFT'
+    return null
+}
+
+/**
+ * Split a file into lines, without BOM and with normalized line endings
+ */
+export function splitLines(content: string): string[] {
+    return content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n')
+}
+
+/**
+ * Text shown to students: whitespace normalized and null bytes removed
+ * Leading "-", "=" or "+" are kept as typed (an answer "-3" stays "-3"): formula
+ * neutralization (sanitizeCell) only belongs to spreadsheet exports.
+ * Longer texts are rejected rather than silently truncated.
+ */
+export function cleanText(value: string, label: string): string {
+    const text = value.replace(/\0/g, '').replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim()
+    if (text.length > SECURITY_LIMITS.MAX_CELL_LENGTH) {
+        throw new QuestionFormatError(`${label} exceeds ${SECURITY_LIMITS.MAX_CELL_LENGTH} characters`)
+    }
+    return text
+}
+
+/**
+ * Metadata stored as tags (titles, categories)
+ */
+export function cleanTag(value: string): string {
+    return sanitizeForDatabase(value.replace(/\0/g, '').slice(0, SECURITY_LIMITS.MAX_CELL_LENGTH))
+}
+
+/**
+ * Check that a question accepts the constraints of the exam and bank services
+ */
+export function assertImportable(question: TextImportedQuestion) {
+    if (!question.text) throw new QuestionFormatError('Question text is empty')
+
+    if (question.type === EvaluationType.QCM) {
+        const options = question.options || []
+        if (options.length < 2) throw new QuestionFormatError('Multiple choice questions require at least two answers')
+        if (!options.some(opt => opt.isCorrect)) throw new QuestionFormatError('Multiple choice questions require a correct answer')
+        if (options.some(opt => !opt.text)) throw new QuestionFormatError('Answers cannot be empty')
+    }
+
+    if (question.type === EvaluationType.MATCHING &&
+        (question.options || []).filter(opt => opt.text && opt.matchText).length < 2) {
+        throw new QuestionFormatError('Matching questions require at least two pairs')
+    }
+
+    if (question.type === EvaluationType.ORDERING && (question.options || []).filter(opt => opt.text).length < 2) {
+        throw new QuestionFormatError('Ordering questions require at least two items')
+    }
+}
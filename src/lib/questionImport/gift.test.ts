@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { EvaluationType } from '@/models/enums'
+import { parseGift } from './gift'
+
+describe('parseGift', () => {
+    it('reads multiple choice questions with titles, feedback and categories', () => {
+        const { questions, errors } = parseGift(`// Capitales africaines
+$CATEGORY: $course$/Géographie/Capitales
+
+::Capitale::[html]<p>Quelle est la capitale du <b>Cameroun</b> &amp; de sa région ?</p>{
+=Yaoundé#Exact
+~Douala#Non
+}`)
+
+        expect(errors).toEqual([])
+        expect(questions).toEqual([{
+            line: 4,
+            title: 'Capitale',
+            text: 'Quelle est la capitale du Cameroun & de sa région ?',
+            type: EvaluationType.QCM,
+            points: 1,
+            options: [
+                { text: 'Yaoundé', isCorrect: true, explanation: 'Exact' },
+                { text: 'Douala', isCorrect: false, explanation: 'Non' }
+            ],
+            tags: ['Géographie/Capitales', 'Capitale']
+        }])
+    })
+
+    it('reads weighted answers as a multiple answer question', () => {
+        const { questions } = parseGift(`Lesquels sont premiers ? {
+~%50%2
+~%50%3
+~%-100%4
+}`)
+
+        expect(questions[0].qcmConfig).toEqual({ multipleAnswers: true, scoringMode: 'right_minus_wrong' })
+        expect(questions[0].options?.map(o => o.isCorrect)).toEqual([true, true, false])
+    })
+
+    it('reads true/false, matching and essay questions', () => {
+        const { questions } = parseGift(`La Terre est ronde.{TRUE}
+
+Associer {
+=France -> Paris
+=Nigeria -> Abuja
+}
+
+Expliquer la photosynthèse. {}`)
+
+        expect(questions.map(q => q.type)).toEqual([
+            EvaluationType.TRUE_FALSE,
+            EvaluationType.MATCHING,
+            EvaluationType.OPEN_QUESTION
+        ])
+        expect(questions[0].correctAnswer).toBe(true)
+        expect(questions[1].options).toEqual([
+            { text: 'France', isCorrect: false, matchText: 'Paris' },
+            { text: 'Nigeria', isCorrect: false, matchText: 'Abuja' }
+        ])
+    })
+
+    it('reads numeric answers with a tolerance, a range or thousands separators', () => {
+        const { questions, errors } = parseGift(`Combien font 1000 + 234 ? {#1 234:0.5}
+
+Valeur de pi ? {#3.1..3.2}`)
+
+        expect(errors).toEqual([])
+        expect(questions.map(q => q.numericConfig)).toEqual([
+            { answer: 1234, tolerance: 0.5, toleranceType: 'absolute', unitRequired: false },
+            { answer: expect.closeTo(3.15), tolerance: expect.closeTo(0.05), toleranceType: 'absolute', unitRequired: false }
+        ])
+    })
+
+    it('imports short answers as a one-blank cloze question', () => {
+        const { questions } = parseGift('Capitale du Sénégal ? {=Dakar =Ndakarou}')
+
+        expect(questions[0]).toMatchObject({
+            text: 'Capitale du Sénégal ? {{1}}',
+            type: EvaluationType.CLOZE,
+            clozeConfig: {
+                blanks: [{ id: '1', word: 'Dakar', synonyms: ['Ndakarou'], weight: 1, caseSensitive: false, ignoreAccents: false }]
+            }
+        })
+    })
+
+    it('keeps escaped special characters', () => {
+        const { questions } = parseGift('Que vaut 2 \\= 2 \\{ \\} ? {=vrai \\# oui ~faux}')
+
+        expect(questions[0].text).toBe('Que vaut 2 = 2 { } ?')
+        expect(questions[0].options?.[0].text).toBe('vrai # oui')
+    })
+
+    it('reports invalid questions by line and keeps the others', () => {
+        const { totalQuestions, questions, errors } = parseGift(`Question sans bonne réponse {
+~a
+~b
+}
+
+Combien ? {#beaucoup}
+
+La Terre est plate.{F}`)
+
+        expect(totalQuestions).toBe(3)
+        expect(questions.map(q => q.correctAnswer)).toEqual([false])
+        expect(errors).toEqual([
+            { line: 1, message: 'Multiple choice questions require a correct answer' },
+            { line: 6, message: 'Invalid numeric answer "beaucoup"' }
+        ])
+    })
+})
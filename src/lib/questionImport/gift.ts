@@ -0,0 +1,297 @@
+import { EvaluationType } from '@/models/enums'
+import {
+    QuestionFormatError,
+    TextImportedOption,
+    TextImportedQuestion,
+    TextParseResult,
+    assertImportable,
+    cleanTag,
+    cleanText,
+    splitLines
+} from './common'
+
+/**
+ * Moodle GIFT reader
+ * Supported: multiple choice (including weighted answers and missing-word questions),
+ * true/false, short answer (imported as a one-blank cloze question), numeric
+ * (value, value:tolerance, min..max), matching and essay. Questions are separated by
+ * blank lines; `//` comment lines and `$CATEGORY:` lines are honored.
+ */
+
+const ESCAPABLE = ['~', '=', '#', '{', '}', ':']
+const ESCAPE_BASE = 0xe000 // Private-use characters stand in for escaped symbols
+
+function protectEscapes(text: string): string {
+    return text.replace(/\\([~=#{}:])/g, (_, char: string) => String.fromCharCode(ESCAPE_BASE + ESCAPABLE.indexOf(char)))
+}
+
+function restoreEscapes(text: string): string {
+    return text
+        .replace(/[\uE000-\uE005]/g, char => ESCAPABLE[char.charCodeAt(0) - ESCAPE_BASE])
+        .replace(/\\n/g, '\n')
+}
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' }
+
+/**
+ * Question text without its format marker; [html] content is reduced to plain text
+ * Entities are decoded once the tags are removed: the stored text is what students
+ * read, escaping happens when it is rendered.
+ */
+function readText(raw: string): string {
+    const marker = raw.match(/^\s*\[(html|moodle|plain|markdown)\]/i)
+    let text = marker ? raw.slice(marker[0].length) : raw
+    if (marker?.[1].toLowerCase() === 'html') {
+        text = text
+            .replace(/<br\s*\/?>|<\/p>/gi, '\n')
+            .replace(/<[^>]*>/g, '')
+            .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+                if (name[0] !== '#') return HTML_ENTITIES[name.toLowerCase()] ?? entity
+                const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+                return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity
+            })
+    }
+    return restoreEscapes(text)
+}
+
+interface GiftAnswer {
+    correct: boolean // `=` answer
+    weight?: number // %n% prefix, in percent
+    text: string
+    feedback?: string
+}
+
+function readAnswers(block: string): GiftAnswer[] {
+    return block
+        .split(/(?=[=~])/)
+        .map(part => part.trim())
+        .filter(Boolean)
+        .map(part => {
+            if (part[0] !== '=' && part[0] !== '~') {
+                throw new QuestionFormatError(`Unexpected text in answers: "${restoreEscapes(part)}"`)
+            }
+            const weight = part.match(/^[=~]\s*%(-?\d+(?:\.\d+)?)%/)
+            const body = weight ? part.slice(weight[0].length) : part.slice(1)
+            const [text, ...feedback] = body.split('#')
+            return {
+                correct: part[0] === '=',
+                weight: weight ? parseFloat(weight[1]) : undefined,
+                text: text.trim(),
+                feedback: feedback.length > 0 ? readText(feedback.join('#')).trim() || undefined : undefined
+            }
+        })
+}
+
+/**
+ * Number of a numeric answer; spaces (thousands separators, including non-breaking ones) are ignored
+ */
+function readNumber(value: string): number {
+    const text = value.replace(/\s+/g, '')
+    const number = Number(text)
+    if (text === '' || !Number.isFinite(number)) {
+        throw new QuestionFormatError(`Invalid numeric answer "${restoreEscapes(value.trim())}"`)
+    }
+    return number
+}
+
+/**
+ * Numeric answer: `value`, `value:tolerance` or `min..max`
+ */
+function readNumericAnswer(value: string) {
+    const range = value.split('..')
+    if (range.length === 2) {
+        const min = readNumber(range[0])
+        const max = readNumber(range[1])
+        return { answer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 }
+    }
+    const [answer, tolerance] = value.split(':')
+    return { answer: readNumber(answer), tolerance: tolerance !== undefined ? Math.abs(readNumber(tolerance)) : 0 }
+}
+
+function parseNumeric(question: TextImportedQuestion, block: string) {
+    const body = block.slice(1).trim()
+    let value = body.split('#')[0]
+
+    // Several answers: keep the one worth full credit
+    if (body.startsWith('=')) {
+        const answers = readAnswers(body)
+        const best = answers.find(a => a.weight === undefined || a.weight === 100) ?? answers[0]
+        value = best.text
+    }
+
+    question.type = EvaluationType.NUMERIC
+    question.numericConfig = { ...readNumericAnswer(value), toleranceType: 'absolute', unitRequired: false }
+}
+
+function parseTrueFalse(question: TextImportedQuestion, block: string, label: string) {
+    const isTrue = /^t/i.test(label)
+    const [, wrongFeedback, rightFeedback] = block.split('#').map(f => cleanText(readText(f), 'Feedback') || undefined)
+
+    question.type = EvaluationType.TRUE_FALSE
+    question.correctAnswer = isTrue
+    question.options = [
+        { text: 'Vrai', isCorrect: isTrue, explanation: isTrue ? rightFeedback : wrongFeedback },
+        { text: 'Faux', isCorrect: !isTrue, explanation: isTrue ? wrongFeedback : rightFeedback }
+    ]
+}
+
+function parseMatching(question: TextImportedQuestion, answers: GiftAnswer[]) {
+    question.type = EvaluationType.MATCHING
+    question.options = answers.map(answer => {
+        const [text, matchText = ''] = answer.text.split('->')
+        return {
+            text: cleanText(readText(text), 'Answer'),
+            isCorrect: false,
+            matchText: cleanText(readText(matchText), 'Answer')
+        }
+    })
+}
+
+function parseMultipleChoice(question: TextImportedQuestion, answers: GiftAnswer[]) {
+    const isCorrect = (a: GiftAnswer) => a.weight !== undefined ? a.weight > 0 : a.correct
+    const correctCount = answers.filter(isCorrect).length
+
+    question.type = EvaluationType.QCM
+    question.options = answers.map((answer): TextImportedOption => ({
+        text: cleanText(readText(answer.text), 'Answer'),
+        isCorrect: isCorrect(answer),
+        explanation: answer.feedback ? cleanText(answer.feedback, 'Feedback') : undefined
+    }))
+
+    if (correctCount > 1 || answers.some(a => !a.correct && a.weight !== undefined && a.weight > 0)) {
+        question.qcmConfig = {
+            multipleAnswers: true,
+            scoringMode: answers.some(a => (a.weight ?? 0) < 0) ? 'right_minus_wrong' : 'proportional'
+        }
+    }
+}
+
+/**
+ * Short answer: every full-credit answer is accepted in a single blank
+ */
+function parseShortAnswer(question: TextImportedQuestion, answers: GiftAnswer[], hasTextAfter: boolean, before: string, after: string) {
+    const accepted = answers
+        .filter(a => a.correct && (a.weight === undefined || a.weight === 100))
+        .map(a => cleanText(readText(a.text), 'Answer'))
+        .filter(Boolean)
+    if (accepted.length === 0) throw new QuestionFormatError('Short answer questions require a full-credit answer')
+
+    question.type = EvaluationType.CLOZE
+    question.text = cleanText(
+        hasTextAfter ? `${readText(before)}{{1}}${readText(after)}` : `${readText(before).trimEnd()} {{1}}`,
+        'Question text'
+    )
+    question.clozeConfig = {
+        blanks: [{
+            id: '1',
+            word: accepted[0],
+            synonyms: accepted.slice(1),
+            weight: 1,
+            caseSensitive: false,
+            ignoreAccents: false
+        }]
+    }
+}
+
+function parseQuestion(raw: string, line: number, category?: string): TextImportedQuestion {
+    let source = protectEscapes(raw)
+    const question: TextImportedQuestion = { line, text: '', type: EvaluationType.OPEN_QUESTION, points: 1 }
+
+    const title = source.match(/^\s*::([\s\S]*?)::/)
+    if (title) {
+        question.title = restoreEscapes(title[1]).trim() || undefined
+        source = source.slice(title[0].length)
+    }
+
+    const open = source.indexOf('{')
+    const close = source.lastIndexOf('}')
+    if (open < 0 || close < open) throw new QuestionFormatError('Missing answer block {...}')
+    if (source.indexOf('{', open + 1) >= 0 && source.indexOf('{', open + 1) < close) {
+        throw new QuestionFormatError('Only one answer block per question is supported')
+    }
+
+    const before = source.slice(0, open)
+    const after = source.slice(close + 1)
+    const hasTextAfter = after.trim().length > 0
+    let block = source.slice(open + 1, close).trim()
+
+    const generalFeedback = block.indexOf('####')
+    if (generalFeedback >= 0) {
+        question.explanation = cleanText(readText(block.slice(generalFeedback + 4)), 'Feedback') || undefined
+        block = block.slice(0, generalFeedback).trim()
+    }
+
+    // Missing-word questions keep the gap inside the sentence
+    question.text = cleanText(
+        hasTextAfter ? `${readText(before)}_____${readText(after)}` : readText(before),
+        'Question text'
+    )
+
+    const trueFalse = block.match(/^(T|TRUE|F|FALSE)\s*(?=#|$)/i)
+    if (!block) {
+        question.type = EvaluationType.OPEN_QUESTION
+    } else if (block.startsWith('#')) {
+        parseNumeric(question, block)
+    } else if (trueFalse) {
+        parseTrueFalse(question, block.slice(trueFalse[0].length), trueFalse[1])
+    } else {
+        const answers = readAnswers(block)
+        if (answers.length > 0 && answers.every(a => a.correct && a.text.includes('->'))) {
+            parseMatching(question, answers)
+        } else if (answers.some(a => !a.correct)) {
+            parseMultipleChoice(question, answers)
+        } else {
+            parseShortAnswer(question, answers, hasTextAfter, before, after)
+        }
+    }
+
+    const tags = [category, question.title].filter((tag): tag is string => !!tag).map(cleanTag)
+    if (tags.length > 0) question.tags = tags
+
+    assertImportable(question)
+    return question
+}
+
+/**
+ * Parse a GIFT file; each unreadable question is reported with its first line
+ */
+export function parseGift(content: string): TextParseResult {
+    const result: TextParseResult = { totalQuestions: 0, questions: [], errors: [] }
+    let category: string | undefined
+    let buffer: string[] = []
+    let startLine = 0
+
+    const flush = () => {
+        const raw = buffer.join('\n').trim()
+        buffer = []
+        if (!raw) return
+
+        const categoryLine = raw.match(/^\$CATEGORY:\s*(.*)$/i)
+        if (categoryLine) {
+            category = categoryLine[1].trim().replace(/^\$(course|module|system)\$\//i, '') || undefined
+            return
+        }
+
+        result.totalQuestions++
+        try {
+            result.questions.push(parseQuestion(raw, startLine, category))
+        } catch (error: any) {
+            if (!(error instanceof QuestionFormatError)) throw error
+            const title = raw.match(/^\s*::([\s\S]*?)::/)?.[1].trim()
+            result.errors.push({ line: error.line ?? startLine, title, message: error.message })
+        }
+    }
+
+    splitLines(content).forEach((line, index) => {
+        if (/^\s*\/\//.test(line)) return
+        if (!line.trim()) {
+            flush()
+            return
+        }
+        if (buffer.length === 0) startLine = index + 1
+        buffer.push(line)
+    })
+    flush()
+
+    return result
+}
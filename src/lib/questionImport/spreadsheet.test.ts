@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { DifficultyLevel, EvaluationType } from '@/models/enums'
+import { buildQuestionTemplate, parseQuestionRows, readQuestionSheet } from './spreadsheet'
+
+const HEADER = 'Question;Type;Option A;Option B;Option C;Réponse correcte;Points;Difficulté;Tags;Explication'
+
+describe('readQuestionSheet', () => {
+    it('maps the columns from their headers and skips empty rows', () => {
+        const rows = readQuestionSheet(`\uFEFF${HEADER}
+Capitale du Cameroun ?;QCM;Douala;Yaoundé;Garoua;B;2;facile;géographie, capitales;Yaoundé est la capitale.
+;;;;;;;;;
+L'eau bout à 100 °C.;VF;;;;vrai;;;;`)
+
+        expect(rows).toEqual([
+            {
+                row: 2,
+                text: 'Capitale du Cameroun ?',
+                type: 'QCM',
+                optionA: 'Douala',
+                optionB: 'Yaoundé',
+                optionC: 'Garoua',
+                correct: 'B',
+                points: '2',
+                difficulty: 'facile',
+                tags: 'géographie, capitales',
+                explanation: 'Yaoundé est la capitale.'
+            },
+            { row: 4, text: 'L\'eau bout à 100 °C.', type: 'VF', correct: 'vrai' }
+        ])
+    })
+
+    it('rejects a sheet without the required columns', () => {
+        expect(() => readQuestionSheet('Énoncé;Points\nQuestion;1')).toThrow('missing column "Type"')
+    })
+
+    it('reads back its own template', () => {
+        const { questions, errors } = parseQuestionRows(readQuestionSheet(buildQuestionTemplate()))
+
+        expect(errors).toEqual([])
+        expect(questions.map(q => q.type)).toEqual([
+            EvaluationType.QCM,
+            EvaluationType.TRUE_FALSE,
+            EvaluationType.NUMERIC,
+            EvaluationType.MATH_EXPRESSION,
+            EvaluationType.ORDERING,
+            EvaluationType.OPEN_QUESTION
+        ])
+    })
+})
+
+describe('parseQuestionRows', () => {
+    it('builds questions of each type', () => {
+        const { questions, errors } = parseQuestionRows([
+            { row: 2, text: 'Nombres premiers', type: 'QCM', optionA: '2', optionB: '4', optionC: '5', correct: 'A, C', difficulty: 'Intermédiaire', tags: 'maths; arithmétique' },
+            { row: 3, text: 'La Terre est plate.', type: 'Vrai/Faux', correct: 'FAUX' },
+            { row: 4, text: 'Population en milliers', type: 'Numérique', correct: '1 234,5:0,5', points: '1,5' },
+            { row: 5, text: 'Développez (x+1)^2', type: 'expression', correct: 'x^2+2x+1' },
+            { row: 6, text: 'Classez', type: 'ordre', optionA: 'Atome', optionB: 'Cellule' }
+        ])
+
+        expect(errors).toEqual([])
+        expect(questions[0]).toEqual({
+            line: 2,
+            text: 'Nombres premiers',
+            type: EvaluationType.QCM,
+            points: 1,
+            difficulty: DifficultyLevel.INTERMEDIATE,
+            tags: ['maths', 'arithmétique'],
+            options: [
+                { text: '2', isCorrect: true },
+                { text: '4', isCorrect: false },
+                { text: '5', isCorrect: true }
+            ],
+            qcmConfig: { multipleAnswers: true, scoringMode: 'all_or_nothing' }
+        })
+        expect(questions[1]).toMatchObject({ type: EvaluationType.TRUE_FALSE, correctAnswer: false })
+        expect(questions[2]).toMatchObject({
+            points: 1.5,
+            numericConfig: { answer: 1234.5, toleranceType: 'absolute', tolerance: 0.5, unitRequired: false }
+        })
+        expect(questions[3].mathConfig).toEqual({ answer: 'x^2+2x+1', requireSimplified: false })
+        expect(questions[4].options).toEqual([{ text: 'Atome', isCorrect: false }, { text: 'Cellule', isCorrect: false }])
+    })
+
+    it('keeps answers starting with a sign and drops the quote marking them as text', () => {
+        const { questions } = parseQuestionRows([
+            { row: 2, text: 'Combien font 2 - 5 ?', type: 'QCM', optionA: '-3', optionB: '\'+3', optionC: '\'=7', correct: '1' }
+        ])
+
+        expect(questions[0].options).toEqual([
+            { text: '-3', isCorrect: true },
+            { text: '+3', isCorrect: false },
+            { text: '=7', isCorrect: false }
+        ])
+    })
+
+    it('reports invalid rows with their row number', () => {
+        const { totalQuestions, questions, errors } = parseQuestionRows([
+            { row: 2, text: 'Sans type' },
+            { row: 3, text: 'Capitale ?', type: 'QCM', optionA: 'Douala', optionB: 'Yaoundé', correct: 'D' },
+            { row: 4, text: 'Combien ?', type: 'NUMERIC', correct: 'beaucoup' },
+            { row: 5, text: 'Valide', type: 'OPEN_QUESTION', points: '0' }
+        ])
+
+        expect(totalQuestions).toBe(4)
+        expect(questions).toEqual([])
+        expect(errors).toEqual([
+            { line: 2, message: 'Unknown type ""' },
+            { line: 3, message: 'Correct answer D does not match a filled option' },
+            { line: 4, message: 'Correct answer must be a number' },
+            { line: 5, message: 'Points must be greater than 0' }
+        ])
+    })
+})
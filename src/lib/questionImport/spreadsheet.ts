@@ -0,0 +1,313 @@
+import * as XLSX from 'xlsx'
+import { DifficultyLevel, EvaluationType } from '@/models/enums'
+import { MathExpressionEvaluationStrategy } from '@/lib/patterns/EvaluationStrategy'
+import { SECURITY_LIMITS } from '@/lib/security/fileUploadSecurity'
+import {
+    QuestionFormatError,
+    TextImportedQuestion,
+    TextParseResult,
+    assertImportable,
+    cleanTag,
+    cleanText
+} from './common'
+
+/**
+ * Spreadsheet (XLSX/CSV) question authoring
+ * One question per row; the first row holds the column headers of the template.
+ * Rows are kept as plain strings so a previewed file can be sent back for commit
+ * and validated again with the same rules.
+ */
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'] as const
+
+export type QuestionSheetColumn =
+    | 'text' | 'type' | 'correct' | 'points' | 'difficulty' | 'tags' | 'explanation'
+    | `option${typeof OPTION_LETTERS[number]}`
+
+export type QuestionSheetRow = { row: number } & Partial<Record<QuestionSheetColumn, string>>
+
+const COLUMNS: { key: QuestionSheetColumn; header: string; aliases: string[]; width: number }[] = [
+    { key: 'text', header: 'Question', aliases: ['question', 'texte', 'text', 'enonce'], width: 50 },
+    { key: 'type', header: 'Type', aliases: ['type'], width: 16 },
+    ...OPTION_LETTERS.map(letter => ({
+        key: `option${letter}` as QuestionSheetColumn,
+        header: `Option ${letter}`,
+        aliases: [`option ${letter.toLowerCase()}`, `choix ${letter.toLowerCase()}`, `reponse ${letter.toLowerCase()}`],
+        width: 20
+    })),
+    { key: 'correct', header: 'Réponse correcte', aliases: ['reponse correcte', 'reponses correctes', 'bonne reponse', 'correct', 'answer'], width: 18 },
+    { key: 'points', header: 'Points', aliases: ['points', 'bareme'], width: 8 },
+    { key: 'difficulty', header: 'Difficulté', aliases: ['difficulte', 'difficulty', 'niveau'], width: 14 },
+    { key: 'tags', header: 'Tags', aliases: ['tags', 'mots cles', 'mots-cles'], width: 20 },
+    { key: 'explanation', header: 'Explication', aliases: ['explication', 'explanation', 'feedback'], width: 40 }
+]
+
+export const QUESTION_SHEET_COLUMNS: QuestionSheetColumn[] = COLUMNS.map(column => column.key)
+
+const TYPE_ALIASES: Record<string, EvaluationType> = {
+    QCM: EvaluationType.QCM,
+    QCU: EvaluationType.QCM,
+    MCQ: EvaluationType.QCM,
+    TRUE_FALSE: EvaluationType.TRUE_FALSE,
+    VRAI_FAUX: EvaluationType.TRUE_FALSE,
+    VF: EvaluationType.TRUE_FALSE,
+    OPEN_QUESTION: EvaluationType.OPEN_QUESTION,
+    OUVERTE: EvaluationType.OPEN_QUESTION,
+    QUESTION_OUVERTE: EvaluationType.OPEN_QUESTION,
+    NUMERIC: EvaluationType.NUMERIC,
+    NUMERIQUE: EvaluationType.NUMERIC,
+    MATH_EXPRESSION: EvaluationType.MATH_EXPRESSION,
+    EXPRESSION: EvaluationType.MATH_EXPRESSION,
+    ORDERING: EvaluationType.ORDERING,
+    ORDRE: EvaluationType.ORDERING,
+    CLASSEMENT: EvaluationType.ORDERING
+}
+
+const DIFFICULTY_ALIASES: Record<string, DifficultyLevel> = {
+    BEGINNER: DifficultyLevel.BEGINNER,
+    DEBUTANT: DifficultyLevel.BEGINNER,
+    FACILE: DifficultyLevel.BEGINNER,
+    INTERMEDIATE: DifficultyLevel.INTERMEDIATE,
+    INTERMEDIAIRE: DifficultyLevel.INTERMEDIATE,
+    MOYEN: DifficultyLevel.INTERMEDIATE,
+    ADVANCED: DifficultyLevel.ADVANCED,
+    AVANCE: DifficultyLevel.ADVANCED,
+    DIFFICILE: DifficultyLevel.ADVANCED,
+    EXPERT: DifficultyLevel.EXPERT
+}
+
+const TRUE_VALUES = ['VRAI', 'TRUE', 'V', 'T', 'OUI', 'YES', '1']
+const FALSE_VALUES = ['FAUX', 'FALSE', 'F', 'NON', 'NO', '0']
+
+function normalize(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().replace(/\s+/g, ' ')
+}
+
+function keyword(value: string): string {
+    return normalize(value).toUpperCase().replace(/[\s/-]+/g, '_')
+}
+
+/**
+ * Text of a cell, stored as typed
+ * A leading quote only marks "-3" or "=x" as text in the spreadsheet; it is dropped.
+ */
+function cellText(value: string, label: string): string {
+    return cleanText(value.replace(/^\s*'(?=[-+=@%])/, ''), label)
+}
+
+/**
+ * Number typed in a cell; accepts a decimal comma, thousands separated by (non-breaking)
+ * spaces and a leading quote
+ */
+function readNumber(value: string, label: string): number {
+    const text = value.trim().replace(/^'/, '').replace(/\s+/g, '').replace(',', '.')
+    const number = Number(text)
+    if (!text || !Number.isFinite(number)) throw new QuestionFormatError(`${label} must be a number`)
+    return number
+}
+
+/**
+ * Template offered to teachers: the Questions sheet with one example per type, and instructions
+ */
+export function buildQuestionTemplate(): Buffer {
+    const examples: Partial<Record<QuestionSheetColumn, string | number>>[] = [
+        { text: 'Quelle est la capitale du Cameroun ?', type: 'QCM', optionA: 'Douala', optionB: 'Yaoundé', optionC: 'Garoua', correct: 'B', points: 1, difficulty: 'BEGINNER', tags: 'géographie, capitales', explanation: 'Yaoundé est la capitale politique.' },
+        { text: "L'eau bout à 100 °C au niveau de la mer.", type: 'TRUE_FALSE', correct: 'VRAI', points: 1 },
+        { text: 'Combien vaut 7 × 8 ?', type: 'NUMERIC', correct: '56', points: 2, difficulty: 'BEGINNER' },
+        { text: 'Développez (x + 1)^2', type: 'MATH_EXPRESSION', correct: 'x^2 + 2x + 1', points: 2, difficulty: 'INTERMEDIATE' },
+        { text: 'Classez du plus petit au plus grand', type: 'ORDERING', optionA: 'Atome', optionB: 'Cellule', optionC: 'Organe', points: 1 },
+        { text: "Expliquez le rôle de la photosynthèse.", type: 'OPEN_QUESTION', correct: 'Production de matière organique à partir de lumière', points: 4, difficulty: 'ADVANCED' }
+    ]
+
+    const questions = XLSX.utils.aoa_to_sheet([
+        COLUMNS.map(column => column.header),
+        ...examples.map(example => COLUMNS.map(column => example[column.key] ?? ''))
+    ])
+    questions['!cols'] = COLUMNS.map(column => ({ wch: column.width }))
+
+    const instructions = XLSX.utils.aoa_to_sheet([
+        ['Colonne', 'Contenu'],
+        ['Question', 'Énoncé de la question (obligatoire)'],
+        ['Type', 'QCM, TRUE_FALSE, OPEN_QUESTION, NUMERIC, MATH_EXPRESSION ou ORDERING'],
+        ['Option A à F', 'Choix proposés (QCM) ou éléments dans le bon ordre (ORDERING)'],
+        ['Réponse correcte', 'QCM : lettre(s) des bonnes options (ex. "A" ou "A,C") ; TRUE_FALSE : VRAI ou FAUX ; ' +
+            'NUMERIC : valeur ou valeur:tolérance (ex. "3.14:0.01") ; MATH_EXPRESSION : expression attendue ; ' +
+            'OPEN_QUESTION : réponse modèle (facultative)'],
+        ['Points', 'Barème de la question (1 par défaut)'],
+        ['Difficulté', 'BEGINNER, INTERMEDIATE, ADVANCED ou EXPERT (facultatif)'],
+        ['Tags', 'Mots-clés séparés par des virgules (facultatif)'],
+        ['Explication', 'Correction affichée après la réponse (facultatif)'],
+        [],
+        [`Maximum ${SECURITY_LIMITS.MAX_ROWS} questions par fichier. Les lignes vides sont ignorées.`]
+    ])
+    instructions['!cols'] = [{ wch: 18 }, { wch: 110 }]
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, questions, 'Questions')
+    XLSX.utils.book_append_sheet(workbook, instructions, 'Instructions')
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+}
+
+/**
+ * Read the question rows of a workbook (XLSX) or of CSV text
+ * Uses the "Questions" sheet when present, the first sheet otherwise.
+ */
+export function readQuestionSheet(content: Buffer | string): QuestionSheetRow[] {
+    let workbook: XLSX.WorkBook
+    try {
+        workbook = typeof content === 'string'
+            ? XLSX.read(content.replace(/^\uFEFF/, ''), { type: 'string' })
+            : XLSX.read(content, { type: 'buffer' })
+    } catch {
+        throw new Error('Invalid spreadsheet: the file cannot be read')
+    }
+
+    const sheetName = workbook.SheetNames.find(name => normalize(name).toLowerCase() === 'questions') ?? workbook.SheetNames[0]
+    const sheet = sheetName ? workbook.Sheets[sheetName] : undefined
+    if (!sheet || !sheet['!ref']) throw new Error('Invalid spreadsheet: the file is empty')
+
+    const firstRow = XLSX.utils.decode_range(sheet['!ref']).s.r + 1
+    const cells = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: true })
+    const [headerCells = [], ...dataRows] = cells
+
+    // Column index -> field, from the header labels
+    const headers = headerCells.map(cell => normalize(String(cell)).toLowerCase())
+    const mapping = new Map<number, QuestionSheetColumn>()
+    headers.forEach((header, index) => {
+        const column = COLUMNS.find(c => c.aliases.includes(header) || normalize(c.header).toLowerCase() === header)
+        if (column && ![...mapping.values()].includes(column.key)) mapping.set(index, column.key)
+    })
+
+    for (const required of ['text', 'type'] as const) {
+        if (![...mapping.values()].includes(required)) {
+            const header = COLUMNS.find(c => c.key === required)!.header
+            throw new Error(`Invalid spreadsheet: missing column "${header}" (download the template)`)
+        }
+    }
+
+    const rows: QuestionSheetRow[] = []
+    dataRows.forEach((cellsOfRow, index) => {
+        const row: QuestionSheetRow = { row: firstRow + index + 1 }
+        let filled = false
+        mapping.forEach((key, column) => {
+            const value = cellsOfRow[column]
+            const text = value === null || value === undefined ? '' : String(value).trim()
+            if (text) {
+                row[key] = text
+                filled = true
+            }
+        })
+        if (filled) rows.push(row)
+    })
+
+    if (rows.length === 0) throw new Error('Invalid spreadsheet: no question row found')
+    if (rows.length > SECURITY_LIMITS.MAX_ROWS) {
+        throw new Error(`Invalid spreadsheet: too many rows (max ${SECURITY_LIMITS.MAX_ROWS})`)
+    }
+    return rows
+}
+
+function parseRow(row: QuestionSheetRow): TextImportedQuestion {
+    const typeName = keyword(row.type || '')
+    const type = TYPE_ALIASES[typeName]
+    if (!type) throw new QuestionFormatError(`Unknown type "${row.type || ''}"`)
+
+    const question: TextImportedQuestion = {
+        line: row.row,
+        text: cellText(row.text || '', 'Question text'),
+        type,
+        points: row.points ? readNumber(row.points, 'Points') : 1
+    }
+    if (question.points <= 0) throw new QuestionFormatError('Points must be greater than 0')
+
+    if (row.difficulty) {
+        question.difficulty = DIFFICULTY_ALIASES[keyword(row.difficulty)]
+        if (!question.difficulty) throw new QuestionFormatError(`Unknown difficulty "${row.difficulty}"`)
+    }
+    if (row.tags) {
+        const tags = row.tags.split(/[,;]/).map(tag => cleanTag(tag)).filter(Boolean)
+        if (tags.length > 0) question.tags = tags
+    }
+    if (row.explanation) question.explanation = cellText(row.explanation, 'Explanation')
+
+    const options = OPTION_LETTERS
+        .map(letter => ({ letter, text: row[`option${letter}`] }))
+        .filter((opt): opt is { letter: typeof OPTION_LETTERS[number]; text: string } => !!opt.text)
+    const correct = (row.correct || '').trim()
+
+    switch (type) {
+        case EvaluationType.QCM: {
+            const letters = correct.toUpperCase().split(/[\s,;]+/).filter(Boolean)
+                .map(value => /^\d+$/.test(value) ? OPTION_LETTERS[Number(value) - 1] ?? value : value)
+            if (letters.length === 0) throw new QuestionFormatError('Multiple choice questions require the letter of the correct option')
+            const unknown = letters.find(letter => !options.some(opt => opt.letter === letter))
+            if (unknown) throw new QuestionFormatError(`Correct answer ${unknown} does not match a filled option`)
+
+            question.options = options.map(opt => ({
+                text: cellText(opt.text, `Option ${opt.letter}`),
+                isCorrect: letters.includes(opt.letter)
+            }))
+            if (new Set(letters).size > 1) {
+                question.qcmConfig = { multipleAnswers: true, scoringMode: 'all_or_nothing' }
+            }
+            break
+        }
+        case EvaluationType.TRUE_FALSE: {
+            const value = keyword(correct)
+            if (!TRUE_VALUES.includes(value) && !FALSE_VALUES.includes(value)) {
+                throw new QuestionFormatError('True/false questions require VRAI or FAUX as the correct answer')
+            }
+            question.correctAnswer = TRUE_VALUES.includes(value)
+            question.options = [
+                { text: 'Vrai', isCorrect: question.correctAnswer },
+                { text: 'Faux', isCorrect: !question.correctAnswer }
+            ]
+            break
+        }
+        case EvaluationType.NUMERIC: {
+            const [answer, tolerance] = correct.split(':')
+            question.numericConfig = {
+                answer: readNumber(answer || '', 'Correct answer'),
+                toleranceType: 'absolute',
+                tolerance: tolerance !== undefined ? Math.abs(readNumber(tolerance, 'Tolerance')) : 0,
+                unitRequired: false
+            }
+            break
+        }
+        case EvaluationType.MATH_EXPRESSION: {
+            const answer = correct.replace(/^'/, '')
+            if (!MathExpressionEvaluationStrategy.isValidExpression(answer)) {
+                throw new QuestionFormatError('Math expression questions require a valid expression as the correct answer')
+            }
+            question.mathConfig = { answer, requireSimplified: false }
+            break
+        }
+        case EvaluationType.ORDERING:
+            question.options = options.map(opt => ({ text: cellText(opt.text, `Option ${opt.letter}`), isCorrect: false }))
+            break
+        case EvaluationType.OPEN_QUESTION:
+            if (correct) question.modelAnswer = cellText(correct, 'Model answer')
+            break
+    }
+
+    assertImportable(question)
+    return question
+}
+
+/**
+ * Validate rows; each rejected row is reported with its spreadsheet row number
+ */
+export function parseQuestionRows(rows: QuestionSheetRow[]): TextParseResult {
+    const result: TextParseResult = { totalQuestions: rows.length, questions: [], errors: [] }
+
+    for (const row of rows) {
+        try {
+            result.questions.push(parseRow(row))
+        } catch (error: any) {
+            if (!(error instanceof QuestionFormatError)) throw error
+            result.errors.push({ line: row.row, message: error.message })
+        }
+    }
+
+    return result
+}
@@ -25,6 +25,21 @@ export class AttemptRepository {
         return attempt;
     }
 
+    /**
+     * Record the first time a question is served to an attempt and return that time
+     * Later calls keep the original time.
+     */
+    async recordQuestionServed(attemptId: string | mongoose.Types.ObjectId, questionId: mongoose.Types.ObjectId): Promise<Date | undefined> {
+        await connectDB();
+        await Attempt.updateOne(
+            { _id: attemptId, 'questionTimings.questionId': { $ne: questionId } },
+            { $push: { questionTimings: { questionId, servedAt: new Date() } } }
+        );
+
+        const attempt = await Attempt.findById(attemptId).select('questionTimings').lean();
+        return attempt?.questionTimings?.find(t => t.questionId.toString() === questionId.toString())?.servedAt;
+    }
+
     /**
      * Find completed attempts for a user
      */
@@ -0,0 +1,145 @@
+import Blueprint, { IBlueprint } from "@/models/Blueprint";
+import Concept from "@/models/Concept";
+import Question, { QuestionBankVisibility } from "@/models/Question";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export interface BlueprintFilters {
+    subject?: string
+    syllabus?: string
+    createdBy?: string
+    includeArchived?: boolean
+}
+
+export class BlueprintRepository {
+    /**
+     * Create a blueprint
+     */
+    async create(data: Partial<IBlueprint>): Promise<IBlueprint> {
+        await connectDB();
+        return Blueprint.create(data);
+    }
+
+    /**
+     * Find a blueprint by ID (document, for updates)
+     */
+    async findById(id: string): Promise<IBlueprint | null> {
+        await connectDB();
+        return Blueprint.findById(id);
+    }
+
+    /**
+     * Find a blueprint with its references populated
+     */
+    async findByIdPopulated(id: string) {
+        await connectDB();
+        return Blueprint.findById(id)
+            .populate('subject', 'name code')
+            .populate('syllabus', 'title')
+            .populate('targetLevels', 'name code')
+            .populate('rows.concept', 'title learningUnit')
+            .populate('rows.learningUnit', 'title')
+            .populate('createdBy', 'name email')
+            .lean();
+    }
+
+    /**
+     * List blueprints, most recently updated first
+     */
+    async list(filters: BlueprintFilters) {
+        await connectDB();
+        const query: any = {};
+        if (!filters.includeArchived) query.isArchived = false;
+        if (filters.subject) query.subject = filters.subject;
+        if (filters.syllabus) query.syllabus = filters.syllabus;
+        if (filters.createdBy) query.createdBy = filters.createdBy;
+
+        return Blueprint.find(query)
+            .populate('subject', 'name code')
+            .populate('createdBy', 'name')
+            .sort({ updatedAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Save a blueprint document
+     */
+    async save(blueprint: IBlueprint): Promise<IBlueprint> {
+        await connectDB();
+        return blueprint.save();
+    }
+
+    /**
+     * Find concepts (with their learning unit)
+     */
+    async findConcepts(conceptIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Concept.find({ _id: { $in: conceptIds } }).select('title learningUnit').lean();
+    }
+
+    /**
+     * Find the concepts attached to learning units
+     */
+    async findConceptsByLearningUnits(learningUnitIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Concept.find({ learningUnit: { $in: learningUnitIds } }).select('title learningUnit').lean();
+    }
+
+    /**
+     * Find the questions of an exam, in display order
+     */
+    async findExamQuestions(examId: string | mongoose.Types.ObjectId) {
+        await connectDB();
+        return Question.find({ examId }).select('points difficulty sourceQuestionId concepts order').sort({ order: 1 }).lean();
+    }
+
+    /**
+     * Find the concept of bank items (source of exam question copies)
+     */
+    async findBankConcepts(itemIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Question.find({ _id: { $in: itemIds }, bank: { $exists: true } }).select('bank.concept').lean();
+    }
+
+    /**
+     * Bank items visible to a user (own items + items shared with their schools)
+     * for a set of concepts at a difficulty level, least asked first
+     */
+    async findBankCandidates(
+        userId: string,
+        schoolIds: string[],
+        subject: mongoose.Types.ObjectId,
+        conceptIds: mongoose.Types.ObjectId[],
+        difficulty: string,
+        excludeIds: mongoose.Types.ObjectId[] = []
+    ) {
+        await connectDB();
+        return Question.find({
+            _id: { $nin: excludeIds },
+            bank: { $exists: true },
+            'bank.isArchived': false,
+            'bank.subject': subject,
+            difficulty,
+            $and: [
+                {
+                    $or: [
+                        { 'bank.concept': { $in: conceptIds } },
+                        { 'concepts.concept': { $in: conceptIds } }
+                    ]
+                },
+                {
+                    $or: [
+                        { 'bank.owner': new mongoose.Types.ObjectId(userId) },
+                        {
+                            'bank.visibility': QuestionBankVisibility.SCHOOL,
+                            'bank.school': { $in: schoolIds.map(id => new mongoose.Types.ObjectId(id)) }
+                        }
+                    ]
+                }
+            ]
+        })
+            .select('-bank.usageHistory')
+            .sort({ 'stats.timesAsked': 1, updatedAt: -1 })
+            .lean();
+    }
+}
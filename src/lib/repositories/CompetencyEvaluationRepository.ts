@@ -0,0 +1,111 @@
+import CompetencyEvaluation, { ICompetencyEvaluation } from "@/models/CompetencyEvaluation";
+import Competency from "@/models/Competency";
+import Question, { QuestionCompetencyCriterion } from "@/models/Question";
+import Attempt from "@/models/Attempt";
+import Exam from "@/models/Exam";
+import Response from "@/models/Response";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class CompetencyEvaluationRepository {
+    /**
+     * Find an attempt (plain object)
+     */
+    async findAttempt(attemptId: string | mongoose.Types.ObjectId) {
+        await connectDB();
+        return Attempt.findById(attemptId).lean();
+    }
+
+    /**
+     * Find an exam (plain object)
+     */
+    async findExam(examId: string | mongoose.Types.ObjectId) {
+        await connectDB();
+        return Exam.findById(examId).lean();
+    }
+
+    /**
+     * Find the graded responses of an attempt
+     */
+    async findResponses(attemptId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Response.find({ attemptId }).select('questionId isCorrect partialScore').lean();
+    }
+
+    /**
+     * Find the questions of an exam with their competency criteria
+     */
+    async findExamQuestions(examId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Question.find({ examId }).select('points competencyCriteria').lean();
+    }
+
+    /**
+     * Find an exam question (document, for updates)
+     */
+    async findExamQuestion(examId: string, questionId: string) {
+        await connectDB();
+        return Question.findOne({
+            _id: new mongoose.Types.ObjectId(questionId),
+            examId: new mongoose.Types.ObjectId(examId)
+        });
+    }
+
+    /**
+     * Replace the competency criteria measured by a question
+     */
+    async updateQuestionCriteria(questionId: mongoose.Types.ObjectId, competencyCriteria: QuestionCompetencyCriterion[]) {
+        await connectDB();
+        return Question.findByIdAndUpdate(questionId, { $set: { competencyCriteria } }, { new: true });
+    }
+
+    /**
+     * Add competencies to the competencies targeted by an exam
+     */
+    async addTargetedCompetencies(examId: string, competencyIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Exam.findByIdAndUpdate(examId, { $addToSet: { targetedCompetencies: { $each: competencyIds } } });
+    }
+
+    /**
+     * Find competencies with their assessment criteria
+     */
+    async findCompetencies(competencyIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Competency.find({ _id: { $in: competencyIds } })
+            .select('name code type assessmentCriteria relatedSubjects metadata')
+            .lean();
+    }
+
+    /**
+     * Create or replace the evaluation of a competency for an attempt
+     */
+    async upsert(data: Partial<ICompetencyEvaluation>) {
+        await connectDB();
+        return CompetencyEvaluation.findOneAndUpdate(
+            { attemptId: data.attemptId, competency: data.competency },
+            { $set: data },
+            { upsert: true, new: true, runValidators: true }
+        );
+    }
+
+    /**
+     * Remove the evaluations of an attempt for competencies it no longer measures
+     */
+    async deleteStale(attemptId: mongoose.Types.ObjectId, keptCompetencyIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return CompetencyEvaluation.deleteMany({ attemptId, competency: { $nin: keptCompetencyIds } });
+    }
+
+    /**
+     * Competency evaluations of a student, most recent first
+     */
+    async findByStudent(studentId: string) {
+        await connectDB();
+        return CompetencyEvaluation.find({ student: new mongoose.Types.ObjectId(studentId) })
+            .populate('competency', 'name code type relatedSubjects metadata')
+            .populate('examId', 'title')
+            .sort({ evaluatedAt: -1 })
+            .lean();
+    }
+}
@@ -0,0 +1,115 @@
+import ConceptMastery, { IConceptMastery } from "@/models/ConceptMastery";
+import Concept from "@/models/Concept";
+import Question, { QuestionConcept } from "@/models/Question";
+import Attempt from "@/models/Attempt";
+import Exam from "@/models/Exam";
+import Response from "@/models/Response";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class ConceptMasteryRepository {
+    /**
+     * Find an attempt (plain object)
+     */
+    async findAttempt(attemptId: string | mongoose.Types.ObjectId) {
+        await connectDB();
+        return Attempt.findById(attemptId).lean();
+    }
+
+    /**
+     * Find an exam (plain object)
+     */
+    async findExam(examId: string | mongoose.Types.ObjectId) {
+        await connectDB();
+        return Exam.findById(examId).lean();
+    }
+
+    /**
+     * Find the graded responses of an attempt
+     */
+    async findResponses(attemptId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Response.find({ attemptId }).select('questionId isCorrect partialScore').lean();
+    }
+
+    /**
+     * Find the questions of an exam with their concepts
+     */
+    async findExamQuestions(examId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Question.find({ examId }).select('points concepts sourceQuestionId').lean();
+    }
+
+    /**
+     * Find an exam question (document, for updates)
+     */
+    async findExamQuestion(examId: string, questionId: string) {
+        await connectDB();
+        return Question.findOne({
+            _id: new mongoose.Types.ObjectId(questionId),
+            examId: new mongoose.Types.ObjectId(examId)
+        });
+    }
+
+    /**
+     * Replace the concepts measured by a question
+     */
+    async updateQuestionConcepts(questionId: mongoose.Types.ObjectId, concepts: QuestionConcept[]) {
+        await connectDB();
+        return Question.findByIdAndUpdate(questionId, { $set: { concepts } }, { new: true });
+    }
+
+    /**
+     * Find the classification concept of bank items (source of older exam copies)
+     */
+    async findBankConcepts(itemIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Question.find({ _id: { $in: itemIds }, bank: { $exists: true } }).select('bank.concept').lean();
+    }
+
+    /**
+     * Find concepts (with their syllabus)
+     */
+    async findConcepts(conceptIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Concept.find({ _id: { $in: conceptIds } }).select('title syllabus').lean();
+    }
+
+    /**
+     * Find the mastery record of a student for a concept (document)
+     */
+    async findByStudentAndConcept(studentId: mongoose.Types.ObjectId, conceptId: mongoose.Types.ObjectId): Promise<IConceptMastery | null> {
+        await connectDB();
+        return ConceptMastery.findOne({ student: studentId, concept: conceptId });
+    }
+
+    /**
+     * Create a mastery record
+     */
+    async create(data: Partial<IConceptMastery>): Promise<IConceptMastery> {
+        await connectDB();
+        return ConceptMastery.create(data);
+    }
+
+    /**
+     * Save a mastery record
+     */
+    async save(mastery: IConceptMastery): Promise<IConceptMastery> {
+        await connectDB();
+        return mastery.save();
+    }
+
+    /**
+     * Mastery records of a student (optionally for one syllabus)
+     */
+    async findByStudent(studentId: string, syllabusId?: string) {
+        await connectDB();
+        const query: any = { student: new mongoose.Types.ObjectId(studentId) };
+        if (syllabusId) query.syllabus = new mongoose.Types.ObjectId(syllabusId);
+
+        return ConceptMastery.find(query)
+            .populate('concept', 'title')
+            .sort({ mastery: 1 })
+            .lean();
+    }
+}
@@ -0,0 +1,72 @@
+import ExamReviewComment, { IExamReviewComment } from "@/models/ExamReviewComment";
+import Exam from "@/models/Exam";
+import Question from "@/models/Question";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class ExamReviewRepository {
+    /**
+     * Find an exam (document, for access checks)
+     */
+    async findExam(examId: string) {
+        await connectDB();
+        return Exam.findById(examId);
+    }
+
+    /**
+     * Check that a question belongs to an exam
+     */
+    async questionBelongsToExam(examId: mongoose.Types.ObjectId, questionId: string): Promise<boolean> {
+        await connectDB();
+        return !!(await Question.exists({ _id: new mongoose.Types.ObjectId(questionId), examId }));
+    }
+
+    /**
+     * Create a review comment
+     */
+    async create(data: Partial<IExamReviewComment>): Promise<IExamReviewComment> {
+        await connectDB();
+        return ExamReviewComment.create(data);
+    }
+
+    /**
+     * Create review comments
+     */
+    async createMany(comments: Partial<IExamReviewComment>[]) {
+        await connectDB();
+        return ExamReviewComment.insertMany(comments);
+    }
+
+    /**
+     * Find a review comment (document)
+     */
+    async findById(commentId: string): Promise<IExamReviewComment | null> {
+        await connectDB();
+        return ExamReviewComment.findById(commentId);
+    }
+
+    /**
+     * Save a review comment
+     */
+    async save(comment: IExamReviewComment): Promise<IExamReviewComment> {
+        await connectDB();
+        return comment.save();
+    }
+
+    /**
+     * Review threads of an exam, oldest first
+     */
+    async findByExam(examId: string, filters: { questionId?: string; includeResolved?: boolean } = {}) {
+        await connectDB();
+        const query: any = { examId: new mongoose.Types.ObjectId(examId) };
+        if (filters.questionId) query.questionId = new mongoose.Types.ObjectId(filters.questionId);
+        if (!filters.includeResolved) query.isResolved = false;
+
+        return ExamReviewComment.find(query)
+            .populate('authorId', 'name email role')
+            .populate('replies.authorId', 'name email role')
+            .populate('resolvedBy', 'name')
+            .sort({ createdAt: 1 })
+            .lean();
+    }
+}
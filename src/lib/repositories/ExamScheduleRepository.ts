@@ -0,0 +1,96 @@
+import Exam, { IExam } from "@/models/Exam";
+import { ExamStatus } from "@/models/enums";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class ExamScheduleRepository {
+    /**
+     * Find an exam (document, for updates)
+     */
+    async findById(examId: string | mongoose.Types.ObjectId): Promise<IExam | null> {
+        await connectDB();
+        return Exam.findById(examId);
+    }
+
+    /**
+     * Save an exam document
+     */
+    async save(exam: IExam): Promise<IExam> {
+        await connectDB();
+        return exam.save();
+    }
+
+    /**
+     * Validated exams whose scheduled publication date has passed
+     */
+    async findDuePublications(now: Date) {
+        await connectDB();
+        return Exam.find({
+            status: ExamStatus.VALIDATED,
+            'schedule.publishAt': { $lte: now }
+        }).select('_id schedule endTime').lean();
+    }
+
+    /**
+     * Published exams with automatic closing, not closed yet, whose end time has passed
+     * (the late window is checked by the caller)
+     */
+    async findClosable(now: Date) {
+        await connectDB();
+        return Exam.find({
+            status: ExamStatus.PUBLISHED,
+            closedAt: { $exists: false },
+            endTime: { $lte: now },
+            $or: [{ 'schedule.autoClose': true }, { 'schedule.autoArchive': true }]
+        }).select('_id endTime config.lateDuration').lean();
+    }
+
+    /**
+     * Closed published exams with automatic archiving
+     * (the archive delay is checked by the caller)
+     */
+    async findArchivable(now: Date) {
+        await connectDB();
+        return Exam.find({
+            status: ExamStatus.PUBLISHED,
+            closedAt: { $lte: now },
+            'schedule.autoArchive': true
+        }).select('_id closedAt schedule').lean();
+    }
+
+    /**
+     * Claim a due publication: only one scheduler run can clear the date
+     */
+    async claimPublication(examId: mongoose.Types.ObjectId, publishAt: Date): Promise<boolean> {
+        await connectDB();
+        const result = await Exam.updateOne(
+            { _id: examId, status: ExamStatus.VALIDATED, 'schedule.publishAt': publishAt },
+            { $unset: { 'schedule.publishAt': 1 } }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    /**
+     * Claim the closing of an exam: only one scheduler run can set closedAt
+     */
+    async claimClosing(examId: mongoose.Types.ObjectId, closedAt: Date): Promise<boolean> {
+        await connectDB();
+        const result = await Exam.updateOne(
+            { _id: examId, status: ExamStatus.PUBLISHED, closedAt: { $exists: false } },
+            { $set: { closedAt } }
+        );
+        return result.modifiedCount === 1;
+    }
+
+    /**
+     * Claim the archiving of an exam: only one scheduler run can turn autoArchive off
+     */
+    async claimArchiving(examId: mongoose.Types.ObjectId): Promise<boolean> {
+        await connectDB();
+        const result = await Exam.updateOne(
+            { _id: examId, status: ExamStatus.PUBLISHED, 'schedule.autoArchive': true },
+            { $set: { 'schedule.autoArchive': false } }
+        );
+        return result.modifiedCount === 1;
+    }
+}
@@ -0,0 +1,46 @@
+import Exam, { IExam } from "@/models/Exam";
+import Question from "@/models/Question";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class ExamSectionRepository {
+    /**
+     * Find an exam (document, for updates)
+     */
+    async findExam(examId: string): Promise<IExam | null> {
+        await connectDB();
+        return Exam.findById(examId);
+    }
+
+    /**
+     * Save an exam document
+     */
+    async saveExam(exam: IExam): Promise<IExam> {
+        await connectDB();
+        return exam.save();
+    }
+
+    /**
+     * Questions of an exam with their section and points
+     */
+    async findExamQuestions(examId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Question.find({ examId }).select('_id sectionId points').lean();
+    }
+
+    /**
+     * Assign the questions of an exam to its sections (unlisted questions leave their section)
+     */
+    async assignQuestions(examId: mongoose.Types.ObjectId, assignments: { sectionId: mongoose.Types.ObjectId; questionIds: mongoose.Types.ObjectId[] }[]) {
+        await connectDB();
+        await Question.updateMany({ examId }, { $unset: { sectionId: 1 } });
+
+        for (const { sectionId, questionIds } of assignments) {
+            if (questionIds.length === 0) continue;
+            await Question.updateMany(
+                { examId, _id: { $in: questionIds } },
+                { $set: { sectionId } }
+            );
+        }
+    }
+}
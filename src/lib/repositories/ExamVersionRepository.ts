@@ -0,0 +1,107 @@
+import Exam, { ExamWorkflowTransition } from "@/models/Exam";
+import Question from "@/models/Question";
+import Option from "@/models/Option";
+import Attempt from "@/models/Attempt";
+import ExamVersion, { IExamVersion } from "@/models/ExamVersion";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class ExamVersionRepository {
+    /**
+     * Find an exam (plain object)
+     */
+    async findExam(examId: string) {
+        await connectDB();
+        return Exam.findById(examId).lean();
+    }
+
+    /**
+     * Load an exam with its questions and options (plain objects, display order)
+     */
+    async findExamContent(examId: string) {
+        await connectDB();
+        const exam = await Exam.findById(examId).lean();
+        if (!exam) return null;
+
+        const questions = await Question.find({ examId: exam._id }).sort({ order: 1 }).lean();
+        const options = await Option.find({ questionId: { $in: questions.map(q => q._id) } }).sort({ order: 1 }).lean();
+
+        return { exam, questions, options };
+    }
+
+    /**
+     * Latest snapshot of an exam
+     */
+    async findLatest(examId: string): Promise<IExamVersion | null> {
+        await connectDB();
+        return ExamVersion.findOne({ examId: new mongoose.Types.ObjectId(examId) }).sort({ version: -1 }).lean<IExamVersion>();
+    }
+
+    /**
+     * Snapshot of a given version
+     */
+    async findByVersion(examId: string, version: number): Promise<IExamVersion | null> {
+        await connectDB();
+        return ExamVersion.findOne({ examId: new mongoose.Types.ObjectId(examId), version }).lean<IExamVersion>();
+    }
+
+    /**
+     * Version list (without content), most recent first
+     */
+    async listVersions(examId: string) {
+        await connectDB();
+        return ExamVersion.find({ examId: new mongoose.Types.ObjectId(examId) })
+            .select('version reason createdBy createdAt')
+            .populate('createdBy', 'name')
+            .sort({ version: -1 })
+            .lean();
+    }
+
+    /**
+     * Store a snapshot and make it the current version of the exam
+     */
+    async createSnapshot(data: Partial<IExamVersion>): Promise<IExamVersion> {
+        await connectDB();
+        const snapshot = await ExamVersion.create(data);
+        await Exam.updateOne(
+            { _id: data.examId },
+            { $set: { version: snapshot.version }, $push: { previousVersions: snapshot._id } }
+        );
+        return snapshot;
+    }
+
+    /**
+     * Count attempts of an exam
+     */
+    async countAttempts(examId: string): Promise<number> {
+        await connectDB();
+        return Attempt.countDocuments({ examId: new mongoose.Types.ObjectId(examId) });
+    }
+
+    /**
+     * Replace the exam fields, questions and options with snapshot content
+     * Questions and options keep their original IDs.
+     */
+    async replaceExamContent(
+        examId: string,
+        examFields: Record<string, any>,
+        unsetFields: string[],
+        questions: Record<string, any>[],
+        options: Record<string, any>[],
+        transition?: ExamWorkflowTransition
+    ) {
+        await connectDB();
+        const id = new mongoose.Types.ObjectId(examId);
+
+        const currentQuestionIds = await Question.find({ examId: id }).distinct('_id');
+        await Option.deleteMany({ questionId: { $in: currentQuestionIds } });
+        await Question.deleteMany({ examId: id });
+
+        if (questions.length > 0) await Question.insertMany(questions);
+        if (options.length > 0) await Option.insertMany(options);
+
+        const unset = Object.fromEntries(unsetFields.map(field => [field, 1]));
+        const push = transition ? { $push: { workflowHistory: transition } } : {};
+        return Exam.findByIdAndUpdate(id, { $set: examFields, $unset: unset, ...push }, { new: true });
+    }
+}
@@ -0,0 +1,83 @@
+import GradingScale, { IGradingScale } from "@/models/GradingScale";
+import { SubSystem } from "@/models/enums";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export interface GradingScaleFilters {
+    school?: string
+    subSystem?: SubSystem
+    schoolIds?: string[] // Restrict to these schools (and sub-system-only scales)
+    includeInactive?: boolean
+}
+
+export class GradingScaleRepository {
+    /**
+     * Create a grading scale
+     */
+    async create(data: Partial<IGradingScale>): Promise<IGradingScale> {
+        await connectDB();
+        return GradingScale.create(data);
+    }
+
+    /**
+     * Find a grading scale by ID (document, for updates)
+     */
+    async findById(id: string): Promise<IGradingScale | null> {
+        await connectDB();
+        return GradingScale.findById(id);
+    }
+
+    /**
+     * Find a grading scale with its references populated
+     */
+    async findByIdPopulated(id: string) {
+        await connectDB();
+        return GradingScale.findById(id)
+            .populate('school', 'name')
+            .populate('createdBy', 'name email')
+            .lean();
+    }
+
+    /**
+     * List grading scales, most recently updated first
+     */
+    async list(filters: GradingScaleFilters) {
+        await connectDB();
+        const query: any = {};
+        if (!filters.includeInactive) query.isActive = true;
+        if (filters.school) query.school = filters.school;
+        if (filters.subSystem) query.subSystem = filters.subSystem;
+        if (filters.schoolIds) {
+            query.$or = [{ school: { $in: filters.schoolIds } }, { school: null }];
+        }
+
+        return GradingScale.find(query)
+            .populate('school', 'name')
+            .sort({ updatedAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Active scales that may apply to an exam of the given schools and sub-system
+     */
+    async findCandidates(schoolIds: mongoose.Types.ObjectId[], subSystem?: SubSystem) {
+        await connectDB();
+        return GradingScale.find({
+            isActive: true,
+            $and: [
+                { $or: [{ school: { $in: schoolIds } }, { school: null }] },
+                { $or: [{ subSystem }, { subSystem: null }] }
+            ]
+        })
+            .sort({ updatedAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Save a grading scale document
+     */
+    async save(scale: IGradingScale): Promise<IGradingScale> {
+        await connectDB();
+        return scale.save();
+    }
+}
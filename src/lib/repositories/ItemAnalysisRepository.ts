@@ -0,0 +1,67 @@
+import Attempt, { AttemptStatus } from "@/models/Attempt";
+import Exam, { ExamReliability } from "@/models/Exam";
+import Question from "@/models/Question";
+import Option from "@/models/Option";
+import Response from "@/models/Response";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export class ItemAnalysisRepository {
+    /**
+     * Find an exam (plain object)
+     */
+    async findExam(examId: string) {
+        await connectDB();
+        return Exam.findById(examId).lean();
+    }
+
+    /**
+     * Find the completed attempts of an exam
+     */
+    async findCompletedAttempts(examId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Attempt.find({ examId, status: AttemptStatus.COMPLETED })
+            .select('userId questionIds')
+            .lean();
+    }
+
+    /**
+     * Find the questions of an exam in display order
+     */
+    async findQuestions(examId: mongoose.Types.ObjectId) {
+        await connectDB();
+        return Question.find({ examId })
+            .select('text type points order difficulty')
+            .sort({ order: 1 })
+            .lean();
+    }
+
+    /**
+     * Find the options of the given questions
+     */
+    async findOptions(questionIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Option.find({ questionId: { $in: questionIds } })
+            .select('questionId text isCorrect order stats')
+            .sort({ order: 1 })
+            .lean();
+    }
+
+    /**
+     * Find the graded responses of the given attempts
+     */
+    async findResponses(attemptIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Response.find({ attemptId: { $in: attemptIds } })
+            .select('attemptId questionId selectedOptionId selectedOptionIds isCorrect partialScore hintsRevealed')
+            .lean();
+    }
+
+    /**
+     * Store the reliability of an exam in its stats
+     */
+    async updateReliability(examId: mongoose.Types.ObjectId, reliability: ExamReliability) {
+        await connectDB();
+        return Exam.findByIdAndUpdate(examId, { $set: { 'stats.reliability': reliability } });
+    }
+}
@@ -0,0 +1,164 @@
+import Question, { IQuestion, QuestionBankUsage, QuestionBankVisibility } from "@/models/Question";
+import Option, { IOption } from "@/models/Option";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export interface QuestionBankSearchFilters {
+    search?: string
+    subject?: string
+    syllabus?: string
+    concept?: string
+    difficulty?: string
+    type?: string
+    tags?: string[]
+    scope?: 'mine' | 'school' | 'all'
+    limit?: number
+    skip?: number
+}
+
+export class QuestionBankRepository {
+    /**
+     * Create a bank item (question without examId)
+     */
+    async createItem(data: Partial<IQuestion>): Promise<IQuestion> {
+        await connectDB();
+        return Question.create(data);
+    }
+
+    /**
+     * Find a bank item by ID (document, for updates)
+     */
+    async findItemById(id: string): Promise<IQuestion | null> {
+        await connectDB();
+        return Question.findOne({ _id: id, bank: { $exists: true } });
+    }
+
+    /**
+     * Find bank items by IDs
+     */
+    async findItemsByIds(ids: string[]) {
+        await connectDB();
+        return Question.find({
+            _id: { $in: ids.map(id => new mongoose.Types.ObjectId(id)) },
+            bank: { $exists: true }
+        }).lean();
+    }
+
+    /**
+     * Search bank items visible to a user (own items + items shared with their schools)
+     */
+    async search(userId: string, schoolIds: string[], filters: QuestionBankSearchFilters) {
+        await connectDB();
+
+        const ownItems = { 'bank.owner': new mongoose.Types.ObjectId(userId) };
+        const schoolItems = {
+            'bank.visibility': QuestionBankVisibility.SCHOOL,
+            'bank.school': { $in: schoolIds.map(id => new mongoose.Types.ObjectId(id)) }
+        };
+
+        const query: any = {
+            bank: { $exists: true },
+            'bank.isArchived': false
+        };
+
+        if (filters.scope === 'mine') {
+            Object.assign(query, ownItems);
+        } else if (filters.scope === 'school') {
+            Object.assign(query, schoolItems);
+        } else {
+            query.$or = [ownItems, schoolItems];
+        }
+
+        if (filters.subject) query['bank.subject'] = filters.subject;
+        if (filters.syllabus) query['bank.syllabus'] = filters.syllabus;
+        if (filters.concept) query['bank.concept'] = filters.concept;
+        if (filters.difficulty) query.difficulty = filters.difficulty;
+        if (filters.type) query.type = filters.type;
+        if (filters.tags?.length) query.tags = { $all: filters.tags.map(t => t.toLowerCase()) };
+        if (filters.search) {
+            const escaped = filters.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            query.text = { $regex: escaped, $options: 'i' };
+        }
+
+        const limit = filters.limit || 20;
+        const skip = filters.skip || 0;
+
+        const [items, total] = await Promise.all([
+            Question.find(query)
+                .select('-bank.usageHistory')
+                .populate('bank.owner', 'name email')
+                .populate('bank.subject', 'name code')
+                .populate('bank.syllabus', 'title')
+                .populate('bank.concept', 'title')
+                .sort({ updatedAt: -1 })
+                .limit(limit)
+                .skip(skip)
+                .lean(),
+            Question.countDocuments(query)
+        ]);
+
+        return { items, total, limit, skip };
+    }
+
+    /**
+     * Find options of a question, sorted by display order
+     */
+    async findOptions(questionId: string | mongoose.Types.ObjectId) {
+        await connectDB();
+        return Option.find({ questionId }).sort({ order: 1 }).lean();
+    }
+
+    /**
+     * Find options of several questions
+     */
+    async findOptionsForQuestions(questionIds: mongoose.Types.ObjectId[]) {
+        await connectDB();
+        return Option.find({ questionId: { $in: questionIds } }).sort({ order: 1 }).lean();
+    }
+
+    /**
+     * Replace all options of a question
+     */
+    async replaceOptions(questionId: mongoose.Types.ObjectId, options: Partial<IOption>[]) {
+        await connectDB();
+        await Option.deleteMany({ questionId });
+        if (options.length === 0) return [];
+        return Option.insertMany(options.map(opt => ({ ...opt, questionId })));
+    }
+
+    /**
+     * Create an exam question (copy of a bank item)
+     */
+    async createExamQuestion(data: Partial<IQuestion>): Promise<IQuestion> {
+        await connectDB();
+        return Question.create(data);
+    }
+
+    /**
+     * Count questions of an exam (used to append bank items at the end)
+     */
+    async countExamQuestions(examId: string): Promise<number> {
+        await connectDB();
+        return Question.countDocuments({ examId: new mongoose.Types.ObjectId(examId) });
+    }
+
+    /**
+     * Append a usage entry to a bank item
+     */
+    async pushUsage(itemId: mongoose.Types.ObjectId, usage: QuestionBankUsage) {
+        await connectDB();
+        return Question.updateOne({ _id: itemId }, { $push: { 'bank.usageHistory': usage } });
+    }
+
+    /**
+     * Get the usage history of a bank item with exam titles
+     */
+    async findUsageHistory(itemId: string) {
+        await connectDB();
+        return Question.findById(itemId)
+            .select('bank.usageHistory bank.version bank.owner bank.school bank.visibility')
+            .populate('bank.usageHistory.examId', 'title status startTime')
+            .populate('bank.usageHistory.usedBy', 'name email')
+            .lean();
+    }
+}
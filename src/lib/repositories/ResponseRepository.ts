@@ -20,4 +20,33 @@ export class ResponseRepository {
         await connectDB();
         return Response.create(data);
     }
+
+    /**
+     * Record the next hint revealed for a question of an attempt
+     * The response is created if the question has no answer yet. Returns null when
+     * every hint was already revealed.
+     */
+    async revealNextHint(
+        attemptId: mongoose.Types.ObjectId,
+        questionId: mongoose.Types.ObjectId,
+        hintCount: number
+    ): Promise<IResponse | null> {
+        await connectDB();
+        const response = await Response.findOneAndUpdate(
+            { attemptId, questionId },
+            { $setOnInsert: { isCorrect: false } },
+            { upsert: true, new: true }
+        );
+
+        const index = response.hintsRevealed?.length || 0;
+        if (index >= hintCount) return null;
+
+        // A concurrent request may have revealed the same hint: keep its version
+        const updated = await Response.findOneAndUpdate(
+            { _id: response._id, [`hintsRevealed.${index}`]: { $exists: false } },
+            { $push: { hintsRevealed: { index, revealedAt: new Date() } } },
+            { new: true }
+        );
+        return updated ?? Response.findById(response._id);
+    }
 }
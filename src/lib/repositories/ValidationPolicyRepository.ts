@@ -0,0 +1,85 @@
+import ValidationPolicy, { IValidationPolicy } from "@/models/ValidationPolicy";
+import connectDB from "@/lib/mongodb";
+import mongoose from "mongoose";
+
+export interface ValidationPolicyFilters {
+    school?: string
+    subject?: string
+    schoolIds?: string[] // Restrict to these schools (and subject-only policies)
+    includeInactive?: boolean
+}
+
+export class ValidationPolicyRepository {
+    /**
+     * Create a validation policy
+     */
+    async create(data: Partial<IValidationPolicy>): Promise<IValidationPolicy> {
+        await connectDB();
+        return ValidationPolicy.create(data);
+    }
+
+    /**
+     * Find a validation policy by ID (document, for updates)
+     */
+    async findById(id: string): Promise<IValidationPolicy | null> {
+        await connectDB();
+        return ValidationPolicy.findById(id);
+    }
+
+    /**
+     * Find a validation policy with its references populated
+     */
+    async findByIdPopulated(id: string) {
+        await connectDB();
+        return ValidationPolicy.findById(id)
+            .populate('school', 'name')
+            .populate('subject', 'name code')
+            .populate('steps.reviewers', 'name email role')
+            .populate('createdBy', 'name email')
+            .lean();
+    }
+
+    /**
+     * List validation policies, most recently updated first
+     */
+    async list(filters: ValidationPolicyFilters) {
+        await connectDB();
+        const query: any = {};
+        if (!filters.includeInactive) query.isActive = true;
+        if (filters.school) query.school = filters.school;
+        if (filters.subject) query.subject = filters.subject;
+        if (filters.schoolIds) {
+            query.$or = [{ school: { $in: filters.schoolIds } }, { school: null }];
+        }
+
+        return ValidationPolicy.find(query)
+            .populate('school', 'name')
+            .populate('subject', 'name code')
+            .sort({ updatedAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Active policies that may apply to an exam of the given schools and subject
+     */
+    async findCandidates(schoolIds: mongoose.Types.ObjectId[], subjectId?: mongoose.Types.ObjectId) {
+        await connectDB();
+        return ValidationPolicy.find({
+            isActive: true,
+            $and: [
+                { $or: [{ school: { $in: schoolIds } }, { school: null }] },
+                { $or: [{ subject: subjectId }, { subject: null }] }
+            ]
+        })
+            .sort({ updatedAt: -1 })
+            .lean();
+    }
+
+    /**
+     * Save a validation policy document
+     */
+    async save(policy: IValidationPolicy): Promise<IValidationPolicy> {
+        await connectDB();
+        return policy.save();
+    }
+}
@@ -0,0 +1,49 @@
+import connectDB from './mongodb'
+import { ExamScheduleService } from './services/ExamScheduleService'
+
+// Intervalle entre deux exécutions des tâches programmées (1 minute par défaut)
+const INTERVAL_MS = Number(process.env.EXAM_SCHEDULER_INTERVAL_MS) || 60 * 1000
+
+/**
+ * Global is used here to keep a single scheduler across hot reloads
+ * in development.
+ */
+let scheduler = (global as any).examScheduler
+
+if (!scheduler) {
+    scheduler = (global as any).examScheduler = { timer: null, running: false }
+}
+
+/**
+ * Exécute les publications, clôtures et archivages échus
+ * Une exécution encore en cours fait sauter la suivante.
+ */
+async function tick() {
+    if (scheduler.running) return
+    scheduler.running = true
+
+    try {
+        await connectDB()
+        const result = await ExamScheduleService.runDueTasks()
+        const count = result.published.length + result.closed.length + result.archived.length
+        if (count > 0) {
+            console.log(`[ExamScheduler] Published ${result.published.length}, closed ${result.closed.length}, archived ${result.archived.length} exam(s)`)
+        }
+    } catch (error) {
+        console.error('[ExamScheduler] Run failed:', error)
+    } finally {
+        scheduler.running = false
+    }
+}
+
+/**
+ * Démarre le planificateur des examens (publication, clôture et archivage automatiques)
+ * Désactivable avec EXAM_SCHEDULER_DISABLED=true, par exemple sur les instances secondaires.
+ */
+export function startExamScheduler() {
+    if (scheduler.timer || process.env.EXAM_SCHEDULER_DISABLED === 'true') return
+
+    scheduler.timer = setInterval(tick, INTERVAL_MS)
+    console.log(`[ExamScheduler] Started (every ${Math.round(INTERVAL_MS / 1000)}s)`)
+    void tick()
+}
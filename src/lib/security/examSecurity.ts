@@ -136,6 +136,27 @@ export function validateExamSubmission(
         errors.push('Duplicate responses to the same question')
     }
 
+    // Validate matching/ordering payloads against the question options
+    const questionsById = new Map(questions.map(q => [q._id.toString(), q]))
+    const invalidArrangements = responses.filter(r => {
+        const question = questionsById.get(r.questionId.toString())
+        return question && validateArrangementPayload(r, question).length > 0
+    })
+
+    if (invalidArrangements.length > 0) {
+        errors.push('Invalid matching or ordering responses')
+    }
+
+    // Validate fill-in-the-blank payloads against the question blanks
+    const invalidBlankAnswers = responses.filter(r => {
+        const question = questionsById.get(r.questionId.toString())
+        return question && validateClozePayload(r, question).length > 0
+    })
+
+    if (invalidBlankAnswers.length > 0) {
+        errors.push('Invalid fill-in-the-blank responses')
+    }
+
     return {
         valid: errors.length === 0,
         errors
@@ -143,26 +164,84 @@ export function validateExamSubmission(
 }
 
 /**
- * Calculate score securely on server side
+ * Validate the payload shape of a matching (matches) or ordering (orderedOptionIds) response
+ * When the question options are loaded, every referenced option must belong to the question.
  */
-export function calculateScore(responses: any[], questions: any[]): number {
-    let totalScore = 0
+export function validateArrangementPayload(
+    response: { matches?: any; orderedOptionIds?: any },
+    question?: { type?: string; options?: any[] }
+): string[] {
+    const errors: string[] = []
+    const optionIds = question?.options
+        ? new Set(question.options.map((o: any) => (o._id || o.id).toString()))
+        : undefined
+    const isKnownOption = (id: any) => !optionIds || optionIds.has(id?.toString())
+
+    if (response.matches !== undefined && response.matches !== null) {
+        if (!Array.isArray(response.matches) ||
+            response.matches.some((m: any) => !m || !m.optionId || !m.matchOptionId)) {
+            errors.push('matches must be an array of { optionId, matchOptionId }')
+        } else {
+            const left = response.matches.map((m: any) => m.optionId.toString())
+            const right = response.matches.map((m: any) => m.matchOptionId.toString())
+            if (new Set(left).size !== left.length || new Set(right).size !== right.length) {
+                errors.push('Each option can only be matched once')
+            }
+            if ([...left, ...right].some(id => !isKnownOption(id))) {
+                errors.push('matches reference options outside the question')
+            }
+        }
+    }
+
+    if (response.orderedOptionIds !== undefined && response.orderedOptionIds !== null) {
+        if (!Array.isArray(response.orderedOptionIds) || response.orderedOptionIds.some((id: any) => !id)) {
+            errors.push('orderedOptionIds must be an array of option ids')
+        } else {
+            const ids = response.orderedOptionIds.map((id: any) => id.toString())
+            if (new Set(ids).size !== ids.length) {
+                errors.push('orderedOptionIds contains duplicates')
+            }
+            if (ids.some((id: string) => !isKnownOption(id))) {
+                errors.push('orderedOptionIds reference options outside the question')
+            }
+            if (question?.type === 'ORDERING' && optionIds && ids.length !== optionIds.size) {
+                errors.push('orderedOptionIds must contain every option of the question')
+            }
+        }
+    }
 
-    responses.forEach(response => {
-        const question = questions.find(q => q._id.toString() === response.questionId.toString())
+    return errors
+}
 
-        if (!question) return
+/**
+ * Validate the payload shape of a fill-in-the-blank (blankAnswers) response
+ * When the question is loaded, every referenced blank must belong to it.
+ */
+export function validateClozePayload(
+    response: { blankAnswers?: any },
+    question?: { clozeConfig?: { blanks?: { id: string }[] } }
+): string[] {
+    if (response.blankAnswers === undefined || response.blankAnswers === null) return []
+
+    if (!Array.isArray(response.blankAnswers) ||
+        response.blankAnswers.some((b: any) => !b || typeof b.blankId !== 'string' || typeof b.answer !== 'string')) {
+        return ['blankAnswers must be an array of { blankId, answer }']
+    }
 
-        const selectedOption = question.options?.find(
-            (o: any) => o._id.toString() === response.selectedOptionId.toString()
-        )
+    const errors: string[] = []
+    const ids = response.blankAnswers.map((b: any) => b.blankId)
+    if (new Set(ids).size !== ids.length) {
+        errors.push('blankAnswers contains duplicates')
+    }
 
-        if (selectedOption && selectedOption.isCorrect) {
-            totalScore += question.points || 1
-        }
-    })
+    const blankIds = question?.clozeConfig?.blanks
+        ? new Set(question.clozeConfig.blanks.map(b => b.id))
+        : undefined
+    if (blankIds && ids.some((id: string) => !blankIds.has(id))) {
+        errors.push('blankAnswers reference blanks outside the question')
+    }
 
-    return totalScore
+    return errors
 }
 
 /**
@@ -211,3 +290,26 @@ export function hashAnswer(answerId: string): string {
         .digest('hex')
         .substring(0, 16) // Use first 16 chars
 }
+
+/**
+ * Opaque ID of a matching choice (column B) within an attempt
+ * The choice must not carry the ID of the option holding its matchText, or the
+ * pairing "row X ↔ choice X" would give the answer away.
+ */
+export function matchChoiceId(attemptId: string, optionId: string): string {
+    const secret = process.env.NEXTAUTH_SECRET || 'fallback-secret'
+    return crypto
+        .createHmac('sha256', secret)
+        .update(`match:${attemptId}:${optionId}`)
+        .digest('hex')
+        .substring(0, 24)
+}
+
+/**
+ * Map the matching choice IDs of an attempt back to the options holding them
+ */
+export function matchChoiceOptions(attemptId: string, options: { _id: any; matchText?: string }[]): Map<string, string> {
+    return new Map(options
+        .filter(o => o.matchText)
+        .map(o => [matchChoiceId(attemptId, o._id.toString()), o._id.toString()]))
+}
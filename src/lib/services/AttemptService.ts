@@ -1,12 +1,32 @@
-import Attempt, { IAttempt, AttemptStatus, AntiCheatEventType } from "@/models/Attempt"
-import Response from "@/models/Response"
-import Exam from "@/models/Exam"
+import Attempt, { IAttempt, AttemptStatus, AntiCheatEventType, AdaptiveStopReason } from "@/models/Attempt"
+import Response, { IResponse } from "@/models/Response"
+import Exam, { IExam } from "@/models/Exam"
 import Question from "@/models/Question"
 import Option from "@/models/Option"
 import LearnerProfile from "@/models/LearnerProfile"
-import { EvaluationStrategyFactory } from "@/lib/patterns/EvaluationStrategy"
+import {
+    AdaptiveEvaluationStrategy,
+    applyHintPenalty,
+    ClozeEvaluationStrategy,
+    DEFAULT_HINT_PENALTY,
+    earnedPoints,
+    flooredTotal,
+    EvaluationStrategyFactory,
+    MatchingEvaluationStrategy,
+    MathExpressionEvaluationStrategy,
+    NumericEvaluationStrategy,
+    OrderingEvaluationStrategy,
+    QCMEvaluationStrategy,
+    wrongAnswerPenalty
+} from "@/lib/patterns/EvaluationStrategy"
 import { publishEvent } from "@/lib/events/EventPublisher"
 import { EventType } from "@/lib/events/types"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
+import { matchChoiceId, matchChoiceOptions } from "@/lib/security/examSecurity"
+import { GradingScaleService } from "@/lib/services/GradingScaleService"
+import { drawQuestionPool, questionsForAttempt, shuffleWithSeed } from "@/lib/shuffle"
+import { activeSectionIndex, advanceSection, answerableQuestionIds, buildAttemptSections, syncAttemptSections } from "@/lib/examSections"
+import { EvaluationType, PedagogicalObjective } from "@/models/enums"
 import mongoose from "mongoose"
 import crypto from "crypto"
 
@@ -69,6 +89,133 @@ function evaluateOpenQuestion(studentAnswer: string, question: any): boolean {
     return true
 }
 
+/**
+ * Évalue la sélection d'options d'un QCM (simple ou à réponses multiples)
+ * Les options qui n'appartiennent pas à la question et les doublons sont ignorés
+ */
+function evaluateQCMSelection(question: any, options: any[], selectedIds: string[]) {
+    const validIds = [...new Set(selectedIds)].filter(id => options.some(opt => opt._id.toString() === id))
+
+    if (!question.qcmConfig?.multipleAnswers) {
+        const selectedOption = options.find(opt => opt._id.toString() === validIds[0])
+        return {
+            isCorrect: selectedOption?.isCorrect || false,
+            selectedOptionId: selectedOption?._id as mongoose.Types.ObjectId | undefined,
+            selectedOptionIds: undefined,
+            partialScore: undefined
+        }
+    }
+
+    const ratio = QCMEvaluationStrategy.scoreSelection(options, validIds, question.qcmConfig.scoringMode)
+    return {
+        isCorrect: ratio === 1,
+        selectedOptionId: undefined,
+        selectedOptionIds: validIds.map(id => new mongoose.Types.ObjectId(id)),
+        partialScore: Math.round(ratio * (question.points || 1) * 100) / 100
+    }
+}
+
+/**
+ * Réponse structurée : association, classement ou texte à trous
+ */
+interface StructuredAnswer {
+    matches?: { optionId: string; matchOptionId: string }[] // matchOptionId : identifiant de choix (matchChoiceId)
+    orderedOptionIds?: string[]
+    blankAnswers?: { blankId: string; answer: string }[]
+}
+
+/**
+ * Réponse transmise à la soumission d'une tentative
+ */
+interface SubmittedResponse extends StructuredAnswer {
+    questionId: string
+    selectedOptionId?: string
+    selectedOptionIds?: string[]
+    textAnswer?: string
+    timeSpent?: number
+}
+
+/**
+ * Réponse retenue à la soumission : une réponse déjà enregistrée garde sa date
+ */
+interface RetainedResponse extends SubmittedResponse {
+    answeredAt?: Date
+}
+
+/**
+ * Délai de grâce (secondes) après la limite de temps d'une question (latence réseau)
+ */
+const TIME_LIMIT_GRACE_SECONDS = 5
+
+/**
+ * Objectifs pédagogiques dont les examens proposent des indices (IExam.config.hints)
+ */
+const HINT_OBJECTIVES = [PedagogicalObjective.FORMATIVE_EVAL, PedagogicalObjective.TRAIN]
+
+/**
+ * Vrai si la réponse arrive après la limite de temps de la question (IQuestion.timeLimit)
+ * Le temps court depuis le premier service de la question à la tentative.
+ */
+function exceedsTimeLimit(question: { timeLimit?: number }, servedAt: Date | undefined, answeredAt: Date) {
+    if (!question.timeLimit || !servedAt) return false
+    return answeredAt.getTime() > servedAt.getTime() + (question.timeLimit + TIME_LIMIT_GRACE_SECONDS) * 1000
+}
+
+/**
+ * Évalue une question d'association (MATCHING) ou de classement (ORDERING)
+ * Les choix d'association sont désignés par leur identifiant propre à la tentative,
+ * ramené ici à l'option qui le porte. Les options ou choix étrangers à la question sont ignorés.
+ */
+function evaluateArrangement(question: any, options: any[], answer: StructuredAnswer, attemptId: string) {
+    const optionIds = new Set(options.map(opt => opt._id.toString()))
+    const points = question.points || 1
+
+    if (question.type === 'MATCHING') {
+        const choices = matchChoiceOptions(attemptId, options)
+        const matches = (answer.matches || [])
+            .filter(m => optionIds.has(m.optionId) && choices.has(m.matchOptionId))
+            .map(m => ({
+                optionId: new mongoose.Types.ObjectId(m.optionId),
+                matchOptionId: new mongoose.Types.ObjectId(choices.get(m.matchOptionId))
+            }))
+        const ratio = MatchingEvaluationStrategy.scoreMatches(options, matches)
+        return {
+            isCorrect: ratio === 1,
+            matches,
+            orderedOptionIds: undefined,
+            partialScore: Math.round(ratio * points * 100) / 100
+        }
+    }
+
+    const orderedOptionIds = (answer.orderedOptionIds || [])
+        .filter(id => optionIds.has(id))
+        .map(id => new mongoose.Types.ObjectId(id))
+    const ratio = OrderingEvaluationStrategy.scoreOrdering(options, orderedOptionIds)
+    return {
+        isCorrect: ratio === 1,
+        matches: undefined,
+        orderedOptionIds,
+        partialScore: Math.round(ratio * points * 100) / 100
+    }
+}
+
+/**
+ * Évalue un texte à trous (CLOZE) : chaque trou est corrigé indépendamment
+ * Les réponses à des trous absents de la question sont ignorées
+ */
+function evaluateCloze(question: any, answer: StructuredAnswer) {
+    if (!question.clozeConfig?.blanks?.length) {
+        return { isCorrect: false, blankAnswers: [], partialScore: 0 }
+    }
+
+    const { ratio, blanks } = ClozeEvaluationStrategy.gradeBlanks(question.clozeConfig, answer.blankAnswers || [])
+    return {
+        isCorrect: ratio === 1,
+        blankAnswers: blanks,
+        partialScore: Math.round(ratio * (question.points || 1) * 100) / 100
+    }
+}
+
 /**
  * Service pour gérer les tentatives d'examen et les réponses
  * Intègre EvaluationStrategy et Observer patterns
@@ -94,6 +241,9 @@ export class AttemptService {
         if (exam.endTime && now > exam.endTime) {
             throw new Error("Exam has ended")
         }
+        if (exam.closedAt && now >= exam.closedAt) {
+            throw new Error("Exam is closed")
+        }
 
         // Vérifier le nombre maximum de tentatives
         if (exam.config.maxAttempts) {
@@ -130,14 +280,42 @@ export class AttemptService {
         // Générer un token de reprise sécurisé
         const resumeToken = crypto.randomBytes(32).toString('hex')
 
+        // Tirer les questions de la tentative si l'examen utilise un pool
+        let questionIds: mongoose.Types.ObjectId[] | undefined = undefined
+        let adaptive = undefined
+        const pool = exam.config.questionPool
+        if (exam.evaluationType === EvaluationType.ADAPTIVE) {
+            // Examen adaptatif : les questions sont servies une à une (voir getNextAdaptiveQuestion)
+            questionIds = []
+            adaptive = { ability: 0, standardError: 1, trace: [], completed: false }
+        } else if (pool?.enabled && pool.rules?.length) {
+            const poolQuestions = await Question.find({ examId: exam._id }).select('_id difficulty').lean()
+            questionIds = drawQuestionPool(poolQuestions, pool.rules, resumeToken).map(q => q._id)
+        }
+
+        // Examen en plusieurs parties : ordre des questions par partie, seule la première est ouverte
+        let sections = undefined
+        if (exam.sections?.length) {
+            const sectionQuestions = await Question.find({ examId: exam._id }).select('_id sectionId order').lean()
+            sections = buildAttemptSections(exam.sections, sectionQuestions, resumeToken, now)
+            questionIds = sections.flatMap(section => section.questionIds)
+        }
+
         // Créer la tentative
+        // Version de l'examen passée par l'élève (clé de correction en cas de recorrection)
+        const examVersion = await ExamVersionService.currentSnapshot(examId, exam.version || 1)
+
         const attempt = await Attempt.create({
             examId: exam._id,
             userId: new mongoose.Types.ObjectId(userId),
+            examVersion: examVersion?.version ?? exam.version,
             status: AttemptStatus.STARTED,
             startedAt: now,
             expiresAt: exam.endTime || new Date(now.getTime() + (exam.duration || 60) * 60 * 1000),
             resumeToken,
+            questionIds,
+            adaptive,
+            sections,
             antiCheatEvents: [],
             tabSwitchCount: 0,
             suspiciousActivityDetected: false
@@ -165,7 +343,8 @@ export class AttemptService {
             resumeToken,
             config: exam.config,
             startedAt: attempt.startedAt,
-            duration: exam.duration
+            duration: exam.duration,
+            sections: attempt.sections
         }
     }
 
@@ -252,7 +431,7 @@ export class AttemptService {
         attemptId: string,
         userId: string,
         eventType: AntiCheatEventType,
-        eventData?: any
+        eventData?: Record<string, unknown>
     ) {
         const { AttemptRepository } = await import("@/lib/repositories/AttemptRepository");
         const repo = new AttemptRepository();
@@ -313,12 +492,7 @@ export class AttemptService {
     static async submitAttempt(
         attemptId: string,
         userId: string,
-        responses: Array<{
-            questionId: string
-            selectedOptionId?: string
-            textAnswer?: string
-            timeSpent?: number
-        }>
+        responses: SubmittedResponse[]
     ) {
         console.log(`[submitAttempt] Starting submission for attempt ${attemptId}, user ${userId}`)
         console.log(`[submitAttempt] Received ${responses?.length || 0} responses`)
@@ -356,27 +530,54 @@ export class AttemptService {
         
         console.log(`[submitAttempt] Exam found: ${exam.title}`)
 
-        // Récupérer toutes les questions
-        const questions = await Question.find({ examId: exam._id }).lean()
+        // Récupérer les questions de la tentative (tirage du pool le cas échéant)
+        const examQuestions = await Question.find({ examId: exam._id }).lean()
+        const questions = questionsForAttempt(examQuestions, attempt)
         const questionIds = questions.map(q => q._id)
 
+        // Parties fermées, questions chronométrées jamais servies ou dont le temps est écoulé,
+        // et questions adaptatives déjà notées (elles ont guidé l'estimation de θ) : les
+        // réponses retenues sont celles enregistrées
+        const now = new Date()
+        const servedAt = new Map((attempt.questionTimings || []).map(t => [t.questionId.toString(), t.servedAt]))
+        const closed = new Set(questions
+            .filter(q => q.timeLimit && !servedAt.has(q._id.toString()) ||
+                exceedsTimeLimit(q, servedAt.get(q._id.toString()), now))
+            .map(q => q._id.toString()))
+        for (const entry of attempt.adaptive?.trace || []) closed.add(entry.questionId.toString())
+        let retained: RetainedResponse[] = (responses || []).map(r => ({ ...r, answeredAt: undefined }))
+        if (attempt.sections?.length || closed.size > 0) {
+            retained = await this.retainedResponses(attempt, retained, closed, now)
+        }
+
         // Récupérer toutes les options pour ces questions
         const allOptions = await Option.find({ questionId: { $in: questionIds } }).lean()
 
+        // Indices révélés pendant la tentative : conservés sur les nouvelles réponses
+        const hinted = await Response.find({ attemptId: attempt._id, 'hintsRevealed.0': { $exists: true } })
+            .select('questionId hintsRevealed')
+            .lean()
+        const hintsByQuestion = new Map(hinted.map(r => [r.questionId.toString(), r.hintsRevealed]))
+
         // Supprimer les réponses existantes pour cette tentative (pour éviter les doublons)
         await Response.deleteMany({ attemptId: attempt._id })
         console.log(`[submitAttempt] Cleared existing responses for attempt ${attemptId}`)
 
         // Sauvegarder les réponses
         const savedResponses: any[] = []
-        for (const resp of responses) {
+        for (const resp of retained) {
             const question = questions.find(q => q._id.toString() === resp.questionId)
             if (!question) continue
 
             // Déterminer si la réponse est correcte selon le type de question
             let isCorrect = false
             let selectedOptionId = undefined
+            let selectedOptionIds = undefined
+            let partialScore = undefined
             let textResponse = undefined
+            let matches = undefined
+            let orderedOptionIds = undefined
+            let blankAnswers = undefined
 
             if (question.type === 'TRUE_FALSE') {
                 // Pour Vrai/Faux: comparer avec correctAnswer
@@ -389,31 +590,87 @@ export class AttemptService {
                 // Pour questions ouvertes: évaluation basée sur mots-clés ou réponse modèle
                 textResponse = resp.textAnswer || ''
                 isCorrect = evaluateOpenQuestion(textResponse, question)
+            } else if (question.type === 'NUMERIC') {
+                // Pour réponses numériques: valeur, tolérance, unité et chiffres significatifs
+                textResponse = resp.textAnswer || ''
+                isCorrect = !!question.numericConfig
+                    && NumericEvaluationStrategy.checkAnswer(textResponse, question.numericConfig).isCorrect
+            } else if (question.type === 'MATH_EXPRESSION') {
+                // Pour expressions mathématiques: équivalence avec l'expression attendue
+                textResponse = resp.textAnswer || ''
+                isCorrect = !!question.mathConfig
+                    && MathExpressionEvaluationStrategy.checkAnswer(textResponse, question.mathConfig).isCorrect
+            } else if (question.type === 'MATCHING' || question.type === 'ORDERING') {
+                // Pour association/classement: un point partiel par paire ou position correcte
+                const questionOptions = allOptions.filter(opt => opt.questionId.toString() === resp.questionId)
+                const grading = evaluateArrangement(question, questionOptions, resp, attempt._id.toString())
+
+                isCorrect = grading.isCorrect
+                matches = grading.matches
+                orderedOptionIds = grading.orderedOptionIds
+                partialScore = grading.partialScore
+            } else if (question.type === 'CLOZE') {
+                // Pour textes à trous: un point partiel (pondéré) par trou correct
+                const grading = evaluateCloze(question, resp)
+
+                isCorrect = grading.isCorrect
+                blankAnswers = grading.blankAnswers
+                partialScore = grading.partialScore
             } else {
-                // Pour QCM: trouver l'option sélectionnée
-                if (resp.selectedOptionId) {
-                    const selectedOption = allOptions.find(opt =>
-                        opt._id.toString() === resp.selectedOptionId &&
-                        opt.questionId.toString() === resp.questionId
-                    )
-                    isCorrect = selectedOption?.isCorrect || false
-                    selectedOptionId = resp.selectedOptionId ? new mongoose.Types.ObjectId(resp.selectedOptionId) : undefined
-                }
+                // Pour QCM: évaluer l'option (ou les options) sélectionnée(s)
+                const questionOptions = allOptions.filter(opt => opt.questionId.toString() === resp.questionId)
+                const selection = resp.selectedOptionIds || (resp.selectedOptionId ? [resp.selectedOptionId] : [])
+                const grading = evaluateQCMSelection(question, questionOptions, selection)
+
+                isCorrect = grading.isCorrect
+                selectedOptionId = grading.selectedOptionId
+                selectedOptionIds = grading.selectedOptionIds
+                partialScore = grading.partialScore
+            }
+
+            // Réponse reçue après la limite de temps de la question : notée zéro
+            const answeredAt = resp.answeredAt ?? now
+            const timeLimitExceeded = exceedsTimeLimit(question, servedAt.get(resp.questionId), answeredAt)
+            if (timeLimitExceeded) {
+                isCorrect = false
+                if (partialScore !== undefined) partialScore = 0
             }
 
             const response = await Response.create({
                 attemptId: attempt._id,
                 questionId: new mongoose.Types.ObjectId(resp.questionId),
                 selectedOptionId,
+                selectedOptionIds,
                 textResponse,
+                matches,
+                orderedOptionIds,
+                blankAnswers,
                 isCorrect,
+                partialScore,
                 timeSpent: resp.timeSpent || 0,
-                answeredAt: new Date()
+                answeredAt,
+                timeLimitExceeded,
+                hintsRevealed: hintsByQuestion.get(resp.questionId)
             })
 
             savedResponses.push(response)
         }
 
+        // Indices révélés sans réponse : l'usage reste enregistré pour l'analyse des items
+        for (const [questionId, hintsRevealed] of hintsByQuestion) {
+            if (savedResponses.some(r => r.questionId.toString() === questionId)) continue
+            if (!questionIds.some(id => id.toString() === questionId)) continue
+            await Response.create({
+                attemptId: attempt._id,
+                questionId: new mongoose.Types.ObjectId(questionId),
+                isCorrect: false,
+                hintsRevealed
+            })
+        }
+
+        // Mettre à jour les statistiques de sélection des options
+        await this.updateOptionStats(attempt._id, savedResponses)
+
         // Évaluer avec la stratégie appropriée
         const evaluation = await EvaluationStrategyFactory.evaluateExam(
             exam,
@@ -431,7 +688,11 @@ export class AttemptService {
         attempt.maxScore = evaluation.maxScore
         attempt.percentage = evaluation.percentage
         attempt.passed = evaluation.passed
+        attempt.grade = await GradingScaleService.gradeAttempt(exam, evaluation.percentage)
         attempt.timeSpent = timeSpent
+        if (attempt.sections?.length) {
+            this.scoreSections(exam, attempt, questions, savedResponses, now)
+        }
         
         console.log(`[submitAttempt] Saving attempt with status: ${attempt.status}, score: ${evaluation.score}/${evaluation.maxScore}`)
         await attempt.save()
@@ -491,16 +752,27 @@ export class AttemptService {
         return {
             attempt,
             evaluation,
+            grade: attempt.grade,
             responses: savedResponses
         }
     }
 
+    /**
+     * Soumet une tentative avec les réponses enregistrées au fil de l'eau (saveAnswer)
+     */
+    static async submitSavedAttempt(attemptId: string, userId: string) {
+        const saved = await Response.find({ attemptId }).lean()
+        return this.submitAttempt(attemptId, userId, this.savedResponses(attemptId, saved))
+    }
+
     static async saveAnswer(
         attemptId: string,
         userId: string,
         questionId: string,
         selectedOptionId?: string,
-        textResponse?: string
+        textResponse?: string,
+        selectedOptionIds?: string[],
+        structured?: StructuredAnswer
     ) {
         const { AttemptRepository } = await import("@/lib/repositories/AttemptRepository");
         const { ResponseRepository } = await import("@/lib/repositories/ResponseRepository");
@@ -524,9 +796,38 @@ export class AttemptService {
             throw new Error("Question not found");
         }
 
+        // La question doit faire partie du tirage de la tentative
+        if (attempt.questionIds && !attempt.questionIds.some(id => id.toString() === questionId)) {
+            throw new Error("Question not found in this attempt");
+        }
+
+        // Examen adaptatif : une réponse déjà prise en compte dans l'estimation ne peut plus changer
+        if (attempt.adaptive?.trace?.some(entry => entry.questionId.toString() === questionId)) {
+            throw new Error("Attempt already scored this adaptive question");
+        }
+
+        // Examen en plusieurs parties : seule la partie active, dans son temps, accepte des réponses
+        if (attempt.sections?.length) {
+            await this.checkSectionAnswer(attemptRepo, attemptId, questionId);
+        }
+
+        // Question chronométrée : le temps court depuis son premier service
+        // (GET /api/attempts/[id]/questions/[questionId]), sans lequel aucune réponse n'est acceptée
+        const answeredAt = new Date();
+        const servedAt = attempt.questionTimings?.find(t => t.questionId.toString() === questionId)?.servedAt;
+        if (question.timeLimit && !servedAt) {
+            throw new Error("Timed question has not been served");
+        }
+        const timeLimitExceeded = exceedsTimeLimit(question, servedAt, answeredAt);
+
         let isCorrect = false;
-        let finalSelectedOptionId: string | undefined = undefined;
+        let finalSelectedOptionId: mongoose.Types.ObjectId | undefined = undefined;
+        let finalSelectedOptionIds: mongoose.Types.ObjectId[] | undefined = undefined;
+        let partialScore: number | undefined = undefined;
         let finalTextResponse: string | undefined = undefined;
+        let finalMatches: any[] | undefined = undefined;
+        let finalOrderedOptionIds: mongoose.Types.ObjectId[] | undefined = undefined;
+        let finalBlankAnswers: any[] | undefined = undefined;
 
         // Évaluation selon le type de question
         if (question.type === 'TRUE_FALSE') {
@@ -541,36 +842,558 @@ export class AttemptService {
             finalSelectedOptionId = undefined;
             finalTextResponse = textResponse || '';
             isCorrect = evaluateOpenQuestion(finalTextResponse, question);
+        } else if (question.type === 'NUMERIC') {
+            // Pour réponses numériques
+            finalTextResponse = textResponse || '';
+            isCorrect = !!question.numericConfig
+                && NumericEvaluationStrategy.checkAnswer(finalTextResponse, question.numericConfig).isCorrect;
+        } else if (question.type === 'MATH_EXPRESSION') {
+            // Pour expressions mathématiques
+            finalTextResponse = textResponse || '';
+            isCorrect = !!question.mathConfig
+                && MathExpressionEvaluationStrategy.checkAnswer(finalTextResponse, question.mathConfig).isCorrect;
+        } else if (question.type === 'MATCHING' || question.type === 'ORDERING') {
+            // Pour association/classement
+            const options = await Option.find({ questionId: question._id }).lean();
+            const grading = evaluateArrangement(question, options, structured || {}, attemptId);
+            isCorrect = grading.isCorrect;
+            finalMatches = grading.matches;
+            finalOrderedOptionIds = grading.orderedOptionIds;
+            partialScore = grading.partialScore;
+        } else if (question.type === 'CLOZE') {
+            // Pour textes à trous
+            const grading = evaluateCloze(question, structured || {});
+            isCorrect = grading.isCorrect;
+            finalBlankAnswers = grading.blankAnswers;
+            partialScore = grading.partialScore;
         } else {
-            // Pour QCM: vérifier l'option sélectionnée
-            if (selectedOptionId) {
-                const option = await Option.findById(selectedOptionId);
-                isCorrect = option?.isCorrect || false;
-                finalSelectedOptionId = selectedOptionId;
+            // Pour QCM: vérifier l'option (ou les options) sélectionnée(s)
+            const selection = selectedOptionIds || (selectedOptionId ? [selectedOptionId] : []);
+            if (selection.length > 0) {
+                const options = await Option.find({ questionId: question._id }).lean();
+                const grading = evaluateQCMSelection(question, options, selection);
+                isCorrect = grading.isCorrect;
+                finalSelectedOptionId = grading.selectedOptionId;
+                finalSelectedOptionIds = grading.selectedOptionIds;
+                partialScore = grading.partialScore;
             }
         }
 
         // Find existing response for this question in this attempt
         const existingResponse = await responseRepo.findByAttemptAndQuestion(attemptId, questionId);
 
+        // Hors délai : la réponse est notée zéro, sans remplacer une réponse donnée à temps
+        if (timeLimitExceeded) {
+            if (existingResponse?.answeredAt && !existingResponse.timeLimitExceeded) {
+                throw new Error("Time limit exceeded for this question");
+            }
+            isCorrect = false;
+            if (partialScore !== undefined) partialScore = 0;
+        }
+
         // Update existing response or create new one
         if (existingResponse) {
             await responseRepo.update(existingResponse._id.toString(), {
-                selectedOptionId: finalSelectedOptionId ? new mongoose.Types.ObjectId(finalSelectedOptionId) : undefined,
+                selectedOptionId: finalSelectedOptionId,
+                selectedOptionIds: finalSelectedOptionIds,
                 textResponse: finalTextResponse,
-                isCorrect
+                matches: finalMatches,
+                orderedOptionIds: finalOrderedOptionIds,
+                blankAnswers: finalBlankAnswers,
+                isCorrect,
+                partialScore,
+                answeredAt,
+                timeLimitExceeded
             } as any);
         } else {
             await responseRepo.create({
                 attemptId: new mongoose.Types.ObjectId(attemptId),
                 questionId: new mongoose.Types.ObjectId(questionId),
-                selectedOptionId: finalSelectedOptionId ? new mongoose.Types.ObjectId(finalSelectedOptionId) : undefined,
+                selectedOptionId: finalSelectedOptionId,
+                selectedOptionIds: finalSelectedOptionIds,
                 textResponse: finalTextResponse,
+                matches: finalMatches,
+                orderedOptionIds: finalOrderedOptionIds,
+                blankAnswers: finalBlankAnswers,
                 isCorrect,
+                partialScore,
+                answeredAt,
+                timeLimitExceeded
             } as any);
         }
 
-        return { message: "Saved" };
+        return { message: "Saved", timeLimitExceeded };
+    }
+
+    /**
+     * Révèle l'indice suivant d'une question (évaluations formatives et entraînement)
+     * Chaque indice révélé est enregistré sur la réponse et coûte, à la notation,
+     * config.hints.penaltyPerHint % des points de la question.
+     */
+    static async revealHint(attemptId: string, userId: string, questionId: string) {
+        const { AttemptRepository } = await import("@/lib/repositories/AttemptRepository");
+        const { ResponseRepository } = await import("@/lib/repositories/ResponseRepository");
+        const attemptRepo = new AttemptRepository();
+        const responseRepo = new ResponseRepository();
+
+        const attempt = await attemptRepo.findByIdForUpdate(attemptId);
+        if (!attempt) throw new Error("Attempt not found")
+        if (attempt.userId.toString() !== userId) {
+            throw new Error("Unauthorized: Not your attempt")
+        }
+        if (attempt.status !== AttemptStatus.STARTED) {
+            throw new Error("Attempt is not in progress")
+        }
+        if (attempt.questionIds && !attempt.questionIds.some(id => id.toString() === questionId)) {
+            throw new Error("Question not found in this attempt")
+        }
+
+        const exam = await Exam.findById(attempt.examId).select('pedagogicalObjective evaluationType config.hints').lean()
+        if (!exam) throw new Error("Exam not found")
+
+        // Un test adaptatif estime la compétence sur des réponses sans aide
+        const hintsEnabled = (exam.config?.hints?.enabled ?? true) &&
+            HINT_OBJECTIVES.includes(exam.pedagogicalObjective) &&
+            exam.evaluationType !== EvaluationType.ADAPTIVE
+        if (!hintsEnabled) throw new Error("Hints are not available for this exam")
+
+        const question = await Question.findOne({ _id: questionId, examId: exam._id }).select('hints').lean()
+        if (!question) throw new Error("Question not found")
+
+        if (attempt.sections?.length) {
+            await this.checkSectionAnswer(attemptRepo, attemptId, questionId)
+        }
+
+        const hints = question.hints || []
+        const response = await responseRepo.revealNextHint(attempt._id, question._id, hints.length)
+        if (!response) throw new Error("No more hints for this question")
+
+        const hintsUsed = response.hintsRevealed?.length || 0
+        return {
+            hints: hints.slice(0, hintsUsed),
+            hintsUsed,
+            hintsAvailable: hints.length,
+            penaltyPerHint: exam.config?.hints?.penaltyPerHint ?? DEFAULT_HINT_PENALTY
+        }
+    }
+
+    /**
+     * Sert une question de la tentative à l'étudiant
+     * Le premier service d'une question chronométrée démarre sa limite de temps :
+     * une réponse reçue après la limite (et un court délai de grâce) est notée zéro.
+     */
+    static async serveQuestion(attemptId: string, userId: string, questionId: string) {
+        const { AttemptRepository } = await import("@/lib/repositories/AttemptRepository");
+        const repo = new AttemptRepository();
+        const attempt = await repo.findByIdForUpdate(attemptId);
+
+        if (!attempt) throw new Error("Attempt not found")
+        if (attempt.userId.toString() !== userId) {
+            throw new Error("Unauthorized: Not your attempt")
+        }
+        if (attempt.status !== AttemptStatus.STARTED) {
+            throw new Error("Attempt is not in progress")
+        }
+        if (attempt.questionIds && !attempt.questionIds.some(id => id.toString() === questionId)) {
+            throw new Error("Question not found in this attempt")
+        }
+
+        const question = await Question.findOne({ _id: questionId, examId: attempt.examId }).lean()
+        if (!question) throw new Error("Question not found")
+
+        // Examen en plusieurs parties : seules les questions de la partie active sont servies
+        let section = undefined
+        if (attempt.sections?.length) {
+            const changed = syncAttemptSections(attempt.sections, new Date())
+            if (changed) await repo.save(attempt)
+
+            const index = activeSectionIndex(attempt.sections)
+            section = index === -1 ? undefined : attempt.sections[index]
+            if (!section?.questionIds.some(id => id.toString() === questionId)) {
+                throw new Error("Question is not in the active section")
+            }
+        }
+
+        const servedAt = question.timeLimit
+            ? await repo.recordQuestionServed(attempt._id, question._id)
+            : undefined
+        const exam = section ? await Exam.findById(attempt.examId).select('sections').lean() : null
+        const shuffleOptions = !!exam?.sections?.find(s => s._id.toString() === section!.sectionId.toString())?.shuffleOptions
+
+        return {
+            question: await this.toQuestionPayload(question, attemptId, `${userId}-${questionId}`, shuffleOptions),
+            servedAt,
+            deadline: question.timeLimit && servedAt
+                ? new Date(servedAt.getTime() + question.timeLimit * 1000)
+                : undefined
+        }
+    }
+
+    /**
+     * Termine la partie active d'un examen en plusieurs parties et ouvre la suivante
+     * La partie quittée ne peut plus être rouverte ; après la dernière, il reste à soumettre.
+     */
+    static async advanceSection(attemptId: string, userId: string) {
+        const { AttemptRepository } = await import("@/lib/repositories/AttemptRepository");
+        const repo = new AttemptRepository();
+        const attempt = await repo.findByIdForUpdate(attemptId);
+
+        if (!attempt) throw new Error("Attempt not found")
+        if (attempt.userId.toString() !== userId) {
+            throw new Error("Unauthorized: Not your attempt")
+        }
+        if (attempt.status !== AttemptStatus.STARTED) {
+            throw new Error("Attempt is not in progress")
+        }
+        if (!attempt.sections?.length) {
+            throw new Error("Exam has no sections")
+        }
+
+        const now = new Date()
+        syncAttemptSections(attempt.sections, now)
+        if (activeSectionIndex(attempt.sections) === -1) {
+            await repo.save(attempt)
+            throw new Error("No section in progress")
+        }
+
+        const currentSection = advanceSection(attempt.sections, now)
+        await repo.save(attempt)
+
+        return {
+            currentSection,
+            sections: attempt.sections
+        }
+    }
+
+    /**
+     * Sert la question suivante d'un examen adaptatif (EvaluationType.ADAPTIVE)
+     *
+     * Les réponses enregistrées depuis le dernier appel mettent à jour l'estimation
+     * de compétence (une entrée de trace par question). La question suivante est celle
+     * du pool qui apporte le plus d'information à la compétence estimée.
+     * Tant que la question servie n'a pas de réponse, elle est renvoyée à nouveau.
+     */
+    static async getNextAdaptiveQuestion(attemptId: string, userId: string) {
+        const attempt = await Attempt.findById(attemptId)
+        if (!attempt) throw new Error("Attempt not found")
+
+        if (attempt.userId.toString() !== userId) {
+            throw new Error("Unauthorized: Not your attempt")
+        }
+        if (attempt.status !== AttemptStatus.STARTED) {
+            throw new Error("Attempt is not in progress")
+        }
+
+        const exam = await Exam.findById(attempt.examId).lean()
+        if (!exam) throw new Error("Exam not found")
+        if (exam.evaluationType !== EvaluationType.ADAPTIVE || !attempt.adaptive) {
+            throw new Error("Attempt is not adaptive")
+        }
+
+        const adaptive = attempt.adaptive
+        const served = (attempt.questionIds || []).map(id => id.toString())
+        const stopRule = {
+            maxItems: exam.config?.adaptive?.maxItems ?? 20,
+            minItems: exam.config?.adaptive?.minItems ?? 5,
+            targetStandardError: exam.config?.adaptive?.targetStandardError ?? 0.3
+        }
+
+        const questions = await Question.find({ examId: exam._id }).lean()
+        const questionsById = new Map(questions.map(q => [q._id.toString(), q]))
+        const responses = await Response.find({ attemptId: attempt._id }).lean()
+        const responsesByQuestion = new Map(responses.map(r => [r.questionId.toString(), r]))
+
+        const state = () => ({
+            ability: adaptive.ability,
+            standardError: adaptive.standardError,
+            scaledScore: AdaptiveEvaluationStrategy.toScaledScore(adaptive.ability),
+            itemsAdministered: served.length,
+            maxItems: stopRule.maxItems
+        })
+
+        if (adaptive.completed) {
+            return { completed: true, stopReason: adaptive.stopReason, ...state() }
+        }
+
+        // La dernière question servie attend encore une réponse
+        const current = served[served.length - 1]
+        if (current && !responsesByQuestion.has(current)) {
+            return { completed: false, question: await this.toQuestionPayload(questionsById.get(current), attemptId, `${userId}-${current}`), ...state() }
+        }
+
+        // Mettre à jour l'estimation avec les nouvelles réponses, dans l'ordre de service
+        const traced = new Set(adaptive.trace.map(entry => entry.questionId.toString()))
+        const scoredItems: { params: any; isCorrect: boolean }[] = []
+        for (const questionId of served) {
+            const response = responsesByQuestion.get(questionId)
+            const question = questionsById.get(questionId)
+            if (!response || !question) continue
+
+            scoredItems.push({
+                params: AdaptiveEvaluationStrategy.itemParameters(question),
+                isCorrect: !!response.isCorrect
+            })
+
+            if (!traced.has(questionId)) {
+                const estimate = AdaptiveEvaluationStrategy.estimateAbility(scoredItems)
+                adaptive.trace.push({
+                    questionId: question._id,
+                    isCorrect: !!response.isCorrect,
+                    ability: estimate.ability,
+                    standardError: estimate.standardError,
+                    answeredAt: response.answeredAt || new Date()
+                })
+                adaptive.ability = estimate.ability
+                adaptive.standardError = estimate.standardError
+            }
+        }
+
+        // Règle d'arrêt
+        const remaining = questions.filter(q => !served.includes(q._id.toString()))
+        let stopReason: AdaptiveStopReason | undefined = undefined
+        if (served.length >= stopRule.maxItems) {
+            stopReason = AdaptiveStopReason.MAX_ITEMS
+        } else if (served.length >= stopRule.minItems && adaptive.standardError <= stopRule.targetStandardError) {
+            stopReason = AdaptiveStopReason.PRECISION
+        } else if (remaining.length === 0) {
+            stopReason = AdaptiveStopReason.POOL_EXHAUSTED
+        }
+
+        if (stopReason) {
+            adaptive.completed = true
+            adaptive.stopReason = stopReason
+            await attempt.save()
+            return { completed: true, stopReason, ...state() }
+        }
+
+        // Sélection par information maximale ; l'ordre mélangé par tentative départage les ex aequo
+        let next = remaining[0]
+        let bestInformation = -1
+        for (const question of shuffleWithSeed(remaining, attempt.resumeToken)) {
+            const information = AdaptiveEvaluationStrategy.information(
+                adaptive.ability,
+                AdaptiveEvaluationStrategy.itemParameters(question)
+            )
+            if (information > bestInformation) {
+                bestInformation = information
+                next = question
+            }
+        }
+
+        attempt.questionIds = [...(attempt.questionIds || []), next._id]
+        served.push(next._id.toString())
+        await attempt.save()
+
+        // Question chronométrée : sa limite de temps démarre au service
+        if (next.timeLimit) {
+            const { AttemptRepository } = await import("@/lib/repositories/AttemptRepository");
+            await new AttemptRepository().recordQuestionServed(attempt._id, next._id)
+        }
+
+        return { completed: false, question: await this.toQuestionPayload(next, attemptId, `${userId}-${next._id.toString()}`), ...state() }
+    }
+
+    /**
+     * Question servie à l'étudiant (sans les bonnes réponses)
+     * Les étapes d'un classement, et les options si la partie les mélange, sont
+     * mélangées avec la graine de l'élève (même ordre que la page de passage).
+     */
+    private static async toQuestionPayload(question: any, attemptId: string, seed: string, shuffleOptions = false) {
+        if (!question) throw new Error("Question not found")
+
+        const options = await Option.find({ questionId: question._id })
+            .select('-isCorrect -correctPosition')
+            .sort({ order: 1 })
+            .lean()
+        const ordered = question.type === 'ORDERING' || shuffleOptions ? shuffleWithSeed(options, seed) : options
+
+        return {
+            id: question._id.toString(),
+            text: question.text,
+            type: question.type,
+            imageUrl: question.imageUrl,
+            audioUrl: question.audioUrl,
+            points: question.points,
+            timeLimit: question.timeLimit,
+            multipleAnswers: question.qcmConfig?.multipleAnswers || false,
+            unit: question.type === 'NUMERIC' ? question.numericConfig?.unit : undefined,
+            blanks: question.type === 'CLOZE' ? question.clozeConfig?.blanks.map((b: { id: string }) => ({ id: b.id })) : undefined,
+            options: ordered.map(o => ({
+                id: o._id.toString(),
+                text: o.text,
+                imageUrl: o.imageUrl
+            })),
+            matchChoices: question.type === 'MATCHING'
+                ? shuffleWithSeed(options.filter(o => o.matchText), seed).map(o => ({
+                    id: matchChoiceId(attemptId, o._id.toString()),
+                    text: o.matchText
+                }))
+                : undefined
+        }
+    }
+
+    /**
+     * Vérifie qu'une réponse porte sur la partie active et respecte sa règle de navigation
+     */
+    private static async checkSectionAnswer(
+        repo: { findByIdForUpdate(id: string): Promise<IAttempt | null>; save(attempt: IAttempt): Promise<IAttempt> },
+        attemptId: string,
+        questionId: string
+    ) {
+        const attempt = await repo.findByIdForUpdate(attemptId)
+        if (!attempt?.sections?.length) return
+
+        let changed = syncAttemptSections(attempt.sections, new Date())
+        const index = activeSectionIndex(attempt.sections)
+        const section = index === -1 ? undefined : attempt.sections[index]
+        const position = section ? section.questionIds.findIndex(id => id.toString() === questionId) : -1
+
+        if (!section || position === -1) {
+            if (changed) await repo.save(attempt)
+            throw new Error("Question is not in the active section")
+        }
+        if (!section.allowBackNavigation && position < section.furthestIndex) {
+            if (changed) await repo.save(attempt)
+            throw new Error("Cannot go back to a previous question in this section")
+        }
+
+        if (position > section.furthestIndex) {
+            section.furthestIndex = position
+            changed = true
+        }
+        if (changed) await repo.save(attempt)
+    }
+
+    /**
+     * Réponses retenues à la soumission : celles de la soumission pour les questions
+     * encore modifiables (partie active, question ni close ni déjà notée), celles
+     * enregistrées (saveAnswer) pour toutes les autres
+     */
+    private static async retainedResponses(
+        attempt: IAttempt,
+        responses: RetainedResponse[],
+        closed: Set<string>,
+        now: Date
+    ) {
+        let answerable: Set<string> | undefined = undefined
+        if (attempt.sections?.length) {
+            syncAttemptSections(attempt.sections, now)
+            answerable = answerableQuestionIds(attempt.sections)
+        }
+        const isOpen = (questionId: string) => !closed.has(questionId) && (!answerable || answerable.has(questionId))
+
+        const saved = await Response.find({ attemptId: attempt._id }).lean()
+        const kept = this.savedResponses(attempt._id.toString(), saved
+            .filter(r => !isOpen(r.questionId.toString())))
+
+        return [...responses.filter(r => isOpen(r.questionId)), ...kept]
+    }
+
+    /**
+     * Réponses enregistrées (saveAnswer), sous la forme transmise à la soumission
+     */
+    private static savedResponses(attemptId: string, saved: IResponse[]): RetainedResponse[] {
+        return saved.map(r => ({
+            questionId: r.questionId.toString(),
+            // Vrai/Faux : la valeur est enregistrée dans textResponse
+            selectedOptionId: r.selectedOptionId?.toString() ?? r.textResponse,
+            selectedOptionIds: r.selectedOptionIds?.map(id => id.toString()),
+            textAnswer: r.textResponse,
+            matches: r.matches?.map(m => ({
+                optionId: m.optionId.toString(),
+                matchOptionId: matchChoiceId(attemptId, m.matchOptionId.toString())
+            })),
+            orderedOptionIds: r.orderedOptionIds?.map(id => id.toString()),
+            blankAnswers: r.blankAnswers?.map(b => ({ blankId: b.blankId, answer: b.answer })),
+            timeSpent: r.timeSpent,
+            answeredAt: r.answeredAt ?? r.updatedAt
+        }))
+    }
+
+    /**
+     * Ferme les parties restantes et calcule le score de chaque partie
+     * (pénalités des indices et des réponses fausses comprises, comme le score de la tentative)
+     */
+    private static scoreSections(exam: IExam, attempt: IAttempt, questions: any[], savedResponses: any[], now: Date) {
+        const responseByQuestion = new Map(savedResponses.map(r => [r.questionId.toString(), r]))
+        const questionById = new Map(questions.map(q => [q._id.toString(), q]))
+
+        for (const section of attempt.sections!) {
+            if (!section.startedAt) section.startedAt = now
+            if (!section.completedAt) section.completedAt = now
+
+            const sectionQuestions = section.questionIds
+                .map(id => questionById.get(id.toString()))
+                .filter(Boolean)
+            const netByQuestion = new Map<string, number>()
+            let maxScore = 0
+            for (const question of sectionQuestions) {
+                const points = question.points || 1
+                const response = responseByQuestion.get(question._id.toString())
+                maxScore += points
+                if (!response) continue
+                const earned = earnedPoints(response, points)
+                netByQuestion.set(
+                    question._id.toString(),
+                    applyHintPenalty(exam, response, earned, points) - wrongAnswerPenalty(exam, question, response, earned)
+                )
+            }
+            section.score = flooredTotal(exam, sectionQuestions, netByQuestion)
+            section.maxScore = maxScore
+        }
+    }
+
+    /**
+     * Met à jour les statistiques de sélection des options
+     * Une réponse à un QCM multiple compte une sélection pour chaque option cochée ;
+     * selectionRate est la part des réponses à la question ayant coché l'option,
+     * parmi les tentatives soumises (dont celle en cours de soumission)
+     */
+    private static async updateOptionStats(attemptId: mongoose.Types.ObjectId, responses: any[]) {
+        const answered = responses.filter(r => r.selectedOptionId || r.selectedOptionIds?.length)
+        if (answered.length === 0) return
+
+        const selectedIds = answered.flatMap(r =>
+            r.selectedOptionIds?.length ? r.selectedOptionIds : [r.selectedOptionId]
+        )
+        await Option.updateMany(
+            { _id: { $in: selectedIds } },
+            { $inc: { 'stats.timesSelected': 1 } }
+        )
+
+        const questionIds = [...new Set(answered.map(r => r.questionId.toString()))]
+            .map(id => new mongoose.Types.ObjectId(id))
+        const totals: { _id: mongoose.Types.ObjectId; total: number }[] = await Response.aggregate([
+            {
+                $match: {
+                    questionId: { $in: questionIds },
+                    $or: [
+                        { selectedOptionId: { $ne: null } },
+                        { 'selectedOptionIds.0': { $exists: true } }
+                    ]
+                }
+            },
+            { $lookup: { from: Attempt.collection.name, localField: 'attemptId', foreignField: '_id', as: 'attempt' } },
+            { $match: { $or: [{ attemptId }, { 'attempt.status': AttemptStatus.COMPLETED }] } },
+            { $group: { _id: '$questionId', total: { $sum: 1 } } }
+        ])
+
+        if (totals.length === 0) return
+
+        await Option.bulkWrite(totals.map(({ _id: questionId, total }) => ({
+            updateMany: {
+                filter: { questionId },
+                update: [
+                    {
+                        $set: {
+                            'stats.selectionRate': {
+                                $round: [{ $multiply: [{ $divide: ['$stats.timesSelected', total] }, 100] }, 2]
+                            }
+                        }
+                    }
+                ]
+            }
+        })))
     }
 
     /**
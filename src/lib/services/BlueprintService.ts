@@ -0,0 +1,465 @@
+import mongoose from "mongoose"
+import { IBlueprint } from "@/models/Blueprint"
+import { IExam } from "@/models/Exam"
+import { QuestionConcept } from "@/models/Question"
+import { DifficultyLevel, ExamStatus, UserRole } from "@/models/enums"
+import { BlueprintFilters, BlueprintRepository } from "@/lib/repositories/BlueprintRepository"
+import { ExamRepository } from "@/lib/repositories/ExamRepository"
+import { UserRepository } from "@/lib/repositories/UserRepository"
+import { QuestionBankService } from "@/lib/services/QuestionBankService"
+
+export interface BlueprintRowInput {
+    concept?: string
+    learningUnit?: string
+    difficulty: DifficultyLevel
+    count: number
+    points?: number
+}
+
+export interface BlueprintInput {
+    title: string
+    description?: string
+    subject: string
+    syllabus?: string
+    targetLevels?: string[]
+    rows: BlueprintRowInput[]
+    totalPoints: number
+    duration: number
+}
+
+/**
+ * Couverture d'une ligne du blueprint par les questions d'un examen
+ */
+export interface BlueprintRowCoverage {
+    concept?: string
+    learningUnit?: string
+    difficulty: DifficultyLevel
+    required: number
+    matched: number
+    missing: number
+    expectedPoints?: number
+    actualPoints: number
+}
+
+export interface BlueprintCoverage {
+    blueprintId: string
+    rows: BlueprintRowCoverage[]
+    totalPoints: { expected: number; actual: number }
+    duration: { expected: number; actual: number }
+    questionCount: number
+    unmatchedQuestions: string[] // Questions hors blueprint (ou en surnombre)
+    isCovered: boolean
+    issues: string[]
+}
+
+/**
+ * Disponibilité dans la banque de questions pour une ligne du blueprint
+ */
+export interface BlueprintRowGap {
+    concept?: string
+    learningUnit?: string
+    difficulty: DifficultyLevel
+    required: number
+    available: number
+    missing: number
+}
+
+// Rôles autorisés à définir des blueprints
+const BLUEPRINT_AUTHOR_ROLES = [UserRole.INSPECTOR, UserRole.TEACHER]
+
+/**
+ * Service des tableaux de spécification (blueprints)
+ * Un blueprint fixe la répartition des questions par concept/unité et difficulté,
+ * le total des points et la durée. Il sert à assembler un examen depuis la banque
+ * et à vérifier la couverture d'un examen avant sa soumission à validation.
+ */
+export class BlueprintService {
+    /**
+     * Crée un blueprint
+     */
+    static async createBlueprint(userId: string, input: BlueprintInput) {
+        const repo = new BlueprintRepository()
+        await this.getAuthor(userId)
+
+        return repo.create({
+            ...this.toDocument(input),
+            createdBy: new mongoose.Types.ObjectId(userId),
+            isArchived: false
+        } as Partial<IBlueprint>)
+    }
+
+    /**
+     * Met à jour un blueprint (auteur uniquement)
+     * Les examens qui le référencent sont vérifiés avec la nouvelle spécification.
+     */
+    static async updateBlueprint(blueprintId: string, userId: string, input: Partial<BlueprintInput>) {
+        const repo = new BlueprintRepository()
+        const blueprint = await this.getOwnBlueprint(repo, blueprintId, userId)
+
+        if (blueprint.isArchived) {
+            throw new Error("Archived blueprints cannot be edited")
+        }
+
+        const fields = this.toDocument({
+            title: input.title ?? blueprint.title,
+            description: input.description ?? blueprint.description,
+            subject: input.subject ?? blueprint.subject.toString(),
+            syllabus: input.syllabus ?? blueprint.syllabus?.toString(),
+            targetLevels: input.targetLevels ?? blueprint.targetLevels.map(level => level.toString()),
+            rows: input.rows ?? blueprint.rows.map(row => ({
+                concept: row.concept?.toString(),
+                learningUnit: row.learningUnit?.toString(),
+                difficulty: row.difficulty,
+                count: row.count,
+                points: row.points
+            })),
+            totalPoints: input.totalPoints ?? blueprint.totalPoints,
+            duration: input.duration ?? blueprint.duration
+        })
+
+        blueprint.set(fields)
+        return repo.save(blueprint)
+    }
+
+    /**
+     * Archive un blueprint (il reste lisible pour les examens qui le référencent)
+     */
+    static async archiveBlueprint(blueprintId: string, userId: string) {
+        const repo = new BlueprintRepository()
+        const blueprint = await this.getOwnBlueprint(repo, blueprintId, userId)
+
+        blueprint.isArchived = true
+        return repo.save(blueprint)
+    }
+
+    /**
+     * Récupère un blueprint
+     */
+    static async getBlueprint(blueprintId: string) {
+        const blueprint = await new BlueprintRepository().findByIdPopulated(blueprintId)
+        if (!blueprint) throw new Error("Blueprint not found")
+        return blueprint
+    }
+
+    /**
+     * Liste des blueprints (filtrables par matière, syllabus ou auteur)
+     */
+    static async listBlueprints(filters: BlueprintFilters) {
+        return new BlueprintRepository().list(filters)
+    }
+
+    /**
+     * Questions disponibles dans la banque pour chaque ligne du blueprint
+     */
+    static async getBankGaps(blueprintId: string, userId: string) {
+        const repo = new BlueprintRepository()
+        const blueprint = await repo.findById(blueprintId)
+        if (!blueprint) throw new Error("Blueprint not found")
+
+        const schoolIds = await this.getSchoolIds(userId)
+        const rowConcepts = await this.resolveRowConcepts(repo, blueprint)
+
+        const rows: BlueprintRowGap[] = []
+        for (const [index, row] of blueprint.rows.entries()) {
+            const candidates = await repo.findBankCandidates(
+                userId, schoolIds, blueprint.subject, rowConcepts[index], row.difficulty
+            )
+            rows.push({
+                ...this.describeRow(row),
+                required: row.count,
+                available: candidates.length,
+                missing: Math.max(row.count - candidates.length, 0)
+            })
+        }
+
+        return {
+            blueprintId: blueprint._id.toString(),
+            rows,
+            isComplete: rows.every(row => row.missing === 0)
+        }
+    }
+
+    /**
+     * Couverture du blueprint par les questions d'un examen
+     * Sans blueprintId, utilise le blueprint rattaché à l'examen.
+     */
+    static async getExamCoverage(examId: string, userId: string, userRole: UserRole, blueprintId?: string) {
+        const repo = new BlueprintRepository()
+        const exam = await new ExamRepository().findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        if (exam.createdById.toString() !== userId && userRole !== UserRole.INSPECTOR) {
+            throw new Error("Unauthorized: Only the exam author or an inspector can check its blueprint")
+        }
+
+        const id = blueprintId || exam.blueprint?.toString()
+        if (!id) throw new Error("No blueprint linked to this exam")
+
+        const blueprint = await repo.findById(id)
+        if (!blueprint) throw new Error("Blueprint not found")
+
+        return this.computeCoverage(repo, blueprint, exam)
+    }
+
+    /**
+     * Assemble un examen en brouillon depuis la banque selon un blueprint
+     * Complète chaque ligne avec les questions manquantes, rattache le blueprint
+     * à l'examen et reprend sa durée. Les lignes que la banque ne peut pas
+     * couvrir sont signalées dans la couverture renvoyée.
+     */
+    static async assembleExam(examId: string, blueprintId: string, userId: string) {
+        const repo = new BlueprintRepository()
+        const examRepo = new ExamRepository()
+
+        const exam = await examRepo.findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam creator can add questions")
+        }
+        if (exam.status !== ExamStatus.DRAFT) {
+            throw new Error("Questions can only be added to draft exams")
+        }
+
+        const blueprint = await repo.findById(blueprintId)
+        if (!blueprint) throw new Error("Blueprint not found")
+        if (blueprint.isArchived) throw new Error("Archived blueprints cannot be used to assemble an exam")
+        if (blueprint.subject.toString() !== exam.subject.toString()) {
+            throw new Error("Blueprint subject does not match the exam subject")
+        }
+
+        const schoolIds = await this.getSchoolIds(userId)
+        const rowConcepts = await this.resolveRowConcepts(repo, blueprint)
+        const before = await this.computeCoverage(repo, blueprint, exam)
+
+        // Éléments de la banque déjà présents dans l'examen
+        const current = await repo.findExamQuestions(exam._id)
+        const used = current
+            .filter(question => question.sourceQuestionId)
+            .map(question => question.sourceQuestionId!)
+
+        let order = current.length
+        const added = []
+        for (const [index, row] of blueprint.rows.entries()) {
+            const missing = before.rows[index].missing
+            if (missing === 0) continue
+
+            const candidates = await repo.findBankCandidates(
+                userId, schoolIds, blueprint.subject, rowConcepts[index], row.difficulty, used
+            )
+            for (const item of candidates.slice(0, missing)) {
+                const question = await QuestionBankService.copyItemToExam(item, exam._id, order++, userId)
+                used.push(item._id)
+                added.push(question)
+            }
+        }
+
+        exam.blueprint = blueprint._id
+        exam.duration = blueprint.duration
+        await examRepo.save(exam)
+
+        return {
+            questions: added,
+            coverage: await this.computeCoverage(repo, blueprint, exam)
+        }
+    }
+
+    /**
+     * Vérifie qu'un examen couvre son blueprint (appelé à la soumission)
+     */
+    static async assertExamCoversBlueprint(exam: IExam) {
+        if (!exam.blueprint) return
+
+        const repo = new BlueprintRepository()
+        const blueprint = await repo.findById(exam.blueprint.toString())
+        if (!blueprint) throw new Error("Blueprint not found")
+
+        const coverage = await this.computeCoverage(repo, blueprint, exam)
+        if (!coverage.isCovered) {
+            throw new Error(`Exam does not cover its blueprint: ${coverage.issues.join("; ")}`)
+        }
+    }
+
+    /**
+     * Affecte chaque question de l'examen à au plus une ligne du blueprint
+     * Les lignes par concept sont servies avant les lignes par unité d'apprentissage.
+     */
+    private static async computeCoverage(
+        repo: BlueprintRepository,
+        blueprint: IBlueprint,
+        exam: IExam
+    ): Promise<BlueprintCoverage> {
+        const questions = await repo.findExamQuestions(exam._id)
+
+        const conceptByQuestion = await this.questionConcepts(repo, questions)
+        const conceptIds = [...new Set([...conceptByQuestion.values()])].map(id => new mongoose.Types.ObjectId(id))
+        const concepts = await repo.findConcepts(conceptIds)
+        const unitByConcept = new Map(concepts.map(c => [c._id.toString(), c.learningUnit?.toString()]))
+
+        const rows = blueprint.rows.map(row => ({
+            row,
+            matched: [] as typeof questions
+        }))
+        const byPriority = [...rows].sort((a, b) => Number(!a.row.concept) - Number(!b.row.concept))
+
+        const unmatched: string[] = []
+        for (const question of questions) {
+            const concept = conceptByQuestion.get(question._id.toString())
+            const unit = concept ? unitByConcept.get(concept) : undefined
+
+            const target = byPriority.find(({ row, matched }) =>
+                matched.length < row.count
+                && row.difficulty === question.difficulty
+                && (row.concept
+                    ? row.concept.toString() === concept
+                    : !!unit && row.learningUnit?.toString() === unit)
+            )
+
+            if (target) target.matched.push(question)
+            else unmatched.push(question._id.toString())
+        }
+
+        const issues: string[] = []
+        const rowCoverage: BlueprintRowCoverage[] = rows.map(({ row, matched }) => {
+            const actualPoints = matched.reduce((sum, q) => sum + (q.points ?? 1), 0)
+            const missing = row.count - matched.length
+            const label = `${row.concept ? `concept ${row.concept}` : `learning unit ${row.learningUnit}`} (${row.difficulty})`
+
+            if (missing > 0) issues.push(`${missing} ${label} question(s) missing`)
+            if (row.points !== undefined && matched.length === row.count && actualPoints !== row.points) {
+                issues.push(`${label} is worth ${actualPoints} point(s), ${row.points} expected`)
+            }
+
+            return {
+                ...this.describeRow(row),
+                required: row.count,
+                matched: matched.length,
+                missing,
+                expectedPoints: row.points,
+                actualPoints
+            }
+        })
+
+        const actualPoints = questions.reduce((sum, q) => sum + (q.points ?? 1), 0)
+        if (unmatched.length > 0) issues.push(`${unmatched.length} question(s) outside the blueprint`)
+        if (actualPoints !== blueprint.totalPoints) {
+            issues.push(`Exam is worth ${actualPoints} point(s), ${blueprint.totalPoints} expected`)
+        }
+        if (exam.duration !== blueprint.duration) {
+            issues.push(`Exam lasts ${exam.duration} minute(s), ${blueprint.duration} expected`)
+        }
+
+        return {
+            blueprintId: blueprint._id.toString(),
+            rows: rowCoverage,
+            totalPoints: { expected: blueprint.totalPoints, actual: actualPoints },
+            duration: { expected: blueprint.duration, actual: exam.duration },
+            questionCount: questions.length,
+            unmatchedQuestions: unmatched,
+            isCovered: issues.length === 0,
+            issues
+        }
+    }
+
+    /**
+     * Concept principal de chaque question de l'examen : celui de plus fort poids,
+     * à défaut celui de l'élément de la banque copié
+     */
+    private static async questionConcepts(
+        repo: BlueprintRepository,
+        questions: { _id: mongoose.Types.ObjectId; sourceQuestionId?: mongoose.Types.ObjectId; concepts?: QuestionConcept[] }[]
+    ) {
+        const sourceIds = questions
+            .filter(question => !question.concepts?.length && question.sourceQuestionId)
+            .map(question => question.sourceQuestionId!)
+        const items = sourceIds.length > 0 ? await repo.findBankConcepts(sourceIds) : []
+        const conceptByItem = new Map(items
+            .filter(item => item.bank?.concept)
+            .map(item => [item._id.toString(), item.bank!.concept!.toString()]))
+
+        const result = new Map<string, string>()
+        for (const question of questions) {
+            const primary = question.concepts?.length
+                ? question.concepts.reduce((best, c) => c.weight > best.weight ? c : best).concept.toString()
+                : question.sourceQuestionId && conceptByItem.get(question.sourceQuestionId.toString())
+            if (primary) result.set(question._id.toString(), primary)
+        }
+        return result
+    }
+
+    /**
+     * Concepts couverts par chaque ligne (le concept lui-même, ou ceux de l'unité)
+     */
+    private static async resolveRowConcepts(repo: BlueprintRepository, blueprint: IBlueprint) {
+        const unitIds = blueprint.rows
+            .filter(row => !row.concept && row.learningUnit)
+            .map(row => row.learningUnit!)
+        const unitConcepts = unitIds.length > 0 ? await repo.findConceptsByLearningUnits(unitIds) : []
+
+        return blueprint.rows.map(row => row.concept
+            ? [row.concept]
+            : unitConcepts
+                .filter(concept => concept.learningUnit?.toString() === row.learningUnit?.toString())
+                .map(concept => concept._id))
+    }
+
+    private static describeRow(row: IBlueprint['rows'][number]) {
+        return {
+            concept: row.concept?.toString(),
+            learningUnit: row.learningUnit?.toString(),
+            difficulty: row.difficulty
+        }
+    }
+
+    /**
+     * Champs du document à partir des données saisies ; vérifie la cohérence des points
+     */
+    private static toDocument(input: BlueprintInput) {
+        const rowPoints = input.rows.reduce((sum, row) => sum + (row.points ?? 0), 0)
+        if (rowPoints > input.totalPoints) {
+            throw new Error(`Blueprint rows are worth ${rowPoints} point(s), more than the ${input.totalPoints} total`)
+        }
+
+        return {
+            title: input.title,
+            description: input.description,
+            subject: new mongoose.Types.ObjectId(input.subject),
+            syllabus: input.syllabus ? new mongoose.Types.ObjectId(input.syllabus) : undefined,
+            targetLevels: (input.targetLevels || []).map(id => new mongoose.Types.ObjectId(id)),
+            rows: input.rows.map(row => ({
+                concept: row.concept ? new mongoose.Types.ObjectId(row.concept) : undefined,
+                learningUnit: !row.concept && row.learningUnit ? new mongoose.Types.ObjectId(row.learningUnit) : undefined,
+                difficulty: row.difficulty,
+                count: row.count,
+                points: row.points
+            })),
+            totalPoints: input.totalPoints,
+            duration: input.duration
+        }
+    }
+
+    private static async getOwnBlueprint(repo: BlueprintRepository, blueprintId: string, userId: string) {
+        const blueprint = await repo.findById(blueprintId)
+        if (!blueprint) throw new Error("Blueprint not found")
+
+        if (blueprint.createdBy.toString() !== userId) {
+            throw new Error("Unauthorized: Only the author can edit this blueprint")
+        }
+        return blueprint
+    }
+
+    private static async getAuthor(userId: string) {
+        const user = await new UserRepository().findById(userId)
+        if (!user) throw new Error("User not found")
+        if (!BLUEPRINT_AUTHOR_ROLES.includes(user.role as UserRole)) {
+            throw new Error("Unauthorized: Only inspectors and teachers can define blueprints")
+        }
+        return user
+    }
+
+    private static async getSchoolIds(userId: string): Promise<string[]> {
+        const user = await new UserRepository().findById(userId)
+        if (!user) throw new Error("User not found")
+        return (user.schools || []).map((s: any) => s.toString())
+    }
+}
@@ -0,0 +1,294 @@
+import mongoose from "mongoose"
+import { CompetencyLevel, COMPETENCY_LEVEL_THRESHOLDS, CriterionResult } from "@/models/CompetencyEvaluation"
+import { AttemptStatus } from "@/models/Attempt"
+import { EvaluationType } from "@/models/enums"
+import { CompetencyEvaluationRepository } from "@/lib/repositories/CompetencyEvaluationRepository"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
+import { questionsForAttempt } from "@/lib/shuffle"
+
+/**
+ * Bilan d'une compétence pour un élève (tableau de bord APC)
+ */
+export interface CompetencyDashboardEntry {
+    competency: { _id: string; name?: string; code?: string; type?: string; displayName?: { fr: string; en: string } }
+    score: number // Score cumulé sur toutes les évaluations (0-100)
+    level: CompetencyLevel
+    demonstrated: boolean
+    criteria: CriterionResult[] // Critères cumulés
+    evaluationCount: number
+    latest: {
+        examId: string
+        examTitle?: string
+        score: number
+        level: CompetencyLevel
+        evaluatedAt: Date
+    }
+    trend: 'IMPROVING' | 'STABLE' | 'DECLINING'
+}
+
+export interface CompetencyDashboard {
+    summary: {
+        evaluated: number
+        demonstrated: number
+        byLevel: Record<CompetencyLevel, number>
+    }
+    competencies: CompetencyDashboardEntry[]
+}
+
+/**
+ * Service de l'évaluation par compétences (Approche Par les Compétences)
+ * Chaque question est rattachée à un ou plusieurs critères d'évaluation
+ * (Competency.assessmentCriteria) ; après la correction d'une tentative, le
+ * crédit obtenu est cumulé par critère puis agrégé par compétence selon le
+ * poids des critères.
+ */
+export class CompetencyEvaluationService {
+    /**
+     * Évalue les compétences mesurées par une tentative corrigée
+     * Idempotent : une tentative recorrigée remplace ses évaluations.
+     */
+    static async evaluateAttempt(attemptId: string | mongoose.Types.ObjectId) {
+        const repo = new CompetencyEvaluationRepository()
+
+        const attempt = await repo.findAttempt(attemptId)
+        if (!attempt || attempt.status !== AttemptStatus.COMPLETED) return []
+
+        const exam = await repo.findExam(attempt.examId)
+        if (!exam) return []
+
+        const responses = await repo.findResponses(attempt._id)
+        const responseByQuestion = new Map(responses.map(r => [r.questionId.toString(), r]))
+
+        // Questions posées : le tirage de la tentative, ou les questions servies d'un test adaptatif
+        const examQuestions = await repo.findExamQuestions(exam._id)
+        const questions = exam.evaluationType === EvaluationType.ADAPTIVE
+            ? examQuestions.filter(q => responseByQuestion.has(q._id.toString()))
+            : questionsForAttempt(examQuestions, attempt)
+
+        // Crédit cumulé par compétence puis par critère
+        const totals = new Map<string, Map<string, { earned: number; possible: number }>>()
+        for (const question of questions) {
+            const criteria = (question.competencyCriteria || []).filter(c => c.weight > 0)
+            if (criteria.length === 0) continue
+
+            const points = question.points || 1
+            const response = responseByQuestion.get(question._id.toString())
+            const credit = !response ? 0
+                : typeof response.partialScore === 'number' ? Math.min(response.partialScore, points) / points
+                    : response.isCorrect ? 1 : 0
+
+            for (const { competency, criterionId, weight } of criteria) {
+                const byCriterion = totals.get(competency.toString()) || new Map()
+                const total = byCriterion.get(criterionId.toString()) || { earned: 0, possible: 0 }
+                total.earned += weight * credit
+                total.possible += weight
+                byCriterion.set(criterionId.toString(), total)
+                totals.set(competency.toString(), byCriterion)
+            }
+        }
+
+        const competencies = totals.size > 0
+            ? await repo.findCompetencies([...totals.keys()].map(id => new mongoose.Types.ObjectId(id)))
+            : []
+
+        const evaluations = []
+        for (const competency of competencies) {
+            const byCriterion = totals.get(competency._id.toString())!
+
+            // Les critères supprimés de la compétence depuis le rattachement sont ignorés
+            const criteria: CriterionResult[] = []
+            for (const definition of competency.assessmentCriteria as any[]) {
+                const total = byCriterion.get(definition._id.toString())
+                if (!total || total.possible === 0) continue
+                criteria.push({
+                    criterionId: definition._id,
+                    criterion: definition.criterion,
+                    weight: definition.weight || 0,
+                    earned: total.earned,
+                    possible: total.possible,
+                    score: this.round((total.earned / total.possible) * 100)
+                })
+            }
+            if (criteria.length === 0) continue
+
+            const score = this.aggregate(criteria)
+            const level = this.levelFor(score)
+            evaluations.push(await repo.upsert({
+                student: attempt.userId,
+                competency: competency._id,
+                attemptId: attempt._id,
+                examId: exam._id,
+                criteria,
+                score,
+                level,
+                demonstrated: this.isDemonstrated(level),
+                evaluatedAt: attempt.submittedAt || new Date()
+            }))
+        }
+
+        await repo.deleteStale(attempt._id, evaluations.map(e => e!.competency))
+
+        return evaluations
+    }
+
+    /**
+     * Rattache une question d'examen à des critères de compétences (auteur de l'examen)
+     * Les compétences concernées sont ajoutées aux compétences visées par l'examen.
+     */
+    static async setQuestionCriteria(
+        examId: string,
+        questionId: string,
+        criteria: { competency: string; criterionId: string; weight?: number }[],
+        userId: string
+    ) {
+        const repo = new CompetencyEvaluationRepository()
+
+        const exam = await repo.findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam author can tag its questions")
+        }
+
+        const question = await repo.findExamQuestion(examId, questionId)
+        if (!question) throw new Error("Question not found")
+
+        const criterionIds = new Set(criteria.map(c => c.criterionId))
+        if (criterionIds.size !== criteria.length) {
+            throw new Error("Each criterion can only be listed once")
+        }
+
+        const competencyIds = [...new Set(criteria.map(c => c.competency))]
+        const competencies = await repo.findCompetencies(competencyIds.map(id => new mongoose.Types.ObjectId(id)))
+        if (competencies.length !== competencyIds.length) throw new Error("One or more competencies not found")
+
+        const competencyById = new Map(competencies.map(c => [c._id.toString(), c]))
+        for (const { competency, criterionId } of criteria) {
+            const criterion = (competencyById.get(competency)!.assessmentCriteria as any[])
+                .find(c => c._id.toString() === criterionId)
+            if (!criterion) throw new Error(`Criterion ${criterionId} not found in competency ${competency}`)
+        }
+
+        const updated = await repo.updateQuestionCriteria(question._id, criteria.map(c => ({
+            competency: new mongoose.Types.ObjectId(c.competency),
+            criterionId: new mongoose.Types.ObjectId(c.criterionId),
+            weight: c.weight ?? 1
+        })))
+        if (competencyIds.length > 0) {
+            await repo.addTargetedCompetencies(examId, competencyIds.map(id => new mongoose.Types.ObjectId(id)))
+        }
+        await ExamVersionService.snapshot(examId, userId, 'competencies')
+
+        return updated
+    }
+
+    /**
+     * Tableau de bord des compétences d'un élève
+     * Le score de chaque compétence cumule les critères de toutes ses évaluations.
+     */
+    static async getDashboard(studentId: string, filters: { subjectId?: string } = {}): Promise<CompetencyDashboard> {
+        const evaluations = await new CompetencyEvaluationRepository().findByStudent(studentId)
+
+        // Évaluations triées de la plus récente à la plus ancienne
+        const byCompetency = new Map<string, any[]>()
+        for (const evaluation of evaluations as any[]) {
+            const competency = evaluation.competency
+            if (!competency?._id) continue
+            if (filters.subjectId && !(competency.relatedSubjects || [])
+                .some((s: mongoose.Types.ObjectId) => s.toString() === filters.subjectId)) continue
+
+            const key = competency._id.toString()
+            if (!byCompetency.has(key)) byCompetency.set(key, [])
+            byCompetency.get(key)!.push(evaluation)
+        }
+
+        const competencies: CompetencyDashboardEntry[] = []
+        for (const [competencyId, history] of byCompetency) {
+            const cumulated = new Map<string, CriterionResult>()
+            for (const evaluation of history) {
+                for (const result of evaluation.criteria as CriterionResult[]) {
+                    const key = result.criterionId.toString()
+                    const total = cumulated.get(key) || { ...result, earned: 0, possible: 0 }
+                    total.earned += result.earned
+                    total.possible += result.possible
+                    cumulated.set(key, total)
+                }
+            }
+            const criteria = [...cumulated.values()].map(c => ({
+                ...c,
+                score: c.possible > 0 ? this.round((c.earned / c.possible) * 100) : 0
+            }))
+
+            const score = this.aggregate(criteria)
+            const level = this.levelFor(score)
+            const [latest, previous] = history
+            const delta = previous ? latest.score - previous.score : 0
+            const competency = latest.competency
+
+            competencies.push({
+                competency: {
+                    _id: competencyId,
+                    name: competency.name,
+                    code: competency.code,
+                    type: competency.type,
+                    displayName: competency.metadata?.displayName
+                },
+                score,
+                level,
+                demonstrated: this.isDemonstrated(level),
+                criteria,
+                evaluationCount: history.length,
+                latest: {
+                    examId: latest.examId?._id?.toString() || latest.examId?.toString(),
+                    examTitle: latest.examId?.title,
+                    score: latest.score,
+                    level: latest.level,
+                    evaluatedAt: latest.evaluatedAt
+                },
+                trend: delta > 5 ? 'IMPROVING' : delta < -5 ? 'DECLINING' : 'STABLE'
+            })
+        }
+        competencies.sort((a, b) => a.score - b.score)
+
+        const byLevel = Object.fromEntries(
+            Object.values(CompetencyLevel).map(level => [level, 0])
+        ) as Record<CompetencyLevel, number>
+        for (const entry of competencies) byLevel[entry.level]++
+
+        return {
+            summary: {
+                evaluated: competencies.length,
+                demonstrated: competencies.filter(c => c.demonstrated).length,
+                byLevel
+            },
+            competencies
+        }
+    }
+
+    /**
+     * Niveau d'acquisition correspondant à un score
+     */
+    static levelFor(score: number): CompetencyLevel {
+        return COMPETENCY_LEVEL_THRESHOLDS.find(t => score >= t.minScore)?.level ?? CompetencyLevel.NOT_ACQUIRED
+    }
+
+    private static isDemonstrated(level: CompetencyLevel): boolean {
+        return level === CompetencyLevel.ACQUIRED || level === CompetencyLevel.EXPERT
+    }
+
+    /**
+     * Moyenne des scores des critères pondérée par leur poids dans la compétence
+     * (moyenne simple lorsque les critères n'ont pas de poids)
+     */
+    private static aggregate(criteria: CriterionResult[]): number {
+        if (criteria.length === 0) return 0
+        const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0)
+        const score = totalWeight > 0
+            ? criteria.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight
+            : criteria.reduce((sum, c) => sum + c.score, 0) / criteria.length
+        return this.round(score)
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 100) / 100
+    }
+}
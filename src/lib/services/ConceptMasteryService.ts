@@ -0,0 +1,249 @@
+import mongoose from "mongoose"
+import { ConceptMasteryEvidence } from "@/models/ConceptMastery"
+import { QuestionConcept } from "@/models/Question"
+import { AttemptStatus } from "@/models/Attempt"
+import { EvaluationType } from "@/models/enums"
+import { MasteryLevel, MASTERY_LEVEL_PERCENTAGES } from "@/lib/patterns/EvaluationStrategy"
+import { ConceptMasteryRepository } from "@/lib/repositories/ConceptMasteryRepository"
+import { ConceptEvaluationRepository } from "@/lib/repositories/ConceptEvaluationRepository"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
+import { questionsForAttempt } from "@/lib/shuffle"
+
+/**
+ * Maîtrise d'un concept : mesurée (réponses corrigées) et déclarée (auto-évaluation)
+ */
+export interface ConceptMasteryView {
+    concept: { _id: string; title?: string }
+    measured?: {
+        mastery: number
+        questionCount: number
+        attempts: number
+        lastEvaluatedAt: Date
+    }
+    declared?: {
+        level: MasteryLevel
+        percentage: number
+        evaluatedAt: Date
+    }
+    gap?: number // Déclaré - mesuré (positif : l'élève se surestime)
+}
+
+/**
+ * Service de la maîtrise des concepts mesurée à partir des réponses
+ * Chaque question est rattachée à un ou plusieurs concepts pondérés ; après la
+ * correction d'une tentative, le crédit obtenu sur chaque question est réparti
+ * sur ses concepts et cumulé dans un enregistrement par élève et par concept.
+ */
+export class ConceptMasteryService {
+    /**
+     * Met à jour la maîtrise des concepts d'un élève à partir d'une tentative corrigée
+     * Idempotent : une tentative déjà prise en compte remplace sa contribution.
+     */
+    static async updateFromAttempt(attemptId: string | mongoose.Types.ObjectId) {
+        const repo = new ConceptMasteryRepository()
+
+        const attempt = await repo.findAttempt(attemptId)
+        if (!attempt || attempt.status !== AttemptStatus.COMPLETED) return []
+
+        const exam = await repo.findExam(attempt.examId)
+        if (!exam) return []
+
+        const responses = await repo.findResponses(attempt._id)
+        const responseByQuestion = new Map(responses.map(r => [r.questionId.toString(), r]))
+
+        // Questions posées : le tirage de la tentative, ou les questions servies d'un test adaptatif
+        const examQuestions = await repo.findExamQuestions(exam._id)
+        const questions = exam.evaluationType === EvaluationType.ADAPTIVE
+            ? examQuestions.filter(q => responseByQuestion.has(q._id.toString()))
+            : questionsForAttempt(examQuestions, attempt)
+
+        const conceptsByQuestion = await this.resolveConcepts(repo, questions)
+
+        const totals = new Map<string, { earned: number; possible: number; questionCount: number }>()
+        for (const question of questions) {
+            const concepts = conceptsByQuestion.get(question._id.toString()) || []
+            if (concepts.length === 0) continue
+
+            const points = question.points || 1
+            const response = responseByQuestion.get(question._id.toString())
+            const credit = !response ? 0
+                : typeof response.partialScore === 'number' ? Math.min(response.partialScore, points) / points
+                    : response.isCorrect ? 1 : 0
+
+            for (const { concept, weight } of concepts) {
+                const key = concept.toString()
+                const total = totals.get(key) || { earned: 0, possible: 0, questionCount: 0 }
+                total.earned += weight * credit
+                total.possible += weight
+                total.questionCount += 1
+                totals.set(key, total)
+            }
+        }
+        if (totals.size === 0) return []
+
+        const conceptDocs = await repo.findConcepts([...totals.keys()].map(id => new mongoose.Types.ObjectId(id)))
+        const syllabusByConcept = new Map(conceptDocs.map(c => [c._id.toString(), c.syllabus]))
+
+        const updated = []
+        for (const [conceptId, total] of totals) {
+            const evidence: ConceptMasteryEvidence = {
+                attemptId: attempt._id,
+                examId: exam._id,
+                earned: total.earned,
+                possible: total.possible,
+                questionCount: total.questionCount,
+                evaluatedAt: attempt.submittedAt || new Date()
+            }
+            updated.push(await this.recordEvidence(
+                repo, attempt.userId, new mongoose.Types.ObjectId(conceptId), syllabusByConcept.get(conceptId), evidence
+            ))
+        }
+
+        return updated
+    }
+
+    /**
+     * Rattache une question d'examen à des concepts pondérés (auteur de l'examen)
+     */
+    static async setQuestionConcepts(
+        examId: string,
+        questionId: string,
+        concepts: { concept: string; weight?: number }[],
+        userId: string
+    ) {
+        const repo = new ConceptMasteryRepository()
+
+        const exam = await repo.findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam author can tag its questions")
+        }
+
+        const question = await repo.findExamQuestion(examId, questionId)
+        if (!question) throw new Error("Question not found")
+
+        const conceptIds = [...new Set(concepts.map(c => c.concept))]
+        if (conceptIds.length !== concepts.length) {
+            throw new Error("Each concept can only be listed once")
+        }
+        const existing = await repo.findConcepts(conceptIds.map(id => new mongoose.Types.ObjectId(id)))
+        if (existing.length !== conceptIds.length) throw new Error("One or more concepts not found")
+
+        const updated = await repo.updateQuestionConcepts(question._id, concepts.map(c => ({
+            concept: new mongoose.Types.ObjectId(c.concept),
+            weight: c.weight ?? 1
+        })))
+        await ExamVersionService.snapshot(examId, userId, 'concepts')
+
+        return updated
+    }
+
+    /**
+     * Maîtrise mesurée des concepts d'un élève, avec son auto-évaluation
+     */
+    static async getStudentMastery(studentId: string, syllabusId?: string): Promise<ConceptMasteryView[]> {
+        const [measured, declared] = await Promise.all([
+            new ConceptMasteryRepository().findByStudent(studentId, syllabusId),
+            new ConceptEvaluationRepository().findByStudent(studentId, syllabusId)
+        ])
+
+        const views = new Map<string, ConceptMasteryView>()
+        const viewFor = (concept: any): ConceptMasteryView | null => {
+            const id = concept?._id?.toString()
+            if (!id) return null
+            if (!views.has(id)) views.set(id, { concept: { _id: id, title: concept.title } })
+            return views.get(id)!
+        }
+
+        for (const record of measured) {
+            const view = viewFor(record.concept)
+            if (!view) continue
+            view.measured = {
+                mastery: record.mastery,
+                questionCount: record.evidence.reduce((sum, e) => sum + e.questionCount, 0),
+                attempts: record.evidence.length,
+                lastEvaluatedAt: record.lastEvaluatedAt
+            }
+        }
+
+        // Auto-évaluations triées de la plus récente à la plus ancienne
+        for (const evaluation of declared as any[]) {
+            const view = viewFor(evaluation.concept)
+            if (!view || view.declared) continue
+            view.declared = {
+                level: evaluation.level,
+                percentage: MASTERY_LEVEL_PERCENTAGES[evaluation.level as MasteryLevel] ?? 0,
+                evaluatedAt: evaluation.evaluatedAt
+            }
+        }
+
+        return [...views.values()].map(view => ({
+            ...view,
+            gap: view.measured && view.declared && view.declared.level !== MasteryLevel.UNKNOWN
+                ? Math.round((view.declared.percentage - view.measured.mastery) * 100) / 100
+                : undefined
+        }))
+    }
+
+    /**
+     * Concepts pondérés de chaque question ; les copies de la banque antérieures
+     * au rattachement reprennent le concept de classement de leur élément
+     */
+    private static async resolveConcepts(
+        repo: ConceptMasteryRepository,
+        questions: { _id: mongoose.Types.ObjectId; concepts?: QuestionConcept[]; sourceQuestionId?: mongoose.Types.ObjectId }[]
+    ) {
+        const sourceIds = questions
+            .filter(q => !q.concepts?.length && q.sourceQuestionId)
+            .map(q => q.sourceQuestionId!)
+        const items = sourceIds.length > 0 ? await repo.findBankConcepts(sourceIds) : []
+        const conceptByItem = new Map(items
+            .filter(item => item.bank?.concept)
+            .map(item => [item._id.toString(), item.bank!.concept!]))
+
+        const result = new Map<string, QuestionConcept[]>()
+        for (const question of questions) {
+            const fallback = question.sourceQuestionId && conceptByItem.get(question.sourceQuestionId.toString())
+            const concepts = question.concepts?.length
+                ? question.concepts.filter(c => c.weight > 0)
+                : fallback ? [{ concept: fallback, weight: 1 }] : []
+            result.set(question._id.toString(), concepts)
+        }
+        return result
+    }
+
+    /**
+     * Enregistre la contribution d'une tentative et recalcule la maîtrise
+     */
+    private static async recordEvidence(
+        repo: ConceptMasteryRepository,
+        studentId: mongoose.Types.ObjectId,
+        conceptId: mongoose.Types.ObjectId,
+        syllabusId: mongoose.Types.ObjectId | undefined,
+        evidence: ConceptMasteryEvidence
+    ) {
+        let record = await repo.findByStudentAndConcept(studentId, conceptId)
+        if (!record) {
+            try {
+                record = await repo.create({ student: studentId, concept: conceptId, syllabus: syllabusId, evidence: [] })
+            } catch (error: any) {
+                // Enregistrement créé en parallèle par une autre tentative
+                if (error.code !== 11000) throw error
+                record = await repo.findByStudentAndConcept(studentId, conceptId)
+                if (!record) throw error
+            }
+        }
+
+        record.evidence = [
+            ...record.evidence.filter(e => e.attemptId.toString() !== evidence.attemptId.toString()),
+            evidence
+        ]
+        record.earned = record.evidence.reduce((sum, e) => sum + e.earned, 0)
+        record.possible = record.evidence.reduce((sum, e) => sum + e.possible, 0)
+        record.mastery = record.possible > 0 ? Math.round((record.earned / record.possible) * 10000) / 100 : 0
+        record.lastEvaluatedAt = evidence.evaluatedAt
+        if (syllabusId) record.syllabus = syllabusId
+
+        return repo.save(record)
+    }
+}
@@ -4,6 +4,7 @@ import { ExamDecoratorFactory } from '@/lib/patterns/ExamDecorator'
 import Attempt from '@/models/Attempt'
 import Response from '@/models/Response'
 import Question from '@/models/Question'
+import { questionsForAttempt } from '@/lib/shuffle'
 import mongoose from 'mongoose'
 
 /**
@@ -37,8 +38,11 @@ export class ExamEvaluationService {
             throw new Error('Exam not found')
         }
 
-        // Récupérer les questions
-        const questions = await Question.find({ examId: exam._id }).lean()
+        // Récupérer les questions (tirage de la tentative le cas échéant)
+        const questions = questionsForAttempt(
+            await Question.find({ examId: exam._id }).lean(),
+            attempt
+        )
 
         // Récupérer les réponses
         const responses = await Response.find({ attemptId: attempt._id }).lean()
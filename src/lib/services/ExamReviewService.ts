@@ -0,0 +1,141 @@
+import mongoose from "mongoose"
+import { IExam } from "@/models/Exam"
+import { IExamReviewComment, IExamReviewReply } from "@/models/ExamReviewComment"
+import { UserRole } from "@/models/enums"
+import { publishEvent } from "@/lib/events/EventPublisher"
+import { EventType } from "@/lib/events/types"
+import { ExamReviewRepository } from "@/lib/repositories/ExamReviewRepository"
+import { ExamWorkflowService } from "@/lib/services/ExamWorkflowService"
+
+/**
+ * Service des commentaires de revue des examens
+ * L'auteur de l'examen et les validateurs (inspecteurs, enseignants habilités)
+ * échangent des fils de commentaires ancrés sur l'examen ou sur une question.
+ * Chaque commentaire ou réponse notifie les autres participants du fil.
+ */
+export class ExamReviewService {
+    /**
+     * Fils de commentaires d'un examen (les fils résolus sont masqués par défaut)
+     */
+    static async listComments(
+        examId: string,
+        userId: string,
+        userRole: UserRole,
+        filters: { questionId?: string; includeResolved?: boolean } = {}
+    ) {
+        const repo = new ExamReviewRepository()
+        await this.checkReviewAccess(repo, examId, userId, userRole)
+
+        return repo.findByExam(examId, filters)
+    }
+
+    /**
+     * Ouvre un fil de commentaires sur l'examen ou sur une de ses questions
+     */
+    static async addComment(
+        examId: string,
+        userId: string,
+        userRole: UserRole,
+        data: { content: string; questionId?: string }
+    ) {
+        const repo = new ExamReviewRepository()
+        const exam = await this.checkReviewAccess(repo, examId, userId, userRole)
+
+        if (data.questionId && !(await repo.questionBelongsToExam(exam._id, data.questionId))) {
+            throw new Error("Question not found in this exam")
+        }
+
+        const comment = await repo.create({
+            examId: exam._id,
+            questionId: data.questionId ? new mongoose.Types.ObjectId(data.questionId) : undefined,
+            authorId: new mongoose.Types.ObjectId(userId),
+            content: data.content,
+            examVersion: exam.version
+        })
+
+        await this.notifyParticipants(exam, comment, userId)
+        return comment
+    }
+
+    /**
+     * Répond à un fil de commentaires
+     */
+    static async replyToComment(commentId: string, userId: string, userRole: UserRole, content: string) {
+        const repo = new ExamReviewRepository()
+        const comment = await repo.findById(commentId)
+        if (!comment) throw new Error("Comment not found")
+
+        const exam = await this.checkReviewAccess(repo, comment.examId.toString(), userId, userRole)
+
+        comment.replies.push({
+            authorId: new mongoose.Types.ObjectId(userId),
+            content,
+            createdAt: new Date()
+        } as IExamReviewReply)
+        // Une réponse rouvre un fil résolu
+        comment.isResolved = false
+        comment.resolvedBy = undefined
+        comment.resolvedAt = undefined
+        const saved = await repo.save(comment)
+
+        await this.notifyParticipants(exam, saved, userId)
+        return saved
+    }
+
+    /**
+     * Marque un fil comme résolu ou le rouvre
+     */
+    static async resolveComment(commentId: string, userId: string, userRole: UserRole, resolved: boolean) {
+        const repo = new ExamReviewRepository()
+        const comment = await repo.findById(commentId)
+        if (!comment) throw new Error("Comment not found")
+
+        await this.checkReviewAccess(repo, comment.examId.toString(), userId, userRole)
+
+        comment.isResolved = resolved
+        comment.resolvedBy = resolved ? new mongoose.Types.ObjectId(userId) : undefined
+        comment.resolvedAt = resolved ? new Date() : undefined
+
+        return repo.save(comment)
+    }
+
+    /**
+     * Auteur de l'examen ou validateur habilité
+     */
+    private static async checkReviewAccess(repo: ExamReviewRepository, examId: string, userId: string, userRole: UserRole) {
+        const exam = await repo.findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        if (exam.createdById.toString() !== userId &&
+            !(await ExamWorkflowService.checkValidationAccess(userId, userRole, exam, { anyStep: true }))) {
+            throw new Error("Unauthorized: Only the exam author or its reviewers can access review comments")
+        }
+        return exam
+    }
+
+    /**
+     * Notifie l'auteur de l'examen et les participants du fil, sauf l'auteur du message
+     */
+    private static async notifyParticipants(exam: IExam, comment: IExamReviewComment, userId: string) {
+        const recipientIds = [...new Set([
+            exam.createdById.toString(),
+            comment.authorId.toString(),
+            ...comment.replies.map(reply => reply.authorId.toString())
+        ])].filter(id => id !== userId)
+        if (recipientIds.length === 0) return
+
+        await publishEvent({
+            type: EventType.EXAM_REVIEW_COMMENTED,
+            data: {
+                examId: exam._id,
+                commentId: comment._id,
+                questionId: comment.questionId,
+                title: exam.title,
+                isReply: comment.replies.length > 0,
+                recipientIds
+            },
+            userId: new mongoose.Types.ObjectId(userId),
+            timestamp: new Date()
+        })
+    }
+}
@@ -0,0 +1,189 @@
+import mongoose from "mongoose"
+import { IExam, ExamSchedule } from "@/models/Exam"
+import { ExamStatus, ExamWorkflowAction, UserRole } from "@/models/enums"
+import { publishEvent } from "@/lib/events/EventPublisher"
+import { EventType } from "@/lib/events/types"
+import { ExamScheduleRepository } from "@/lib/repositories/ExamScheduleRepository"
+import { ExamWorkflowService } from "@/lib/services/ExamWorkflowService"
+
+export interface ExamScheduleInput {
+    publishAt?: Date | null // null : annule la publication programmée
+    autoClose?: boolean
+    autoArchive?: boolean
+    archiveDelay?: number // En heures après la clôture
+}
+
+export interface ScheduledRunResult {
+    published: string[]
+    closed: string[]
+    archived: string[]
+}
+
+/**
+ * Service de programmation des examens
+ * Publication à une date choisie (dès que l'examen est validé), clôture à la fin
+ * de l'examen et de sa période de retard, puis archivage éventuel. Les tâches
+ * échues sont exécutées par le planificateur (voir lib/scheduler) et publient les
+ * mêmes événements que les actions manuelles.
+ */
+export class ExamScheduleService {
+    /**
+     * Programme la publication, la clôture et/ou l'archivage d'un examen
+     * Les champs absents de l'entrée conservent leur valeur.
+     */
+    static async scheduleExam(examId: string, userId: string, userRole: UserRole, input: ExamScheduleInput) {
+        const repo = new ExamScheduleRepository()
+        const exam = await repo.findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        this.checkScheduleAccess(exam, userId, userRole)
+        if (exam.status === ExamStatus.ARCHIVED) {
+            throw new Error(`Cannot schedule exam with status ${exam.status}`)
+        }
+
+        const current = exam.schedule
+        const schedule: ExamSchedule = {
+            publishAt: input.publishAt === undefined ? current?.publishAt : input.publishAt ?? undefined,
+            autoClose: input.autoClose ?? current?.autoClose ?? false,
+            autoArchive: input.autoArchive ?? current?.autoArchive ?? false,
+            archiveDelay: input.archiveDelay ?? current?.archiveDelay ?? 0,
+            scheduledBy: new mongoose.Types.ObjectId(userId)
+        }
+
+        if (input.publishAt) {
+            if (exam.status === ExamStatus.PUBLISHED) {
+                throw new Error("Cannot schedule the publication of an exam that is already published")
+            }
+            if (input.publishAt <= new Date()) {
+                throw new Error("Publication date must be in the future")
+            }
+            if (exam.endTime && input.publishAt >= exam.endTime) {
+                throw new Error("Publication date must be before the exam end time")
+            }
+        }
+
+        exam.schedule = schedule.publishAt || schedule.autoClose || schedule.autoArchive ? schedule : undefined
+        return repo.save(exam)
+    }
+
+    /**
+     * Annule toute programmation d'un examen
+     */
+    static async cancelSchedule(examId: string, userId: string, userRole: UserRole) {
+        const repo = new ExamScheduleRepository()
+        const exam = await repo.findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        this.checkScheduleAccess(exam, userId, userRole)
+
+        exam.schedule = undefined
+        return repo.save(exam)
+    }
+
+    /**
+     * Date de clôture d'un examen : fin de l'examen + période de retard
+     */
+    static closingTime(exam: Pick<IExam, 'endTime'> & { config?: { lateDuration?: number } }): Date {
+        return new Date(exam.endTime.getTime() + (exam.config?.lateDuration || 0) * 60 * 1000)
+    }
+
+    /**
+     * Exécute les publications, clôtures et archivages échus
+     * Chaque tâche est réservée atomiquement : plusieurs instances du planificateur
+     * peuvent tourner sans publier deux fois le même examen.
+     */
+    static async runDueTasks(now: Date = new Date()): Promise<ScheduledRunResult> {
+        const repo = new ExamScheduleRepository()
+        const result: ScheduledRunResult = { published: [], closed: [], archived: [] }
+
+        for (const due of await repo.findDuePublications(now)) {
+            await this.runTask('publish', due._id, async () => {
+                if (!await repo.claimPublication(due._id, due.schedule!.publishAt!)) return
+                const exam = await repo.findById(due._id)
+                if (!exam) return
+
+                // Examen validé après sa date de fin : rien à publier
+                if (exam.endTime && exam.endTime <= now) {
+                    console.warn(`[ExamSchedule] Exam ${exam._id} ended before its scheduled publication`)
+                    return
+                }
+
+                await ExamWorkflowService.completePublication(exam, exam.schedule?.scheduledBy.toString(), true)
+                result.published.push(exam._id.toString())
+            })
+        }
+
+        for (const due of await repo.findClosable(now)) {
+            const closedAt = this.closingTime(due)
+            if (closedAt > now) continue
+
+            await this.runTask('close', due._id, async () => {
+                if (!await repo.claimClosing(due._id, closedAt)) return
+                const exam = await repo.findById(due._id)
+                if (!exam) return
+
+                await this.completeClosing(repo, exam)
+                result.closed.push(exam._id.toString())
+            })
+        }
+
+        for (const due of await repo.findArchivable(now)) {
+            const archiveAt = new Date(due.closedAt!.getTime() + (due.schedule?.archiveDelay || 0) * 60 * 60 * 1000)
+            if (archiveAt > now) continue
+
+            await this.runTask('archive', due._id, async () => {
+                if (!await repo.claimArchiving(due._id)) return
+                const exam = await repo.findById(due._id)
+                if (!exam) return
+
+                await ExamWorkflowService.completeArchive(exam, undefined, true)
+                result.archived.push(exam._id.toString())
+            })
+        }
+
+        return result
+    }
+
+    /**
+     * Clôture un examen publié (closedAt déjà réservé)
+     */
+    private static async completeClosing(repo: ExamScheduleRepository, exam: IExam) {
+        exam.recordTransition(ExamWorkflowAction.CLOSE, ExamStatus.PUBLISHED, undefined, 'Clôture automatique')
+        await repo.save(exam)
+
+        await publishEvent({
+            type: EventType.EXAM_CLOSED,
+            data: {
+                examId: exam._id,
+                title: exam.title,
+                closedAt: exam.closedAt,
+                autoArchive: exam.schedule?.autoArchive ?? false
+            },
+            timestamp: new Date()
+        })
+    }
+
+    /**
+     * Exécute une tâche sans interrompre les suivantes en cas d'erreur
+     */
+    private static async runTask(task: string, examId: mongoose.Types.ObjectId, run: () => Promise<void>) {
+        try {
+            await run()
+        } catch (error) {
+            console.error(`[ExamSchedule] Failed to ${task} exam ${examId}:`, error)
+        }
+    }
+
+    /**
+     * Mêmes droits que la publication : créateur, validateur ou inspecteur
+     */
+    private static checkScheduleAccess(exam: IExam, userId: string, userRole: UserRole) {
+        const isCreator = exam.createdById.toString() === userId
+        const isValidator = exam.validatedBy?.toString() === userId
+        const isInspector = userRole === UserRole.INSPECTOR
+
+        if (!isCreator && !isValidator && !isInspector) {
+            throw new Error("Unauthorized: Only creator, validator, or inspector can schedule an exam")
+        }
+    }
+}
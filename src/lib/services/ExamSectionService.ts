@@ -0,0 +1,125 @@
+import mongoose from "mongoose"
+import { IExam, ExamSection } from "@/models/Exam"
+import { EvaluationType, ExamStatus } from "@/models/enums"
+import { ExamSectionRepository } from "@/lib/repositories/ExamSectionRepository"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
+
+export interface ExamSectionInput {
+    _id?: string // Partie existante (conserve son identifiant)
+    title: string
+    instructions?: string
+    duration: number
+    points?: number
+    shuffleQuestions?: boolean
+    shuffleOptions?: boolean
+    allowBackNavigation?: boolean
+    questionIds: string[]
+}
+
+/**
+ * Service des parties d'examen (épreuves type BEPC, Probatoire, Bac)
+ * Un examen peut être découpé en parties ordonnées, chacune avec sa durée, son
+ * barème, ses règles de mélange et de navigation. Le déroulement des parties
+ * pendant une tentative est géré par AttemptService.
+ */
+export class ExamSectionService {
+    /**
+     * Définit les parties d'un examen en brouillon et y répartit ses questions
+     * L'ordre des parties est celui de la liste ; une liste vide supprime le découpage.
+     */
+    static async setSections(examId: string, userId: string, sections: ExamSectionInput[]) {
+        const repo = new ExamSectionRepository()
+
+        const exam = await repo.findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam author can define its sections")
+        }
+        if (exam.status !== ExamStatus.DRAFT) {
+            throw new Error("Sections can only be changed on draft exams")
+        }
+        if (sections.length > 0) this.assertSectionsSupported(exam)
+
+        const examQuestionIds = new Set((await repo.findExamQuestions(exam._id)).map(q => q._id.toString()))
+        const assigned = new Set<string>()
+        for (const section of sections) {
+            for (const questionId of section.questionIds) {
+                if (!examQuestionIds.has(questionId)) {
+                    throw new Error(`Question ${questionId} not found in this exam`)
+                }
+                if (assigned.has(questionId)) {
+                    throw new Error(`Question ${questionId} is assigned to more than one section`)
+                }
+                assigned.add(questionId)
+            }
+        }
+
+        const documents = sections.map((section, index): ExamSection => ({
+            _id: section._id ? new mongoose.Types.ObjectId(section._id) : new mongoose.Types.ObjectId(),
+            title: section.title,
+            instructions: section.instructions,
+            order: index + 1,
+            duration: section.duration,
+            points: section.points,
+            shuffleQuestions: section.shuffleQuestions ?? false,
+            shuffleOptions: section.shuffleOptions ?? false,
+            allowBackNavigation: section.allowBackNavigation ?? true
+        }))
+
+        exam.sections = documents
+        if (documents.length > 0) {
+            exam.duration = documents.reduce((total, section) => total + section.duration, 0)
+        }
+        await repo.saveExam(exam)
+
+        await repo.assignQuestions(exam._id, documents.map((section, index) => ({
+            sectionId: section._id,
+            questionIds: sections[index].questionIds.map(id => new mongoose.Types.ObjectId(id))
+        })))
+        await ExamVersionService.snapshot(examId, userId, 'sections')
+
+        return exam
+    }
+
+    /**
+     * Vérifie qu'un examen découpé en parties peut être soumis : chaque question
+     * appartient à une partie et chaque partie respecte son barème
+     */
+    static async assertSectionsComplete(exam: IExam) {
+        if (!exam.sections?.length) return
+        this.assertSectionsSupported(exam)
+
+        const questions = await new ExamSectionRepository().findExamQuestions(exam._id)
+        const sectionIds = new Set(exam.sections.map(section => section._id.toString()))
+
+        const unassigned = questions.filter(q => !q.sectionId || !sectionIds.has(q.sectionId.toString())).length
+        if (unassigned > 0) {
+            throw new Error(`${unassigned} question(s) are not assigned to a section`)
+        }
+
+        for (const section of exam.sections) {
+            const sectionQuestions = questions.filter(q => q.sectionId!.toString() === section._id.toString())
+            if (sectionQuestions.length === 0) {
+                throw new Error(`Section "${section.title}" has no questions`)
+            }
+
+            const points = sectionQuestions.reduce((total, q) => total + (q.points || 1), 0)
+            if (section.points !== undefined && section.points !== null && points !== section.points) {
+                throw new Error(`Section "${section.title}" questions are worth ${points} point(s), ${section.points} expected`)
+            }
+        }
+    }
+
+    /**
+     * Les parties imposent l'ordre des questions : incompatibles avec le tirage
+     * aléatoire et les examens adaptatifs
+     */
+    private static assertSectionsSupported(exam: IExam) {
+        if (exam.evaluationType === EvaluationType.ADAPTIVE) {
+            throw new Error("Adaptive exams cannot be split into sections")
+        }
+        if (exam.config?.questionPool?.enabled) {
+            throw new Error("Exams with a question pool cannot be split into sections")
+        }
+    }
+}
@@ -1,7 +1,8 @@
 import { IExam } from "@/models/Exam"
-import { ExamStatus, EvaluationType, DifficultyLevel, PedagogicalObjective, CloseMode } from "@/models/enums"
-import { EvaluationStrategyFactory } from "@/lib/patterns/EvaluationStrategy"
+import { ExamStatus, ExamWorkflowAction, EvaluationType, DifficultyLevel, PedagogicalObjective, CloseMode } from "@/models/enums"
+import { ClozeEvaluationStrategy, EvaluationStrategyFactory, MathExpressionEvaluationStrategy } from "@/lib/patterns/EvaluationStrategy"
 import mongoose from "mongoose"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
 
 // Helper to get models after DB connection
 const getExamModel = () => {
@@ -101,7 +102,13 @@ export class ExamServiceV2 {
             // Fetch options for each question if needed
             // Load options for all question types that might have them
             const questionsWithOptions = await Promise.all(questions.map(async (q: any) => {
-                const typesWithOptions = [EvaluationType.QCM, EvaluationType.TRUE_FALSE, EvaluationType.MIXED]
+                const typesWithOptions = [
+                    EvaluationType.QCM,
+                    EvaluationType.TRUE_FALSE,
+                    EvaluationType.MIXED,
+                    EvaluationType.MATCHING,
+                    EvaluationType.ORDERING
+                ]
                 if (typesWithOptions.includes(q.type) || !q.type) {
                     const Option = (await import("@/models/Option")).default
                     const options = await Option.find({ questionId: q._id }).sort({ order: 1 }).lean()
@@ -162,6 +169,40 @@ export class ExamServiceV2 {
             throw new Error("Title and subject are required")
         }
 
+        // Les questions numériques doivent définir leur valeur attendue
+        const invalidNumeric = examData.questions?.find(
+            q => q.type === EvaluationType.NUMERIC && typeof q.numericConfig?.answer !== 'number'
+        )
+        if (invalidNumeric) {
+            throw new Error("Numeric questions require numericConfig.answer")
+        }
+
+        // Les expressions mathématiques doivent définir une expression attendue lisible
+        const invalidMath = examData.questions?.find(
+            q => q.type === EvaluationType.MATH_EXPRESSION &&
+                !MathExpressionEvaluationStrategy.isValidExpression(q.mathConfig?.answer)
+        )
+        if (invalidMath) {
+            throw new Error("Math expression questions require a valid mathConfig.answer")
+        }
+
+        // Les questions d'association ont besoin d'au moins deux paires complètes
+        const invalidMatching = examData.questions?.find(
+            q => q.type === EvaluationType.MATCHING &&
+                (q.options || []).filter((opt: any) => opt.text && opt.matchText).length < 2
+        )
+        if (invalidMatching) {
+            throw new Error("Matching questions require at least two pairs (text and matchText)")
+        }
+
+        // Les textes à trous doivent définir chaque trou {{id}} présent dans le texte
+        const invalidCloze = examData.questions?.find(
+            q => q.type === EvaluationType.CLOZE && !ClozeEvaluationStrategy.isValidConfig(q.text, q.clozeConfig)
+        )
+        if (invalidCloze) {
+            throw new Error("Cloze questions require clozeConfig.blanks matching the {{id}} placeholders of the text")
+        }
+
         // Normalize legacy enum values
         this.normalizeLegacyEnums(examData)
 
@@ -193,7 +234,11 @@ export class ExamServiceV2 {
                         preventScreenshot: examData.config?.antiCheat?.preventScreenshot ?? false,
                         webcamRequired: examData.config?.antiCheat?.webcamRequired ?? false,
                         maxTabSwitches: examData.config?.antiCheat?.maxTabSwitches ?? 3
-                    }
+                    },
+                    questionPool: examData.config?.questionPool,
+                    adaptive: examData.config?.adaptive,
+                    hints: examData.config?.hints,
+                    negativeMarking: examData.config?.negativeMarking
                 },
                 stats: {
                     totalAttempts: 0,
@@ -215,13 +260,26 @@ export class ExamServiceV2 {
                     const createdQuestion = await Question.create({
                         examId: createdExam._id,
                         text: qData.text,
+                        imageUrl: qData.imageUrl,
+                        audioUrl: qData.audioUrl,
                         type: qData.type,
                         points: qData.points,
                         difficulty: qData.difficulty,
+                        irt: qData.irt,
                         timeLimit: qData.timeLimit,
+                        wrongAnswerPenalty: qData.wrongAnswerPenalty,
                         correctAnswer: qData.correctAnswer,
                         modelAnswer: qData.modelAnswer,
                         openQuestionConfig: qData.openQuestionConfig,
+                        qcmConfig: qData.qcmConfig,
+                        numericConfig: qData.numericConfig,
+                        mathConfig: qData.mathConfig,
+                        clozeConfig: qData.clozeConfig,
+                        explanation: qData.explanation,
+                        hints: qData.hints,
+                        tags: qData.tags,
+                        concepts: qData.concepts,
+                        competencyCriteria: qData.competencyCriteria,
                         order: i,
                         stats: {
                             timesAsked: 0,
@@ -243,6 +301,8 @@ export class ExamServiceV2 {
                                     questionId: createdQuestion._id,
                                     text: opt.text,
                                     isCorrect: opt.isCorrect,
+                                    imageUrl: opt.imageUrl,
+                                    explanation: opt.explanation,
                                     order: idx,
                                     stats: {
                                         timesSelected: 0,
@@ -277,6 +337,28 @@ export class ExamServiceV2 {
                             await Option.create(optionsToCreate)
                         }
                     }
+
+                    // Association : chaque option est une paire (text, matchText)
+                    // Classement : les options sont saisies dans l'ordre attendu
+                    if (qData.type === EvaluationType.MATCHING || qData.type === EvaluationType.ORDERING) {
+                        const optionsToCreate = (qData.options || [])
+                            .filter((opt: any) => opt.text && opt.text.trim() !== '')
+                            .map((opt: any, idx: number) => ({
+                                questionId: createdQuestion._id,
+                                text: opt.text,
+                                isCorrect: false,
+                                matchText: qData.type === EvaluationType.MATCHING ? opt.matchText : undefined,
+                                correctPosition: qData.type === EvaluationType.ORDERING ? idx : undefined,
+                                imageUrl: opt.imageUrl,
+                                explanation: opt.explanation,
+                                order: idx,
+                                stats: { timesSelected: 0, selectionRate: 0 }
+                            }))
+
+                        if (optionsToCreate.length > 0) {
+                            await Option.create(optionsToCreate)
+                        }
+                    }
                 }
             }
 
@@ -314,10 +396,9 @@ export class ExamServiceV2 {
         this.normalizeLegacyEnums(updateData)
         this.cleanupObjectIdFields(updateData)
 
-        // Incrémenter la version si modification majeure
-        if ((updateData as any).questions || updateData.config) {
-            updateData.version = (exam.version || 1) + 1
-        }
+        // La version est attribuée par les instantanés (ExamVersionService)
+        delete updateData.version
+        delete updateData.previousVersions
 
         const updatedExam = await Exam.findByIdAndUpdate(
             id,
@@ -328,6 +409,9 @@ export class ExamServiceV2 {
             .populate('subject', 'name code')
             .populate('learningUnit', 'name code')
 
+        const snapshot = await ExamVersionService.snapshot(id, userId, 'update')
+        if (updatedExam && snapshot) updatedExam.version = snapshot.version
+
         return updatedExam
     }
 
@@ -345,9 +429,14 @@ export class ExamServiceV2 {
         }
 
         // Soft delete: changer le statut à ARCHIVED
+        const previousStatus = exam.status
         exam.status = ExamStatus.ARCHIVED
         exam.isPublished = false
+        if (previousStatus !== ExamStatus.ARCHIVED) {
+            exam.recordTransition(ExamWorkflowAction.ARCHIVE, previousStatus, userId)
+        }
         await exam.save()
+        await ExamVersionService.snapshot(id, userId, 'archive')
 
         return { success: true, message: "Exam archived successfully" }
     }
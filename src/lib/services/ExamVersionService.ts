@@ -0,0 +1,266 @@
+import mongoose from "mongoose"
+import { ExamStatus, ExamWorkflowAction } from "@/models/enums"
+import { ExamVersionQuestion, IExamVersion } from "@/models/ExamVersion"
+import { ExamVersionRepository } from "@/lib/repositories/ExamVersionRepository"
+
+/**
+ * Différence sur un champ entre deux versions
+ */
+export interface FieldChange {
+    path: string
+    before: unknown
+    after: unknown
+}
+
+// Champs qui ne décrivent pas le contenu (compteurs, cycle de vie, historique, horodatage)
+const EXCLUDED_EXAM_FIELDS = [
+    '_id', '__v', 'stats', 'version', 'previousVersions',
+    'status', 'isPublished', 'publishedAt', 'validatedBy', 'validatedAt', 'workflowHistory', 'validationProgress',
+    'schedule', 'closedAt', 'createdAt', 'updatedAt'
+]
+const EXCLUDED_QUESTION_FIELDS = ['__v', 'stats', 'examId', 'createdAt', 'updatedAt']
+const EXCLUDED_OPTION_FIELDS = ['__v', 'stats', 'questionId', 'createdAt', 'updatedAt']
+
+// Documents d'un instantané sous forme JSON (identifiants en chaînes)
+type PlainDoc = { _id: string; text?: string } & Record<string, any>
+type PlainQuestion = PlainDoc & { options: PlainDoc[] }
+
+function omit(doc: Record<string, any>, fields: string[]) {
+    return Object.fromEntries(Object.entries(doc).filter(([key]) => !fields.includes(key)))
+}
+
+/**
+ * Forme JSON (identifiants et dates en chaînes) pour comparer des documents
+ */
+function toPlain(value: unknown): any {
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value))
+}
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`)
+            .join(',')}}`
+    }
+    return JSON.stringify(value) ?? 'null'
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+/**
+ * Différences champ par champ ; les tableaux sont comparés comme des valeurs
+ */
+function diffFields(before: unknown, after: unknown, path = ''): FieldChange[] {
+    if (isPlainObject(before) && isPlainObject(after)) {
+        const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+        return keys.flatMap(key => diffFields(before[key], after[key], path ? `${path}.${key}` : key))
+    }
+    return stableStringify(before) === stableStringify(after) ? [] : [{ path, before, after }]
+}
+
+/**
+ * Éléments ajoutés, retirés et modifiés entre deux listes identifiées par _id
+ */
+function diffById<T extends { _id: string }, R>(
+    before: T[],
+    after: T[],
+    compare: (before: T, after: T) => R | null
+) {
+    const beforeById = new Map(before.map(item => [item._id, item]))
+    const afterById = new Map(after.map(item => [item._id, item]))
+
+    return {
+        added: after.filter(item => !beforeById.has(item._id)),
+        removed: before.filter(item => !afterById.has(item._id)),
+        changed: after
+            .filter(item => beforeById.has(item._id))
+            .map(item => compare(beforeById.get(item._id)!, item))
+            .filter((change): change is R => change !== null)
+    }
+}
+
+/**
+ * Service des versions d'examen
+ * Chaque enregistrement d'un examen hors brouillon produit un instantané immuable
+ * (examen, questions, options). Les tentatives enregistrent la version utilisée,
+ * ce qui permet de recorriger ou d'arbitrer une contestation avec la bonne clé de correction.
+ */
+export class ExamVersionService {
+    /**
+     * Crée un instantané de l'état courant de l'examen
+     * Rien n'est créé pour un brouillon ni lorsque le contenu n'a pas changé depuis le dernier instantané.
+     */
+    static async snapshot(examId: string, userId?: string, reason?: string): Promise<IExamVersion | null> {
+        const repo = new ExamVersionRepository()
+
+        const content = await repo.findExamContent(examId)
+        if (!content || content.exam.status === ExamStatus.DRAFT) return null
+
+        const exam = omit(content.exam, EXCLUDED_EXAM_FIELDS)
+        const questions: ExamVersionQuestion[] = content.questions.map(question => ({
+            ...omit(question, EXCLUDED_QUESTION_FIELDS),
+            _id: question._id,
+            options: content.options
+                .filter(opt => opt.questionId.toString() === question._id.toString())
+                .map(opt => ({ ...omit(opt, EXCLUDED_OPTION_FIELDS), _id: opt._id }))
+        }))
+
+        const latest = await repo.findLatest(examId)
+        if (latest && stableStringify(toPlain({ exam, questions })) ===
+            stableStringify(toPlain({ exam: latest.exam, questions: latest.questions }))) {
+            return latest
+        }
+
+        const version = latest ? Math.max(latest.version + 1, content.exam.version || 1) : content.exam.version || 1
+        try {
+            return await repo.createSnapshot({
+                examId: content.exam._id,
+                version,
+                exam,
+                questions,
+                createdBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+                reason
+            })
+        } catch (error: any) {
+            // Instantané concurrent du même état : on réutilise celui qui a été enregistré
+            if (error.code === 11000) return repo.findByVersion(examId, version)
+            throw error
+        }
+    }
+
+    /**
+     * Instantané de la version courante, créé s'il n'existe pas encore (examens antérieurs au versionnage)
+     */
+    static async currentSnapshot(examId: string, version: number): Promise<IExamVersion | null> {
+        const existing = await new ExamVersionRepository().findByVersion(examId, version)
+        return existing ?? this.snapshot(examId, undefined, 'attempt')
+    }
+
+    /**
+     * Liste des versions d'un examen (sans contenu)
+     */
+    static async listVersions(examId: string, userId: string) {
+        const repo = new ExamVersionRepository()
+        await this.checkAuthor(repo, examId, userId)
+        return repo.listVersions(examId)
+    }
+
+    /**
+     * Contenu complet d'une version
+     */
+    static async getVersion(examId: string, version: number, userId: string) {
+        const repo = new ExamVersionRepository()
+        await this.checkAuthor(repo, examId, userId)
+
+        const snapshot = await repo.findByVersion(examId, version)
+        if (!snapshot) throw new Error(`Exam version ${version} not found`)
+        return snapshot
+    }
+
+    /**
+     * Compare deux versions champ par champ (examen, questions et options)
+     */
+    static async diffVersions(examId: string, from: number, to: number, userId: string) {
+        const repo = new ExamVersionRepository()
+        await this.checkAuthor(repo, examId, userId)
+
+        const [before, after] = await Promise.all([repo.findByVersion(examId, from), repo.findByVersion(examId, to)])
+        if (!before) throw new Error(`Exam version ${from} not found`)
+        if (!after) throw new Error(`Exam version ${to} not found`)
+
+        const beforeQuestions = toPlain(before.questions) as PlainQuestion[]
+        const afterQuestions = toPlain(after.questions) as PlainQuestion[]
+        const summary = (question: PlainQuestion) => ({ questionId: question._id, text: question.text })
+
+        const questions = diffById(beforeQuestions, afterQuestions, (previous, next) => {
+            const changes = diffFields(omit(previous, ['_id', 'options']), omit(next, ['_id', 'options']))
+            const options = diffById(previous.options, next.options, (previousOption, nextOption) => {
+                const optionChanges = diffFields(omit(previousOption, ['_id']), omit(nextOption, ['_id']))
+                return optionChanges.length > 0
+                    ? { optionId: nextOption._id, text: nextOption.text, changes: optionChanges }
+                    : null
+            })
+
+            const optionsChanged = options.added.length + options.removed.length + options.changed.length > 0
+            if (changes.length === 0 && !optionsChanged) return null
+
+            return {
+                ...summary(next),
+                changes,
+                options: {
+                    added: options.added.map(opt => ({ optionId: opt._id, text: opt.text })),
+                    removed: options.removed.map(opt => ({ optionId: opt._id, text: opt.text })),
+                    changed: options.changed
+                }
+            }
+        })
+
+        return {
+            from,
+            to,
+            exam: diffFields(toPlain(before.exam), toPlain(after.exam)),
+            questions: {
+                added: questions.added.map(summary),
+                removed: questions.removed.map(summary),
+                changed: questions.changed
+            }
+        }
+    }
+
+    /**
+     * Restaure le contenu d'une version dans l'examen, qui repasse en brouillon
+     * Refusé pour un examen publié ou déjà passé : les réponses des élèves
+     * référencent les questions de la version qu'ils ont passée.
+     */
+    static async restoreVersion(examId: string, version: number, userId: string) {
+        const repo = new ExamVersionRepository()
+        const exam = await this.checkAuthor(repo, examId, userId)
+
+        if (exam.status === ExamStatus.PUBLISHED) {
+            throw new Error("Cannot restore a version of a published exam")
+        }
+        if (await repo.countAttempts(examId) > 0) {
+            throw new Error("Cannot restore a version of an exam that already has attempts; duplicate it instead")
+        }
+
+        const snapshot = await repo.findByVersion(examId, version)
+        if (!snapshot) throw new Error(`Exam version ${version} not found`)
+
+        const clearedFields = ['validatedBy', 'validatedAt', 'publishedAt', 'validationProgress', 'schedule', 'closedAt']
+        const examFields = {
+            // Les instantanés antérieurs peuvent contenir les champs du cycle de vie
+            ...omit(snapshot.exam, ['createdById', ...EXCLUDED_EXAM_FIELDS]),
+            status: ExamStatus.DRAFT,
+            isPublished: false
+        }
+        const questions = snapshot.questions.map(question => ({ ...omit(question, ['options']), examId: exam._id }))
+        const options = snapshot.questions.flatMap(question =>
+            question.options.map(opt => ({ ...opt, questionId: question._id }))
+        )
+
+        const transition = exam.status !== ExamStatus.DRAFT ? {
+            action: ExamWorkflowAction.RESTORE,
+            from: exam.status,
+            to: ExamStatus.DRAFT,
+            performedBy: new mongoose.Types.ObjectId(userId),
+            comment: `Version ${version}`,
+            at: new Date()
+        } : undefined
+
+        const restored = await repo.replaceExamContent(examId, examFields, clearedFields, questions, options, transition)
+        return { exam: restored, restoredVersion: version }
+    }
+
+    private static async checkAuthor(repo: ExamVersionRepository, examId: string, userId: string) {
+        const exam = await repo.findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam author can manage its versions")
+        }
+        return exam
+    }
+}
@@ -1,12 +1,18 @@
-import Exam, { IExam } from "@/models/Exam"
+import Exam, { ExamValidationProgress, IExam } from "@/models/Exam"
 import Question from "@/models/Question"
-import PedagogicalProfile from "@/models/PedagogicalProfile"
-import { ExamStatus, UserRole } from "@/models/enums"
+import PedagogicalProfile, { IPedagogicalProfile } from "@/models/PedagogicalProfile"
+import { ValidationStep } from "@/models/ValidationPolicy"
+import { ExamStatus, ExamWorkflowAction, UserRole } from "@/models/enums"
 import { AccessHandlerChain, AccessRequest } from "@/lib/patterns/AccessHandler"
 import { publishEvent } from "@/lib/events/EventPublisher"
 import { EventType } from "@/lib/events/types"
 import mongoose from "mongoose"
 import { ExamRepository } from "@/lib/repositories/ExamRepository"
+import { ExamVersionService } from "@/lib/services/ExamVersionService"
+import { BlueprintService } from "@/lib/services/BlueprintService"
+import { ExamSectionService } from "@/lib/services/ExamSectionService"
+import { ValidationPolicyService } from "@/lib/services/ValidationPolicyService"
+import { ExamReviewRepository } from "@/lib/repositories/ExamReviewRepository"
 
 /**
  * Service pour gérer le workflow de validation et publication des examens
@@ -37,9 +43,35 @@ export class ExamWorkflowService {
             throw new Error("Cannot submit exam without questions")
         }
 
+        // Vérifier que le pool contient assez de questions pour chaque règle de tirage
+        const pool = exam.config?.questionPool
+        if (pool?.enabled) {
+            if (!pool.rules?.length) {
+                throw new Error("Question pool is enabled but has no draw rules")
+            }
+            for (const rule of pool.rules) {
+                const available = await Question.countDocuments({ examId: exam._id, difficulty: rule.difficulty })
+                if (available < rule.count) {
+                    throw new Error(`Question pool has only ${available} ${rule.difficulty} question(s), ${rule.count} required`)
+                }
+            }
+        }
+
+        // Vérifier la couverture du tableau de spécification rattaché
+        await BlueprintService.assertExamCoversBlueprint(exam)
+
+        // Vérifier la répartition des questions dans les parties de l'examen
+        await ExamSectionService.assertSectionsComplete(exam)
+
+        // Circuit de validation de la politique applicable (validation unique sinon)
+        const policy = await ValidationPolicyService.resolvePolicy(exam)
+        exam.validationProgress = policy ? ValidationPolicyService.startProgress(policy) : undefined
+
         // Mettre à jour le statut
         exam.status = ExamStatus.PENDING_VALIDATION
+        exam.recordTransition(ExamWorkflowAction.SUBMIT, ExamStatus.DRAFT, userId)
         await exam.save()
+        await ExamVersionService.snapshot(examId, userId, 'submit')
 
         // Publier un événement
         await publishEvent({
@@ -59,8 +91,10 @@ export class ExamWorkflowService {
     /**
      * Valide un examen (Inspector/Teacher avec permissions)
      * PENDING_VALIDATION → VALIDATED
+     * Avec une politique à plusieurs étapes, chaque appel enregistre l'approbation
+     * d'une étape ouverte ; l'examen n'est validé qu'une fois toutes les étapes approuvées.
      */
-    static async validateExam(examId: string, userId: string, userRole: UserRole) {
+    static async validateExam(examId: string, userId: string, userRole: UserRole, comment?: string) {
         const exam = await Exam.findById(examId)
             .populate('subject')
             .populate('targetLevels')
@@ -73,25 +107,139 @@ export class ExamWorkflowService {
             throw new Error(`Cannot validate exam with status ${exam.status}`)
         }
 
+        // Circuit dont toutes les étapes sont déjà approuvées (validation interrompue) :
+        // un validateur du circuit peut terminer la validation
+        const progress = exam.validationProgress
+        const completed = !!progress?.steps.length && this.openSteps(progress).length === 0
+
         // Vérifier les permissions avec AccessHandler
-        const hasAccess = await this.checkValidationAccess(userId, userRole, exam)
+        const hasAccess = await this.checkValidationAccess(userId, userRole, exam, { anyStep: completed })
         if (!hasAccess) {
             throw new Error("Unauthorized: You don't have permission to validate this exam")
         }
 
-        // Mettre à jour le statut
-        exam.status = ExamStatus.VALIDATED
-        exam.validatedBy = new mongoose.Types.ObjectId(userId)
-        exam.validatedAt = new Date()
-        await exam.save()
+        if (progress?.steps.length && !completed) {
+            const { step, exam: approved } = await this.approveStep(exam, userId, userRole, comment)
+            const openSteps = this.openSteps(approved.validationProgress!)
+
+            if (openSteps.length > 0) {
+                await publishEvent({
+                    type: EventType.EXAM_VALIDATION_STEP_APPROVED,
+                    data: {
+                        examId: approved._id,
+                        approvedBy: userId,
+                        title: approved.title,
+                        step: step.name,
+                        remainingSteps: openSteps.map(s => s.name)
+                    },
+                    userId: new mongoose.Types.ObjectId(userId),
+                    timestamp: new Date()
+                })
+
+                return approved
+            }
+        }
+
+        // Mettre à jour le statut, une seule fois si plusieurs validateurs terminent en même temps
+        const validated = await Exam.findOneAndUpdate(
+            { _id: exam._id, status: ExamStatus.PENDING_VALIDATION },
+            {
+                $set: {
+                    status: ExamStatus.VALIDATED,
+                    validatedBy: new mongoose.Types.ObjectId(userId),
+                    validatedAt: new Date()
+                }
+            },
+            { new: true }
+        )
+        if (!validated) {
+            const current = await Exam.findById(examId)
+            if (!current) throw new Error("Exam not found")
+            if (current.status !== ExamStatus.VALIDATED) {
+                throw new Error(`Cannot validate exam with status ${current.status}`)
+            }
+            return current
+        }
+
+        validated.recordTransition(ExamWorkflowAction.VALIDATE, ExamStatus.PENDING_VALIDATION, userId, comment)
+        await validated.save()
+        await ExamVersionService.snapshot(examId, userId, 'validate')
 
         // Publier un événement
         await publishEvent({
             type: EventType.EXAM_VALIDATED,
             data: {
-                examId: exam._id,
+                examId: validated._id,
                 validatedBy: userId,
-                title: exam.title
+                title: validated.title
+            },
+            userId: new mongoose.Types.ObjectId(userId),
+            timestamp: new Date()
+        })
+
+        return validated
+    }
+
+    /**
+     * Rejette un examen ou demande des modifications à son auteur
+     * PENDING_VALIDATION → DRAFT
+     * Le motif et les remarques par question sont enregistrés comme commentaires de revue.
+     */
+    static async rejectExam(
+        examId: string,
+        userId: string,
+        userRole: UserRole,
+        reason: string,
+        questionComments: { questionId: string; content: string }[] = []
+    ) {
+        const exam = await Exam.findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        // Vérifier que l'examen est en PENDING_VALIDATION
+        if (exam.status !== ExamStatus.PENDING_VALIDATION) {
+            throw new Error(`Cannot reject exam with status ${exam.status}`)
+        }
+
+        // Vérifier les permissions avec AccessHandler
+        const hasAccess = await this.checkValidationAccess(userId, userRole, exam)
+        if (!hasAccess) {
+            throw new Error("Unauthorized: You don't have permission to review this exam")
+        }
+
+        // Vérifier que les questions commentées appartiennent à l'examen
+        const questionIds = [...new Set(questionComments.map(c => c.questionId))]
+        if (questionIds.length > 0) {
+            const count = await Question.countDocuments({ _id: { $in: questionIds }, examId: exam._id })
+            if (count !== questionIds.length) throw new Error("One or more questions not found in this exam")
+        }
+
+        // Retour en brouillon
+        exam.status = ExamStatus.DRAFT
+        exam.validatedBy = undefined
+        exam.validatedAt = undefined
+        exam.validationProgress = undefined
+        exam.recordTransition(ExamWorkflowAction.REJECT, ExamStatus.PENDING_VALIDATION, userId, reason)
+        await exam.save()
+
+        const comments = await new ExamReviewRepository().createMany(
+            [{ content: reason }, ...questionComments].map(comment => ({
+                examId: exam._id,
+                questionId: 'questionId' in comment ? new mongoose.Types.ObjectId(comment.questionId) : undefined,
+                authorId: new mongoose.Types.ObjectId(userId),
+                content: comment.content,
+                examVersion: exam.version
+            }))
+        )
+
+        // Publier un événement
+        await publishEvent({
+            type: EventType.EXAM_REJECTED,
+            data: {
+                examId: exam._id,
+                rejectedBy: userId,
+                title: exam.title,
+                reason,
+                commentCount: comments.length
             },
             userId: new mongoose.Types.ObjectId(userId),
             timestamp: new Date()
@@ -127,27 +275,7 @@ export class ExamWorkflowService {
             throw new Error("Start time must be before end time")
         }
 
-        // Mettre à jour le statut
-        exam.status = ExamStatus.PUBLISHED
-        exam.isPublished = true
-        exam.publishedAt = new Date()
-        await exam.save()
-
-        // Publier un événement
-        await publishEvent({
-            type: EventType.EXAM_PUBLISHED,
-            data: {
-                examId: exam._id,
-                publishedBy: userId,
-                title: exam.title,
-                startTime: exam.startTime,
-                endTime: exam.endTime
-            },
-            userId: new mongoose.Types.ObjectId(userId),
-            timestamp: new Date()
-        })
-
-        return exam
+        return this.completePublication(exam, userId)
     }
 
     /**
@@ -172,10 +300,50 @@ export class ExamWorkflowService {
             throw new Error("Unauthorized: Only creator or admin can archive")
         }
 
-        // Mettre à jour le statut
+        return this.completeArchive(exam, userId)
+    }
+
+    /**
+     * Publie un examen dont les contrôles ont été faits (manuellement ou par la programmation)
+     * VALIDATED → PUBLISHED
+     */
+    static async completePublication(exam: IExam, userId?: string, scheduled = false) {
+        exam.status = ExamStatus.PUBLISHED
+        exam.isPublished = true
+        exam.publishedAt = new Date()
+        if (exam.schedule) exam.schedule.publishAt = undefined
+        exam.recordTransition(ExamWorkflowAction.PUBLISH, ExamStatus.VALIDATED, userId, scheduled ? 'Publication programmée' : undefined)
+        await exam.save()
+        await ExamVersionService.snapshot(exam._id.toString(), userId, 'publish')
+
+        // Publier un événement
+        await publishEvent({
+            type: EventType.EXAM_PUBLISHED,
+            data: {
+                examId: exam._id,
+                publishedBy: userId,
+                title: exam.title,
+                startTime: exam.startTime,
+                endTime: exam.endTime,
+                scheduled
+            },
+            userId: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+            timestamp: new Date()
+        })
+
+        return exam
+    }
+
+    /**
+     * Archive un examen dont les contrôles ont été faits (manuellement ou par la programmation)
+     * PUBLISHED → ARCHIVED
+     */
+    static async completeArchive(exam: IExam, userId?: string, scheduled = false) {
         exam.status = ExamStatus.ARCHIVED
         exam.isPublished = false
-        await repo.save(exam)
+        exam.recordTransition(ExamWorkflowAction.ARCHIVE, ExamStatus.PUBLISHED, userId, scheduled ? 'Archivage automatique' : undefined)
+        await new ExamRepository().save(exam)
+        await ExamVersionService.snapshot(exam._id.toString(), userId, 'archive')
 
         // Publier un événement
         await publishEvent({
@@ -183,9 +351,10 @@ export class ExamWorkflowService {
             data: {
                 examId: exam._id,
                 archivedBy: userId,
-                title: exam.title
+                title: exam.title,
+                scheduled
             },
-            userId: new mongoose.Types.ObjectId(userId),
+            userId: userId ? new mongoose.Types.ObjectId(userId) : undefined,
             timestamp: new Date()
         })
 
@@ -195,12 +364,21 @@ export class ExamWorkflowService {
     /**
      * Vérifie si un utilisateur peut valider un examen
      * Utilise le Chain of Responsibility pattern
+     * Avec une politique à plusieurs étapes, l'utilisateur doit être éligible à une
+     * étape ouverte (ou à une étape quelconque du circuit avec anyStep, pour la revue).
      */
-    private static async checkValidationAccess(
+    static async checkValidationAccess(
         userId: string,
         userRole: UserRole,
-        exam: IExam
+        exam: IExam,
+        options: { anyStep?: boolean } = {}
     ): Promise<boolean> {
+        const progress = exam.validationProgress
+        if (progress?.steps.length) {
+            const steps = options.anyStep ? progress.steps : this.openSteps(progress)
+            return (await this.eligibleSteps(userId, userRole, exam, steps)).length > 0
+        }
+
         // Les inspecteurs ont accès à tout
         if (userRole === UserRole.INSPECTOR) {
             return true
@@ -211,27 +389,157 @@ export class ExamWorkflowService {
             const profile = await PedagogicalProfile.findOne({ user: userId })
             if (!profile) return false
 
-            // Créer une requête d'accès
-            const request: AccessRequest = {
-                profile,
-                resourceType: 'exam',
-                resourceId: exam.subject as any
-            }
-
-            // Vérifier l'accès via la chaîne
-            return await AccessHandlerChain.checkAccess(request)
+            return this.checkScopeAccess(profile, exam)
         }
 
         return false
     }
 
+    /**
+     * Vérifie le périmètre d'accès d'un profil pédagogique sur la matière de l'examen
+     */
+    private static async checkScopeAccess(profile: IPedagogicalProfile, exam: IExam): Promise<boolean> {
+        // Créer une requête d'accès
+        const request: AccessRequest = {
+            profile,
+            resourceType: 'exam',
+            resourceId: (exam.subject as any)?._id ?? exam.subject
+        }
+
+        // Vérifier l'accès via la chaîne
+        return await AccessHandlerChain.checkAccess(request)
+    }
+
+    /**
+     * Étapes non encore approuvées du rang le plus bas : elles sont traitées en parallèle
+     */
+    private static openSteps(progress: ExamValidationProgress): ValidationStep[] {
+        const pending = progress.steps.filter(step =>
+            progress.approvals.filter(a => a.stepId.toString() === step._id.toString()).length < step.quorum
+        )
+        if (pending.length === 0) return []
+
+        const order = Math.min(...pending.map(step => step.order))
+        return pending.filter(step => step.order === order)
+    }
+
+    /**
+     * Étapes auxquelles l'utilisateur peut participer : rôle, validateurs désignés,
+     * type de contribution du profil pédagogique et périmètre d'accès (enseignants)
+     */
+    private static async eligibleSteps(
+        userId: string,
+        userRole: UserRole,
+        exam: IExam,
+        steps: ValidationStep[]
+    ): Promise<ValidationStep[]> {
+        const candidates = steps.filter(step =>
+            step.roles.includes(userRole) &&
+            (step.reviewers.length === 0 || step.reviewers.some(id => id.toString() === userId))
+        )
+        if (candidates.length === 0) return []
+
+        const profile = await PedagogicalProfile.findOne({ user: userId })
+        const eligible: ValidationStep[] = []
+        for (const step of candidates) {
+            if (step.requiredContribution && !profile?.contributionTypes.includes(step.requiredContribution)) continue
+            if (step.checkScope && userRole !== UserRole.INSPECTOR &&
+                (!profile || !(await this.checkScopeAccess(profile, exam)))) continue
+            eligible.push(step)
+        }
+        return eligible
+    }
+
+    /**
+     * Enregistre l'approbation d'une étape ouverte
+     * Un même validateur n'approuve qu'une étape par soumission (validations indépendantes),
+     * et l'auteur ne peut pas approuver son propre examen.
+     * L'approbation n'est ajoutée que si l'étape est encore ouverte et que le validateur
+     * n'a pas déjà approuvé : deux validateurs simultanés ne dépassent pas le quorum.
+     */
+    private static async approveStep(exam: IExam, userId: string, userRole: UserRole, comment?: string) {
+        const progress = exam.validationProgress!
+
+        if (exam.createdById.toString() === userId) {
+            throw new Error("Unauthorized: The exam author cannot approve its own exam")
+        }
+        if (progress.approvals.some(a => a.reviewer.toString() === userId)) {
+            throw new Error("Cannot validate: You have already approved this exam")
+        }
+
+        const [step] = await this.eligibleSteps(userId, userRole, exam, this.openSteps(progress))
+        if (!step) {
+            throw new Error("Unauthorized: You don't have permission to validate this exam")
+        }
+
+        const reviewer = new mongoose.Types.ObjectId(userId)
+        const approved = await Exam.findOneAndUpdate(
+            {
+                _id: exam._id,
+                status: ExamStatus.PENDING_VALIDATION,
+                'validationProgress.approvals.reviewer': { $ne: reviewer },
+                $expr: {
+                    $lt: [
+                        {
+                            $size: {
+                                $filter: {
+                                    input: '$validationProgress.approvals',
+                                    cond: { $eq: ['$$this.stepId', step._id] }
+                                }
+                            }
+                        },
+                        step.quorum
+                    ]
+                }
+            },
+            { $push: { 'validationProgress.approvals': { stepId: step._id, reviewer, comment, at: new Date() } } },
+            { new: true }
+        )
+        if (!approved) {
+            throw new Error("Cannot validate: The exam changed during validation, please retry")
+        }
+
+        return { step, exam: approved }
+    }
+
+    /**
+     * État de chaque étape du circuit de validation
+     */
+    private static describeProgress(progress?: ExamValidationProgress) {
+        if (!progress?.steps.length) return null
+
+        const open = new Set(this.openSteps(progress).map(step => step._id.toString()))
+        return {
+            policy: progress.policy,
+            policyName: progress.policyName,
+            startedAt: progress.startedAt,
+            steps: [...progress.steps]
+                .sort((a, b) => a.order - b.order)
+                .map(step => {
+                    const approvals = progress.approvals.filter(a => a.stepId.toString() === step._id.toString())
+                    return {
+                        stepId: step._id,
+                        name: step.name,
+                        order: step.order,
+                        roles: step.roles,
+                        quorum: step.quorum,
+                        approvals,
+                        status: approvals.length >= step.quorum ? 'APPROVED' : open.has(step._id.toString()) ? 'OPEN' : 'WAITING'
+                    }
+                })
+        }
+    }
+
     /**
      * Récupère l'historique du workflow d'un examen
+     * Les transitions sont enregistrées à chaque changement de statut ; les examens
+     * antérieurs à cet enregistrement n'ont que leur création dans l'historique.
      */
     static async getWorkflowHistory(examId: string) {
         const exam = await Exam.findById(examId)
             .populate('createdById', 'name email')
             .populate('validatedBy', 'name email')
+            .populate('workflowHistory.performedBy', 'name email role')
             .lean()
 
         if (!exam) throw new Error("Exam not found")
@@ -244,12 +552,8 @@ export class ExamWorkflowService {
             validatedAt: exam.validatedAt,
             validatedBy: exam.validatedBy,
             publishedAt: exam.publishedAt,
-            timeline: [
-                { status: ExamStatus.DRAFT, date: exam.createdAt, user: exam.createdById },
-                exam.validatedAt && { status: ExamStatus.VALIDATED, date: exam.validatedAt, user: exam.validatedBy },
-                exam.publishedAt && { status: ExamStatus.PUBLISHED, date: exam.publishedAt }
-            ].filter(Boolean)
+            validation: this.describeProgress(exam.validationProgress),
+            transitions: exam.workflowHistory || []
         }
     }
 }
-
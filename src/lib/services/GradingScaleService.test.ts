@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest'
+import { SubSystem } from '@/models/enums'
+import { DEFAULT_GRADING_SCALES, GradingScaleService } from './GradingScaleService'
+
+describe('GradingScaleService.convert', () => {
+    it('gives a mark out of 20 and a mention in the francophone sub-system', () => {
+        expect(GradingScaleService.convert(DEFAULT_GRADING_SCALES[SubSystem.FRANCOPHONE], 72.5)).toMatchObject({
+            mark: 14.5,
+            outOf: 20,
+            label: 'Bien',
+            gradePoint: undefined
+        })
+        expect(GradingScaleService.convert(DEFAULT_GRADING_SCALES[SubSystem.FRANCOPHONE], 49.99).label).toBe('Insuffisant')
+    })
+
+    it('gives a letter and grade points in the anglophone sub-system', () => {
+        expect(GradingScaleService.convert(DEFAULT_GRADING_SCALES[SubSystem.ANGLOPHONE], 80)).toMatchObject({
+            mark: undefined,
+            label: 'A',
+            gradePoint: 4
+        })
+        expect(GradingScaleService.convert(DEFAULT_GRADING_SCALES[SubSystem.ANGLOPHONE], 55).label).toBe('D')
+    })
+
+    it('applies bands whatever their order', () => {
+        const scale = {
+            name: 'Réussite',
+            bands: [
+                { minPercentage: 0, label: 'Non acquis' },
+                { minPercentage: 60, label: 'Acquis' }
+            ]
+        }
+
+        expect(GradingScaleService.convert(scale, 60).label).toBe('Acquis')
+        expect(GradingScaleService.convert(scale, 59).label).toBe('Non acquis')
+    })
+})
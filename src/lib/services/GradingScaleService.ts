@@ -0,0 +1,235 @@
+import mongoose from "mongoose"
+import { IExam } from "@/models/Exam"
+import { AttemptGrade } from "@/models/Attempt"
+import { GradeBand, IGradingScale } from "@/models/GradingScale"
+import { SubSystem, UserRole } from "@/models/enums"
+import { GradingScaleFilters, GradingScaleRepository } from "@/lib/repositories/GradingScaleRepository"
+import { UserRepository } from "@/lib/repositories/UserRepository"
+
+export interface GradingScaleInput {
+    name: string
+    description?: string
+    school?: string
+    subSystem?: SubSystem
+    markScale?: number
+    bands: GradeBand[]
+}
+
+/**
+ * Échelle appliquée à une conversion (enregistrée ou par défaut)
+ */
+export interface ResolvedGradingScale {
+    _id?: mongoose.Types.ObjectId
+    name: string
+    markScale?: number
+    bands: GradeBand[]
+}
+
+// Rôles autorisés à définir des échelles de notation
+const SCALE_MANAGER_ROLES = [UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL]
+
+// Note sur 20 et mentions (Passable à partir de 10/20)
+const FRANCOPHONE_SCALE: ResolvedGradingScale = {
+    name: "Note sur 20 et mentions",
+    markScale: 20,
+    bands: [
+        { minPercentage: 80, label: "Très Bien" },
+        { minPercentage: 70, label: "Bien" },
+        { minPercentage: 60, label: "Assez Bien" },
+        { minPercentage: 50, label: "Passable" },
+        { minPercentage: 0, label: "Insuffisant" }
+    ]
+}
+
+// Notes lettres et GPA sur 4
+const ANGLOPHONE_SCALE: ResolvedGradingScale = {
+    name: "Letter grades (GPA)",
+    bands: [
+        { minPercentage: 80, label: "A", gradePoint: 4 },
+        { minPercentage: 70, label: "B", gradePoint: 3 },
+        { minPercentage: 60, label: "C", gradePoint: 2 },
+        { minPercentage: 50, label: "D", gradePoint: 1 },
+        { minPercentage: 0, label: "F", gradePoint: 0 }
+    ]
+}
+
+/**
+ * Échelle par défaut de chaque sous-système, sans échelle enregistrée
+ */
+export const DEFAULT_GRADING_SCALES: Record<SubSystem, ResolvedGradingScale> = {
+    [SubSystem.FRANCOPHONE]: FRANCOPHONE_SCALE,
+    [SubSystem.ANGLOPHONE]: ANGLOPHONE_SCALE,
+    [SubSystem.BILINGUAL]: FRANCOPHONE_SCALE
+}
+
+/**
+ * Service des échelles de notation
+ * Le pourcentage d'une tentative est converti selon l'échelle de l'établissement
+ * de l'auteur ou du sous-système de l'examen : note sur 20 et mention dans le
+ * sous-système francophone, lettre et GPA dans le sous-système anglophone.
+ * La conversion est enregistrée sur la tentative à sa correction.
+ */
+export class GradingScaleService {
+    /**
+     * Crée une échelle de notation
+     */
+    static async createScale(userId: string, input: GradingScaleInput) {
+        const repo = new GradingScaleRepository()
+        await this.checkManagerAccess(userId, input.school)
+
+        return repo.create({
+            ...this.toDocument(input),
+            createdBy: new mongoose.Types.ObjectId(userId),
+            isActive: true
+        } as Partial<IGradingScale>)
+    }
+
+    /**
+     * Met à jour une échelle ; les tentatives déjà corrigées conservent leur note
+     */
+    static async updateScale(scaleId: string, userId: string, input: Partial<GradingScaleInput>) {
+        const repo = new GradingScaleRepository()
+        const scale = await repo.findById(scaleId)
+        if (!scale) throw new Error("Grading scale not found")
+
+        await this.checkManagerAccess(userId, scale.school?.toString())
+        if (input.school !== undefined && input.school !== scale.school?.toString()) {
+            await this.checkManagerAccess(userId, input.school)
+        }
+
+        scale.set(this.toDocument({
+            name: input.name ?? scale.name,
+            description: input.description ?? scale.description,
+            school: input.school ?? scale.school?.toString(),
+            subSystem: input.subSystem ?? scale.subSystem,
+            markScale: input.markScale ?? scale.markScale,
+            bands: input.bands ?? scale.bands.map(band => ({
+                minPercentage: band.minPercentage,
+                label: band.label,
+                gradePoint: band.gradePoint
+            }))
+        }))
+
+        return repo.save(scale)
+    }
+
+    /**
+     * Désactive une échelle
+     */
+    static async deactivateScale(scaleId: string, userId: string) {
+        const repo = new GradingScaleRepository()
+        const scale = await repo.findById(scaleId)
+        if (!scale) throw new Error("Grading scale not found")
+
+        await this.checkManagerAccess(userId, scale.school?.toString())
+
+        scale.isActive = false
+        return repo.save(scale)
+    }
+
+    /**
+     * Détail d'une échelle
+     */
+    static async getScale(scaleId: string) {
+        const scale = await new GradingScaleRepository().findByIdPopulated(scaleId)
+        if (!scale) throw new Error("Grading scale not found")
+        return scale
+    }
+
+    /**
+     * Liste des échelles ; hors inspecteurs, limitée aux établissements de l'utilisateur
+     */
+    static async listScales(userId: string, userRole: UserRole, filters: GradingScaleFilters = {}) {
+        if (userRole !== UserRole.INSPECTOR) {
+            const user = await new UserRepository().findById(userId)
+            if (!user) throw new Error("User not found")
+            filters.schoolIds = (user.schools || []).map((s: any) => s.toString())
+        }
+        return new GradingScaleRepository().list(filters)
+    }
+
+    /**
+     * Échelle applicable à un examen : la plus spécifique parmi celles de
+     * l'établissement de l'auteur et du sous-système, sinon celle par défaut
+     */
+    static async resolveScale(exam: Pick<IExam, 'createdById' | 'subSystem'>): Promise<ResolvedGradingScale> {
+        const author = await new UserRepository().findById(exam.createdById.toString())
+        const schoolIds = (author?.schools || []).map((s: any) => new mongoose.Types.ObjectId(s.toString()))
+
+        const candidates = (await new GradingScaleRepository().findCandidates(schoolIds, exam.subSystem))
+            .filter(scale => scale.school || scale.subSystem)
+
+        // Spécificité : établissement + sous-système > établissement > sous-système
+        const specificity = (scale: typeof candidates[number]) =>
+            (scale.school ? 2 : 0) + (scale.subSystem ? 1 : 0)
+
+        const scale = candidates.sort((a, b) => specificity(b) - specificity(a))[0]
+        if (scale) return { _id: scale._id, name: scale.name, markScale: scale.markScale, bands: scale.bands }
+
+        return DEFAULT_GRADING_SCALES[exam.subSystem] ?? FRANCOPHONE_SCALE
+    }
+
+    /**
+     * Convertit un pourcentage selon une échelle
+     */
+    static convert(scale: ResolvedGradingScale, percentage: number): AttemptGrade {
+        const band = [...scale.bands]
+            .sort((a, b) => b.minPercentage - a.minPercentage)
+            .find(b => percentage >= b.minPercentage)
+
+        return {
+            scale: scale._id,
+            scaleName: scale.name,
+            mark: scale.markScale ? Math.round(percentage * scale.markScale) / 100 : undefined,
+            outOf: scale.markScale,
+            label: band?.label,
+            gradePoint: band?.gradePoint,
+            gradedAt: new Date()
+        }
+    }
+
+    /**
+     * Note d'une tentative d'un examen, selon l'échelle applicable
+     */
+    static async gradeAttempt(exam: Pick<IExam, 'createdById' | 'subSystem'>, percentage: number) {
+        return this.convert(await this.resolveScale(exam), percentage)
+    }
+
+    private static async checkManagerAccess(userId: string, schoolId?: string) {
+        const user = await new UserRepository().findById(userId)
+        if (!user) throw new Error("User not found")
+
+        if (!SCALE_MANAGER_ROLES.includes(user.role as UserRole)) {
+            throw new Error("Unauthorized: Only inspectors and school administrators can manage grading scales")
+        }
+        if (user.role === UserRole.INSPECTOR) return user
+
+        const schools = (user.schools || []).map((s: any) => s.toString())
+        if (!schoolId || !schools.includes(schoolId)) {
+            throw new Error("Unauthorized: School administrators can only manage grading scales of their schools")
+        }
+        return user
+    }
+
+    private static toDocument(input: GradingScaleInput) {
+        if (!input.school && !input.subSystem) {
+            throw new Error("A grading scale must target a school or a sub-system")
+        }
+
+        const thresholds = new Set(input.bands.map(band => band.minPercentage))
+        if (thresholds.size !== input.bands.length) {
+            throw new Error("Grading scale bands must have distinct thresholds")
+        }
+
+        return {
+            name: input.name,
+            description: input.description,
+            school: input.school ? new mongoose.Types.ObjectId(input.school) : undefined,
+            subSystem: input.subSystem,
+            markScale: input.markScale,
+            bands: [...input.bands]
+                .sort((a, b) => b.minPercentage - a.minPercentage)
+                .map(band => ({ minPercentage: band.minPercentage, label: band.label, gradePoint: band.gradePoint }))
+        }
+    }
+}
@@ -5,7 +5,14 @@
  * dans les évaluations formatives et auto-évaluations.
  */
 
-import { MasteryLevel, MASTERY_LEVEL_INFO, MASTERY_LEVEL_PERCENTAGES } from '@/lib/patterns/EvaluationStrategy'
+import {
+    MasteryLevel,
+    MASTERY_LEVEL_INFO,
+    MASTERY_LEVEL_PERCENTAGES,
+    MathExpressionEvaluationStrategy,
+    NumericEvaluationStrategy
+} from '@/lib/patterns/EvaluationStrategy'
+import { MathExpressionConfig, NumericConfig } from '@/models/Question'
 
 // ==========================================
 // TYPES
@@ -14,6 +21,7 @@ import { MasteryLevel, MASTERY_LEVEL_INFO, MASTERY_LEVEL_PERCENTAGES } from '@/l
 export interface QuestionFeedback {
     questionId: string
     isCorrect: boolean
+    isPartiallyCorrect: boolean
     earnedPoints: number
     maxPoints: number
     correctAnswerIds: string[]
@@ -93,6 +101,8 @@ export class ImmediateFeedbackService {
 
     /**
      * Generate feedback for a single question response
+     * For multi-answer QCM, pass the partial credit as earnedPoints: the feedback then
+     * lists the correct options that were missed and the wrong options that were selected
      */
     static generateQuestionFeedback(
         question: {
@@ -102,6 +112,8 @@ export class ImmediateFeedbackService {
             options?: { id: string; text: string; isCorrect: boolean; feedback?: string }[]
             correctAnswer?: boolean
             modelAnswer?: string
+            numericConfig?: NumericConfig
+            mathConfig?: MathExpressionConfig
             conceptId?: string
         },
         response: {
@@ -109,20 +121,25 @@ export class ImmediateFeedbackService {
             selectedAnswer?: boolean
             textAnswer?: string
         },
-        isCorrect: boolean
+        isCorrect: boolean,
+        earnedPoints?: number
     ): QuestionFeedback {
         const maxPoints = question.points || 1
-        const earnedPoints = isCorrect ? maxPoints : 0
+        const earned = earnedPoints ?? (isCorrect ? maxPoints : 0)
+        const isPartiallyCorrect = !isCorrect && earned > 0
 
         // Determine correct answers
         const correctAnswerIds = question.options
             ?.filter(o => o.isCorrect)
             .map(o => o.id) || []
+        const selectedIds = response.selectedOptionIds || []
 
         // Get random encouragement message
         const encouragementPool = isCorrect
             ? ENCOURAGEMENT_MESSAGES.correct
-            : ENCOURAGEMENT_MESSAGES.incorrect
+            : isPartiallyCorrect
+                ? ENCOURAGEMENT_MESSAGES.partial
+                : ENCOURAGEMENT_MESSAGES.incorrect
         const encouragement = encouragementPool[Math.floor(Math.random() * encouragementPool.length)]
 
         // Collect detailed feedback from options
@@ -143,22 +160,73 @@ export class ImmediateFeedbackService {
         // Build main feedback
         let feedback = isCorrect
             ? "Bonne réponse !"
-            : "Ce n'est pas la bonne réponse."
+            : isPartiallyCorrect
+                ? `Réponse partiellement correcte (${Math.round(earned * 100) / 100}/${maxPoints} points).`
+                : "Ce n'est pas la bonne réponse."
 
         if (!isCorrect && correctAnswerIds.length > 0 && question.options) {
-            const correctTexts = question.options
-                .filter(o => o.isCorrect)
-                .map(o => o.text)
-            feedback += ` La bonne réponse était : ${correctTexts.join(', ')}.`
+            if (selectedIds.length > 1 || correctAnswerIds.length > 1) {
+                const missed = question.options
+                    .filter(o => o.isCorrect && !selectedIds.includes(o.id))
+                    .map(o => o.text)
+                const wronglySelected = question.options
+                    .filter(o => !o.isCorrect && selectedIds.includes(o.id))
+                    .map(o => o.text)
+
+                if (missed.length > 0) {
+                    feedback += ` Bonnes réponses oubliées : ${missed.join(', ')}.`
+                }
+                if (wronglySelected.length > 0) {
+                    feedback += ` Mauvaises réponses cochées : ${wronglySelected.join(', ')}.`
+                }
+            } else {
+                const correctTexts = question.options
+                    .filter(o => o.isCorrect)
+                    .map(o => o.text)
+                feedback += ` La bonne réponse était : ${correctTexts.join(', ')}.`
+            }
+        }
+
+        // Réponse numérique : valeur attendue et cause de l'erreur
+        if (!isCorrect && question.numericConfig) {
+            const config = question.numericConfig
+            const check = NumericEvaluationStrategy.checkAnswer(response.textAnswer, config)
+            const tolerance = config.toleranceType === 'relative'
+                ? `${Math.round((config.tolerance || 0) * 10000) / 100} %`
+                : `${config.tolerance || 0}`
+
+            if (!check.parsed) {
+                feedback += ` La réponse doit être un nombre.`
+            } else if (check.withinTolerance && !check.unitCorrect) {
+                feedback += ` Vérifiez l'unité (attendue : ${config.unit}).`
+            } else if (check.withinTolerance && !check.significantFiguresCorrect) {
+                feedback += ` Donnez le résultat avec ${config.significantFigures} chiffres significatifs.`
+            }
+            feedback += ` La bonne réponse était : ${config.answer}${config.unit ? ' ' + config.unit : ''} (± ${tolerance}).`
+        }
+
+        // Expression mathématique : équivalente mais pas simplifiée, ou illisible
+        if (question.mathConfig) {
+            const check = MathExpressionEvaluationStrategy.checkAnswer(response.textAnswer, question.mathConfig)
+
+            if (!check.parsed) {
+                feedback += ` L'expression saisie n'a pas pu être lue.`
+            } else if (check.equivalent && !check.simplified) {
+                feedback += ` Votre réponse est équivalente à la réponse attendue, mais elle n'est pas simplifiée.`
+            }
+            if (!isCorrect) {
+                feedback += ` La réponse attendue était : ${question.mathConfig.answer}.`
+            }
         }
 
         return {
             questionId: question.id,
             isCorrect,
-            earnedPoints,
+            isPartiallyCorrect,
+            earnedPoints: earned,
             maxPoints,
             correctAnswerIds,
-            selectedAnswerIds: response.selectedOptionIds || [],
+            selectedAnswerIds: selectedIds,
             feedback,
             detailedFeedback: detailedFeedback.length > 0 ? detailedFeedback : undefined,
             encouragement,
@@ -0,0 +1,119 @@
+import { beforeEach, describe, it, expect, vi } from 'vitest'
+import mongoose from 'mongoose'
+import { EvaluationType } from '@/models/enums'
+import { ItemAnalysisService } from './ItemAnalysisService'
+
+const data = vi.hoisted(() => ({
+    exam: null as unknown,
+    attempts: [] as unknown[],
+    questions: [] as unknown[],
+    responses: [] as unknown[],
+    updateReliability: vi.fn()
+}))
+
+vi.mock('@/lib/repositories/ItemAnalysisRepository', () => ({
+    ItemAnalysisRepository: class {
+        findExam = async () => data.exam
+        findCompletedAttempts = async () => data.attempts
+        findQuestions = async () => data.questions
+        findResponses = async () => data.responses
+        updateReliability = data.updateReliability
+    }
+}))
+
+interface FakeQuestion {
+    _id: mongoose.Types.ObjectId
+    points: number
+}
+
+interface FakeResponse {
+    attemptId: mongoose.Types.ObjectId
+    questionId: mongoose.Types.ObjectId
+    isCorrect: boolean
+    partialScore?: number
+}
+
+const examId = new mongoose.Types.ObjectId()
+const q1: FakeQuestion = { _id: new mongoose.Types.ObjectId(), points: 1 }
+const q2: FakeQuestion = { _id: new mongoose.Types.ObjectId(), points: 1 }
+
+/**
+ * Attempts whose responses are given by one function per question
+ */
+function givenAttempts(count: number, answer: (question: FakeQuestion, index: number) => Omit<FakeResponse, 'attemptId' | 'questionId'>) {
+    data.attempts = Array.from({ length: count }, () => ({ _id: new mongoose.Types.ObjectId() }))
+    data.responses = (data.attempts as { _id: mongoose.Types.ObjectId }[]).flatMap((attempt, index) =>
+        (data.questions as FakeQuestion[]).map(question => ({
+            attemptId: attempt._id,
+            questionId: question._id,
+            ...answer(question, index)
+        }))
+    )
+}
+
+describe('ItemAnalysisService.updateReliability', () => {
+    beforeEach(() => {
+        data.exam = { _id: examId, evaluationType: EvaluationType.QCM, version: 3 }
+        data.questions = [q1, q2]
+        data.updateReliability.mockReset()
+    })
+
+    it('waits for enough completed attempts', async () => {
+        givenAttempts(19, (_, index) => ({ isCorrect: index % 2 === 0 }))
+
+        expect(await ItemAnalysisService.updateReliability(examId)).toBeNull()
+        expect(data.updateReliability).not.toHaveBeenCalled()
+    })
+
+    it('computes KR-20 for right or wrong answers and stores it', async () => {
+        givenAttempts(20, (_, index) => ({ isCorrect: index < 10 }))
+
+        const reliability = await ItemAnalysisService.updateReliability(examId)
+
+        expect(reliability).toMatchObject({
+            method: 'KR20',
+            coefficient: 1,
+            sem: 0,
+            maxScore: 2,
+            itemCount: 2,
+            attemptCount: 20,
+            fitForReuse: true,
+            examVersion: 3
+        })
+        expect(data.updateReliability).toHaveBeenCalledWith(examId, reliability)
+    })
+
+    it('flags an exam whose questions do not measure the same thing', async () => {
+        givenAttempts(20, (question, index) => ({
+            isCorrect: question === q1 ? index < 10 : index % 10 < 5
+        }))
+
+        expect(await ItemAnalysisService.updateReliability(examId)).toMatchObject({
+            method: 'KR20',
+            coefficient: 0,
+            sem: 0.707,
+            fitForReuse: false
+        })
+    })
+
+    it('uses Cronbach\'s alpha on points when answers earn partial credit', async () => {
+        data.questions = [
+            { _id: new mongoose.Types.ObjectId(), points: 2 },
+            { _id: new mongoose.Types.ObjectId(), points: 2 }
+        ]
+        givenAttempts(20, (_, index) => ({ isCorrect: index < 10, partialScore: index < 10 ? 2 : 1 }))
+
+        expect(await ItemAnalysisService.updateReliability(examId)).toMatchObject({
+            method: 'ALPHA',
+            coefficient: 1,
+            maxScore: 4
+        })
+    })
+
+    it('skips adaptive exams', async () => {
+        data.exam = { _id: examId, evaluationType: EvaluationType.ADAPTIVE }
+        givenAttempts(20, (_, index) => ({ isCorrect: index < 10 }))
+
+        expect(await ItemAnalysisService.updateReliability(examId)).toBeNull()
+    })
+})
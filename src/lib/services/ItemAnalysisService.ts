@@ -0,0 +1,353 @@
+import mongoose from "mongoose"
+import * as ss from 'simple-statistics'
+import { EvaluationType, UserRole } from "@/models/enums"
+import { ExamReliability } from "@/models/Exam"
+import { ItemAnalysisRepository } from "@/lib/repositories/ItemAnalysisRepository"
+import { questionsForAttempt } from "@/lib/shuffle"
+
+/**
+ * Signalements d'une question à revoir
+ */
+export type ItemFlag =
+    | 'TOO_EASY'                // p > 0.90
+    | 'TOO_HARD'                // p < 0.20
+    | 'NEGATIVE_DISCRIMINATION' // Les plus faibles réussissent mieux que les plus forts
+    | 'LOW_DISCRIMINATION'      // 0 <= D < 0.20
+    | 'UNUSED_DISTRACTOR'       // Distracteur jamais choisi
+    | 'DISTRACTOR_ATTRACTS_UPPER' // Distracteur plus choisi par le groupe fort que par le groupe faible
+    | 'FREQUENT_HINTS'          // Plus de la moitié des répondants révèlent un indice (énoncé peu clair ?)
+    | 'INSUFFICIENT_DATA'       // Moins de MIN_RESPONDENTS réponses
+
+/**
+ * Analyse d'une option (distracteur ou bonne réponse)
+ */
+export interface OptionAnalysis {
+    optionId: string
+    text: string
+    isCorrect: boolean
+    timesSelected: number // Option.stats.timesSelected
+    selectionRate: number // Part des répondants ayant choisi l'option (0-1)
+    upperRate: number // Part du groupe fort (27 %) ayant choisi l'option
+    lowerRate: number // Part du groupe faible (27 %) ayant choisi l'option
+}
+
+/**
+ * Analyse psychométrique d'une question
+ */
+export interface ItemAnalysis {
+    questionId: string
+    text: string
+    type: string
+    points: number
+    respondents: number // Élèves à qui la question a été posée
+    difficultyIndex: number | null // p : crédit moyen (0-1), plus il est élevé plus la question est facile
+    discriminationIndex: number | null // D = p(groupe fort) - p(groupe faible)
+    pointBiserial: number | null // Corrélation question / score du reste de l'examen
+    hintRate: number | null // Part des répondants ayant révélé au moins un indice
+    averageHints: number | null // Indices révélés par répondant
+    distractors: OptionAnalysis[]
+    flags: ItemFlag[]
+    needsReview: boolean
+}
+
+export interface ItemAnalysisReport {
+    examId: string
+    attemptCount: number
+    groupSize: number // Taille des groupes fort et faible (27 % des tentatives)
+    summary: {
+        itemCount: number
+        flaggedCount: number
+        meanDifficulty: number | null
+        meanDiscrimination: number | null
+    }
+    items: ItemAnalysis[]
+}
+
+// Proportion des tentatives retenue pour les groupes fort et faible (Kelley)
+const GROUP_RATIO = 0.27
+// En dessous, les indices sont calculés mais peu fiables
+const MIN_RESPONDENTS = 10
+// Tentatives terminées nécessaires au calcul de la fidélité
+const MIN_RELIABILITY_ATTEMPTS = 20
+// Fidélité minimale d'un examen réutilisable
+const RELIABILITY_THRESHOLD = 0.7
+// Au-delà, la question est signalée comme trop dépendante des indices
+const FREQUENT_HINTS_RATE = 0.5
+
+/**
+ * Service d'analyse des items et de fidélité (théorie classique des tests)
+ */
+export class ItemAnalysisService {
+    /**
+     * Analyse des questions d'un examen à partir de ses tentatives terminées
+     * (auteur de l'examen ou inspecteur)
+     */
+    static async analyzeExam(examId: string, userId: string, userRole: UserRole): Promise<ItemAnalysisReport> {
+        const repo = new ItemAnalysisRepository()
+
+        const exam = await repo.findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+        if (exam.createdById.toString() !== userId && userRole !== UserRole.INSPECTOR) {
+            throw new Error("Unauthorized: Only the exam author or an inspector can analyze its items")
+        }
+
+        const [attempts, questions] = await Promise.all([
+            repo.findCompletedAttempts(exam._id),
+            repo.findQuestions(exam._id)
+        ])
+        const [options, responses] = await Promise.all([
+            repo.findOptions(questions.map(q => q._id)),
+            repo.findResponses(attempts.map(a => a._id))
+        ])
+
+        const responseByKey = new Map(responses.map(r => [`${r.attemptId}:${r.questionId}`, r]))
+        const pointsByQuestion = new Map(questions.map(q => [q._id.toString(), q.points || 1]))
+        const scored = this.scoreAttempts(exam.evaluationType, attempts, questions, responseByKey)
+
+        // Groupes fort et faible : 27 % des tentatives de part et d'autre du classement
+        const ranked = [...scored].sort((a, b) => b.total - a.total)
+        const groupSize = ranked.length >= 2 ? Math.max(1, Math.round(ranked.length * GROUP_RATIO)) : 0
+        const upper = ranked.slice(0, groupSize)
+        const lower = groupSize > 0 ? ranked.slice(-groupSize) : []
+
+        const items = questions.map(question => {
+            const questionId = question._id.toString()
+            const points = pointsByQuestion.get(questionId)!
+            const takers = scored.filter(s => s.credits.has(questionId))
+            const upperTakers = upper.filter(s => s.credits.has(questionId))
+            const lowerTakers = lower.filter(s => s.credits.has(questionId))
+
+            const difficultyIndex = takers.length > 0
+                ? this.round(ss.mean(takers.map(s => s.credits.get(questionId)!)))
+                : null
+            const discriminationIndex = upperTakers.length > 0 && lowerTakers.length > 0
+                ? this.round(
+                    ss.mean(upperTakers.map(s => s.credits.get(questionId)!)) -
+                    ss.mean(lowerTakers.map(s => s.credits.get(questionId)!))
+                )
+                : null
+
+            // Corrélation corrigée : la question est retirée du score total
+            const withRest = takers.filter(s => s.possible > points)
+            let pointBiserial: number | null = null
+            if (withRest.length >= 3) {
+                const r = ss.sampleCorrelation(
+                    withRest.map(s => s.credits.get(questionId)!),
+                    withRest.map(s => (s.earned - s.credits.get(questionId)! * points) / (s.possible - points))
+                )
+                pointBiserial = Number.isFinite(r) ? this.round(r) : null
+            }
+
+            // Usage des indices : une question souvent aidée est peut-être mal formulée
+            const hintCounts = takers.map(s => responseByKey.get(`${s.attempt._id}:${questionId}`)?.hintsRevealed?.length || 0)
+            const hintRate = takers.length > 0 ? this.round(hintCounts.filter(n => n > 0).length / takers.length) : null
+            const averageHints = takers.length > 0 ? this.round(ss.mean(hintCounts)) : null
+
+            const distractors = this.analyzeOptions(
+                options.filter(o => o.questionId.toString() === questionId),
+                questionId,
+                takers.map(s => s.attempt._id.toString()),
+                upperTakers.map(s => s.attempt._id.toString()),
+                lowerTakers.map(s => s.attempt._id.toString()),
+                responseByKey
+            )
+
+            const flags: ItemFlag[] = []
+            if (takers.length < MIN_RESPONDENTS) flags.push('INSUFFICIENT_DATA')
+            if (difficultyIndex !== null && difficultyIndex > 0.9) flags.push('TOO_EASY')
+            if (difficultyIndex !== null && difficultyIndex < 0.2) flags.push('TOO_HARD')
+            if (discriminationIndex !== null && discriminationIndex < 0) flags.push('NEGATIVE_DISCRIMINATION')
+            else if (discriminationIndex !== null && discriminationIndex < 0.2) flags.push('LOW_DISCRIMINATION')
+            if (takers.length > 0 && distractors.some(d => !d.isCorrect && d.timesSelected === 0)) {
+                flags.push('UNUSED_DISTRACTOR')
+            }
+            if (distractors.some(d => !d.isCorrect && d.upperRate > d.lowerRate)) {
+                flags.push('DISTRACTOR_ATTRACTS_UPPER')
+            }
+            if (hintRate !== null && hintRate > FREQUENT_HINTS_RATE) flags.push('FREQUENT_HINTS')
+
+            return {
+                questionId,
+                text: question.text,
+                type: question.type,
+                points,
+                respondents: takers.length,
+                difficultyIndex,
+                discriminationIndex,
+                pointBiserial,
+                hintRate,
+                averageHints,
+                distractors,
+                flags,
+                needsReview: flags.some(flag => flag !== 'INSUFFICIENT_DATA')
+            }
+        })
+
+        const difficulties = items.map(i => i.difficultyIndex).filter((v): v is number => v !== null)
+        const discriminations = items.map(i => i.discriminationIndex).filter((v): v is number => v !== null)
+
+        return {
+            examId: exam._id.toString(),
+            attemptCount: attempts.length,
+            groupSize,
+            summary: {
+                itemCount: items.length,
+                flaggedCount: items.filter(i => i.needsReview).length,
+                meanDifficulty: difficulties.length > 0 ? this.round(ss.mean(difficulties)) : null,
+                meanDiscrimination: discriminations.length > 0 ? this.round(ss.mean(discriminations)) : null
+            },
+            items
+        }
+    }
+
+    /**
+     * Calcule la fidélité de l'examen et l'enregistre dans ses statistiques
+     * KR-20 lorsque toutes les questions sont notées tout ou rien, alpha de
+     * Cronbach dès qu'une question accorde un crédit partiel. Seules les
+     * questions posées à toutes les tentatives sont prises en compte (tirages
+     * aléatoires) ; rien n'est calculé pour un test adaptatif ni en dessous de
+     * MIN_RELIABILITY_ATTEMPTS tentatives terminées.
+     */
+    static async updateReliability(examId: string | mongoose.Types.ObjectId): Promise<ExamReliability | null> {
+        const repo = new ItemAnalysisRepository()
+
+        const exam = await repo.findExam(examId.toString())
+        if (!exam || exam.evaluationType === EvaluationType.ADAPTIVE) return null
+
+        const attempts = await repo.findCompletedAttempts(exam._id)
+        if (attempts.length < MIN_RELIABILITY_ATTEMPTS) return null
+
+        const questions = await repo.findQuestions(exam._id)
+        const responses = await repo.findResponses(attempts.map(a => a._id))
+        const responseByKey = new Map(responses.map(r => [`${r.attemptId}:${r.questionId}`, r]))
+        const scored = this.scoreAttempts(exam.evaluationType, attempts, questions, responseByKey)
+
+        const items = questions.filter(q => scored.every(s => s.credits.has(q._id.toString())))
+        if (items.length < 2) return null
+
+        // Matrice des points obtenus : une ligne par tentative, une colonne par question
+        const matrix = scored.map(s => items.map(q => s.credits.get(q._id.toString())! * (q.points || 1)))
+        const dichotomous = scored.every(s => items.every(q => [0, 1].includes(s.credits.get(q._id.toString())!)))
+
+        // KR-20 : chaque question compte pour 1 point (p × q = variance d'un item dichotomique)
+        const rows = dichotomous
+            ? scored.map(s => items.map(q => s.credits.get(q._id.toString())!))
+            : matrix
+        const k = items.length
+        const totalVariance = ss.variance(rows.map(row => ss.sum(row)))
+        const itemVariance = ss.sum(items.map((_, j) => ss.variance(rows.map(row => row[j]))))
+        const coefficient = totalVariance > 0
+            ? Math.max(0, (k / (k - 1)) * (1 - itemVariance / totalVariance))
+            : 0
+
+        // Erreur type de mesure, en points sur les questions retenues
+        const totals = matrix.map(row => ss.sum(row))
+        const sem = ss.standardDeviation(totals) * Math.sqrt(1 - Math.min(coefficient, 1))
+
+        const reliability: ExamReliability = {
+            method: dichotomous ? 'KR20' : 'ALPHA',
+            coefficient: this.round(coefficient),
+            sem: this.round(sem),
+            maxScore: ss.sum(items.map(q => q.points || 1)),
+            itemCount: k,
+            attemptCount: scored.length,
+            fitForReuse: coefficient >= RELIABILITY_THRESHOLD,
+            examVersion: exam.version,
+            computedAt: new Date()
+        }
+        await repo.updateReliability(exam._id, reliability)
+
+        return reliability
+    }
+
+    /**
+     * Fidélité enregistrée d'un examen, calculée si elle ne l'a pas encore été
+     * (auteur de l'examen ou inspecteur)
+     */
+    static async getReliability(examId: string, userId: string, userRole: UserRole) {
+        const exam = await new ItemAnalysisRepository().findExam(examId)
+        if (!exam) throw new Error("Exam not found")
+        if (exam.createdById.toString() !== userId && userRole !== UserRole.INSPECTOR) {
+            throw new Error("Unauthorized: Only the exam author or an inspector can view its reliability")
+        }
+
+        const reliability = exam.stats?.reliability ?? await this.updateReliability(exam._id)
+        return {
+            reliability: reliability ?? null,
+            minAttempts: MIN_RELIABILITY_ATTEMPTS,
+            threshold: RELIABILITY_THRESHOLD
+        }
+    }
+
+    /**
+     * Crédit (0-1) de chaque tentative sur chacune des questions qui lui ont été posées
+     * Les scores sont recalculés sur ces seules questions (tirages aléatoires, tests adaptatifs).
+     */
+    private static scoreAttempts<A extends { _id: mongoose.Types.ObjectId; questionIds?: mongoose.Types.ObjectId[] }>(
+        evaluationType: EvaluationType | undefined,
+        attempts: A[],
+        questions: { _id: mongoose.Types.ObjectId; points?: number }[],
+        responseByKey: Map<string, { isCorrect: boolean; partialScore?: number }>
+    ) {
+        return attempts.map(attempt => {
+            const asked = evaluationType === EvaluationType.ADAPTIVE
+                ? questions.filter(q => responseByKey.has(`${attempt._id}:${q._id}`))
+                : questionsForAttempt(questions, attempt)
+
+            const credits = new Map<string, number>()
+            let earned = 0
+            let possible = 0
+            for (const question of asked) {
+                const points = question.points || 1
+                const response = responseByKey.get(`${attempt._id}:${question._id}`)
+                const credit = !response ? 0
+                    : typeof response.partialScore === 'number' ? Math.min(response.partialScore, points) / points
+                        : response.isCorrect ? 1 : 0
+                credits.set(question._id.toString(), credit)
+                earned += credit * points
+                possible += points
+            }
+            return { attempt, credits, earned, possible, total: possible > 0 ? earned / possible : 0 }
+        })
+    }
+
+    /**
+     * Choix de chaque option par l'ensemble des répondants et par les groupes fort et faible
+     */
+    private static analyzeOptions(
+        options: { _id: mongoose.Types.ObjectId; text: string; isCorrect: boolean; stats?: { timesSelected?: number } }[],
+        questionId: string,
+        takerIds: string[],
+        upperIds: string[],
+        lowerIds: string[],
+        responseByKey: Map<string, { selectedOptionId?: mongoose.Types.ObjectId; selectedOptionIds?: mongoose.Types.ObjectId[] }>
+    ): OptionAnalysis[] {
+        const selected = (attemptId: string) => {
+            const response = responseByKey.get(`${attemptId}:${questionId}`)
+            if (!response) return []
+            return (response.selectedOptionIds?.length ? response.selectedOptionIds : [response.selectedOptionId])
+                .filter(Boolean)
+                .map(id => id!.toString())
+        }
+        const rate = (attemptIds: string[], optionId: string) => attemptIds.length > 0
+            ? this.round(attemptIds.filter(id => selected(id).includes(optionId)).length / attemptIds.length)
+            : 0
+
+        return options.map(option => {
+            const optionId = option._id.toString()
+            return {
+                optionId,
+                text: option.text,
+                isCorrect: option.isCorrect,
+                timesSelected: option.stats?.timesSelected || 0,
+                selectionRate: rate(takerIds, optionId),
+                upperRate: rate(upperIds, optionId),
+                lowerRate: rate(lowerIds, optionId)
+            }
+        })
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 1000) / 1000
+    }
+}
@@ -692,6 +692,7 @@ export class PredictionEngine {
 
     /**
      * Identify weak concepts for a student
+     * Uses measured mastery (ConceptMastery) when available, self-assessment otherwise
      */
     static async identifyWeakConcepts(
         studentId: string,
@@ -728,7 +729,45 @@ export class PredictionEngine {
 
         const weakPoints: WeakPoint[] = []
 
+        // Maîtrise mesurée à partir des réponses corrigées : prioritaire sur l'auto-évaluation
+        const ConceptMastery = mongoose.models.ConceptMastery
+        const measured: any[] = ConceptMastery
+            ? await ConceptMastery.find(query).populate('concept', 'title').lean()
+            : []
+        const measuredIds = new Set<string>()
+
+        for (const record of measured) {
+            const conceptId = record.concept?._id?.toString()
+            if (!conceptId) continue
+            measuredIds.add(conceptId)
+
+            // Tendance : taux de réussite des deux dernières tentatives
+            let trend: WeakPoint['trend'] = 'STABLE'
+            const evidence = record.evidence || []
+            if (evidence.length >= 2) {
+                const rate = (e: any) => e.possible > 0 ? (e.earned / e.possible) * 100 : 0
+                const recent = rate(evidence[evidence.length - 1])
+                const older = rate(evidence[evidence.length - 2])
+
+                if (recent > older + 10) trend = 'IMPROVING'
+                else if (recent < older - 10) trend = 'DECLINING'
+            }
+
+            if (record.mastery < 60) {
+                weakPoints.push({
+                    conceptId,
+                    conceptTitle: record.concept?.title || 'Concept inconnu',
+                    mastery: Math.round(record.mastery),
+                    attempts: evidence.length,
+                    lastAttempt: record.lastEvaluatedAt,
+                    trend
+                })
+            }
+        }
+
         for (const [conceptId, evals] of conceptMap) {
+            if (measuredIds.has(conceptId)) continue
+
             const latest = evals[0]
             const mastery = MASTERY_LEVEL_PERCENTAGES[latest.level as MasteryLevel] || 50
 
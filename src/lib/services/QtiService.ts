@@ -0,0 +1,89 @@
+import * as XLSX from "xlsx"
+import { ExamServiceV2 } from "@/lib/services/ExamServiceV2"
+import { buildQtiItem, buildQtiManifest, buildQtiTest } from "@/lib/qti/export"
+import { readQtiPackage } from "@/lib/qti/import"
+
+const TEST_HREF = "assessmentTest.xml"
+
+/**
+ * Service d'échange de contenu au format IMS QTI 2.1
+ * Export : un paquet zip (manifeste, test et un item par question).
+ * Import : les items reconnus sont créés dans un nouvel examen DRAFT via ExamServiceV2.createExam ;
+ * les items non pris en charge sont listés dans le rapport d'import.
+ */
+export class QtiService {
+    /**
+     * Exporte un examen (questions, options, barème, feedback et médias référencés)
+     */
+    static async exportExam(examId: string, userId: string) {
+        const exam: any = await ExamServiceV2.getExamById(examId, true)
+        if (!exam) throw new Error("Exam not found")
+
+        const ownerId = exam.createdById?._id?.toString() ?? exam.createdById?.toString()
+        if (ownerId !== userId) {
+            throw new Error("Unauthorized: Only the exam author can export it")
+        }
+
+        const questions = [...exam.questions].sort((a: any, b: any) => (a.order ?? 0) - (b.order ?? 0))
+        const items = questions.map(buildQtiItem)
+
+        const zip = XLSX.CFB.utils.cfb_new()
+        XLSX.CFB.utils.cfb_add(zip, "imsmanifest.xml", Buffer.from(buildQtiManifest(exam, TEST_HREF, items)))
+        XLSX.CFB.utils.cfb_add(zip, TEST_HREF, Buffer.from(buildQtiTest(exam, items)))
+        for (const item of items) {
+            XLSX.CFB.utils.cfb_add(zip, item.href, Buffer.from(item.xml))
+        }
+
+        const content: Buffer = XLSX.CFB.write(zip, { fileType: "zip", type: "buffer", compression: true })
+        const slug = exam.title
+            .normalize("NFD")
+            .replace(/[\u0300-\u036f]/g, "")
+            .replace(/[^\w]+/g, "-")
+            .replace(/^-+|-+$/g, "")
+            .toLowerCase()
+
+        return { filename: `${slug || "exam"}-qti.zip`, content }
+    }
+
+    /**
+     * Importe un paquet QTI dans un nouvel examen DRAFT
+     * examData porte les champs de l'examen absents du paquet (matière, niveaux, dates...).
+     */
+    static async importPackage(content: Buffer, examData: any, userId: string) {
+        const { title, duration, questions, report } = readQtiPackage(this.extractXmlFiles(content))
+
+        if (questions.length === 0) {
+            throw new Error("Invalid QTI package: no supported item to import")
+        }
+
+        const exam = await ExamServiceV2.createExam({
+            ...examData,
+            title: examData.title || title,
+            duration: examData.duration ?? duration,
+            questions
+        }, userId)
+
+        return { exam, report }
+    }
+
+    /**
+     * Lit les fichiers XML d'une archive zip (chemin relatif -> contenu)
+     */
+    private static extractXmlFiles(content: Buffer): Map<string, string> {
+        let archive: any
+        try {
+            archive = XLSX.CFB.read(content, { type: "buffer" })
+        } catch {
+            throw new Error("Invalid QTI package: the file is not a zip archive")
+        }
+
+        const files = new Map<string, string>()
+        archive.FullPaths.forEach((fullPath: string, index: number) => {
+            const entry = archive.FileIndex[index]
+            const path = fullPath.replace(/^Root Entry\//, "")
+            if (entry.type !== 2 || !entry.content || !path.toLowerCase().endsWith(".xml")) return
+            files.set(path, Buffer.from(entry.content).toString("utf-8").replace(/^\uFEFF/, ""))
+        })
+        return files
+    }
+}
@@ -0,0 +1,417 @@
+import { IQuestion, QuestionBankVisibility, QuestionConcept, QuestionCompetencyCriterion, QCMConfig, OpenQuestionConfig, NumericConfig, ClozeConfig, MathExpressionConfig } from "@/models/Question"
+import { DifficultyLevel, EvaluationType, ExamStatus, UserRole } from "@/models/enums"
+import mongoose from "mongoose"
+import { QuestionBankRepository, QuestionBankSearchFilters } from "@/lib/repositories/QuestionBankRepository"
+import { ExamRepository } from "@/lib/repositories/ExamRepository"
+import { UserRepository } from "@/lib/repositories/UserRepository"
+import { IUser } from "@/models/User"
+
+// Champs d'une option qui ne sont pas du contenu (identité, statistiques, horodatage)
+const EXCLUDED_OPTION_FIELDS = ['_id', '__v', 'questionId', 'stats', 'createdAt', 'updatedAt']
+
+function omit<T extends object>(doc: T, fields: string[]): Partial<T> {
+    return Object.fromEntries(Object.entries(doc).filter(([key]) => !fields.includes(key))) as Partial<T>
+}
+
+export interface QuestionBankOptionInput {
+    text: string
+    isCorrect?: boolean
+    matchText?: string // MATCHING
+    correctPosition?: number // ORDERING
+    imageUrl?: string
+    explanation?: string
+}
+
+export interface QuestionBankItemInput {
+    text: string
+    type: EvaluationType
+    points?: number
+    difficulty?: DifficultyLevel
+    imageUrl?: string
+    audioUrl?: string
+    timeLimit?: number
+    correctAnswer?: boolean
+    modelAnswer?: string
+    openQuestionConfig?: OpenQuestionConfig
+    qcmConfig?: QCMConfig
+    numericConfig?: NumericConfig
+    mathConfig?: MathExpressionConfig
+    clozeConfig?: ClozeConfig
+    explanation?: string
+    hints?: string[]
+    tags?: string[]
+    concepts?: { concept: string; weight?: number }[]
+    competencyCriteria?: { competency: string; criterionId: string; weight?: number }[]
+    subject: string
+    syllabus?: string
+    concept?: string
+    visibility?: QuestionBankVisibility
+    school?: string
+    options?: QuestionBankOptionInput[]
+}
+
+/**
+ * Service de la banque de questions réutilisables
+ * Les éléments appartiennent à un enseignant et peuvent être partagés avec son établissement.
+ * Les examens reçoivent des copies : modifier un élément n'affecte jamais un examen existant.
+ */
+export class QuestionBankService {
+    /**
+     * Crée un nouvel élément dans la banque
+     */
+    static async createItem(userId: string, input: QuestionBankItemInput) {
+        const bankRepo = new QuestionBankRepository()
+        const user = await this.getTeacher(userId)
+
+        const visibility = input.visibility || QuestionBankVisibility.PRIVATE
+        const school = this.resolveSchool(user, visibility, input.school)
+
+        const item = await bankRepo.createItem({
+            text: input.text,
+            type: input.type,
+            points: input.points ?? 1,
+            difficulty: input.difficulty ?? DifficultyLevel.INTERMEDIATE,
+            imageUrl: input.imageUrl,
+            audioUrl: input.audioUrl,
+            timeLimit: input.timeLimit,
+            correctAnswer: input.correctAnswer,
+            modelAnswer: input.modelAnswer,
+            openQuestionConfig: input.openQuestionConfig,
+            qcmConfig: input.qcmConfig,
+            numericConfig: input.numericConfig,
+            mathConfig: input.mathConfig,
+            clozeConfig: input.clozeConfig,
+            explanation: input.explanation,
+            hints: input.hints || [],
+            tags: input.tags || [],
+            concepts: this.toConcepts(input.concepts),
+            competencyCriteria: this.toCompetencyCriteria(input.competencyCriteria),
+            order: 0,
+            bank: {
+                owner: new mongoose.Types.ObjectId(userId),
+                school,
+                subject: new mongoose.Types.ObjectId(input.subject),
+                syllabus: input.syllabus ? new mongoose.Types.ObjectId(input.syllabus) : undefined,
+                concept: input.concept ? new mongoose.Types.ObjectId(input.concept) : undefined,
+                visibility,
+                version: 1,
+                isArchived: false,
+                usageHistory: []
+            }
+        } as Partial<IQuestion>)
+
+        const options = input.options?.length
+            ? await bankRepo.replaceOptions(item._id, this.prepareOptions(item.type, input.options))
+            : []
+
+        return { item, options }
+    }
+
+    /**
+     * Met à jour un élément de la banque (auteur uniquement)
+     * Chaque modification incrémente la version : seuls les examens construits
+     * après la modification utiliseront le nouveau contenu.
+     */
+    static async updateItem(itemId: string, userId: string, input: Partial<QuestionBankItemInput>) {
+        const bankRepo = new QuestionBankRepository()
+
+        const item = await bankRepo.findItemById(itemId)
+        if (!item || !item.bank) throw new Error("Question bank item not found")
+
+        if (item.bank.owner.toString() !== userId) {
+            throw new Error("Unauthorized: Only the author can edit this question bank item")
+        }
+        if (item.bank.isArchived) {
+            throw new Error("Archived question bank items cannot be edited")
+        }
+
+        const contentFields = [
+            'text', 'type', 'points', 'difficulty', 'imageUrl', 'audioUrl', 'timeLimit',
+            'correctAnswer', 'modelAnswer', 'openQuestionConfig', 'qcmConfig', 'numericConfig', 'mathConfig', 'clozeConfig',
+            'explanation', 'hints', 'tags'
+        ] as const
+
+        for (const field of contentFields) {
+            if (input[field] !== undefined) {
+                item.set(field, input[field])
+            }
+        }
+
+        if (input.concepts !== undefined) item.concepts = this.toConcepts(input.concepts)
+        if (input.competencyCriteria !== undefined) {
+            item.competencyCriteria = this.toCompetencyCriteria(input.competencyCriteria)
+        }
+        if (input.subject) item.bank.subject = new mongoose.Types.ObjectId(input.subject)
+        if (input.syllabus !== undefined) {
+            item.bank.syllabus = input.syllabus ? new mongoose.Types.ObjectId(input.syllabus) : undefined
+        }
+        if (input.concept !== undefined) {
+            item.bank.concept = input.concept ? new mongoose.Types.ObjectId(input.concept) : undefined
+        }
+        if (input.visibility || input.school) {
+            const user = await this.getTeacher(userId)
+            const visibility = input.visibility || item.bank.visibility
+            item.bank.visibility = visibility
+            item.bank.school = this.resolveSchool(user, visibility, input.school || item.bank.school?.toString())
+        }
+
+        item.bank.version += 1
+        await item.save()
+
+        const options = input.options
+            ? await bankRepo.replaceOptions(item._id, this.prepareOptions(item.type, input.options))
+            : await bankRepo.findOptions(item._id)
+
+        return { item, options }
+    }
+
+    /**
+     * Archive un élément (il n'apparaît plus dans la recherche mais reste
+     * référencé par les copies existantes)
+     */
+    static async archiveItem(itemId: string, userId: string) {
+        const bankRepo = new QuestionBankRepository()
+
+        const item = await bankRepo.findItemById(itemId)
+        if (!item || !item.bank) throw new Error("Question bank item not found")
+
+        if (item.bank.owner.toString() !== userId) {
+            throw new Error("Unauthorized: Only the author can archive this question bank item")
+        }
+
+        item.bank.isArchived = true
+        await item.save()
+        return item
+    }
+
+    /**
+     * Récupère un élément avec ses options
+     */
+    static async getItem(itemId: string, userId: string) {
+        const bankRepo = new QuestionBankRepository()
+
+        const item = await bankRepo.findItemById(itemId)
+        if (!item || !item.bank) throw new Error("Question bank item not found")
+
+        await this.checkAccess(item, userId)
+
+        const options = await bankRepo.findOptions(item._id)
+        return { item, options }
+    }
+
+    /**
+     * Recherche dans la banque (éléments personnels et partagés avec l'établissement)
+     */
+    static async searchItems(userId: string, filters: QuestionBankSearchFilters) {
+        const bankRepo = new QuestionBankRepository()
+        const user = await this.getTeacher(userId)
+
+        const schoolIds = (user.schools || []).map(s => s.toString())
+        return bankRepo.search(userId, schoolIds, filters)
+    }
+
+    /**
+     * Historique d'utilisation d'un élément dans les examens
+     */
+    static async getUsageHistory(itemId: string, userId: string) {
+        const bankRepo = new QuestionBankRepository()
+
+        const item = await bankRepo.findItemById(itemId)
+        if (!item || !item.bank) throw new Error("Question bank item not found")
+
+        await this.checkAccess(item, userId)
+
+        const history = await bankRepo.findUsageHistory(itemId)
+        return {
+            currentVersion: item.bank.version,
+            usageHistory: history?.bank?.usageHistory || []
+        }
+    }
+
+    /**
+     * Ajoute des éléments de la banque à un examen en brouillon
+     * Chaque élément est copié dans l'examen avec sa version courante.
+     */
+    static async addItemsToExam(examId: string, itemIds: string[], userId: string) {
+        const examRepo = new ExamRepository()
+        const bankRepo = new QuestionBankRepository()
+
+        const exam = await examRepo.findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam creator can add questions")
+        }
+        if (exam.status !== ExamStatus.DRAFT) {
+            throw new Error("Questions can only be added to draft exams")
+        }
+
+        const items = await bankRepo.findItemsByIds(itemIds)
+        if (items.length !== new Set(itemIds).size) {
+            throw new Error("One or more question bank items not found")
+        }
+
+        const user = await this.getTeacher(userId)
+        for (const item of items) {
+            this.assertCanRead(item, user, userId)
+            if (item.bank!.isArchived) {
+                throw new Error(`Question bank item ${item._id} is archived`)
+            }
+        }
+
+        // Conserver l'ordre demandé et ajouter à la fin de l'examen
+        const itemsById = new Map(items.map(item => [item._id.toString(), item]))
+        let order = await bankRepo.countExamQuestions(examId)
+
+        const created = []
+        for (const itemId of itemIds) {
+            const item = itemsById.get(itemId)
+            if (!item) continue
+            itemsById.delete(itemId)
+
+            const question = await this.copyItemToExam(item, examId, order++, userId)
+            created.push(question)
+        }
+
+        return created
+    }
+
+    /**
+     * Copie un élément de la banque dans un examen et trace l'utilisation
+     */
+    static async copyItemToExam(item: IQuestion, examId: string | mongoose.Types.ObjectId, order: number, userId: string) {
+        const bankRepo = new QuestionBankRepository()
+        if (!item.bank) throw new Error("Question bank item not found")
+
+        const question = await bankRepo.createExamQuestion({
+            examId: new mongoose.Types.ObjectId(examId.toString()),
+            sourceQuestionId: item._id,
+            sourceVersion: item.bank.version,
+            text: item.text,
+            imageUrl: item.imageUrl,
+            audioUrl: item.audioUrl,
+            type: item.type,
+            points: item.points,
+            difficulty: item.difficulty,
+            irt: item.irt,
+            timeLimit: item.timeLimit,
+            correctAnswer: item.correctAnswer,
+            modelAnswer: item.modelAnswer,
+            openQuestionConfig: item.openQuestionConfig,
+            qcmConfig: item.qcmConfig,
+            numericConfig: item.numericConfig,
+            mathConfig: item.mathConfig,
+            clozeConfig: item.clozeConfig,
+            explanation: item.explanation,
+            hints: item.hints,
+            tags: item.tags,
+            // Concepts pondérés de l'élément, à défaut son concept de classement
+            concepts: item.concepts?.length
+                ? item.concepts
+                : item.bank.concept ? [{ concept: item.bank.concept, weight: 1 }] : [],
+            competencyCriteria: item.competencyCriteria,
+            order
+        } as Partial<IQuestion>)
+
+        // Tous les champs de contenu des options (association, classement compris), sans les statistiques
+        const options = await bankRepo.findOptions(item._id)
+        if (options.length > 0) {
+            await bankRepo.replaceOptions(question._id, options.map(opt => omit(opt, EXCLUDED_OPTION_FIELDS)))
+        }
+
+        await bankRepo.pushUsage(item._id, {
+            examId: question.examId!,
+            questionId: question._id,
+            version: item.bank.version,
+            usedBy: new mongoose.Types.ObjectId(userId),
+            usedAt: new Date()
+        })
+
+        return question
+    }
+
+    private static toConcepts(concepts?: { concept: string; weight?: number }[]): QuestionConcept[] {
+        return (concepts || []).map(c => ({
+            concept: new mongoose.Types.ObjectId(c.concept),
+            weight: c.weight ?? 1
+        }))
+    }
+
+    private static toCompetencyCriteria(
+        criteria?: { competency: string; criterionId: string; weight?: number }[]
+    ): QuestionCompetencyCriterion[] {
+        return (criteria || []).map(c => ({
+            competency: new mongoose.Types.ObjectId(c.competency),
+            criterionId: new mongoose.Types.ObjectId(c.criterionId),
+            weight: c.weight ?? 1
+        }))
+    }
+
+    /**
+     * Ordre d'affichage des options ; pour un classement, l'ordre saisi est l'ordre attendu
+     */
+    private static prepareOptions(type: EvaluationType, options: QuestionBankOptionInput[]) {
+        return options.map((opt, index) => ({
+            ...opt,
+            isCorrect: opt.isCorrect ?? false,
+            correctPosition: type === EvaluationType.ORDERING ? opt.correctPosition ?? index : opt.correctPosition,
+            order: index
+        }))
+    }
+
+    /**
+     * Vérifie que l'utilisateur peut consulter un élément
+     */
+    private static async checkAccess(item: IQuestion, userId: string) {
+        const user = await this.getTeacher(userId)
+        this.assertCanRead(item, user, userId)
+    }
+
+    private static assertCanRead(item: Pick<IQuestion, 'bank'>, user: IUser, userId: string) {
+        const bank = item.bank
+        if (!bank) throw new Error("Question bank item not found")
+        if (bank.owner.toString() === userId) return
+
+        const userSchools = (user.schools || []).map(s => s.toString())
+        const sharedWithUser = bank.visibility === QuestionBankVisibility.SCHOOL
+            && bank.school
+            && userSchools.includes(bank.school.toString())
+
+        if (!sharedWithUser) {
+            throw new Error("Unauthorized: This question bank item is not shared with you")
+        }
+    }
+
+    private static async getTeacher(userId: string) {
+        const userRepo = new UserRepository()
+        const user = await userRepo.findById(userId)
+        if (!user) throw new Error("User not found")
+        if (user.role !== UserRole.TEACHER) {
+            throw new Error("Unauthorized: Only teachers can use the question bank")
+        }
+        return user
+    }
+
+    /**
+     * Détermine l'établissement de partage d'un élément
+     */
+    private static resolveSchool(user: IUser, visibility: QuestionBankVisibility, schoolId?: string) {
+        const userSchools = (user.schools || []).map(s => s.toString())
+
+        if (schoolId) {
+            if (!userSchools.includes(schoolId)) {
+                throw new Error("Unauthorized: You are not a member of this school")
+            }
+            return new mongoose.Types.ObjectId(schoolId)
+        }
+
+        if (visibility === QuestionBankVisibility.SCHOOL) {
+            if (userSchools.length === 0) {
+                throw new Error("A school is required to share a question bank item")
+            }
+            return new mongoose.Types.ObjectId(userSchools[0])
+        }
+
+        return undefined
+    }
+}
@@ -0,0 +1,83 @@
+import { QuestionTextImportService } from "@/lib/services/QuestionTextImportService"
+import { sanitizeFilename } from "@/lib/security/fileUploadSecurity"
+import { TextParseResult } from "@/lib/questionImport/common"
+import {
+    QuestionSheetRow,
+    buildQuestionTemplate,
+    parseQuestionRows,
+    readQuestionSheet
+} from "@/lib/questionImport/spreadsheet"
+
+/**
+ * Rapport ligne par ligne, sur le modèle de IImportLog (import des élèves)
+ */
+export interface QuestionSpreadsheetReport {
+    fileName?: string
+    fileType?: 'CSV' | 'XLSX'
+    totalRows: number
+    successCount: number // Prévisualisation : lignes valides ; validation : questions créées
+    errorCount: number
+    errorDetails: { row: number; message: string }[]
+}
+
+/**
+ * Service de saisie de questions par tableur (XLSX/CSV)
+ * Étape 1 : l'enseignant télécharge le modèle et le remplit hors ligne.
+ * Étape 2 : preview lit le fichier sans rien enregistrer et renvoie les lignes et les erreurs.
+ * Étape 3 : commit revalide les lignes renvoyées et ajoute les questions valides à l'examen.
+ */
+export class QuestionSpreadsheetService {
+    /**
+     * Modèle vierge avec exemples et instructions
+     */
+    static buildTemplate() {
+        return { filename: "modele-questions.xlsx", content: buildQuestionTemplate() }
+    }
+
+    /**
+     * Lit un fichier et renvoie l'aperçu des questions et les erreurs par ligne
+     */
+    static async preview(examId: string, content: Buffer, fileName: string, userId: string) {
+        await QuestionTextImportService.getDraftExam(examId, userId)
+
+        const fileType = fileName.toLowerCase().endsWith(".csv") ? "CSV" : "XLSX"
+        const rows = readQuestionSheet(fileType === "CSV" ? content.toString("utf-8") : content)
+        const parsed = parseQuestionRows(rows)
+
+        return {
+            rows,
+            questions: parsed.questions.map(({ line, ...question }) => ({ row: line, ...question })),
+            report: {
+                ...this.report(parsed, parsed.questions.length),
+                fileName: sanitizeFilename(fileName),
+                fileType
+            }
+        }
+    }
+
+    /**
+     * Ajoute à l'examen les questions valides des lignes prévisualisées
+     */
+    static async commit(examId: string, rows: QuestionSheetRow[], userId: string) {
+        const parsed = parseQuestionRows(rows)
+        if (parsed.questions.length === 0) {
+            throw new Error("Invalid spreadsheet: no valid question row to import")
+        }
+
+        const { questions, errors } = await QuestionTextImportService.addQuestionsToExam(examId, parsed.questions, userId)
+        parsed.errors.push(...errors)
+
+        return { questions, report: this.report(parsed, questions.length) }
+    }
+
+    private static report(parsed: TextParseResult, successCount: number): QuestionSpreadsheetReport {
+        return {
+            totalRows: parsed.totalQuestions,
+            successCount,
+            errorCount: parsed.errors.length,
+            errorDetails: parsed.errors
+                .map(error => ({ row: error.line, message: error.message }))
+                .sort((a, b) => a.row - b.row)
+        }
+    }
+}
@@ -0,0 +1,198 @@
+import mongoose from "mongoose"
+import { ExamStatus, EvaluationType } from "@/models/enums"
+import { IQuestion, QuestionBankVisibility } from "@/models/Question"
+import { ExamRepository } from "@/lib/repositories/ExamRepository"
+import { QuestionBankRepository } from "@/lib/repositories/QuestionBankRepository"
+import { QuestionBankService } from "@/lib/services/QuestionBankService"
+import { SECURITY_LIMITS, sanitizeFilename } from "@/lib/security/fileUploadSecurity"
+import {
+    QuestionTextFormat,
+    TextImportError,
+    TextImportedQuestion,
+    TextParseResult,
+    detectQuestionTextFormat
+} from "@/lib/questionImport/common"
+import { parseGift } from "@/lib/questionImport/gift"
+import { parseAiken } from "@/lib/questionImport/aiken"
+
+export interface QuestionTextFile {
+    fileName: string
+    content: string
+    format?: QuestionTextFormat
+}
+
+export interface QuestionBankImportTarget {
+    subject: string
+    syllabus?: string
+    concept?: string
+    visibility?: QuestionBankVisibility
+    school?: string
+}
+
+/**
+ * Rapport d'import, sur le modèle de IImportLog (import des élèves)
+ * errorDetails référence la ligne du fichier source au lieu de la ligne du tableur.
+ */
+export interface QuestionTextImportReport {
+    fileName: string
+    format: QuestionTextFormat
+    totalQuestions: number
+    successCount: number
+    errorCount: number
+    errorDetails: { line: number; title?: string; message: string }[]
+}
+
+/**
+ * Service d'import de questions aux formats texte Moodle (GIFT, Aiken)
+ * Les questions lisibles sont créées dans un examen en brouillon ou dans la banque ;
+ * chaque question rejetée est signalée avec sa ligne dans le fichier.
+ */
+export class QuestionTextImportService {
+    /**
+     * Ajoute les questions d'un fichier à la fin d'un examen en brouillon
+     */
+    static async importIntoExam(examId: string, file: QuestionTextFile, userId: string) {
+        const { parsed, report } = this.parse(file)
+        const { questions, errors } = await this.addQuestionsToExam(examId, parsed.questions, userId)
+        report.errorDetails.push(...errors)
+
+        return { questions, report: this.complete(report, questions.length) }
+    }
+
+    /**
+     * Examen en brouillon appartenant à l'enseignant
+     */
+    static async getDraftExam(examId: string, userId: string) {
+        const exam = await new ExamRepository().findById(examId)
+        if (!exam) throw new Error("Exam not found")
+
+        if (exam.createdById.toString() !== userId) {
+            throw new Error("Unauthorized: Only the exam creator can add questions")
+        }
+        if (exam.status !== ExamStatus.DRAFT) {
+            throw new Error("Questions can only be added to draft exams")
+        }
+        return exam
+    }
+
+    /**
+     * Crée des questions importées à la fin d'un examen en brouillon
+     * Une question refusée par la base n'empêche pas la création des suivantes.
+     */
+    static async addQuestionsToExam(examId: string, importedQuestions: TextImportedQuestion[], userId: string) {
+        const bankRepo = new QuestionBankRepository()
+        await this.getDraftExam(examId, userId)
+
+        let order = await bankRepo.countExamQuestions(examId)
+        const questions = []
+        const errors: TextImportError[] = []
+
+        for (const question of importedQuestions) {
+            try {
+                const createdQuestion = await bankRepo.createExamQuestion({
+                    ...this.content(question),
+                    examId: new mongoose.Types.ObjectId(examId),
+                    hints: [],
+                    tags: question.tags || [],
+                    order: order++
+                } as Partial<IQuestion>)
+
+                if (question.options?.length) {
+                    await bankRepo.replaceOptions(createdQuestion._id, question.options.map((opt, index) => ({
+                        ...opt,
+                        correctPosition: question.type === EvaluationType.ORDERING ? index : undefined,
+                        order: index
+                    })))
+                }
+                questions.push(createdQuestion)
+            } catch (error: any) {
+                console.error(`Error importing question at line ${question.line}:`, error)
+                errors.push({ line: question.line, title: question.title, message: error.message })
+            }
+        }
+
+        return { questions, errors }
+    }
+
+    /**
+     * Crée un élément de la banque par question du fichier
+     */
+    static async importIntoBank(file: QuestionTextFile, target: QuestionBankImportTarget, userId: string) {
+        const { parsed, report } = this.parse(file)
+
+        const items = []
+        for (const question of parsed.questions) {
+            try {
+                const { item } = await QuestionBankService.createItem(userId, {
+                    ...this.content(question),
+                    options: question.options,
+                    ...target
+                })
+                items.push(item)
+            } catch (error: any) {
+                // Les erreurs de compte (enseignant, établissement) concernent tout le fichier
+                if (error.message.includes("Unauthorized") || error.message.includes("not found")) throw error
+                console.error(`Error importing question at line ${question.line}:`, error)
+                report.errorDetails.push({ line: question.line, title: question.title, message: error.message })
+            }
+        }
+
+        return { items, report: this.complete(report, items.length) }
+    }
+
+    /**
+     * Détecte le format puis lit le fichier
+     */
+    private static parse(file: QuestionTextFile) {
+        const format = file.format ?? detectQuestionTextFormat(file.fileName, file.content)
+        if (!format) {
+            throw new Error("Invalid question file: unable to detect the format (GIFT or Aiken)")
+        }
+
+        const parsed: TextParseResult = format === 'GIFT' ? parseGift(file.content) : parseAiken(file.content)
+        if (parsed.totalQuestions === 0) {
+            throw new Error("Invalid question file: no question found")
+        }
+        if (parsed.totalQuestions > SECURITY_LIMITS.MAX_ROWS) {
+            throw new Error(`Invalid question file: too many questions (max ${SECURITY_LIMITS.MAX_ROWS})`)
+        }
+
+        const report: QuestionTextImportReport = {
+            fileName: sanitizeFilename(file.fileName),
+            format,
+            totalQuestions: parsed.totalQuestions,
+            successCount: 0,
+            errorCount: 0,
+            errorDetails: [...parsed.errors]
+        }
+
+        return { parsed, report }
+    }
+
+    /**
+     * Contenu de la question, sans les informations propres au fichier (ligne, titre)
+     */
+    private static content(question: TextImportedQuestion) {
+        return {
+            text: question.text,
+            type: question.type,
+            points: question.points,
+            difficulty: question.difficulty,
+            correctAnswer: question.correctAnswer,
+            modelAnswer: question.modelAnswer,
+            explanation: question.explanation,
+            tags: question.tags,
+            qcmConfig: question.qcmConfig,
+            numericConfig: question.numericConfig,
+            mathConfig: question.mathConfig,
+            clozeConfig: question.clozeConfig
+        }
+    }
+
+    private static complete(report: QuestionTextImportReport, successCount: number) {
+        report.successCount = successCount
+        report.errorDetails.sort((a, b) => a.line - b.line)
+        report.errorCount = report.errorDetails.length
+        return report
+    }
+}
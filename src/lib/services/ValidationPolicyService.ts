@@ -0,0 +1,209 @@
+import mongoose from "mongoose"
+import { IExam, ExamValidationProgress } from "@/models/Exam"
+import { IValidationPolicy } from "@/models/ValidationPolicy"
+import { ContributionType, PedagogicalObjective, UserRole } from "@/models/enums"
+import { ValidationPolicyFilters, ValidationPolicyRepository } from "@/lib/repositories/ValidationPolicyRepository"
+import { UserRepository } from "@/lib/repositories/UserRepository"
+
+export interface ValidationStepInput {
+    name: string
+    order: number
+    roles: UserRole[]
+    requiredContribution?: ContributionType
+    reviewers?: string[]
+    quorum?: number
+    checkScope?: boolean
+}
+
+export interface ValidationPolicyInput {
+    name: string
+    description?: string
+    school?: string
+    subject?: string
+    pedagogicalObjectives?: PedagogicalObjective[]
+    steps: ValidationStepInput[]
+}
+
+// Rôles autorisés à définir des politiques de validation
+const POLICY_MANAGER_ROLES = [UserRole.INSPECTOR, UserRole.SCHOOL_ADMIN, UserRole.PRINCIPAL]
+
+/**
+ * Service des politiques de validation des examens
+ * Une politique décrit le circuit de validation d'un établissement et/ou d'une
+ * matière : étapes ordonnées ou parallèles, rôles des validateurs et quorum.
+ * Les inspecteurs gèrent toutes les politiques ; les chefs d'établissement et
+ * administrateurs scolaires celles de leurs établissements.
+ */
+export class ValidationPolicyService {
+    /**
+     * Crée une politique de validation
+     */
+    static async createPolicy(userId: string, input: ValidationPolicyInput) {
+        const repo = new ValidationPolicyRepository()
+        await this.checkManagerAccess(userId, input.school)
+
+        return repo.create({
+            ...this.toDocument(input),
+            createdBy: new mongoose.Types.ObjectId(userId),
+            isActive: true
+        } as Partial<IValidationPolicy>)
+    }
+
+    /**
+     * Met à jour une politique ; les examens déjà soumis conservent leur circuit
+     */
+    static async updatePolicy(policyId: string, userId: string, input: Partial<ValidationPolicyInput>) {
+        const repo = new ValidationPolicyRepository()
+        const policy = await repo.findById(policyId)
+        if (!policy) throw new Error("Validation policy not found")
+
+        await this.checkManagerAccess(userId, policy.school?.toString())
+        if (input.school !== undefined && input.school !== policy.school?.toString()) {
+            await this.checkManagerAccess(userId, input.school)
+        }
+
+        policy.set(this.toDocument({
+            name: input.name ?? policy.name,
+            description: input.description ?? policy.description,
+            school: input.school ?? policy.school?.toString(),
+            subject: input.subject ?? policy.subject?.toString(),
+            pedagogicalObjectives: input.pedagogicalObjectives ?? policy.pedagogicalObjectives,
+            steps: input.steps ?? policy.steps.map(step => ({
+                name: step.name,
+                order: step.order,
+                roles: step.roles,
+                requiredContribution: step.requiredContribution,
+                reviewers: step.reviewers.map(id => id.toString()),
+                quorum: step.quorum,
+                checkScope: step.checkScope
+            }))
+        }))
+
+        return repo.save(policy)
+    }
+
+    /**
+     * Désactive une politique
+     */
+    static async deactivatePolicy(policyId: string, userId: string) {
+        const repo = new ValidationPolicyRepository()
+        const policy = await repo.findById(policyId)
+        if (!policy) throw new Error("Validation policy not found")
+
+        await this.checkManagerAccess(userId, policy.school?.toString())
+
+        policy.isActive = false
+        return repo.save(policy)
+    }
+
+    /**
+     * Détail d'une politique
+     */
+    static async getPolicy(policyId: string) {
+        const policy = await new ValidationPolicyRepository().findByIdPopulated(policyId)
+        if (!policy) throw new Error("Validation policy not found")
+        return policy
+    }
+
+    /**
+     * Liste des politiques ; hors inspecteurs, limitée aux établissements de l'utilisateur
+     */
+    static async listPolicies(userId: string, userRole: UserRole, filters: ValidationPolicyFilters = {}) {
+        if (userRole !== UserRole.INSPECTOR) {
+            const user = await new UserRepository().findById(userId)
+            if (!user) throw new Error("User not found")
+            filters.schoolIds = (user.schools || []).map(s => s.toString())
+        }
+        return new ValidationPolicyRepository().list(filters)
+    }
+
+    /**
+     * Politique applicable à un examen : la plus spécifique parmi celles de
+     * l'établissement de l'auteur et de la matière de l'examen
+     */
+    static async resolvePolicy(exam: IExam) {
+        const author = await new UserRepository().findById(exam.createdById.toString())
+        const schoolIds = (author?.schools || []).map(s => new mongoose.Types.ObjectId(s.toString()))
+        // La matière est peuplée quand l'examen vient du circuit de validation
+        const subject: mongoose.Types.ObjectId | { _id: mongoose.Types.ObjectId } = exam.subject
+        const subjectId = subject instanceof mongoose.Types.ObjectId ? subject : subject?._id
+
+        const candidates = (await new ValidationPolicyRepository().findCandidates(schoolIds, subjectId))
+            .filter(policy => policy.school || policy.subject)
+            .filter(policy => !policy.pedagogicalObjectives?.length ||
+                policy.pedagogicalObjectives.includes(exam.pedagogicalObjective))
+
+        // Spécificité : établissement + matière > matière > établissement ; un objectif précisé départage
+        const specificity = (policy: typeof candidates[number]) =>
+            (policy.subject ? 2 : 0) + (policy.school ? 1 : 0) + (policy.pedagogicalObjectives?.length ? 0.5 : 0)
+
+        return candidates.sort((a, b) => specificity(b) - specificity(a))[0] ?? null
+    }
+
+    /**
+     * Circuit de validation d'un examen soumis selon une politique
+     */
+    static startProgress(policy: { _id: mongoose.Types.ObjectId; name: string; steps: IValidationPolicy['steps'] }): ExamValidationProgress {
+        return {
+            policy: policy._id,
+            policyName: policy.name,
+            steps: policy.steps.map(step => ({
+                _id: step._id,
+                name: step.name,
+                order: step.order,
+                roles: step.roles,
+                requiredContribution: step.requiredContribution,
+                reviewers: step.reviewers,
+                quorum: step.quorum,
+                checkScope: step.checkScope
+            })),
+            approvals: [],
+            startedAt: new Date()
+        }
+    }
+
+    private static async checkManagerAccess(userId: string, schoolId?: string) {
+        const user = await new UserRepository().findById(userId)
+        if (!user) throw new Error("User not found")
+
+        if (!POLICY_MANAGER_ROLES.includes(user.role as UserRole)) {
+            throw new Error("Unauthorized: Only inspectors and school administrators can manage validation policies")
+        }
+        if (user.role === UserRole.INSPECTOR) return user
+
+        const schools = (user.schools || []).map(s => s.toString())
+        if (!schoolId || !schools.includes(schoolId)) {
+            throw new Error("Unauthorized: School administrators can only manage policies of their schools")
+        }
+        return user
+    }
+
+    private static toDocument(input: ValidationPolicyInput) {
+        if (!input.school && !input.subject) {
+            throw new Error("A validation policy must target a school or a subject")
+        }
+
+        for (const step of input.steps) {
+            if (step.reviewers?.length && (step.quorum ?? 1) > step.reviewers.length) {
+                throw new Error(`Step "${step.name}" requires more approvals than designated reviewers`)
+            }
+        }
+
+        return {
+            name: input.name,
+            description: input.description,
+            school: input.school ? new mongoose.Types.ObjectId(input.school) : undefined,
+            subject: input.subject ? new mongoose.Types.ObjectId(input.subject) : undefined,
+            pedagogicalObjectives: input.pedagogicalObjectives || [],
+            steps: input.steps.map(step => ({
+                name: step.name,
+                order: step.order,
+                roles: step.roles,
+                requiredContribution: step.requiredContribution,
+                reviewers: (step.reviewers || []).map(id => new mongoose.Types.ObjectId(id)),
+                quorum: step.quorum ?? 1,
+                checkScope: step.checkScope ?? true
+            }))
+        }
+    }
+}
@@ -1,3 +1,5 @@
+import type mongoose from "mongoose"
+
 /**
  * Shuffle an array using a seeded random number generator
  * This ensures the same seed always produces the same shuffle order
@@ -34,8 +36,51 @@ export function shuffleWithSeed<T>(array: T[], seed: string): T[] {
  * Shuffle questions for a specific user
  * Each user gets a unique but consistent order
  */
-export function shuffleQuestionsForUser(questions: any[], userId: string, examId: string) {
+export function shuffleQuestionsForUser<T>(questions: T[], userId: string, examId: string) {
     // Create a unique seed for this user + exam combination
     const seed = `${userId}-${examId}`
     return shuffleWithSeed(questions, seed)
 }
+
+/**
+ * Draw questions from a pool according to difficulty rules
+ * Each rule draws `count` questions of the given difficulty; the drawn
+ * questions are then shuffled together so difficulties are interleaved.
+ * Throws if the pool does not contain enough questions for a rule.
+ */
+export function drawQuestionPool<T extends { difficulty?: string }>(
+    questions: T[],
+    rules: { difficulty: string; count: number }[],
+    seed: string
+): T[] {
+    const drawn: T[] = []
+
+    for (const rule of rules) {
+        const candidates = questions.filter(q => q.difficulty === rule.difficulty)
+        if (candidates.length < rule.count) {
+            throw new Error(
+                `Question pool has only ${candidates.length} ${rule.difficulty} question(s), ${rule.count} required`
+            )
+        }
+        drawn.push(...shuffleWithSeed(candidates, `${seed}-${rule.difficulty}`).slice(0, rule.count))
+    }
+
+    return shuffleWithSeed(drawn, seed)
+}
+
+/**
+ * Restrict exam questions to those drawn (pool) or served (adaptive) for an
+ * attempt, in presentation order.
+ * Attempts without a question list (regular exams) see every question.
+ */
+export function questionsForAttempt<T extends { _id: mongoose.Types.ObjectId }>(
+    questions: T[],
+    attempt?: { questionIds?: mongoose.Types.ObjectId[] } | null
+): T[] {
+    if (!attempt?.questionIds) return questions
+
+    const byId = new Map(questions.map(q => [q._id.toString(), q]))
+    return attempt.questionIds
+        .map(id => byId.get(id.toString()))
+        .filter((q): q is T => q !== undefined)
+}
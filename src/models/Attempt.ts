@@ -28,7 +28,77 @@ export enum AntiCheatEventType {
 export interface AntiCheatEvent {
   type: AntiCheatEventType
   timestamp: Date
-  metadata?: any // Données supplémentaires sur l'événement
+  metadata?: Record<string, unknown> // Données supplémentaires sur l'événement
+}
+
+/**
+ * Raison de fin d'un test adaptatif
+ */
+export enum AdaptiveStopReason {
+  MAX_ITEMS = 'MAX_ITEMS',           // Nombre maximum de questions atteint
+  PRECISION = 'PRECISION',           // Erreur standard cible atteinte
+  POOL_EXHAUSTED = 'POOL_EXHAUSTED'  // Plus de questions disponibles
+}
+
+/**
+ * Étape de la trace de compétence (une entrée par question notée)
+ */
+export interface AbilityTraceEntry {
+  questionId: mongoose.Types.ObjectId
+  isCorrect: boolean
+  ability: number // θ estimé après la réponse
+  standardError: number
+  answeredAt: Date
+}
+
+/**
+ * État d'une tentative adaptative (EvaluationType.ADAPTIVE)
+ */
+export interface AdaptiveState {
+  ability: number // Estimation courante de θ
+  standardError: number
+  trace: AbilityTraceEntry[]
+  completed: boolean
+  stopReason?: AdaptiveStopReason
+}
+
+/**
+ * Premier service d'une question à la tentative (point de départ de sa limite de temps)
+ */
+export interface QuestionTiming {
+  questionId: mongoose.Types.ObjectId
+  servedAt: Date
+}
+
+/**
+ * Conversion du résultat selon l'échelle de notation (GradingScale) applicable
+ * Figée à la correction : les bilans restent stables si l'échelle change.
+ */
+export interface AttemptGrade {
+  scale?: mongoose.Types.ObjectId // Ref GradingScale (absent : échelle par défaut du sous-système)
+  scaleName: string
+  mark?: number // Note sur outOf (ex : 13.5 / 20)
+  outOf?: number
+  label?: string // Mention ou lettre
+  gradePoint?: number // Points GPA
+  gradedAt: Date
+}
+
+/**
+ * Déroulement d'une partie de l'examen (IExam.sections) dans une tentative
+ * Les règles de la partie sont copiées au démarrage de la tentative.
+ */
+export interface AttemptSection {
+  sectionId: mongoose.Types.ObjectId
+  questionIds: mongoose.Types.ObjectId[] // Ordre de présentation dans la partie
+  duration: number // En minutes
+  allowBackNavigation: boolean
+  startedAt?: Date
+  expiresAt?: Date
+  completedAt?: Date // Partie quittée ou temps écoulé
+  furthestIndex: number // Position de la question la plus avancée atteinte (-1 : aucune)
+  score?: number
+  maxScore?: number
 }
 
 /**
@@ -48,6 +118,7 @@ export interface IAttempt extends Document {
   _id: mongoose.Types.ObjectId
   examId: mongoose.Types.ObjectId
   userId: mongoose.Types.ObjectId
+  examVersion?: number // Version de l'examen (ExamVersion) au démarrage : clé de correction de référence
 
   // Temporalité
   startedAt: Date
@@ -63,10 +134,17 @@ export interface IAttempt extends Document {
   maxScore?: number // Score maximum possible
   percentage?: number // Pourcentage de réussite
   passed?: boolean // A réussi l'examen (seuil de passage)
+  grade?: AttemptGrade // Note convertie (sur 20, mention, lettre et GPA)
 
   // Sécurité et reprise
   resumeToken: string // Token unique pour reprendre la tentative
 
+  // Questions tirées (examens avec pool) ou servies (examens adaptatifs) - ordre de présentation
+  questionIds?: mongoose.Types.ObjectId[]
+  adaptive?: AdaptiveState
+  sections?: AttemptSection[] // Examens en plusieurs parties : une seule partie active à la fois
+  questionTimings?: QuestionTiming[] // Questions chronométrées déjà servies
+
   // Anti-triche (NOUVEAUX CHAMPS V2)
   antiCheatEvents: AntiCheatEvent[]
   tabSwitchCount: number
@@ -97,6 +175,10 @@ const AttemptSchema = new Schema<IAttempt>(
       required: true,
       index: true
     },
+    examVersion: {
+      type: Number,
+      min: 1
+    },
 
     // Temporalité
     startedAt: {
@@ -140,6 +222,21 @@ const AttemptSchema = new Schema<IAttempt>(
     passed: {
       type: Boolean
     },
+    grade: {
+      type: new Schema<AttemptGrade>(
+        {
+          scale: { type: Schema.Types.ObjectId, ref: 'GradingScale' },
+          scaleName: { type: String, required: true },
+          mark: { type: Number, min: 0 },
+          outOf: { type: Number, min: 0 },
+          label: { type: String },
+          gradePoint: { type: Number, min: 0 },
+          gradedAt: { type: Date, default: Date.now }
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
 
     // Sécurité et reprise
     resumeToken: {
@@ -149,6 +246,61 @@ const AttemptSchema = new Schema<IAttempt>(
       index: true
     },
 
+    // Questions tirées (examens avec pool) ou servies (examens adaptatifs)
+    questionIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Question' }],
+      default: undefined
+    },
+    adaptive: {
+      type: new Schema<AdaptiveState>(
+        {
+          ability: { type: Number, default: 0 },
+          standardError: { type: Number, default: 1 },
+          trace: [
+            {
+              _id: false,
+              questionId: { type: Schema.Types.ObjectId, ref: 'Question', required: true },
+              isCorrect: { type: Boolean, required: true },
+              ability: { type: Number, required: true },
+              standardError: { type: Number, required: true },
+              answeredAt: { type: Date, default: Date.now }
+            }
+          ],
+          completed: { type: Boolean, default: false },
+          stopReason: { type: String, enum: Object.values(AdaptiveStopReason) }
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
+    sections: {
+      type: [
+        new Schema<AttemptSection>(
+          {
+            sectionId: { type: Schema.Types.ObjectId, required: true },
+            questionIds: [{ type: Schema.Types.ObjectId, ref: 'Question' }],
+            duration: { type: Number, required: true },
+            allowBackNavigation: { type: Boolean, default: true },
+            startedAt: { type: Date },
+            expiresAt: { type: Date },
+            completedAt: { type: Date },
+            furthestIndex: { type: Number, default: -1 },
+            score: { type: Number },
+            maxScore: { type: Number }
+          },
+          { _id: false }
+        )
+      ],
+      default: undefined
+    },
+    questionTimings: [
+      {
+        _id: false,
+        questionId: { type: Schema.Types.ObjectId, ref: 'Question', required: true },
+        servedAt: { type: Date, required: true }
+      }
+    ],
+
     // Anti-triche
     antiCheatEvents: [
       {
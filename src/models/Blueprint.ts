@@ -0,0 +1,115 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+import { DifficultyLevel } from './enums'
+
+/**
+ * Ligne d'un tableau de spécification : nombre de questions attendues
+ * pour un concept (ou une unité d'apprentissage) à un niveau de difficulté
+ */
+export interface BlueprintRow {
+    concept?: mongoose.Types.ObjectId // Ref Concept
+    learningUnit?: mongoose.Types.ObjectId // Ref LearningUnit (si aucun concept n'est précisé)
+    difficulty: DifficultyLevel
+    count: number // Nombre de questions
+    points?: number // Points attendus pour la ligne (facultatif)
+}
+
+/**
+ * Tableau de spécification (blueprint) d'un examen
+ *
+ * Décrit la structure attendue d'une épreuve : répartition des questions par
+ * concept/unité et par difficulté, total des points et durée. Un examen qui
+ * référence un blueprint doit le couvrir avant d'être soumis à validation.
+ */
+export interface IBlueprint extends Document {
+    _id: mongoose.Types.ObjectId
+    title: string
+    description?: string
+    subject: mongoose.Types.ObjectId // Ref Subject
+    syllabus?: mongoose.Types.ObjectId // Ref Syllabus
+    targetLevels: mongoose.Types.ObjectId[] // Ref EducationLevel
+    rows: BlueprintRow[]
+    totalPoints: number
+    duration: number // Durée en minutes
+    createdBy: mongoose.Types.ObjectId // Ref User
+    isArchived: boolean
+    createdAt: Date
+    updatedAt: Date
+}
+
+const BlueprintRowSchema = new Schema<BlueprintRow>(
+    {
+        concept: { type: Schema.Types.ObjectId, ref: 'Concept' },
+        learningUnit: { type: Schema.Types.ObjectId, ref: 'LearningUnit' },
+        difficulty: {
+            type: String,
+            enum: Object.values(DifficultyLevel),
+            required: true
+        },
+        count: { type: Number, required: true, min: 1 },
+        points: { type: Number, min: 0 }
+    },
+    { _id: false }
+)
+
+const BlueprintSchema = new Schema<IBlueprint>(
+    {
+        title: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        description: {
+            type: String,
+            trim: true
+        },
+        subject: {
+            type: Schema.Types.ObjectId,
+            ref: 'Subject',
+            required: true
+        },
+        syllabus: {
+            type: Schema.Types.ObjectId,
+            ref: 'Syllabus'
+        },
+        targetLevels: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: 'EducationLevel'
+            }
+        ],
+        rows: {
+            type: [BlueprintRowSchema],
+            default: []
+        },
+        totalPoints: {
+            type: Number,
+            required: true,
+            min: 0
+        },
+        duration: {
+            type: Number,
+            required: true,
+            min: 1
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        isArchived: {
+            type: Boolean,
+            default: false
+        }
+    },
+    {
+        timestamps: true
+    }
+)
+
+// Indexes
+BlueprintSchema.index({ subject: 1, isArchived: 1 })
+BlueprintSchema.index({ createdBy: 1 })
+
+const Blueprint: Model<IBlueprint> = mongoose.models.Blueprint || mongoose.model<IBlueprint>('Blueprint', BlueprintSchema)
+
+export default Blueprint
@@ -0,0 +1,123 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+
+/**
+ * Niveau d'acquisition d'une compétence (APC)
+ */
+export enum CompetencyLevel {
+    NOT_ACQUIRED = 'NOT_ACQUIRED', // Non acquis (NA)
+    IN_PROGRESS = 'IN_PROGRESS',   // En cours d'acquisition (ECA)
+    ACQUIRED = 'ACQUIRED',         // Acquis (A)
+    EXPERT = 'EXPERT'              // Expert (A+)
+}
+
+/**
+ * Score minimal (en %) de chaque niveau, du plus élevé au plus bas
+ * Une compétence est démontrée à partir du niveau ACQUIRED.
+ */
+export const COMPETENCY_LEVEL_THRESHOLDS: { level: CompetencyLevel; minScore: number }[] = [
+    { level: CompetencyLevel.EXPERT, minScore: 90 },
+    { level: CompetencyLevel.ACQUIRED, minScore: 75 },
+    { level: CompetencyLevel.IN_PROGRESS, minScore: 50 },
+    { level: CompetencyLevel.NOT_ACQUIRED, minScore: 0 }
+]
+
+/**
+ * Résultat d'un critère d'évaluation (Competency.assessmentCriteria)
+ */
+export interface CriterionResult {
+    criterionId: mongoose.Types.ObjectId
+    criterion: string
+    weight: number // Poids du critère dans la compétence
+    earned: number // Crédit obtenu sur les questions du critère
+    possible: number
+    score: number // 0-100
+}
+
+/**
+ * Évaluation d'une compétence lors d'une tentative
+ *
+ * score = moyenne des scores des critères évalués, pondérée par leur poids
+ * dans la compétence. Une tentative recorrigée remplace son évaluation.
+ */
+export interface ICompetencyEvaluation extends Document {
+    _id: mongoose.Types.ObjectId
+    student: mongoose.Types.ObjectId // Ref User
+    competency: mongoose.Types.ObjectId // Ref Competency
+    attemptId: mongoose.Types.ObjectId // Ref Attempt
+    examId: mongoose.Types.ObjectId // Ref Exam
+    criteria: CriterionResult[]
+    score: number // 0-100
+    level: CompetencyLevel
+    demonstrated: boolean
+    evaluatedAt: Date
+    createdAt: Date
+    updatedAt: Date
+}
+
+const CriterionResultSchema = new Schema<CriterionResult>(
+    {
+        criterionId: { type: Schema.Types.ObjectId, required: true },
+        criterion: { type: String, trim: true },
+        weight: { type: Number, default: 1, min: 0 },
+        earned: { type: Number, required: true, min: 0 },
+        possible: { type: Number, required: true, min: 0 },
+        score: { type: Number, required: true, min: 0, max: 100 }
+    },
+    { _id: false }
+)
+
+const CompetencyEvaluationSchema = new Schema<ICompetencyEvaluation>(
+    {
+        student: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        competency: {
+            type: Schema.Types.ObjectId,
+            ref: 'Competency',
+            required: true
+        },
+        attemptId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Attempt',
+            required: true
+        },
+        examId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Exam',
+            required: true
+        },
+        criteria: [CriterionResultSchema],
+        score: {
+            type: Number,
+            required: true,
+            min: 0,
+            max: 100
+        },
+        level: {
+            type: String,
+            enum: Object.values(CompetencyLevel),
+            required: true
+        },
+        demonstrated: {
+            type: Boolean,
+            default: false
+        },
+        evaluatedAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    {
+        timestamps: true
+    }
+)
+
+// Indexes
+CompetencyEvaluationSchema.index({ attemptId: 1, competency: 1 }, { unique: true })
+CompetencyEvaluationSchema.index({ student: 1, competency: 1, evaluatedAt: -1 })
+
+const CompetencyEvaluation: Model<ICompetencyEvaluation> = mongoose.models.CompetencyEvaluation || mongoose.model<ICompetencyEvaluation>('CompetencyEvaluation', CompetencyEvaluationSchema)
+
+export default CompetencyEvaluation
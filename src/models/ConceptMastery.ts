@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+
+/**
+ * Contribution d'une tentative corrigée à la maîtrise d'un concept
+ */
+export interface ConceptMasteryEvidence {
+    attemptId: mongoose.Types.ObjectId
+    examId: mongoose.Types.ObjectId
+    earned: number // Crédit obtenu, pondéré par le poids du concept dans chaque question
+    possible: number // Somme des poids des questions du concept
+    questionCount: number
+    evaluatedAt: Date
+}
+
+/**
+ * Maîtrise mesurée d'un concept par un élève
+ *
+ * Calculée à partir des réponses corrigées (et non déclarée comme ConceptEvaluation) :
+ * mastery = 100 × Σ earned / Σ possible sur l'ensemble des tentatives.
+ * Une tentative recorrigée remplace sa contribution précédente.
+ */
+export interface IConceptMastery extends Document {
+    _id: mongoose.Types.ObjectId
+    student: mongoose.Types.ObjectId // Ref User
+    concept: mongoose.Types.ObjectId // Ref Concept
+    syllabus?: mongoose.Types.ObjectId // Ref Syllabus (celui du concept)
+    mastery: number // 0-100
+    earned: number
+    possible: number
+    evidence: ConceptMasteryEvidence[]
+    lastEvaluatedAt: Date
+    createdAt: Date
+    updatedAt: Date
+}
+
+const ConceptMasteryEvidenceSchema = new Schema<ConceptMasteryEvidence>(
+    {
+        attemptId: { type: Schema.Types.ObjectId, ref: 'Attempt', required: true },
+        examId: { type: Schema.Types.ObjectId, ref: 'Exam', required: true },
+        earned: { type: Number, required: true, min: 0 },
+        possible: { type: Number, required: true, min: 0 },
+        questionCount: { type: Number, default: 0 },
+        evaluatedAt: { type: Date, default: Date.now }
+    },
+    { _id: false }
+)
+
+const ConceptMasterySchema = new Schema<IConceptMastery>(
+    {
+        student: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        concept: {
+            type: Schema.Types.ObjectId,
+            ref: 'Concept',
+            required: true
+        },
+        syllabus: {
+            type: Schema.Types.ObjectId,
+            ref: 'Syllabus'
+        },
+        mastery: {
+            type: Number,
+            default: 0,
+            min: 0,
+            max: 100
+        },
+        earned: {
+            type: Number,
+            default: 0
+        },
+        possible: {
+            type: Number,
+            default: 0
+        },
+        evidence: [ConceptMasteryEvidenceSchema],
+        lastEvaluatedAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    {
+        timestamps: true
+    }
+)
+
+// Indexes
+ConceptMasterySchema.index({ student: 1, concept: 1 }, { unique: true })
+ConceptMasterySchema.index({ student: 1, syllabus: 1 })
+
+const ConceptMastery: Model<IConceptMastery> = mongoose.models.ConceptMastery || mongoose.model<IConceptMastery>('ConceptMastery', ConceptMasterySchema)
+
+export default ConceptMastery
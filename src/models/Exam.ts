@@ -5,9 +5,93 @@ import {
     PedagogicalObjective,
     EvaluationType,
     ExamStatus,
+    ExamWorkflowAction,
     LearningMode,
-    CloseMode
+    CloseMode,
+    NegativeMarkingFloor,
+    ContributionType,
+    UserRole
 } from './enums'
+import type { ValidationStep } from './ValidationPolicy'
+
+/**
+ * Transition du workflow de validation et de publication
+ */
+export interface ExamWorkflowTransition {
+    action: ExamWorkflowAction
+    from: ExamStatus
+    to: ExamStatus
+    performedBy?: mongoose.Types.ObjectId // Référence vers User
+    comment?: string // Motif d'un rejet, commentaire de validation...
+    at: Date
+}
+
+/**
+ * Approbation d'une étape de validation
+ */
+export interface ValidationApproval {
+    stepId: mongoose.Types.ObjectId
+    reviewer: mongoose.Types.ObjectId // Référence vers User
+    comment?: string
+    at: Date
+}
+
+/**
+ * Avancement de la validation selon la politique applicable à la soumission
+ * Les étapes sont copiées depuis la politique : la modifier n'affecte pas les revues en cours.
+ */
+export interface ExamValidationProgress {
+    policy: mongoose.Types.ObjectId // Référence vers ValidationPolicy
+    policyName: string
+    steps: ValidationStep[]
+    approvals: ValidationApproval[]
+    startedAt: Date
+}
+
+/**
+ * Partie d'un examen (ex. Partie A : QCM en 30 min, Partie B : problèmes en 90 min)
+ * Les parties se succèdent dans l'ordre, chacune avec son propre chronomètre ;
+ * une partie terminée (ou dont le temps est écoulé) ne peut plus être rouverte.
+ */
+export interface ExamSection {
+    _id: mongoose.Types.ObjectId
+    title: string
+    instructions?: string
+    order: number // 1, 2, 3...
+    duration: number // Durée en minutes
+    points?: number // Barème de la partie : total attendu des points de ses questions
+    shuffleQuestions: boolean
+    shuffleOptions: boolean
+    allowBackNavigation: boolean // false : une question quittée ne peut plus être modifiée
+}
+
+/**
+ * Programmation de la publication et de la clôture d'un examen
+ * La clôture intervient à endTime + config.lateDuration ; l'archivage archiveDelay
+ * heures après la clôture.
+ */
+export interface ExamSchedule {
+    publishAt?: Date // Publication automatique dès que l'examen est VALIDATED et la date atteinte
+    autoClose: boolean
+    autoArchive: boolean // Implique la clôture
+    archiveDelay: number // En heures après la clôture
+    scheduledBy: mongoose.Types.ObjectId // Référence vers User
+}
+
+/**
+ * Fidélité d'un examen (théorie classique des tests)
+ */
+export interface ExamReliability {
+    method: 'KR20' | 'ALPHA' // KR-20 (questions tout ou rien) ou alpha de Cronbach (crédit partiel)
+    coefficient: number // 0-1
+    sem: number // Erreur type de mesure, en points
+    maxScore: number // Points des questions retenues
+    itemCount: number // Questions posées à toutes les tentatives
+    attemptCount: number
+    fitForReuse: boolean // Coefficient suffisant pour réutiliser l'examen
+    examVersion?: number
+    computedAt: Date
+}
 
 /**
  * Interface pour les statistiques d'un examen
@@ -19,6 +103,7 @@ export interface ExamStats {
     averageTime: number // NOUVEAU - Renommé de averageTimeSpent
     passRate: number // Pourcentage de réussite
     lastAttemptDate?: Date // NOUVEAU
+    reliability?: ExamReliability // Calculée après suffisamment de tentatives terminées
 }
 
 /**
@@ -37,6 +122,55 @@ export interface AntiCheatConfig {
     reformulationIntensity?: 'LIGHT' | 'MODERATE' | 'STRONG' // Intensité de la reformulation
 }
 
+/**
+ * Règle de tirage : nombre de questions à tirer pour un niveau de difficulté
+ */
+export interface QuestionPoolRule {
+    difficulty: DifficultyLevel
+    count: number
+}
+
+/**
+ * Tirage aléatoire des questions par tentative
+ * Les questions de l'examen forment le pool ; chaque tentative reçoit un tirage
+ * différent mais équivalent (même nombre de questions par difficulté).
+ */
+export interface QuestionPoolConfig {
+    enabled: boolean
+    rules: QuestionPoolRule[]
+}
+
+/**
+ * Règle d'arrêt des examens adaptatifs (EvaluationType.ADAPTIVE)
+ * Le test s'arrête dès que maxItems questions ont été servies, ou dès que
+ * l'erreur standard de l'estimation passe sous targetStandardError (après minItems).
+ */
+export interface AdaptiveConfig {
+    maxItems: number
+    minItems: number
+    targetStandardError: number
+}
+
+/**
+ * Indices progressifs (IQuestion.hints), pour les évaluations formatives et l'entraînement
+ * Chaque indice révélé retire penaltyPerHint % des points de la question.
+ */
+export interface HintConfig {
+    enabled: boolean
+    penaltyPerHint: number
+}
+
+/**
+ * Notation négative : chaque réponse fausse retire penalty % des points de la question
+ * (IQuestion.wrongAnswerPenalty la remplace pour une question). Une question laissée
+ * blanche ne coûte rien ; le total est ramené à zéro par partie ou sur l'examen.
+ */
+export interface NegativeMarkingConfig {
+    enabled: boolean
+    penalty: number
+    floor: NegativeMarkingFloor
+}
+
 /**
  * Interface pour la configuration de l'examen
  */
@@ -50,6 +184,10 @@ export interface ExamConfig {
     timeBetweenAttempts: number // NOUVEAU - en heures
     enableImmediateFeedback: boolean // Feedback immédiat pour évaluations formatives
     antiCheat: AntiCheatConfig
+    questionPool?: QuestionPoolConfig // Tirage aléatoire des questions par tentative
+    adaptive?: AdaptiveConfig // Règle d'arrêt des examens adaptatifs
+    hints?: HintConfig // Indices progressifs et leur pénalité
+    negativeMarking?: NegativeMarkingConfig // Pénalité des réponses fausses
 
     // Configuration Late Exam (retardataires)
     lateDuration?: number // Durée additionnelle en minutes pour les retardataires
@@ -82,6 +220,7 @@ export interface IExam extends Document {
     targetFields?: mongoose.Types.ObjectId[] // Références vers Field (Séries/Filières)
     targetedCompetencies?: mongoose.Types.ObjectId[] // Références vers Competency
     linkedConcepts?: mongoose.Types.ObjectId[] // Références vers Concept (pour évaluations par concept)
+    blueprint?: mongoose.Types.ObjectId // Référence vers Blueprint (tableau de spécification à couvrir)
 
     // Objectifs pédagogiques (NOUVEAUX CHAMPS V2)
     pedagogicalObjective: PedagogicalObjective
@@ -92,8 +231,9 @@ export interface IExam extends Document {
     // Configuration temporelle
     startTime: Date
     endTime: Date
-    duration: number // Durée en minutes
+    duration: number // Durée en minutes (somme des durées des parties le cas échéant)
     closeMode: CloseMode
+    sections: ExamSection[] // Parties chronométrées, dans l'ordre (vide : examen d'un seul tenant)
 
     // Statut et publication (NOUVEAUX CHAMPS V2)
     status: ExamStatus // DRAFT, PENDING_VALIDATION, VALIDATED, PUBLISHED, ARCHIVED
@@ -102,6 +242,10 @@ export interface IExam extends Document {
     publishedAt?: Date
     validatedBy?: mongoose.Types.ObjectId // Référence vers User (Inspector)
     validatedAt?: Date
+    workflowHistory: ExamWorkflowTransition[] // Transitions de statut, de la plus ancienne à la plus récente
+    validationProgress?: ExamValidationProgress // Circuit de validation en cours (politique à plusieurs étapes)
+    schedule?: ExamSchedule // Publication, clôture et archivage automatiques
+    closedAt?: Date // Clôture : plus aucune tentative ne peut démarrer, même avec un code tardif
 
     // Configuration (NOUVEAUX CHAMPS V2)
     config: ExamConfig
@@ -112,13 +256,15 @@ export interface IExam extends Document {
     // Métadonnées
     createdById: mongoose.Types.ObjectId
     tags: string[] // NOUVEAU
-    version: number // Version du document (pour optimistic locking)
-    previousVersions: mongoose.Types.ObjectId[] // NOUVEAU - Refs vers anciennes versions
+    version: number // Numéro du dernier instantané (ExamVersion), enregistré dans chaque tentative
+    previousVersions: mongoose.Types.ObjectId[] // Instantanés ExamVersion, du plus ancien au plus récent
     createdAt: Date
     updatedAt: Date
 
     // Méthode pour calculer le score total
     getTotalPoints(): Promise<number>
+    // Enregistre une transition de statut (le statut doit déjà être modifié)
+    recordTransition(action: ExamWorkflowAction, from: ExamStatus, userId?: string, comment?: string): void
 }
 
 const ExamSchema = new Schema<IExam>(
@@ -182,6 +328,11 @@ const ExamSchema = new Schema<IExam>(
                 ref: 'Concept'
             }
         ],
+        // Tableau de spécification à couvrir avant la soumission
+        blueprint: {
+            type: Schema.Types.ObjectId,
+            ref: 'Blueprint'
+        },
 
         // Objectifs pédagogiques
         pedagogicalObjective: {
@@ -224,6 +375,18 @@ const ExamSchema = new Schema<IExam>(
             enum: Object.values(CloseMode),
             default: CloseMode.STRICT
         },
+        sections: [
+            {
+                title: { type: String, required: true, trim: true },
+                instructions: { type: String, trim: true },
+                order: { type: Number, required: true, min: 1 },
+                duration: { type: Number, required: true, min: 1 },
+                points: { type: Number, min: 0 },
+                shuffleQuestions: { type: Boolean, default: false },
+                shuffleOptions: { type: Boolean, default: false },
+                allowBackNavigation: { type: Boolean, default: true }
+            }
+        ],
 
         // Statut et publication
         status: {
@@ -249,6 +412,64 @@ const ExamSchema = new Schema<IExam>(
         validatedAt: {
             type: Date
         },
+        workflowHistory: [
+            {
+                _id: false,
+                action: { type: String, enum: Object.values(ExamWorkflowAction), required: true },
+                from: { type: String, enum: Object.values(ExamStatus), required: true },
+                to: { type: String, enum: Object.values(ExamStatus), required: true },
+                performedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+                comment: { type: String, trim: true },
+                at: { type: Date, default: Date.now }
+            }
+        ],
+        validationProgress: {
+            type: new Schema<ExamValidationProgress>(
+                {
+                    policy: { type: Schema.Types.ObjectId, ref: 'ValidationPolicy', required: true },
+                    policyName: { type: String },
+                    steps: [
+                        {
+                            name: { type: String, required: true },
+                            order: { type: Number, required: true },
+                            roles: [{ type: String, enum: Object.values(UserRole) }],
+                            requiredContribution: { type: String, enum: Object.values(ContributionType) },
+                            reviewers: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+                            quorum: { type: Number, default: 1 },
+                            checkScope: { type: Boolean, default: true }
+                        }
+                    ],
+                    approvals: [
+                        {
+                            _id: false,
+                            stepId: { type: Schema.Types.ObjectId, required: true },
+                            reviewer: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+                            comment: { type: String, trim: true },
+                            at: { type: Date, default: Date.now }
+                        }
+                    ],
+                    startedAt: { type: Date, default: Date.now }
+                },
+                { _id: false }
+            ),
+            default: undefined
+        },
+        schedule: {
+            type: new Schema<ExamSchedule>(
+                {
+                    publishAt: { type: Date },
+                    autoClose: { type: Boolean, default: false },
+                    autoArchive: { type: Boolean, default: false },
+                    archiveDelay: { type: Number, default: 0, min: 0 },
+                    scheduledBy: { type: Schema.Types.ObjectId, ref: 'User', required: true }
+                },
+                { _id: false }
+            ),
+            default: undefined
+        },
+        closedAt: {
+            type: Date
+        },
 
         // Configuration
         config: {
@@ -345,6 +566,75 @@ const ExamSchema = new Schema<IExam>(
             delayResultsUntilLateEnd: {
                 type: Boolean,
                 default: true // Par défaut, cacher résultats jusqu'à fin de la période late
+            },
+            // Tirage aléatoire des questions par tentative
+            questionPool: {
+                enabled: {
+                    type: Boolean,
+                    default: false
+                },
+                rules: [
+                    {
+                        _id: false,
+                        difficulty: {
+                            type: String,
+                            enum: Object.values(DifficultyLevel),
+                            required: true
+                        },
+                        count: {
+                            type: Number,
+                            required: true,
+                            min: 1
+                        }
+                    }
+                ]
+            },
+            // Règle d'arrêt des examens adaptatifs
+            adaptive: {
+                maxItems: {
+                    type: Number,
+                    default: 20,
+                    min: 1
+                },
+                minItems: {
+                    type: Number,
+                    default: 5,
+                    min: 1
+                },
+                targetStandardError: {
+                    type: Number,
+                    default: 0.3,
+                    min: 0
+                }
+            },
+            // Indices progressifs (évaluations formatives et entraînement)
+            hints: {
+                enabled: {
+                    type: Boolean,
+                    default: true
+                },
+                penaltyPerHint: {
+                    type: Number,
+                    default: 10,
+                    min: 0,
+                    max: 100
+                }
+            },
+            // Notation négative (examens blancs reproduisant un barème officiel)
+            negativeMarking: {
+                type: new Schema<NegativeMarkingConfig>(
+                    {
+                        enabled: { type: Boolean, default: true },
+                        penalty: { type: Number, required: true, min: 0, max: 100 },
+                        floor: {
+                            type: String,
+                            enum: Object.values(NegativeMarkingFloor),
+                            default: NegativeMarkingFloor.EXAM
+                        }
+                    },
+                    { _id: false }
+                ),
+                default: undefined
             }
         },
 
@@ -372,6 +662,23 @@ const ExamSchema = new Schema<IExam>(
             },
             lastAttemptDate: {
                 type: Date
+            },
+            reliability: {
+                type: new Schema<ExamReliability>(
+                    {
+                        method: { type: String, enum: ['KR20', 'ALPHA'], required: true },
+                        coefficient: { type: Number, required: true },
+                        sem: { type: Number, required: true },
+                        maxScore: Number,
+                        itemCount: Number,
+                        attemptCount: Number,
+                        fitForReuse: { type: Boolean, default: false },
+                        examVersion: Number,
+                        computedAt: { type: Date, default: Date.now }
+                    },
+                    { _id: false }
+                ),
+                default: undefined
             }
         },
 
@@ -391,7 +698,7 @@ const ExamSchema = new Schema<IExam>(
         },
         previousVersions: [{
             type: Schema.Types.ObjectId,
-            ref: 'Exam'
+            ref: 'ExamVersion'
         }]
     },
     {
@@ -408,6 +715,7 @@ ExamSchema.index({ createdById: 1, status: 1 }) // Exams d'un teacher
 ExamSchema.index({ 'targetFields': 1 }) // Filtrage par série/filière
 ExamSchema.index({ 'targetedCompetencies': 1 }) // Filtrage par compétence
 ExamSchema.index({ syllabus: 1 }) // Filtrage par syllabus
+ExamSchema.index({ status: 1, 'schedule.publishAt': 1 }) // Publications programmées
 
 // Méthode pour calculer le total des points
 ExamSchema.methods.getTotalPoints = async function (): Promise<number> {
@@ -416,6 +724,23 @@ ExamSchema.methods.getTotalPoints = async function (): Promise<number> {
     return questions.reduce((total, q) => total + (q.points || 1), 0)
 }
 
+// Méthode pour enregistrer une transition du workflow
+ExamSchema.methods.recordTransition = function (
+    action: ExamWorkflowAction,
+    from: ExamStatus,
+    userId?: string,
+    comment?: string
+): void {
+    this.workflowHistory.push({
+        action,
+        from,
+        to: this.status,
+        performedBy: userId ? new mongoose.Types.ObjectId(userId) : undefined,
+        comment,
+        at: new Date()
+    })
+}
+
 const Exam: Model<IExam> = mongoose.models.Exam || mongoose.model<IExam>('Exam', ExamSchema)
 
 export default Exam
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+
+/**
+ * Réponse dans un fil de commentaires de revue
+ */
+export interface IExamReviewReply {
+    _id: mongoose.Types.ObjectId
+    authorId: mongoose.Types.ObjectId // Ref User
+    content: string
+    createdAt: Date
+}
+
+/**
+ * Commentaire de revue d'un examen (validation)
+ *
+ * Ancré sur l'examen ou sur une question précise ; les échanges entre
+ * l'inspecteur et l'auteur sont des réponses au commentaire. Un commentaire
+ * résolu reste visible dans l'historique de la revue.
+ */
+export interface IExamReviewComment extends Document {
+    _id: mongoose.Types.ObjectId
+    examId: mongoose.Types.ObjectId // Ref Exam
+    questionId?: mongoose.Types.ObjectId // Ref Question (absent : commentaire sur l'examen)
+    authorId: mongoose.Types.ObjectId // Ref User
+    content: string
+    examVersion?: number // Version de l'examen commentée
+    replies: IExamReviewReply[]
+    isResolved: boolean
+    resolvedBy?: mongoose.Types.ObjectId
+    resolvedAt?: Date
+    createdAt: Date
+    updatedAt: Date
+}
+
+const ExamReviewReplySchema = new Schema<IExamReviewReply>(
+    {
+        authorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        content: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 5000
+        },
+        createdAt: {
+            type: Date,
+            default: Date.now
+        }
+    },
+    { _id: true }
+)
+
+const ExamReviewCommentSchema = new Schema<IExamReviewComment>(
+    {
+        examId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Exam',
+            required: true
+        },
+        questionId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Question'
+        },
+        authorId: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        },
+        content: {
+            type: String,
+            required: true,
+            trim: true,
+            maxlength: 5000
+        },
+        examVersion: {
+            type: Number
+        },
+        replies: [ExamReviewReplySchema],
+        isResolved: {
+            type: Boolean,
+            default: false
+        },
+        resolvedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User'
+        },
+        resolvedAt: {
+            type: Date
+        }
+    },
+    {
+        timestamps: true
+    }
+)
+
+// Indexes
+ExamReviewCommentSchema.index({ examId: 1, createdAt: 1 })
+ExamReviewCommentSchema.index({ examId: 1, questionId: 1 })
+
+const ExamReviewComment: Model<IExamReviewComment> = mongoose.models.ExamReviewComment || mongoose.model<IExamReviewComment>('ExamReviewComment', ExamReviewCommentSchema)
+
+export default ExamReviewComment
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+import type { IExam } from './Exam'
+import type { IQuestion } from './Question'
+import type { IOption } from './Option'
+
+/**
+ * Champs enregistrés d'un document (les champs hors contenu sont omis)
+ */
+type SnapshotFields<T> = Partial<Omit<T, keyof Document>>
+
+/**
+ * Option figée dans un instantané
+ */
+export type ExamVersionOption = SnapshotFields<IOption> & { _id: mongoose.Types.ObjectId }
+
+/**
+ * Question figée dans un instantané, avec ses options
+ * Les identifiants d'origine sont conservés pour comparer les versions et relire les réponses.
+ */
+export interface ExamVersionQuestion extends SnapshotFields<IQuestion> {
+    _id: mongoose.Types.ObjectId
+    options: ExamVersionOption[]
+}
+
+/**
+ * Instantané immuable d'un examen (champs, questions et options)
+ *
+ * Créé à chaque enregistrement d'un examen hors brouillon ; `version` est le numéro
+ * porté par l'examen au moment de l'instantané et enregistré dans chaque tentative.
+ *
+ * @example
+ * ```typescript
+ * const snapshot = await ExamVersion.findOne({ examId, version: attempt.examVersion })
+ * ```
+ */
+export interface IExamVersion extends Document {
+    _id: mongoose.Types.ObjectId
+    examId: mongoose.Types.ObjectId
+    version: number
+    exam: SnapshotFields<IExam> // Champs de l'examen (sans statistiques ni cycle de vie)
+    questions: ExamVersionQuestion[]
+    createdBy?: mongoose.Types.ObjectId
+    reason?: string // Action à l'origine de l'instantané (update, publish, restore...)
+    createdAt: Date
+}
+
+const ExamVersionSchema = new Schema<IExamVersion>(
+    {
+        examId: {
+            type: Schema.Types.ObjectId,
+            ref: 'Exam',
+            required: true,
+            immutable: true
+        },
+        version: {
+            type: Number,
+            required: true,
+            min: 1,
+            immutable: true
+        },
+        exam: {
+            type: Schema.Types.Mixed,
+            required: true,
+            immutable: true
+        },
+        questions: {
+            type: Schema.Types.Mixed, // ExamVersionQuestion[]
+            default: [],
+            immutable: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            immutable: true
+        },
+        reason: {
+            type: String,
+            trim: true,
+            immutable: true
+        }
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        minimize: false
+    }
+)
+
+// Un instantané ne se modifie pas : toute mise à jour est refusée
+const rejectUpdate = function () {
+    throw new Error('Exam versions are immutable')
+}
+ExamVersionSchema.pre('updateOne', rejectUpdate)
+ExamVersionSchema.pre('updateMany', rejectUpdate)
+ExamVersionSchema.pre('findOneAndUpdate', rejectUpdate)
+ExamVersionSchema.pre('replaceOne', rejectUpdate)
+ExamVersionSchema.pre('save', function () {
+    if (!this.isNew) throw new Error('Exam versions are immutable')
+})
+
+// Indexes
+ExamVersionSchema.index({ examId: 1, version: 1 }, { unique: true })
+
+const ExamVersion: Model<IExamVersion> = mongoose.models.ExamVersion || mongoose.model<IExamVersion>('ExamVersion', ExamVersionSchema)
+
+export default ExamVersion
@@ -0,0 +1,95 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+import { SubSystem } from './enums'
+
+/**
+ * Palier d'une échelle de notation
+ * S'applique à partir de minPercentage, jusqu'au palier suivant.
+ */
+export interface GradeBand {
+    minPercentage: number // 0-100
+    label: string // Ex : "Assez Bien", "B+"
+    gradePoint?: number // Points GPA (notes lettres)
+}
+
+/**
+ * Échelle de notation d'un établissement et/ou d'un sous-système
+ *
+ * Convertit le pourcentage d'une tentative en note (ex : sur 20) et en palier
+ * (mention ou lettre avec points GPA). L'échelle la plus spécifique s'applique
+ * (établissement + sous-système, puis établissement, puis sous-système) ; à
+ * défaut, l'échelle par défaut du sous-système de l'examen.
+ */
+export interface IGradingScale extends Document {
+    _id: mongoose.Types.ObjectId
+    name: string
+    description?: string
+    school?: mongoose.Types.ObjectId // Ref School (établissement de l'auteur de l'examen)
+    subSystem?: SubSystem
+    markScale?: number // Note ramenée sur ce barème (ex : 20) ; sans barème, pas de note
+    bands: GradeBand[]
+    isActive: boolean
+    createdBy: mongoose.Types.ObjectId // Ref User
+    createdAt: Date
+    updatedAt: Date
+}
+
+const GradeBandSchema = new Schema<GradeBand>(
+    {
+        minPercentage: { type: Number, required: true, min: 0, max: 100 },
+        label: { type: String, required: true, trim: true },
+        gradePoint: { type: Number, min: 0 }
+    },
+    { _id: false }
+)
+
+const GradingScaleSchema = new Schema<IGradingScale>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        description: {
+            type: String,
+            trim: true
+        },
+        school: {
+            type: Schema.Types.ObjectId,
+            ref: 'School'
+        },
+        subSystem: {
+            type: String,
+            enum: Object.values(SubSystem)
+        },
+        markScale: {
+            type: Number,
+            min: 1
+        },
+        bands: {
+            type: [GradeBandSchema],
+            validate: {
+                validator: (bands: GradeBand[]) => bands.length > 0,
+                message: 'A grading scale needs at least one band'
+            }
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        }
+    },
+    {
+        timestamps: true
+    }
+)
+
+// Indexes
+GradingScaleSchema.index({ school: 1, subSystem: 1, isActive: 1 })
+
+const GradingScale: Model<IGradingScale> = mongoose.models.GradingScale || mongoose.model<IGradingScale>('GradingScale', GradingScaleSchema)
+
+export default GradingScale
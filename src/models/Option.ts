@@ -31,6 +31,10 @@ export interface IOption extends Document {
   imageUrl?: string // Pour les options avec image
   isCorrect: boolean
 
+  // Questions d'association et de classement
+  matchText?: string // MATCHING : élément de la colonne B associé à `text`
+  correctPosition?: number // ORDERING : position attendue (0 = premier)
+
   // Aide pédagogique (NOUVEAUX CHAMPS V2)
   explanation?: string // Explication pourquoi cette option est correcte/incorrecte
 
@@ -67,6 +71,16 @@ const OptionSchema = new Schema<IOption>(
       required: true
     },
 
+    // Questions d'association et de classement
+    matchText: {
+      type: String,
+      trim: true
+    },
+    correctPosition: {
+      type: Number,
+      min: 0
+    },
+
     // Aide pédagogique
     explanation: {
       type: String,
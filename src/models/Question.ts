@@ -37,12 +37,148 @@ export interface OpenQuestionConfig {
   caseSensitive?: boolean  // Sensible à la casse pour les mots-clés
 }
 
+/**
+ * Configuration pour les QCM à réponses multiples ("cochez toutes les bonnes réponses")
+ *
+ * Modes de notation :
+ * - all_or_nothing : tous les points si la sélection est exactement l'ensemble des bonnes réponses
+ * - proportional : part des options correctement classées (cochée si correcte, non cochée sinon)
+ * - right_minus_wrong : (bonnes cochées - mauvaises cochées) / nombre de bonnes réponses, plancher à 0
+ */
+export type QCMScoringMode = 'all_or_nothing' | 'proportional' | 'right_minus_wrong'
+
+export interface QCMConfig {
+  multipleAnswers: boolean // Plusieurs options peuvent être sélectionnées
+  scoringMode: QCMScoringMode
+}
+
+/**
+ * Trou d'un texte à trous (EvaluationType.CLOZE)
+ * Repéré dans le texte de la question par {{id}} ; même principe que
+ * OpenQuestionKeyword (mot attendu + synonymes), noté indépendamment.
+ */
+export interface ClozeBlank {
+  id: string // Identifiant du trou, ex: "1" pour {{1}}
+  word: string // Réponse attendue
+  synonyms?: string[] // Autres réponses acceptées
+  weight: number // Poids relatif du trou dans la question
+  caseSensitive: boolean // Respecter majuscules/minuscules
+  ignoreAccents: boolean // Accepter une réponse sans accents
+}
+
+export interface ClozeConfig {
+  blanks: ClozeBlank[]
+}
+
+/**
+ * Unité acceptée avec son facteur de conversion vers l'unité attendue
+ * (ex: { unit: 'km', factor: 1000 } pour une réponse attendue en m)
+ */
+export interface NumericUnitConversion {
+  unit: string
+  factor: number
+}
+
+/**
+ * Configuration des questions à réponse numérique (EvaluationType.NUMERIC)
+ */
+export interface NumericConfig {
+  answer: number // Valeur attendue (exprimée dans `unit`)
+  toleranceType: 'absolute' | 'relative'
+  tolerance: number // Écart absolu, ou fraction de la valeur attendue (0.01 = 1 %)
+  unit?: string // Unité attendue (ex: 'm/s')
+  unitRequired: boolean // Une réponse sans unité est fausse
+  acceptedUnits?: NumericUnitConversion[] // Autres unités acceptées
+  significantFigures?: number // Nombre de chiffres significatifs exigé
+}
+
+/**
+ * Configuration des questions à expression mathématique (EvaluationType.MATH_EXPRESSION)
+ * Toute expression équivalente à `answer` est acceptée (2(x+1) = 2x+2).
+ */
+export interface MathExpressionConfig {
+  answer: string // Expression attendue, ex: "2x+2"
+  requireSimplified: boolean // Une forme équivalente mais non simplifiée est fausse
+  tolerance?: number // Écart relatif admis lors de la comparaison numérique
+}
+
+/**
+ * Paramètres IRT d'une question (modèle logistique à 2 paramètres)
+ * Sans paramètres calibrés, la difficulté est déduite du niveau de la question.
+ */
+export interface IRTParameters {
+  discrimination: number // a - pouvoir discriminant
+  difficulty: number // b - difficulté sur l'échelle de compétence (θ)
+}
+
+/**
+ * Concept mesuré par une question, avec son poids
+ * Les poids sont relatifs : une question notée 2 sur un concept et 1 sur un
+ * autre compte deux fois plus dans la maîtrise du premier.
+ */
+export interface QuestionConcept {
+  concept: mongoose.Types.ObjectId // Ref Concept
+  weight: number
+}
+
+/**
+ * Critère d'évaluation d'une compétence (Competency.assessmentCriteria) mesuré par une question
+ */
+export interface QuestionCompetencyCriterion {
+  competency: mongoose.Types.ObjectId // Ref Competency
+  criterionId: mongoose.Types.ObjectId // _id du critère dans assessmentCriteria
+  weight: number
+}
+
+/**
+ * Visibilité d'un élément de la banque de questions
+ */
+export enum QuestionBankVisibility {
+  PRIVATE = 'PRIVATE', // Visible uniquement par son auteur
+  SCHOOL = 'SCHOOL'    // Partagé avec les enseignants de l'établissement
+}
+
+/**
+ * Trace d'utilisation d'un élément de la banque dans un examen
+ */
+export interface QuestionBankUsage {
+  examId: mongoose.Types.ObjectId
+  questionId: mongoose.Types.ObjectId // Copie créée dans l'examen
+  version: number // Version de l'élément au moment de l'utilisation
+  usedBy: mongoose.Types.ObjectId
+  usedAt: Date
+}
+
+/**
+ * Métadonnées d'une question de la banque (questions sans examId)
+ *
+ * Les examens ne modifient jamais un élément de la banque : ils en reçoivent
+ * une copie (sourceQuestionId/sourceVersion). Une modification de l'élément
+ * incrémente sa version et ne s'applique donc qu'aux examens construits ensuite.
+ */
+export interface QuestionBankInfo {
+  owner: mongoose.Types.ObjectId // Ref User
+  school?: mongoose.Types.ObjectId // Ref School (pour le partage)
+  subject: mongoose.Types.ObjectId // Ref Subject
+  syllabus?: mongoose.Types.ObjectId // Ref Syllabus
+  concept?: mongoose.Types.ObjectId // Ref Concept
+  visibility: QuestionBankVisibility
+  version: number
+  isArchived: boolean
+  usageHistory: QuestionBankUsage[]
+}
+
 /**
  * Interface principale du modèle Question V2
  */
 export interface IQuestion extends Document {
   _id: mongoose.Types.ObjectId
-  examId: mongoose.Types.ObjectId
+  examId?: mongoose.Types.ObjectId // Absent pour les questions de la banque
+
+  // Banque de questions
+  bank?: QuestionBankInfo // Présent uniquement pour les éléments de la banque
+  sourceQuestionId?: mongoose.Types.ObjectId // Élément de la banque d'origine (copie dans un examen)
+  sourceVersion?: number // Version de l'élément de la banque copiée
 
   // Contenu de la question
   text: string
@@ -53,35 +189,91 @@ export interface IQuestion extends Document {
   type: EvaluationType // NOUVEAU
   points: number
   difficulty: DifficultyLevel
+  irt?: IRTParameters // Paramètres pour les examens adaptatifs
   timeLimit?: number // NOUVEAU - Limite de temps spécifique à la question (en secondes)
+  wrongAnswerPenalty?: number // % des points retirés pour une réponse fausse (remplace config.negativeMarking.penalty)
 
   // Réponses (selon le type)
   correctAnswer?: boolean // Pour TRUE_FALSE
   modelAnswer?: string // Pour OPEN_QUESTION
   openQuestionConfig?: OpenQuestionConfig // Configuration avancée pour OPEN_QUESTION
+  qcmConfig?: QCMConfig // Configuration des QCM à réponses multiples
+  numericConfig?: NumericConfig // Pour NUMERIC
+  mathConfig?: MathExpressionConfig // Pour MATH_EXPRESSION
+  clozeConfig?: ClozeConfig // Pour CLOZE
 
   // Aide pédagogique (NOUVEAUX CHAMPS V2)
   explanation?: string // Explication de la réponse correcte
   hints?: string[] // Indices progressifs
   tags?: string[] // Tags pour catégorisation (ex: ["algèbre", "dérivées"])
+  concepts?: QuestionConcept[] // Concepts mesurés (maîtrise par concept)
+  competencyCriteria?: QuestionCompetencyCriterion[] // Critères de compétences mesurés (APC)
 
   // Statistiques (NOUVEAUX CHAMPS V2 - denormalized)
   stats: QuestionStats
 
   // Métadonnées
   order?: number // Ordre d'affichage dans l'examen
+  sectionId?: mongoose.Types.ObjectId // Partie de l'examen (IExam.sections)
   createdAt: Date
   updatedAt: Date
 }
 
+const QuestionBankUsageSchema = new Schema<QuestionBankUsage>(
+  {
+    examId: { type: Schema.Types.ObjectId, ref: 'Exam', required: true },
+    questionId: { type: Schema.Types.ObjectId, ref: 'Question', required: true },
+    version: { type: Number, required: true },
+    usedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    usedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+)
+
+const QuestionBankInfoSchema = new Schema<QuestionBankInfo>(
+  {
+    owner: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    school: { type: Schema.Types.ObjectId, ref: 'School' },
+    subject: { type: Schema.Types.ObjectId, ref: 'Subject', required: true },
+    syllabus: { type: Schema.Types.ObjectId, ref: 'Syllabus' },
+    concept: { type: Schema.Types.ObjectId, ref: 'Concept' },
+    visibility: {
+      type: String,
+      enum: Object.values(QuestionBankVisibility),
+      default: QuestionBankVisibility.PRIVATE
+    },
+    version: { type: Number, default: 1 },
+    isArchived: { type: Boolean, default: false },
+    usageHistory: [QuestionBankUsageSchema]
+  },
+  { _id: false }
+)
+
 const QuestionSchema = new Schema<IQuestion>(
   {
     examId: {
       type: Schema.Types.ObjectId,
       ref: 'Exam',
-      required: true,
+      // Une question appartient à un examen, sauf si c'est un élément de la banque
+      required: function (this: IQuestion) {
+        return !this.bank
+      },
+      index: true
+    },
+
+    // Banque de questions
+    bank: {
+      type: QuestionBankInfoSchema,
+      default: undefined
+    },
+    sourceQuestionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Question',
       index: true
     },
+    sourceVersion: {
+      type: Number
+    },
 
     // Contenu de la question
     text: {
@@ -113,10 +305,19 @@ const QuestionSchema = new Schema<IQuestion>(
       enum: Object.values(DifficultyLevel),
       default: DifficultyLevel.INTERMEDIATE
     },
+    irt: {
+      discrimination: { type: Number, min: 0 },
+      difficulty: { type: Number }
+    },
     timeLimit: {
       type: Number,
       min: 0
     },
+    wrongAnswerPenalty: {
+      type: Number,
+      min: 0,
+      max: 100
+    },
 
     // Réponses
     correctAnswer: {
@@ -148,6 +349,65 @@ const QuestionSchema = new Schema<IQuestion>(
       maxLength: { type: Number, min: 0 },
       caseSensitive: { type: Boolean, default: false }
     },
+    qcmConfig: {
+      multipleAnswers: { type: Boolean, default: false },
+      scoringMode: {
+        type: String,
+        enum: ['all_or_nothing', 'proportional', 'right_minus_wrong'],
+        default: 'all_or_nothing'
+      }
+    },
+    numericConfig: {
+      type: new Schema<NumericConfig>(
+        {
+          answer: { type: Number, required: true },
+          toleranceType: { type: String, enum: ['absolute', 'relative'], default: 'absolute' },
+          tolerance: { type: Number, default: 0, min: 0 },
+          unit: { type: String, trim: true },
+          unitRequired: { type: Boolean, default: false },
+          acceptedUnits: [
+            {
+              _id: false,
+              unit: { type: String, required: true, trim: true },
+              factor: { type: Number, required: true }
+            }
+          ],
+          significantFigures: { type: Number, min: 1 }
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
+    mathConfig: {
+      type: new Schema<MathExpressionConfig>(
+        {
+          answer: { type: String, required: true, trim: true },
+          requireSimplified: { type: Boolean, default: false },
+          tolerance: { type: Number, min: 0 }
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
+    clozeConfig: {
+      type: new Schema<ClozeConfig>(
+        {
+          blanks: [
+            {
+              _id: false,
+              id: { type: String, required: true, trim: true },
+              word: { type: String, required: true, trim: true },
+              synonyms: [{ type: String, trim: true }],
+              weight: { type: Number, default: 1, min: 0 },
+              caseSensitive: { type: Boolean, default: false },
+              ignoreAccents: { type: Boolean, default: false }
+            }
+          ]
+        },
+        { _id: false }
+      ),
+      default: undefined
+    },
 
     // Aide pédagogique
     explanation: {
@@ -167,6 +427,21 @@ const QuestionSchema = new Schema<IQuestion>(
         lowercase: true
       }
     ],
+    concepts: [
+      {
+        _id: false,
+        concept: { type: Schema.Types.ObjectId, ref: 'Concept', required: true },
+        weight: { type: Number, default: 1, min: 0 }
+      }
+    ],
+    competencyCriteria: [
+      {
+        _id: false,
+        competency: { type: Schema.Types.ObjectId, ref: 'Competency', required: true },
+        criterionId: { type: Schema.Types.ObjectId, required: true },
+        weight: { type: Number, default: 1, min: 0 }
+      }
+    ],
 
     // Statistiques
     stats: {
@@ -191,6 +466,9 @@ const QuestionSchema = new Schema<IQuestion>(
     // Métadonnées
     order: {
       type: Number
+    },
+    sectionId: {
+      type: Schema.Types.ObjectId
     }
   },
   {
@@ -202,6 +480,10 @@ const QuestionSchema = new Schema<IQuestion>(
 QuestionSchema.index({ examId: 1, order: 1 }) // Pour récupérer les questions triées
 QuestionSchema.index({ tags: 1 }) // Pour filtrage par tags
 QuestionSchema.index({ difficulty: 1 }) // Pour filtrage par difficulté
+QuestionSchema.index({ 'concepts.concept': 1 }) // Questions mesurant un concept
+QuestionSchema.index({ 'bank.subject': 1, 'bank.syllabus': 1, 'bank.concept': 1, difficulty: 1 }) // Recherche dans la banque
+QuestionSchema.index({ 'bank.owner': 1 }) // Banque personnelle
+QuestionSchema.index({ 'bank.school': 1, 'bank.visibility': 1 }) // Banque partagée de l'établissement
 
 const Question: Model<IQuestion> = mongoose.models.Question || mongoose.model<IQuestion>('Question', QuestionSchema)
 
@@ -1,5 +1,31 @@
 import mongoose, { Schema, Document, Model } from 'mongoose'
 
+/**
+ * Association proposée par l'étudiant (MATCHING)
+ * matchOptionId désigne l'option dont le `matchText` a été associé à optionId
+ */
+export interface ResponseMatch {
+  optionId: mongoose.Types.ObjectId
+  matchOptionId: mongoose.Types.ObjectId
+}
+
+/**
+ * Réponse à un trou d'un texte à trous (CLOZE), avec sa correction
+ */
+export interface ResponseBlankAnswer {
+  blankId: string
+  answer: string
+  isCorrect: boolean
+}
+
+/**
+ * Indice révélé à l'étudiant (IQuestion.hints[index])
+ */
+export interface HintReveal {
+  index: number
+  revealedAt: Date
+}
+
 /**
  * Interface principale du modèle Response V2
  *
@@ -19,7 +45,11 @@ export interface IResponse extends Document {
   attemptId: mongoose.Types.ObjectId
   questionId: mongoose.Types.ObjectId
   selectedOptionId?: mongoose.Types.ObjectId // Optional pour questions non répondues
+  selectedOptionIds?: mongoose.Types.ObjectId[] // Pour les QCM à réponses multiples
   textResponse?: string // NOUVEAU - Pour les questions ouvertes
+  matches?: ResponseMatch[] // Pour MATCHING
+  orderedOptionIds?: mongoose.Types.ObjectId[] // Pour ORDERING (ordre proposé)
+  blankAnswers?: ResponseBlankAnswer[] // Pour CLOZE
 
   // Validation
   isCorrect: boolean
@@ -28,6 +58,10 @@ export interface IResponse extends Document {
   // Temps (NOUVEAUX CHAMPS V2)
   timeSpent?: number // Temps passé sur la question en secondes
   answeredAt?: Date // Timestamp de la réponse
+  timeLimitExceeded?: boolean // Réponse reçue après la limite de temps de la question : notée zéro
+
+  // Indices révélés, dans l'ordre (pénalité à la notation)
+  hintsRevealed?: HintReveal[]
 
   // Métadonnées
   isMarkedForReview?: boolean // Étudiant a marqué pour révision
@@ -53,10 +87,39 @@ const ResponseSchema = new Schema<IResponse>(
       type: Schema.Types.ObjectId,
       ref: 'Option'
     },
+    selectedOptionIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Option'
+    }],
     textResponse: {
       type: String,
       trim: true
     },
+    matches: {
+      type: [
+        {
+          _id: false,
+          optionId: { type: Schema.Types.ObjectId, ref: 'Option', required: true },
+          matchOptionId: { type: Schema.Types.ObjectId, ref: 'Option', required: true }
+        }
+      ],
+      default: undefined
+    },
+    orderedOptionIds: {
+      type: [{ type: Schema.Types.ObjectId, ref: 'Option' }],
+      default: undefined
+    },
+    blankAnswers: {
+      type: [
+        {
+          _id: false,
+          blankId: { type: String, required: true },
+          answer: { type: String, trim: true, default: '' },
+          isCorrect: { type: Boolean, default: false }
+        }
+      ],
+      default: undefined
+    },
 
     // Validation
     isCorrect: {
@@ -77,6 +140,19 @@ const ResponseSchema = new Schema<IResponse>(
     answeredAt: {
       type: Date
     },
+    timeLimitExceeded: {
+      type: Boolean
+    },
+    hintsRevealed: {
+      type: [
+        {
+          _id: false,
+          index: { type: Number, required: true, min: 0 },
+          revealedAt: { type: Date, required: true }
+        }
+      ],
+      default: undefined
+    },
 
     // Métadonnées
     isMarkedForReview: {
@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document, Model } from 'mongoose'
+import { ContributionType, PedagogicalObjective, UserRole } from './enums'
+
+/**
+ * Étape de validation d'une politique
+ *
+ * Les étapes de même rang (order) se déroulent en parallèle ; le rang suivant
+ * ne s'ouvre que lorsque toutes les étapes du rang courant ont atteint leur quorum.
+ */
+export interface ValidationStep {
+    _id: mongoose.Types.ObjectId
+    name: string // Ex : "Chef de département", "Inspecteur pédagogique"
+    order: number
+    roles: UserRole[] // Rôles autorisés à approuver l'étape
+    requiredContribution?: ContributionType // Ex : VALIDATOR (profil pédagogique)
+    reviewers: mongoose.Types.ObjectId[] // Validateurs désignés (vide : tout utilisateur éligible)
+    quorum: number // Nombre d'approbations distinctes requises
+    checkScope: boolean // Vérifier le périmètre d'accès (AccessHandlerChain) des enseignants
+}
+
+/**
+ * Politique de validation des examens d'un établissement et/ou d'une matière
+ *
+ * La politique la plus spécifique s'applique à la soumission d'un examen
+ * (établissement + matière, puis matière, puis établissement). Sans politique,
+ * une seule validation par un inspecteur ou un enseignant habilité suffit.
+ */
+export interface IValidationPolicy extends Document {
+    _id: mongoose.Types.ObjectId
+    name: string
+    description?: string
+    school?: mongoose.Types.ObjectId // Ref School (établissement de l'auteur)
+    subject?: mongoose.Types.ObjectId // Ref Subject
+    pedagogicalObjectives: PedagogicalObjective[] // Objectifs concernés (vide : tous)
+    steps: ValidationStep[]
+    isActive: boolean
+    createdBy: mongoose.Types.ObjectId // Ref User
+    createdAt: Date
+    updatedAt: Date
+}
+
+const ValidationStepSchema = new Schema<ValidationStep>(
+    {
+        name: { type: String, required: true, trim: true },
+        order: { type: Number, required: true, min: 1 },
+        roles: [{ type: String, enum: Object.values(UserRole) }],
+        requiredContribution: { type: String, enum: Object.values(ContributionType) },
+        reviewers: [{ type: Schema.Types.ObjectId, ref: 'User' }],
+        quorum: { type: Number, default: 1, min: 1 },
+        checkScope: { type: Boolean, default: true }
+    },
+    { _id: true }
+)
+
+const ValidationPolicySchema = new Schema<IValidationPolicy>(
+    {
+        name: {
+            type: String,
+            required: true,
+            trim: true
+        },
+        description: {
+            type: String,
+            trim: true
+        },
+        school: {
+            type: Schema.Types.ObjectId,
+            ref: 'School'
+        },
+        subject: {
+            type: Schema.Types.ObjectId,
+            ref: 'Subject'
+        },
+        pedagogicalObjectives: [{
+            type: String,
+            enum: Object.values(PedagogicalObjective)
+        }],
+        steps: {
+            type: [ValidationStepSchema],
+            validate: {
+                validator: (steps: ValidationStep[]) => steps.length > 0,
+                message: 'A validation policy needs at least one step'
+            }
+        },
+        isActive: {
+            type: Boolean,
+            default: true
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true
+        }
+    },
+    {
+        timestamps: true
+    }
+)
+
+// Indexes
+ValidationPolicySchema.index({ school: 1, subject: 1, isActive: 1 })
+
+const ValidationPolicy: Model<IValidationPolicy> = mongoose.models.ValidationPolicy || mongoose.model<IValidationPolicy>('ValidationPolicy', ValidationPolicySchema)
+
+export default ValidationPolicy
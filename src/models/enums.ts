@@ -107,12 +107,22 @@ export enum EvaluationType {
     QCM = 'QCM',                    // Questions à choix multiples
     TRUE_FALSE = 'TRUE_FALSE',      // Vrai/Faux
     OPEN_QUESTION = 'OPEN_QUESTION', // Question ouverte
+    NUMERIC = 'NUMERIC',            // Réponse numérique (tolérance, unité)
+    MATH_EXPRESSION = 'MATH_EXPRESSION', // Expression algébrique (équivalence symbolique)
+    MATCHING = 'MATCHING',          // Associer colonne A et colonne B
+    ORDERING = 'ORDERING',          // Remettre des éléments dans l'ordre
+    CLOZE = 'CLOZE',                // Texte à trous
     CASE_STUDY = 'CASE_STUDY',      // Étude de cas
     EXAM_SIMULATION = 'EXAM_SIMULATION', // Simulation d'examen
     ADAPTIVE = 'ADAPTIVE',          // Évaluation adaptative
     MIXED = 'MIXED'                 // Mixte
 }
 
+export enum NegativeMarkingFloor {
+    EXAM = 'EXAM',          // Le total de l'examen ne descend pas sous zéro
+    SECTION = 'SECTION'     // Le total de chaque partie ne descend pas sous zéro
+}
+
 export enum ExamStatus {
     DRAFT = 'DRAFT',                         // Brouillon
     PENDING_VALIDATION = 'PENDING_VALIDATION', // En attente de validation
@@ -121,6 +131,17 @@ export enum ExamStatus {
     ARCHIVED = 'ARCHIVED'                    // Archivé
 }
 
+export enum ExamWorkflowAction {
+    SUBMIT = 'SUBMIT',               // Soumission pour validation
+    VALIDATE = 'VALIDATE',           // Validation par l'inspecteur
+    REJECT = 'REJECT',               // Rejet / demande de modifications (retour en brouillon)
+    PUBLISH = 'PUBLISH',             // Publication
+    ARCHIVE = 'ARCHIVE',             // Archivage
+    CLOSE = 'CLOSE',                 // Clôture (l'examen reste publié)
+    RESTORE = 'RESTORE',             // Restauration d'une version (retour en brouillon)
+    STATUS_CHANGE = 'STATUS_CHANGE'  // Changement de statut direct par l'auteur
+}
+
 export enum CompetencyType {
     DIGITAL = 'DIGITAL',
     ENTREPRENEURIAL = 'ENTREPRENEURIAL',